@@ -12,14 +12,35 @@ export const messages: LanguageMessages ={
         "GPTModel-description": "You can choose the ChatGPT model. The default value is `gpt-3.5-turbo`.",
         "ollamaAddress-description": "Your Ollama server address. The default value is `http://localhost:11434`.",
         "ollamaModel-description": "The Ollama model name you want to use (e.g., llama2, codellama, mistral).",
+        "ollamaModel-list-description": "Choose one of the models installed on your Ollama server (from `/api/tags`). Run the `Refresh Ollama models` command after pulling new models.",
+        "ollamaNumCtx-description": "Context window size passed to Ollama as `num_ctx`. 0 uses the model default.",
+        "ollamaTemperature-description": "Sampling temperature passed to Ollama (e.g. 0.7). Leave empty to use the model default.",
+        "ollamaKeepAlive-description": "How long Ollama keeps the model loaded after a request (`keep_alive`, e.g. 5m, 1h, -1).",
+        "providerProfiles-description": "Named provider profiles, edited in the settings JSON. Example: `{\"claude\": {\"type\": \"anthropic\", \"apiKey\": \"sk-ant-...\", \"model\": \"claude-3-5-sonnet-latest\"}}`. Supported types: openai, ollama, anthropic, dashscope, azure (Azure also needs `deployment` and `apiVersion`). `openai` and `ollama` are always available from the settings above.",
+        "defaultProviderProfile-description": "Profile used by default. Leave empty to follow `AI Provider`.",
+        "commandProviderProfiles-description": "Pick a profile per command, e.g. `{\"gpt-summary\": \"ollama\", \"gpt\": \"claude\"}`.",
+        "contextBudget-description": "Maximum number of input tokens sent to the model for page and block summaries. 0 derives the budget from the model's context window (Ollama uses `num_ctx`).",
+        "longContentStrategy-description": "What to do when content exceeds the budget: `map-reduce` summarizes chunks and then summarizes the summaries; `truncate` only keeps the beginning.",
+        "semanticIndexEnabled-description": "Keep the semantic index used by `/gpt-ask` up to date as blocks change. Run the `Rebuild semantic index` command once to build the index.",
+        "embeddingProfile-description": "Provider profile used to create embeddings (e.g. `ollama` or `openai`). Leave empty to use the default profile.",
+        "embeddingModel-description": "Embedding model name, e.g. `nomic-embed-text` for Ollama or `text-embedding-3-small` for OpenAI. Leave empty to use the profile's `embeddingModel`.",
+        "semanticTopK-description": "Number of most similar blocks retrieved by `/gpt-ask`.",
+        "promptPageTag-description": "Pages tagged with this tag (e.g. `tags:: ai-prompt`) are loaded as prompts. The page content is the prompt, page properties `model`, `temperature`, `system`, `profile`, `description` and `command` configure it. Each prompt is registered as a slash command and in the command palette; Prompts support template variables: `{{input}}`, `{{block}}`, `{{children}}`, `{{page}}`, `{{page-name}}`, `{{page-properties}}`, `{{selection}}`, `{{date}}`, `{{journal:-7d}}` and `{{query:...}}`. User prompts can also be defined in `prompts.toml` in the plugin storage folder. Run \"Reload AI prompts\" from the command palette after changes.",
         "apiKey-error": "Please set your OpenAI API Key in the plugin configuration.",
         "address-error": "Please set your OpenAI proxy address in the plugin configuration.",
         "ollamaAddress-error": "Please set your Ollama server address in the plugin configuration.",
         "ollamaModel-error": "Please set your Ollama model name in the plugin configuration.",
         "generateAdvancedQuery-description": "Prompt for generating logseq advanced query code, which can be customized.",
         "isTextQuery-description": "Whether to enable word selection query, when enabled, it will query other associated blocks. Note that it may affect the user experience.",
-        "isStreamingOutput-description": "Is stream output enabled for GPT? If enabled, there is a possibility of output failure.",
-        "gpt-summary-description": "Generate a concise summary of the current page content (within 144 characters)."
+        "isStreamingOutput-description": "Is stream output enabled for GPT? Use `/gpt-stop` or the `Stop AI generation` command to stop a reply mid-stream while keeping the text already written.",
+        "gpt-summary-description": "Generate a concise summary of the current page content (within 144 characters).",
+        "isConversationMode-description": "Whether to enable conversation mode. When enabled, /gpt and /aihey send the parent/sibling block chain as a multi-turn thread. AI reply blocks are always marked with `ai-reply:: true` and sent as assistant turns.",
+        "conversationMaxMessages-description": "Maximum number of history messages sent in conversation mode. The default value is 20.",
+        "agentMaxSteps-description": "Maximum number of MCP tool calls the model may make for one request when smart routing decides tools are needed. Each call is written as a collapsed child block. Requires a provider with function calling (OpenAI-compatible or Ollama).",
+        "confirmRouting-description": "Show the smart routing decision (strategy, command, tool, arguments and confidence) before `/gpt-think` and `/aihey` call MCP tools or run a specialized command such as image or video generation. You can run it, run the input as plain chat or pick another command. Corrections are sent to the bridge service and used as examples for later intent analysis.",
+        "graphServerEnabled-description": "Connect to the bridge service so it can serve this graph as an MCP server (tools `search_blocks`, `get_page`, `append_block`, `create_page`, `run_query` and page/journal resources) to external MCP clients over Streamable HTTP (`/mcp`) or stdio. Logseq must stay open while clients use the graph.",
+        "graphServerAllowWrites-description": "Allow external MCP clients to create pages and append blocks (`append_block`, `create_page`). Read-only when disabled.",
+        "bridgeAuthToken-description": "Token required by the bridge service for the graph channel. Copy `graphServer.authToken` from the bridge service's `config.json` (generated on first start)."
     },
     "zh-CN": {
         "aiProvider-description": "选择您的AI提供商：OpenAI 或 Ollama（本地）。",
@@ -28,13 +49,34 @@ export const messages: LanguageMessages ={
         "GPTModel-description": "您可以选择 GPT 模型. 默认使用 `gpt-3.5-turbo`.",
         "ollamaAddress-description": "您的 Ollama 服务器地址. 默认使用 `http://localhost:11434`.",
         "ollamaModel-description": "您要使用的 Ollama 模型名称（例如：llama2, codellama, mistral）。",
+        "ollamaModel-list-description": "从 Ollama 服务器已安装的模型中选择（来自 `/api/tags`）。拉取新模型后可执行 `Refresh Ollama models` 命令刷新列表。",
+        "ollamaNumCtx-description": "传给 Ollama 的上下文长度 `num_ctx`，0 表示使用模型默认值。",
+        "ollamaTemperature-description": "传给 Ollama 的采样温度（例如 0.7），留空使用模型默认值。",
+        "ollamaKeepAlive-description": "请求结束后 Ollama 保持模型加载的时长 `keep_alive`（例如 5m、1h、-1）。",
+        "providerProfiles-description": "命名的 AI 提供商配置，在设置 JSON 中编辑。示例：`{\"claude\": {\"type\": \"anthropic\", \"apiKey\": \"sk-ant-...\", \"model\": \"claude-3-5-sonnet-latest\"}}`。支持的类型：openai、ollama、anthropic、dashscope、azure（Azure 还需要 `deployment` 和 `apiVersion`）。`openai` 和 `ollama` 始终可用，取自上方设置。",
+        "defaultProviderProfile-description": "默认使用的配置名称，留空则跟随 `AI Provider`。",
+        "commandProviderProfiles-description": "为每个命令指定配置，例如 `{\"gpt-summary\": \"ollama\", \"gpt\": \"claude\"}`。",
+        "contextBudget-description": "页面摘要和块摘要发送给模型的最大输入 token 数。0 表示根据模型的上下文窗口自动计算（Ollama 使用 `num_ctx`）。",
+        "longContentStrategy-description": "内容超出预算时的处理方式：`map-reduce` 先分块摘要再汇总；`truncate` 只保留开头部分。",
+        "semanticIndexEnabled-description": "块内容变化时自动增量更新 `/gpt-ask` 使用的语义索引。首次使用请执行 `Rebuild semantic index` 命令建立索引。",
+        "embeddingProfile-description": "生成向量使用的提供商配置（例如 `ollama` 或 `openai`），留空使用默认配置。",
+        "embeddingModel-description": "向量模型名称，例如 Ollama 的 `nomic-embed-text` 或 OpenAI 的 `text-embedding-3-small`。留空使用配置中的 `embeddingModel`。",
+        "semanticTopK-description": "`/gpt-ask` 检索的最相似块数量。",
+        "promptPageTag-description": "带有此标签的页面（如 `tags:: ai-prompt`）会作为提示词加载。页面内容为提示词，页面属性 `model`、`temperature`、`system`、`profile`、`description`、`command` 用于配置。每个提示词会注册为斜杠命令和命令面板项，提示词支持模板变量：`{{input}}`、`{{block}}`、`{{children}}`、`{{page}}`、`{{page-name}}`、`{{page-properties}}`、`{{selection}}`、`{{date}}`、`{{journal:-7d}}`、`{{query:...}}`。也可以在插件存储目录的 `prompts.toml` 中定义用户提示词。修改后请在命令面板执行 \"Reload AI prompts\"。",
         "apiKey-error": "请在插件配置中先设置您的 OpenAI Key",
         "address-error": "请在插件配置中先设置您的 OpenAI 代理地址",
         "ollamaAddress-error": "请在插件配置中先设置您的 Ollama 服务器地址",
         "ollamaModel-error": "请在插件配置中先设置您的 Ollama 模型名称",
         "generateAdvancedQuery-description": "生成 logseq 高级查询代码的提示词，可自行定义.",
         "isTextQuery-description": "是否开启划词查询，当开启后，将会查询其他关联的块。注意可能会影响使用体验。",
-        "isStreamingOutput-description": "是否为 gpt 开启流式输出，如果开启，可能会出现输出失败的情况。",
-        "gpt-summary-description": "生成当前页面内容的简洁摘要（144字以内）。"
+        "isStreamingOutput-description": "是否为 gpt 开启流式输出。输出过程中可使用 `/gpt-stop` 或 `Stop AI generation` 命令停止生成，已输出的内容会保留。",
+        "gpt-summary-description": "生成当前页面内容的简洁摘要（144字以内）。",
+        "isConversationMode-description": "是否开启对话模式，开启后 /gpt 和 /aihey 会把父块/兄弟块链作为多轮对话发送给模型。AI 回复块始终带有 `ai-reply:: true` 标记，作为助手消息发送。",
+        "conversationMaxMessages-description": "对话模式下最多发送的历史消息条数，默认 20 条。",
+        "agentMaxSteps-description": "智能路由判断需要工具时，模型单次请求最多调用 MCP 工具的次数。每次调用会写入一个折叠的子块。需要支持函数调用的提供商（OpenAI 兼容接口或 Ollama）。",
+        "confirmRouting-description": "`/gpt-think` 和 `/aihey` 的智能路由决定调用 MCP 工具或执行生图、生成视频等专门命令时，先显示路由决策（方式、命令、工具、参数和置信度），可以执行、作为普通对话执行或改用其他命令。纠正会发送给桥接服务，作为之后意图分析的示例。",
+        "graphServerEnabled-description": "连接桥接服务，由桥接服务把当前图谱作为 MCP 服务器通过 Streamable HTTP（`/mcp`）或 stdio 提供给外部 MCP 客户端，包括工具 `search_blocks`、`get_page`、`append_block`、`create_page`、`run_query` 以及页面和日志资源。客户端使用期间需要保持 Logseq 打开。",
+        "graphServerAllowWrites-description": "允许外部 MCP 客户端创建页面和追加块（`append_block`、`create_page`），关闭时只读。",
+        "bridgeAuthToken-description": "桥接服务要求图谱通道携带的令牌，从桥接服务 `config.json` 的 `graphServer.authToken` 复制（首次启动时自动生成）。"
     },
 }
\ No newline at end of file
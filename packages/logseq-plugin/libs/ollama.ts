@@ -0,0 +1,224 @@
+import { OpenAIMessage } from './openai';
+
+export interface OllamaOptions {
+    num_ctx?: number;
+    temperature?: number;
+    keep_alive?: string;
+    format?: 'json';
+}
+
+export interface OllamaModelInfo {
+    name: string;
+    model?: string;
+    size?: number;
+    modified_at?: string;
+    details?: {
+        family?: string;
+        parameter_size?: string;
+        quantization_level?: string;
+    };
+}
+
+/**
+ * 解析 Ollama 的 NDJSON 流，每解析出一行 JSON 就回调一次
+ * @param response fetch 返回的流式响应
+ * @param onChunk 每个 JSON 对象的回调
+ */
+export const readNDJSONStream = async(
+    response: Response,
+    onChunk: (chunk: any) => void | Promise<void>
+) => {
+    const reader = response.body?.getReader();
+    if (!reader) {
+        return;
+    }
+    const decoder = new TextDecoder("utf-8");
+    let buffer = "";
+
+    const handleLine = async(line: string) => {
+        if (line.trim() === "") { return; }
+        const chunk = JSON.parse(line);
+        // Ollama 在流中以 {"error": "..."} 返回错误
+        if (chunk.error) {
+            throw new Error(chunk.error);
+        }
+        await onChunk(chunk);
+    }
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) { break; }
+            buffer += decoder.decode(value, { stream: true });
+            let index: number;
+            // 只处理完整的行，不完整的部分留到下一次读取
+            while ((index = buffer.indexOf("\n")) >= 0) {
+                const line = buffer.slice(0, index);
+                buffer = buffer.slice(index + 1);
+                await handleLine(line);
+            }
+        }
+        buffer += decoder.decode();
+        await handleLine(buffer);
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+export class Ollama {
+    private address: string;
+    private model: string;
+    private options: OllamaOptions;
+
+    constructor(address: string, model: string, options: OllamaOptions = {}) {
+        this.address = address.replace(/\/+$/, '');
+        this.model = model;
+        this.options = options;
+    }
+
+    /**
+     * 构建请求体，num_ctx / temperature 放入 options，keep_alive / format 放在顶层
+     */
+    private buildBody = (body: Record<string, any>, overrides?: OllamaOptions) => {
+        const { num_ctx, temperature, keep_alive, format } = { ...this.options, ...overrides };
+        const options: Record<string, number> = {};
+        if (num_ctx) {
+            options.num_ctx = num_ctx;
+        }
+        if (undefined !== temperature && !Number.isNaN(temperature)) {
+            options.temperature = temperature;
+        }
+        return {
+            model: this.model,
+            ...body,
+            ...(Object.keys(options).length > 0 ? { options } : {}),
+            ...(keep_alive ? { keep_alive } : {}),
+            ...(format ? { format } : {}),
+        };
+    }
+
+    private post = async(endpoint: string, body: Record<string, any>, signal?: AbortSignal) => {
+        const response = await fetch(`${this.address}${endpoint}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal
+        });
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Ollama API error (${response.status}): ${errorText}`);
+        }
+        return response;
+    }
+
+    /**
+     * 调用 /api/chat 并携带工具定义（非流式），返回完整的 message（含 tool_calls）
+     */
+    public chatWithTools = async(
+        messages: Array<Record<string, any>>,
+        tools: Array<Record<string, any>>,
+        overrides?: OllamaOptions,
+        signal?: AbortSignal
+    ): Promise<Record<string, any>> => {
+        const response = await this.post('/api/chat', this.buildBody({
+            messages,
+            ...(tools.length > 0 ? { tools } : {}),
+            stream: false,
+        }, overrides), signal);
+        const data = await response.json();
+        return data.message || {};
+    }
+
+    /**
+     * 调用 /api/chat，流式时返回 Response（NDJSON），否则返回回复文本
+     */
+    public chat = async(
+        messages: Array<OpenAIMessage & { images?: string[] }>,
+        is_stream: boolean = true,
+        overrides?: OllamaOptions,
+        signal?: AbortSignal
+    ) => {
+        try {
+            const response = await this.post('/api/chat', this.buildBody({
+                messages,
+                stream: is_stream,
+            }, overrides), signal);
+
+            if (is_stream) {
+                return response;
+            }
+
+            const data = await response.json();
+            return data.message?.content || '';
+        } catch (err: any) {
+            if (err?.name === 'AbortError') {
+                throw err;
+            }
+            throw new Error(err.message);
+        }
+    }
+
+    /**
+     * 调用 /api/generate，流式时返回 Response（NDJSON），否则返回生成文本
+     */
+    public generate = async(
+        prompt: string,
+        is_stream: boolean = true,
+        overrides?: OllamaOptions & { system?: string },
+        signal?: AbortSignal
+    ) => {
+        try {
+            const { system, ...options } = overrides || {};
+            const response = await this.post('/api/generate', this.buildBody({
+                prompt,
+                stream: is_stream,
+                ...(system ? { system } : {}),
+            }, options), signal);
+
+            if (is_stream) {
+                return response;
+            }
+
+            const data = await response.json();
+            return data.response || '';
+        } catch (err: any) {
+            if (err?.name === 'AbortError') {
+                throw err;
+            }
+            throw new Error(err.message);
+        }
+    }
+
+    /**
+     * 调用 /api/embed 生成文本向量
+     */
+    public embed = async(input: string[], model?: string): Promise<number[][]> => {
+        const response = await this.post('/api/embed', {
+            model: model || this.model,
+            input,
+            ...(this.options.keep_alive ? { keep_alive: this.options.keep_alive } : {}),
+        });
+        const data = await response.json();
+        return data.embeddings || [];
+    }
+
+    /**
+     * 调用 /api/tags 获取本地已安装的模型
+     */
+    public listModels = async(): Promise<OllamaModelInfo[]> => {
+        const response = await fetch(`${this.address}/api/tags`);
+        if (!response.ok) {
+            throw new Error(`Ollama API error (${response.status})`);
+        }
+        const data = await response.json();
+        return data.models || [];
+    }
+
+    /**
+     * 调用 /api/show 获取模型详情（参数、模板、上下文长度等）
+     */
+    public showModel = async(name?: string): Promise<any> => {
+        const response = await this.post('/api/show', { name: name || this.model });
+        return await response.json();
+    }
+}
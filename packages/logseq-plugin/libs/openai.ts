@@ -11,71 +11,20 @@ export interface OpenAIMessage {
 
 export const toMessages = (user: string, opts?: {
     assistant?: string, 
-    system?: string
+    system?: string,
+    history?: OpenAIMessage[]
 }) => {
     const messages: OpenAIMessage[] = [];
-    const { assistant, system } = opts || {};
+    const { assistant, system, history } = opts || {};
     if (system) {
         messages.push({role: OpenAIMessagesRole.system, content: system})
     }
+    if (history) {
+        messages.push(...history)
+    }
     if (assistant) {
         messages.push({role: OpenAIMessagesRole.assistant, content: assistant})
     }
     messages.push({role: OpenAIMessagesRole.user, content: user})
     return messages;
 }
-
-export class OpenAI {
-    private apiKey: string;
-    private address: string;
-    private model: string;
-    private isOllama: boolean;
-
-    constructor(apiKey: string, address: string, model: string, isOllama: boolean = false) {
-        this.apiKey = apiKey;
-        this.address = address;
-        this.model = model;
-        this.isOllama = isOllama;
-    }
-
-    public chat = async(
-        messages: OpenAIMessage[],
-        is_stream: boolean = true
-    ) => {
-        try {
-            const url: string = `${this.address}/v1/chat/completions`;
-            
-            // 构建请求头，Ollama不需要Authorization
-            const headers: Record<string, string> = {
-                'Content-Type': 'application/json'
-            };
-            
-            if (!this.isOllama) {
-                headers['Authorization'] = `Bearer ${this.apiKey}`;
-            }
-            
-            const response = await fetch(`${url}`, {
-                method: 'POST',
-                headers,
-                body: JSON.stringify({
-                    "model": this.model,
-                    "messages": messages,
-                    "stream": is_stream,
-                })
-            });
-
-            if (is_stream) {
-                return response;
-            }
-
-            const data = await response.json();
-            if (response.ok) {
-                return data.choices[0].message.content;
-            } else {
-                throw new Error(data.message);
-            }
-        } catch (err: any) {
-            throw new Error(err.message);
-        }
-    }
-}
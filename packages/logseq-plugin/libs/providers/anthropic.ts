@@ -0,0 +1,115 @@
+import { ChatMessage, ChatOptions, LLMProvider, ProviderProfile } from './types';
+import { readSSEStream, ensureOk } from './sse';
+
+/**
+ * Anthropic Messages API（/v1/messages）
+ */
+export class AnthropicProvider implements LLMProvider {
+    public readonly profile: ProviderProfile;
+    public readonly capabilities = { vision: true, embeddings: false, tools: false };
+
+    constructor(profile: ProviderProfile) {
+        this.profile = profile;
+    }
+
+    private get baseUrl(): string {
+        return (this.profile.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+    }
+
+    private headers(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'x-api-key': this.profile.apiKey || '',
+            'anthropic-version': this.profile.apiVersion || '2023-06-01',
+            // 插件运行在浏览器环境中，需要显式允许直接调用
+            'anthropic-dangerous-direct-browser-access': 'true'
+        };
+    }
+
+    /**
+     * 把图片转换为 Anthropic 的 image content block
+     */
+    private toImageBlock(image: string) {
+        const match = image.match(/^data:([^;]+);base64,(.*)$/);
+        if (match) {
+            return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } };
+        }
+        return { type: 'image', source: { type: 'url', url: image } };
+    }
+
+    /**
+     * system 消息单独放在 system 字段，其余消息转为 Messages 格式
+     */
+    private buildBody(messages: ChatMessage[], stream: boolean, opts?: ChatOptions) {
+        const system = messages
+            .filter((message) => message.role === 'system')
+            .map((message) => message.content)
+            .join('\n\n');
+        const conversation = messages
+            .filter((message) => message.role !== 'system')
+            .map(({ role, content, images }) => ({
+                role,
+                content: images && images.length > 0
+                    ? [...images.map((image) => this.toImageBlock(image)), { type: 'text', text: content }]
+                    : content
+            }));
+
+        return {
+            model: opts?.model || this.profile.model,
+            max_tokens: opts?.maxTokens || this.profile.options?.max_tokens || 4096,
+            messages: conversation,
+            stream,
+            ...(system ? { system } : {}),
+            ...(undefined !== opts?.temperature ? { temperature: opts.temperature } : {}),
+        };
+    }
+
+    public chat = async(messages: ChatMessage[], opts?: ChatOptions): Promise<string> => {
+        const response = await ensureOk(await fetch(`${this.baseUrl}/v1/messages`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(this.buildBody(messages, false, opts)),
+            signal: opts?.signal
+        }), 'Anthropic');
+        const data = await response.json();
+        return (data.content || [])
+            .filter((block: any) => block.type === 'text')
+            .map((block: any) => block.text)
+            .join('');
+    }
+
+    public stream = async(
+        messages: ChatMessage[],
+        onDelta: (delta: string, full: string) => void | Promise<void>,
+        opts?: ChatOptions
+    ): Promise<string> => {
+        const response = await ensureOk(await fetch(`${this.baseUrl}/v1/messages`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(this.buildBody(messages, true, opts)),
+            signal: opts?.signal
+        }), 'Anthropic');
+
+        let result = '';
+        // error 事件由 readSSEStream 统一抛出
+        await readSSEStream(response, async (event) => {
+            if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                result += event.delta.text;
+                await onDelta(event.delta.text, result);
+            }
+        });
+        return result;
+    }
+
+    public embeddings = async(): Promise<number[][]> => {
+        throw new Error('Anthropic 不提供向量接口，请为向量功能选择其他提供商');
+    }
+
+    public listModels = async(): Promise<string[]> => {
+        const response = await ensureOk(await fetch(`${this.baseUrl}/v1/models`, {
+            headers: this.headers()
+        }), 'Anthropic');
+        const data = await response.json();
+        return (data.data || []).map((model: any) => model.id);
+    }
+}
@@ -0,0 +1,39 @@
+import { OpenAICompatibleProvider } from './openai-compatible';
+
+/**
+ * Azure OpenAI：按部署名路由，使用 api-key 请求头和 api-version 查询参数
+ */
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+    protected readonly label: string = 'Azure OpenAI';
+
+    private get apiVersion(): string {
+        return this.profile.apiVersion || '2024-06-01';
+    }
+
+    private deploymentUrl(deployment: string, path: string): string {
+        return `${this.baseUrl}/openai/deployments/${encodeURIComponent(deployment)}/${path}?api-version=${this.apiVersion}`;
+    }
+
+    protected chatUrl(): string {
+        return this.deploymentUrl(this.profile.deployment || this.profile.model, 'chat/completions');
+    }
+
+    protected embeddingsUrl(): string {
+        const deployment = this.profile.embeddingDeployment || this.profile.embeddingModel;
+        if (!deployment) {
+            throw new Error('Azure OpenAI 未配置 embeddingDeployment');
+        }
+        return this.deploymentUrl(deployment, 'embeddings');
+    }
+
+    protected modelsUrl(): string {
+        return `${this.baseUrl}/openai/models?api-version=${this.apiVersion}`;
+    }
+
+    protected headers(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'api-key': this.profile.apiKey || ''
+        };
+    }
+}
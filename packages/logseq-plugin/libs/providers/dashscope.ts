@@ -0,0 +1,31 @@
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { ensureOk } from './sse';
+
+/**
+ * 阿里云 DashScope（通义千问），使用其 OpenAI 兼容模式接口
+ */
+export class DashScopeProvider extends OpenAICompatibleProvider {
+    protected readonly label: string = 'DashScope';
+
+    protected get baseUrl(): string {
+        return (this.profile.baseUrl || 'https://dashscope.aliyuncs.com/compatible-mode').replace(/\/+$/, '');
+    }
+
+    public embeddings = async(input: string[], opts?: { model?: string }): Promise<number[][]> => {
+        // DashScope 兼容模式单次最多 10 条文本，分批请求
+        const results: number[][] = [];
+        for (let i = 0; i < input.length; i += 10) {
+            const response = await ensureOk(await fetch(this.embeddingsUrl(), {
+                method: 'POST',
+                headers: this.headers(),
+                body: JSON.stringify({
+                    model: opts?.model || this.profile.embeddingModel || 'text-embedding-v3',
+                    input: input.slice(i, i + 10)
+                })
+            }), this.label);
+            const data = await response.json();
+            results.push(...(data.data || []).map((item: any) => item.embedding));
+        }
+        return results;
+    }
+}
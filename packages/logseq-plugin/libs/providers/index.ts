@@ -0,0 +1,44 @@
+import { LLMProvider, ProviderFactory, ProviderProfile, ProviderType } from './types';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { OllamaProvider } from './ollama';
+import { AnthropicProvider } from './anthropic';
+import { DashScopeProvider } from './dashscope';
+import { AzureOpenAIProvider } from './azure';
+
+const registry = new Map<string, ProviderFactory>();
+
+/**
+ * 注册提供商适配器
+ * @param type 提供商类型
+ * @param factory 根据 profile 创建提供商实例的工厂函数
+ */
+export const registerProvider = (type: string, factory: ProviderFactory) => {
+    registry.set(type, factory);
+}
+
+/**
+ * 根据 profile 创建提供商实例
+ * @param profile 提供商配置
+ */
+export const createProvider = (profile: ProviderProfile): LLMProvider => {
+    const factory = registry.get(profile.type);
+    if (!factory) {
+        throw new Error(`未知的 AI 提供商类型: ${profile.type}（可用: ${getProviderTypes().join(', ')}）`);
+    }
+    return factory(profile);
+}
+
+/**
+ * 已注册的提供商类型
+ */
+export const getProviderTypes = (): string[] => {
+    return Array.from(registry.keys());
+}
+
+registerProvider('openai', (profile) => new OpenAICompatibleProvider(profile));
+registerProvider('ollama', (profile) => new OllamaProvider(profile));
+registerProvider('anthropic', (profile) => new AnthropicProvider(profile));
+registerProvider('dashscope', (profile) => new DashScopeProvider(profile));
+registerProvider('azure', (profile) => new AzureOpenAIProvider(profile));
+
+export type { LLMProvider, ProviderProfile, ProviderType, ChatMessage, ChatOptions, ToolDefinition, ToolCall, ToolChatMessage, ToolChatResult } from './types';
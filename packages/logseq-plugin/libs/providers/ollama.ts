@@ -0,0 +1,100 @@
+import { Ollama, OllamaOptions, readNDJSONStream } from '../ollama';
+import { ChatMessage, ChatOptions, LLMProvider, ProviderProfile, ToolCall, ToolChatMessage, ToolChatResult, ToolDefinition } from './types';
+import { parseToolArguments } from './openai-compatible';
+
+/**
+ * Ollama 原生接口（/api/chat、/api/embed、/api/tags）
+ */
+export class OllamaProvider implements LLMProvider {
+    public readonly profile: ProviderProfile;
+    public readonly capabilities = { vision: true, embeddings: true, tools: true };
+    private client: Ollama;
+
+    constructor(profile: ProviderProfile) {
+        this.profile = profile;
+        this.client = new Ollama(profile.baseUrl || 'http://localhost:11434', profile.model, (profile.options || {}) as OllamaOptions);
+    }
+
+    /**
+     * Ollama 的 images 字段只接受 base64 内容，去掉 data URL 前缀，忽略网络图片
+     */
+    private toRequestMessages(messages: ChatMessage[]) {
+        return messages.map(({ role, content, images }) => {
+            const base64Images = (images || [])
+                .filter((image) => image.startsWith('data:'))
+                .map((image) => image.replace(/^data:[^;]+;base64,/, ''));
+            return base64Images.length > 0 ? { role, content, images: base64Images } : { role, content };
+        });
+    }
+
+    private toOverrides(opts?: ChatOptions): OllamaOptions {
+        return {
+            ...(undefined !== opts?.temperature ? { temperature: opts.temperature } : {}),
+            ...(opts?.format ? { format: opts.format } : {}),
+        };
+    }
+
+    public chat = async(messages: ChatMessage[], opts?: ChatOptions): Promise<string> => {
+        const client = opts?.model ? new Ollama(this.profile.baseUrl || 'http://localhost:11434', opts.model, this.profile.options) : this.client;
+        return await client.chat(this.toRequestMessages(messages), false, this.toOverrides(opts), opts?.signal);
+    }
+
+    public stream = async(
+        messages: ChatMessage[],
+        onDelta: (delta: string, full: string) => void | Promise<void>,
+        opts?: ChatOptions
+    ): Promise<string> => {
+        const client = opts?.model ? new Ollama(this.profile.baseUrl || 'http://localhost:11434', opts.model, this.profile.options) : this.client;
+        const response: Response = await client.chat(this.toRequestMessages(messages), true, this.toOverrides(opts), opts?.signal);
+
+        let result = '';
+        await readNDJSONStream(response, async (chunk) => {
+            const delta: string = chunk.message?.content || '';
+            if (delta) {
+                result += delta;
+                await onDelta(delta, result);
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Ollama 的工具调用：arguments 为对象，tool 消息没有调用 ID
+     */
+    public chatWithTools = async(messages: ToolChatMessage[], tools: ToolDefinition[], opts?: ChatOptions): Promise<ToolChatResult> => {
+        const client = opts?.model ? new Ollama(this.profile.baseUrl || 'http://localhost:11434', opts.model, this.profile.options) : this.client;
+        const requestMessages = messages.map(({ role, content, toolCalls, name }) => {
+            if (role === 'tool') {
+                return { role, content, ...(name ? { tool_name: name } : {}) };
+            }
+            if (toolCalls?.length) {
+                return {
+                    role,
+                    content,
+                    tool_calls: toolCalls.map((call) => ({ function: { name: call.name, arguments: call.arguments } }))
+                };
+            }
+            return { role, content };
+        });
+        const message = await client.chatWithTools(
+            requestMessages,
+            tools.map((tool) => ({ type: 'function', function: tool })),
+            { ...(undefined !== opts?.temperature ? { temperature: opts.temperature } : {}) },
+            opts?.signal
+        );
+        const toolCalls: ToolCall[] = (message.tool_calls || []).map((call: any, index: number) => ({
+            id: `call_${index}`,
+            name: call.function?.name || '',
+            arguments: parseToolArguments(call.function?.arguments)
+        }));
+        return { content: message.content || '', toolCalls };
+    }
+
+    public embeddings = async(input: string[], opts?: { model?: string }): Promise<number[][]> => {
+        return await this.client.embed(input, opts?.model || this.profile.embeddingModel || 'nomic-embed-text');
+    }
+
+    public listModels = async(): Promise<string[]> => {
+        return (await this.client.listModels()).map((model) => model.name);
+    }
+}
@@ -0,0 +1,190 @@
+import { ChatMessage, ChatOptions, LLMProvider, ProviderProfile, ToolCall, ToolChatMessage, ToolChatResult, ToolDefinition } from './types';
+import { readSSEStream, ensureOk } from './sse';
+
+/**
+ * 解析工具调用参数，模型返回的 JSON 不合法时返回空对象
+ */
+export function parseToolArguments(value: any): Record<string, any> {
+    if (value && typeof value === 'object') {
+        return value;
+    }
+    try {
+        const parsed = JSON.parse(value || '{}');
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        console.warn('⚠️ 无法解析工具调用参数:', value);
+        return {};
+    }
+}
+
+/**
+ * OpenAI 兼容接口（/v1/chat/completions），也作为 DashScope、Azure 适配器的基类
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    public readonly profile: ProviderProfile;
+    public readonly capabilities = { vision: true, embeddings: true, tools: true };
+    protected readonly label: string = 'OpenAI';
+
+    constructor(profile: ProviderProfile) {
+        this.profile = profile;
+    }
+
+    protected get baseUrl(): string {
+        return (this.profile.baseUrl || 'https://api.openai.com').replace(/\/+$/, '');
+    }
+
+    protected chatUrl(): string {
+        return `${this.baseUrl}/v1/chat/completions`;
+    }
+
+    protected embeddingsUrl(): string {
+        return `${this.baseUrl}/v1/embeddings`;
+    }
+
+    protected modelsUrl(): string {
+        return `${this.baseUrl}/v1/models`;
+    }
+
+    protected headers(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.profile.apiKey) {
+            headers['Authorization'] = `Bearer ${this.profile.apiKey}`;
+        }
+        return headers;
+    }
+
+    /**
+     * 转换为 OpenAI 消息格式，带图片的消息使用 content parts
+     */
+    protected toRequestMessages(messages: ChatMessage[]) {
+        return messages.map(({ role, content, images }) => {
+            if (!images || images.length === 0) {
+                return { role, content };
+            }
+            return {
+                role,
+                content: [
+                    { type: 'text', text: content },
+                    ...images.map((url) => ({ type: 'image_url', image_url: { url } }))
+                ]
+            };
+        });
+    }
+
+    protected buildBody(messages: ChatMessage[], stream: boolean, opts?: ChatOptions) {
+        return {
+            model: opts?.model || this.profile.model,
+            messages: this.toRequestMessages(messages),
+            stream,
+            ...(undefined !== opts?.temperature ? { temperature: opts.temperature } : {}),
+            ...(opts?.maxTokens ? { max_tokens: opts.maxTokens } : {}),
+            ...(opts?.format === 'json' ? { response_format: { type: 'json_object' } } : {}),
+        };
+    }
+
+    public chat = async(messages: ChatMessage[], opts?: ChatOptions): Promise<string> => {
+        const response = await ensureOk(await fetch(this.chatUrl(), {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(this.buildBody(messages, false, opts)),
+            signal: opts?.signal
+        }), this.label);
+        const data = await response.json();
+        return data.choices?.[0]?.message?.content || '';
+    }
+
+    public stream = async(
+        messages: ChatMessage[],
+        onDelta: (delta: string, full: string) => void | Promise<void>,
+        opts?: ChatOptions
+    ): Promise<string> => {
+        const response = await ensureOk(await fetch(this.chatUrl(), {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(this.buildBody(messages, true, opts)),
+            signal: opts?.signal
+        }), this.label);
+
+        let result = '';
+        await readSSEStream(response, async (chunk) => {
+            const delta: string = chunk.choices?.[0]?.delta?.content || '';
+            if (delta) {
+                result += delta;
+                await onDelta(delta, result);
+            }
+        });
+        return result;
+    }
+
+    /**
+     * 转换为 OpenAI 函数调用的消息格式，arguments 以 JSON 字符串传递
+     */
+    protected toToolRequestMessages(messages: ToolChatMessage[]) {
+        return messages.map(({ role, content, toolCalls, toolCallId }) => {
+            if (role === 'tool') {
+                return { role, content, tool_call_id: toolCallId };
+            }
+            if (toolCalls?.length) {
+                return {
+                    role,
+                    content: content || null,
+                    tool_calls: toolCalls.map((call) => ({
+                        id: call.id,
+                        type: 'function',
+                        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+                    }))
+                };
+            }
+            return { role, content };
+        });
+    }
+
+    public chatWithTools = async(messages: ToolChatMessage[], tools: ToolDefinition[], opts?: ChatOptions): Promise<ToolChatResult> => {
+        const body = {
+            model: opts?.model || this.profile.model,
+            messages: this.toToolRequestMessages(messages),
+            stream: false,
+            ...(tools.length > 0 ? {
+                tools: tools.map((tool) => ({ type: 'function', function: tool })),
+                tool_choice: 'auto'
+            } : {}),
+            ...(undefined !== opts?.temperature ? { temperature: opts.temperature } : {}),
+            ...(opts?.maxTokens ? { max_tokens: opts.maxTokens } : {}),
+        };
+        const response = await ensureOk(await fetch(this.chatUrl(), {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(body),
+            signal: opts?.signal
+        }), this.label);
+        const data = await response.json();
+        const message = data.choices?.[0]?.message || {};
+        const toolCalls: ToolCall[] = (message.tool_calls || []).map((call: any, index: number) => ({
+            id: call.id || `call_${index}`,
+            name: call.function?.name || '',
+            arguments: parseToolArguments(call.function?.arguments)
+        }));
+        return { content: message.content || '', toolCalls };
+    }
+
+    public embeddings = async(input: string[], opts?: { model?: string }): Promise<number[][]> => {
+        const response = await ensureOk(await fetch(this.embeddingsUrl(), {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify({
+                model: opts?.model || this.profile.embeddingModel || 'text-embedding-3-small',
+                input
+            })
+        }), this.label);
+        const data = await response.json();
+        return (data.data || []).map((item: any) => item.embedding);
+    }
+
+    public listModels = async(): Promise<string[]> => {
+        const response = await ensureOk(await fetch(this.modelsUrl(), {
+            headers: this.headers()
+        }), this.label);
+        const data = await response.json();
+        return (data.data || []).map((model: any) => model.id);
+    }
+}
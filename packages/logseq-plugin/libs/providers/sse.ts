@@ -0,0 +1,186 @@
+/**
+ * SSE 事件帧
+ */
+export interface SSEEvent {
+    event: string;
+    data: string;
+    id?: string;
+}
+
+/**
+ * 流中的错误帧（API 返回的 error 事件或 error 字段）
+ */
+export class StreamError extends Error {
+    public readonly payload: any;
+
+    constructor(message: string, payload?: any) {
+        super(message);
+        this.name = 'StreamError';
+        this.payload = payload;
+    }
+}
+
+/**
+ * 增量 SSE 解析器：缓冲不完整的行，按空行分发事件，支持 event/data/id 字段和多行 data
+ */
+export class SSEParser {
+    private buffer: string = "";
+    private eventName: string = "";
+    private dataLines: string[] = [];
+    private lastId?: string;
+
+    /**
+     * 输入一段文本，返回其中已完整的事件
+     */
+    public feed = (text: string): SSEEvent[] => {
+        this.buffer += text;
+        const events: SSEEvent[] = [];
+        let index: number;
+        while ((index = this.buffer.indexOf("\n")) >= 0) {
+            const line = this.buffer.slice(0, index).replace(/\r$/, "");
+            this.buffer = this.buffer.slice(index + 1);
+            const event = this.processLine(line);
+            if (event) {
+                events.push(event);
+            }
+        }
+        return events;
+    }
+
+    /**
+     * 流结束时调用，分发最后一个没有以空行结尾的事件
+     */
+    public flush = (): SSEEvent[] => {
+        const events: SSEEvent[] = [];
+        if (this.buffer !== "") {
+            const event = this.processLine(this.buffer.replace(/\r$/, ""));
+            this.buffer = "";
+            if (event) {
+                events.push(event);
+            }
+        }
+        const event = this.dispatch();
+        if (event) {
+            events.push(event);
+        }
+        return events;
+    }
+
+    private processLine = (line: string): SSEEvent | null => {
+        if (line === "") {
+            return this.dispatch();
+        }
+        // 以冒号开头的是注释（心跳）
+        if (line.startsWith(":")) {
+            return null;
+        }
+        const colon = line.indexOf(":");
+        const field = colon >= 0 ? line.slice(0, colon) : line;
+        const value = colon >= 0 ? line.slice(colon + 1).replace(/^ /, "") : "";
+        if (field === "event") {
+            this.eventName = value;
+        } else if (field === "data") {
+            this.dataLines.push(value);
+        } else if (field === "id") {
+            this.lastId = value;
+        }
+        return null;
+    }
+
+    private dispatch = (): SSEEvent | null => {
+        if (this.dataLines.length === 0) {
+            this.eventName = "";
+            return null;
+        }
+        const event: SSEEvent = {
+            event: this.eventName || "message",
+            data: this.dataLines.join("\n"),
+            id: this.lastId,
+        };
+        this.eventName = "";
+        this.dataLines = [];
+        return event;
+    }
+}
+
+/**
+ * 从 JSON 数据中提取错误信息（兼容 OpenAI 的 error 字段和 Anthropic 的 error 事件）
+ */
+const extractError = (payload: any): string | null => {
+    if (!payload || typeof payload !== 'object') {
+        return null;
+    }
+    if (payload.type === 'error' || payload.error) {
+        const error = payload.error;
+        if (typeof error === 'string') {
+            return error;
+        }
+        return error?.message || payload.message || JSON.stringify(payload);
+    }
+    return null;
+}
+
+/**
+ * 读取 SSE 流，把每个事件的 data 解析为 JSON 后交给回调；遇到 [DONE] 结束，遇到错误帧抛出 StreamError
+ * @param response fetch 返回的流式响应
+ * @param onData 已解析的 JSON 数据和原始事件的回调
+ */
+export const readSSEStream = async(
+    response: Response,
+    onData: (payload: any, event: SSEEvent) => void | Promise<void>
+) => {
+    const reader = response.body?.getReader();
+    if (!reader) {
+        return;
+    }
+    const decoder = new TextDecoder("utf-8");
+    const parser = new SSEParser();
+
+    const handle = async(events: SSEEvent[]): Promise<boolean> => {
+        for (const event of events) {
+            if (event.data.trim() === "[DONE]") {
+                return true;
+            }
+            let payload: any;
+            try {
+                payload = JSON.parse(event.data);
+            } catch {
+                if (event.event === 'error') {
+                    throw new StreamError(event.data);
+                }
+                throw new StreamError(`无法解析的流数据: ${event.data.substring(0, 200)}`);
+            }
+            const errorMessage = event.event === 'error' ? (extractError(payload) || event.data) : extractError(payload);
+            if (errorMessage) {
+                throw new StreamError(errorMessage, payload);
+            }
+            await onData(payload, event);
+        }
+        return false;
+    }
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) { break; }
+            if (await handle(parser.feed(decoder.decode(value, { stream: true })))) {
+                return;
+            }
+        }
+        await handle(parser.feed(decoder.decode()));
+        await handle(parser.flush());
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * 检查响应状态，失败时抛出带响应内容的错误
+ */
+export const ensureOk = async(response: Response, provider: string) => {
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`${provider} API error (${response.status}): ${errorText}`);
+    }
+    return response;
+}
@@ -0,0 +1,112 @@
+import { OpenAIMessage } from '../openai';
+
+/**
+ * 内置的提供商类型
+ */
+export type ProviderType = 'openai' | 'ollama' | 'anthropic' | 'dashscope' | 'azure';
+
+/**
+ * 对话消息，images 为图片的 data URL 或网络地址（用于视觉模型）
+ */
+export interface ChatMessage extends OpenAIMessage {
+    images?: string[];
+}
+
+/**
+ * 单次调用的可选参数
+ */
+export interface ChatOptions {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    format?: 'json';
+    signal?: AbortSignal;
+}
+
+/**
+ * 提供给模型的工具定义，parameters 为 JSON Schema
+ */
+export interface ToolDefinition {
+    name: string;
+    description?: string;
+    parameters: Record<string, any>;
+}
+
+/**
+ * 模型发起的工具调用
+ */
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, any>;
+}
+
+/**
+ * 工具调用对话中的消息：assistant 消息可带 toolCalls，tool 消息通过 toolCallId 对应调用
+ */
+export interface ToolChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    toolCalls?: ToolCall[];
+    toolCallId?: string;
+    name?: string;
+}
+
+/**
+ * 工具调用对话的单轮结果，toolCalls 为空表示模型给出了最终回复
+ */
+export interface ToolChatResult {
+    content: string;
+    toolCalls: ToolCall[];
+}
+
+/**
+ * 命名的提供商配置（profile）
+ */
+export interface ProviderProfile {
+    name: string;
+    type: ProviderType;
+    baseUrl?: string;
+    apiKey?: string;
+    model: string;
+    embeddingModel?: string;
+    // Azure OpenAI 使用部署名和 API 版本
+    deployment?: string;
+    embeddingDeployment?: string;
+    apiVersion?: string;
+    // 提供商特有的参数（如 Ollama 的 num_ctx、keep_alive）
+    options?: Record<string, any>;
+}
+
+/**
+ * 统一的大模型提供商接口：对话、流式输出、视觉、向量和模型列表
+ */
+export interface LLMProvider {
+    readonly profile: ProviderProfile;
+    readonly capabilities: {
+        vision: boolean;
+        embeddings: boolean;
+        tools: boolean;
+    };
+
+    /** 非流式对话，返回完整回复 */
+    chat(messages: ChatMessage[], opts?: ChatOptions): Promise<string>;
+
+    /** 流式对话，每收到一段文本回调一次，返回完整回复 */
+    stream(
+        messages: ChatMessage[],
+        onDelta: (delta: string, full: string) => void | Promise<void>,
+        opts?: ChatOptions
+    ): Promise<string>;
+
+    /** 原生函数调用的单轮对话，tools 为空时不发送工具定义（capabilities.tools 为 true 时可用） */
+    chatWithTools?(messages: ToolChatMessage[], tools: ToolDefinition[], opts?: ChatOptions): Promise<ToolChatResult>;
+
+    /** 生成文本向量 */
+    embeddings(input: string[], opts?: { model?: string }): Promise<number[][]>;
+
+    /** 列出可用模型 */
+    listModels(): Promise<string[]>;
+}
+
+export type ProviderFactory = (profile: ProviderProfile) => LLMProvider;
@@ -0,0 +1,260 @@
+/**
+ * 智能体工具调用模块
+ * 把桥接服务中的 MCP 工具转换为模型原生的函数调用定义，由模型选择工具并填写参数，
+ * 工具结果作为 tool 消息返回给模型，多轮调用直到模型给出最终回复或达到步数上限
+ */
+
+import '@logseq/libs';
+import { ToolCall, ToolChatMessage, ToolDefinition } from '@libs/providers';
+import { getSettings } from './settings';
+import { bridgeServiceRequest } from './network';
+import { callToolWithApproval } from './tool-approval';
+import { resolveProvider } from './providers';
+import { buildConversationThread, markAIReplyBlock } from './conversation';
+import { generationManager } from './generation-manager';
+import { insertMarkdownBlocks } from './markdown-blocks';
+import { renderTemplate } from './prompt-template';
+
+/**
+ * 桥接服务 /api/tools 返回的工具
+ */
+export interface BridgeTool {
+    serviceId: string;
+    name: string;
+    description?: string;
+    inputSchema?: Record<string, any>;
+    policy?: 'allow' | 'ask' | 'deny';
+}
+
+/**
+ * 一次工具调用的记录
+ */
+export interface AgentStep {
+    index: number;
+    tool: BridgeTool;
+    arguments: Record<string, any>;
+    success: boolean;
+    output: string;
+}
+
+// 返回给模型的单个工具结果最大字符数
+const MAX_TOOL_RESULT_CHARS = 8000;
+
+// 写入步骤块的结果最大字符数
+const MAX_STEP_DISPLAY_CHARS = 2000;
+
+const AGENT_SYSTEM_PROMPT = 'You can call the provided tools to complete the task. Choose tools and fill in their arguments yourself; call several tools in sequence if needed. When you have enough information, answer the user directly without calling more tools.';
+
+/**
+ * 获取桥接服务中所有已连接服务的工具
+ * @param bridgeServiceUrl 桥接服务地址
+ */
+export async function fetchBridgeTools(bridgeServiceUrl: string): Promise<BridgeTool[]> {
+    const response = await bridgeServiceRequest('/api/tools', bridgeServiceUrl, {
+        method: 'GET',
+        timeout: 10000,
+        retries: 1
+    });
+    return Array.isArray(response?.tools) ? response.tools : [];
+}
+
+/**
+ * 把 MCP 工具转换为函数调用定义，函数名由服务 ID 和工具名组成（只允许字母、数字、下划线和连字符，最长 64 字符）
+ * 策略为 deny 的工具不提供给模型
+ * @param tools 桥接服务工具
+ * @returns 工具定义和函数名到工具的映射
+ */
+export function toToolDefinitions(tools: BridgeTool[]): { definitions: ToolDefinition[], lookup: Map<string, BridgeTool> } {
+    const definitions: ToolDefinition[] = [];
+    const lookup = new Map<string, BridgeTool>();
+    for (const tool of tools) {
+        if (tool.policy === 'deny') {
+            continue;
+        }
+        let name = `${tool.serviceId}__${tool.name}`.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+        // 截断或替换后重名时追加序号
+        for (let i = 2; lookup.has(name); i++) {
+            name = `${name.slice(0, 60)}_${i}`;
+        }
+        lookup.set(name, tool);
+        definitions.push({
+            name,
+            description: `[${tool.serviceId}] ${tool.description || tool.name}`,
+            parameters: tool.inputSchema && typeof tool.inputSchema === 'object'
+                ? { type: 'object', properties: {}, ...tool.inputSchema }
+                : { type: 'object', properties: {} }
+        });
+    }
+    return { definitions, lookup };
+}
+
+/**
+ * 把 MCP 工具结果（content 数组）转换为文本
+ */
+function formatToolResult(result: any): string {
+    if (typeof result === 'string') {
+        return result;
+    }
+    const content = Array.isArray(result) ? result : result?.content;
+    if (Array.isArray(content)) {
+        return content
+            .map((item: any) => item?.type === 'text' ? item.text : JSON.stringify(item))
+            .join('\n');
+    }
+    return JSON.stringify(result, null, 2);
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max)}\n...（已截断，共 ${text.length} 字符）` : text;
+}
+
+/**
+ * 调用单个工具（策略为 ask 时先请求用户确认），失败时返回错误信息供模型参考
+ */
+async function runToolCall(tool: BridgeTool, args: Record<string, any>): Promise<{ success: boolean, output: string, arguments: Record<string, any> }> {
+    try {
+        const response = await callToolWithApproval(tool.serviceId, tool.name, args, tool.description);
+        if (!response.success) {
+            return { success: false, output: `Error: ${response.error || 'Tool call failed'}`, arguments: response.arguments };
+        }
+        const output = formatToolResult(response.result);
+        return { success: !response.result?.isError, output, arguments: response.arguments };
+    } catch (error) {
+        return { success: false, output: `Error: ${error instanceof Error ? error.message : String(error)}`, arguments: args };
+    }
+}
+
+/**
+ * 在回复占位块之前写入折叠的步骤块，子块为参数和结果
+ * 步骤块带 AI 回复标记，构建对话线程时不会被当作用户消息
+ */
+async function insertStepBlock(placeholderUuid: string, step: AgentStep): Promise<void> {
+    const status = step.success ? '✅' : '❌';
+    const block = await logseq.Editor.insertBlock(
+        placeholderUuid,
+        `🔧 步骤 ${step.index}: \`${step.tool.serviceId}/${step.tool.name}\` ${status}`,
+        { sibling: true, before: true }
+    );
+    if (!block?.uuid) {
+        return;
+    }
+    await markAIReplyBlock(block.uuid);
+    await logseq.Editor.insertBatchBlock(block.uuid, [
+        { content: `参数:\n\`\`\`json\n${JSON.stringify(step.arguments, null, 2)}\n\`\`\`` },
+        { content: `结果:\n\`\`\`\n${truncate(step.output, MAX_STEP_DISPLAY_CHARS).replace(/```/g, "'''")}\n\`\`\`` }
+    ], { sibling: false });
+    await logseq.Editor.setBlockCollapsed(block.uuid, true);
+}
+
+/**
+ * 运行智能体工具调用循环，把步骤和最终回复写入当前块的子块
+ * @param blockId 当前块 ID
+ * @param userInput 用户输入
+ * @param opts.system 系统提示词
+ * @param opts.assistant 助手提示词
+ * @param opts.hint 额外提示（如意图分析推荐的工具）
+ * @param opts.command 触发的命令名，用于选择命令映射的提供商，默认 gpt
+ * @returns 当前提供商不支持函数调用或没有可用工具时返回 false，由调用方降级处理
+ */
+export async function runAgentLoop(
+    blockId: string,
+    userInput: string,
+    opts?: { system?: string, assistant?: string, hint?: string, command?: string }
+): Promise<boolean> {
+    const { bridgeServiceUrl, agentMaxSteps, isConversationMode, conversationMaxMessages } = await getSettings();
+    const provider = await resolveProvider({ command: opts?.command || 'gpt' });
+    if (!provider.capabilities.tools || !provider.chatWithTools) {
+        console.log(`⚠️ 提供商 ${provider.profile.type} 不支持函数调用，跳过智能体循环`);
+        return false;
+    }
+
+    const { definitions, lookup } = toToolDefinitions(await fetchBridgeTools(bridgeServiceUrl));
+    if (definitions.length === 0) {
+        console.log('⚠️ 桥接服务没有可用的 MCP 工具，跳过智能体循环');
+        return false;
+    }
+    console.log(`🤖 启动智能体循环: ${definitions.length} 个工具，最多 ${agentMaxSteps} 步`);
+
+    const context = { blockId };
+    const messages: ToolChatMessage[] = [{
+        role: 'system',
+        content: [opts?.system ? await renderTemplate(opts.system, context) : '', AGENT_SYSTEM_PROMPT].filter(Boolean).join('\n\n')
+    }];
+    if (isConversationMode) {
+        const history = await buildConversationThread(blockId, conversationMaxMessages);
+        messages.push(...history.map(({ role, content }) => ({ role: role as ToolChatMessage['role'], content })));
+    }
+    if (opts?.assistant) {
+        messages.push({ role: 'assistant', content: await renderTemplate(opts.assistant, context) });
+    }
+    messages.push({
+        role: 'user',
+        content: [await renderTemplate(userInput, context), opts?.hint].filter(Boolean).join('\n\n')
+    });
+
+    const placeholderUuid = (await logseq.Editor.insertBlock(blockId, 'loading...'))?.uuid;
+    if (!placeholderUuid) {
+        return false;
+    }
+
+    const controller = generationManager.start(blockId);
+    const steps: AgentStep[] = [];
+    let answer = '';
+    try {
+        while (true) {
+            // 达到步数上限后不再提供工具，要求模型根据已有结果回答
+            const limitReached = steps.length >= agentMaxSteps;
+            if (limitReached) {
+                messages.push({ role: 'user', content: `已达到工具调用步数上限（${agentMaxSteps}），请根据已有的工具结果直接回答。` });
+            }
+            const result = await provider.chatWithTools(messages, limitReached ? [] : definitions, { signal: controller.signal });
+            if (result.toolCalls.length === 0 || limitReached) {
+                answer = result.content;
+                break;
+            }
+
+            messages.push({ role: 'assistant', content: result.content, toolCalls: result.toolCalls });
+            for (const call of result.toolCalls) {
+                const step = await executeToolCall(call, lookup, steps.length + 1);
+                steps.push(step);
+                messages.push({ role: 'tool', content: truncate(step.output, MAX_TOOL_RESULT_CHARS), toolCallId: call.id, name: call.name });
+                await insertStepBlock(placeholderUuid, step);
+                console.log(`🔧 智能体步骤 ${step.index}: ${step.tool.serviceId}/${step.tool.name}`, { success: step.success });
+            }
+        }
+    } catch (err: any) {
+        if (!controller.signal.aborted) {
+            await logseq.Editor.updateBlock(placeholderUuid, `❌ 工具调用失败: ${err?.message || err}`);
+            return true;
+        }
+        await logseq.Editor.updateBlock(placeholderUuid, '⏹️ 已停止生成');
+        return true;
+    } finally {
+        generationManager.finish(blockId, controller);
+    }
+
+    console.log(`✅ 智能体循环完成，共 ${steps.length} 步`);
+    await insertMarkdownBlocks(blockId, answer || '（模型没有返回内容）', { placeholderUuid, markReply: true });
+    return true;
+}
+
+/**
+ * 执行模型发起的一次工具调用
+ */
+async function executeToolCall(call: ToolCall, lookup: Map<string, BridgeTool>, index: number): Promise<AgentStep> {
+    const tool = lookup.get(call.name);
+    if (!tool) {
+        return {
+            index,
+            tool: { serviceId: 'unknown', name: call.name },
+            arguments: call.arguments,
+            success: false,
+            output: `Error: Unknown tool "${call.name}"`
+        };
+    }
+    if (tool.policy === 'deny') {
+        return { index, tool, arguments: call.arguments, success: false, output: 'Error: This tool is denied by policy' };
+    }
+    const { success, output, arguments: args } = await runToolCall(tool, call.arguments);
+    return { index, tool, arguments: args, success, output };
+}
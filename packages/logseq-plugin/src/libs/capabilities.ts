@@ -0,0 +1,77 @@
+/**
+ * 专门命令对应的能力，与桥接服务意图分析结果中的 capability 一致
+ * 桥接服务端的同名定义在 mcp-bridge-service/src/services/capabilities.ts，修改时需同步
+ */
+export const INTENT_CAPABILITIES = [
+    'image_generation',
+    'image_edit',
+    'ocr',
+    'file_analysis',
+    'text_to_speech',
+    'qwen_tts',
+    'text_to_video',
+    'image_to_video',
+    'graph_search',
+    'summary',
+    'advanced_query'
+] as const;
+
+export type IntentCapability = typeof INTENT_CAPABILITIES[number];
+
+// 当前块中引用的图片和文件
+export interface BlockAttachments {
+    images: string[];
+    files: string[];
+}
+
+// 能力对应的斜杠命令及所需附件（image 需要图片，attachment 需要图片或文件）
+export const CAPABILITY_COMMANDS: Record<IntentCapability, { command: string; requires?: 'image' | 'attachment' }> = {
+    image_generation: { command: '/gpt-image' },
+    image_edit: { command: '/gpt-imgedit', requires: 'image' },
+    ocr: { command: '/gpt-ocr', requires: 'image' },
+    file_analysis: { command: '/gpt-file', requires: 'attachment' },
+    text_to_speech: { command: '/gpt-tts' },
+    qwen_tts: { command: '/gpt-qwen-tts' },
+    text_to_video: { command: '/gpt-qwen-t2v' },
+    image_to_video: { command: '/gpt-qwen-i2v', requires: 'image' },
+    graph_search: { command: '/gpt-graph' },
+    summary: { command: '/gpt-summary' },
+    advanced_query: { command: '/gpt-query' }
+};
+
+export function isIntentCapability(value: any): value is IntentCapability {
+    return INTENT_CAPABILITIES.includes(value);
+}
+
+/**
+ * 判断当前块的附件是否满足能力的要求
+ */
+export function hasRequiredAttachments(capability: IntentCapability, attachments: BlockAttachments): boolean {
+    const requires = CAPABILITY_COMMANDS[capability].requires;
+    if (requires === 'image') {
+        return attachments.images.length > 0;
+    }
+    if (requires === 'attachment') {
+        return attachments.images.length + attachments.files.length > 0;
+    }
+    return true;
+}
+
+/**
+ * 意图分析没有给出能力时（旧版桥接服务或模型未选择），按任务类型和附件推断
+ */
+export function inferCapability(taskType: string, attachments: BlockAttachments): IntentCapability | null {
+    const hasImages = attachments.images.length > 0;
+    switch (taskType) {
+        case 'image':
+            return hasImages ? 'image_edit' : 'image_generation';
+        case 'audio':
+            return 'text_to_speech';
+        case 'video':
+            return hasImages ? 'image_to_video' : 'text_to_video';
+        case 'multimodal':
+            return attachments.files.length > 0 ? 'file_analysis' : null;
+        default:
+            return null;
+    }
+}
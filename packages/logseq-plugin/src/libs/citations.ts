@@ -0,0 +1,72 @@
+/**
+ * 引用模块
+ * 为检索到的块编号、把回答中的 [n] 标记转为块引用，并插入 Sources 子块
+ */
+
+import '@logseq/libs';
+
+export interface CitationSource {
+    uuid: string;
+    page: string;
+    content: string;
+}
+
+/**
+ * 把检索到的块格式化为带编号的上下文，供模型引用
+ * @param sources 检索到的块
+ * @param maxLength 每个块的最大长度
+ */
+export function formatCitationContext(sources: CitationSource[], maxLength: number = 800): string {
+    return sources.map((source, index) => {
+        const content = source.content.length > maxLength ? source.content.substring(0, maxLength) + '...' : source.content;
+        return `[${index + 1}] (页面: ${source.page || '未知'})\n${content}`;
+    }).join('\n\n');
+}
+
+/**
+ * 引用说明，附加在系统提示词后
+ */
+export const CITATION_INSTRUCTION = '回答时请在引用了参考资料的句子后用 [编号] 标注来源（如 [1]、[2]），只能引用提供的编号，不要编造来源。';
+
+/**
+ * 把回答中的 [n] 替换为指向对应块的引用链接
+ * @param text 模型回答
+ * @param sources 检索到的块
+ * @returns 替换后的文本和实际被引用的编号
+ */
+export function linkCitations(text: string, sources: CitationSource[]): { text: string, cited: number[] } {
+    const cited = new Set<number>();
+    const linked = text.replace(/\[(\d+)\](?!\()/g, (match, num) => {
+        const index = parseInt(num, 10) - 1;
+        const source = sources[index];
+        if (!source) {
+            return match;
+        }
+        cited.add(index + 1);
+        return `[${num}](((${source.uuid})))`;
+    });
+    return { text: linked, cited: Array.from(cited).sort((a, b) => a - b) };
+}
+
+/**
+ * 在指定块下插入 Sources 子块，列出引用的块
+ * @param parentUuid 父块 ID
+ * @param sources 检索到的块
+ * @param cited 被引用的编号，为空时列出全部来源
+ */
+export async function insertSourcesBlock(parentUuid: string, sources: CitationSource[], cited: number[] = []): Promise<void> {
+    const numbers = cited.length > 0 ? cited : sources.map((_, index) => index + 1);
+    if (numbers.length === 0) {
+        return;
+    }
+    const sourcesBlock = await logseq.Editor.insertBlock(parentUuid, '📚 **Sources**', { sibling: false });
+    if (!sourcesBlock) {
+        return;
+    }
+    for (const num of numbers) {
+        const source = sources[num - 1];
+        const page = source.page ? ` · [[${source.page}]]` : '';
+        await logseq.Editor.insertBlock(sourcesBlock.uuid, `[${num}] ((${source.uuid}))${page}`, { sibling: false });
+    }
+    await logseq.Editor.setBlockCollapsed(sourcesBlock.uuid, true);
+}
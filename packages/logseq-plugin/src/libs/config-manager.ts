@@ -4,6 +4,7 @@
  */
 
 import { getSettings } from './settings';
+import { bridgeServiceRequest } from './network';
 
 export interface ConfigValidationResult {
     isValid: boolean;
@@ -187,6 +188,28 @@ export class ConfigManager {
         };
     }
     
+    /**
+     * 把插件的 Ollama 设置同步到桥接服务（意图分析使用 ollama 时的默认地址和模型）
+     */
+    async syncBridgeSettings(config?: ServiceConfig): Promise<void> {
+        const currentConfig = config || await this.getConfig();
+        if (!currentConfig.bridgeServiceUrl) {
+            return;
+        }
+        await bridgeServiceRequest('/api/api-config', currentConfig.bridgeServiceUrl, {
+            method: 'PUT',
+            body: JSON.stringify({
+                config: {
+                    ollamaAddress: currentConfig.ollamaAddress,
+                    ollamaModel: currentConfig.ollamaModel
+                }
+            }),
+            timeout: 5000,
+            retries: 0
+        });
+        console.log('🔄 已同步 Ollama 设置到桥接服务');
+    }
+    
     /**
      * 添加配置变更监听器
      */
@@ -0,0 +1,229 @@
+/**
+ * 上下文预算模块
+ * 提供按模型估算 token、计算上下文预算，以及超出预算时的分块 map-reduce 摘要
+ */
+
+import { toMessages } from '@libs/openai';
+import type { LLMProvider } from '@libs/providers/types';
+import { getSettings } from './settings';
+
+export type LongContentStrategy = 'map-reduce' | 'truncate';
+
+export interface ContextBudget {
+    model: string;
+    contextWindow: number;
+    budget: number;
+    strategy: LongContentStrategy;
+}
+
+export interface BudgetedResult {
+    result: string;
+    chunks: number;
+    rounds: number;
+    truncated: boolean;
+}
+
+// 常见模型的上下文窗口（按前缀匹配，越具体的放越前面）
+const MODEL_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+    [/^gpt-3\.5-turbo-16k/, 16385],
+    [/^gpt-3\.5-turbo-0613/, 4096],
+    [/^gpt-3\.5-turbo/, 16385],
+    [/^gpt-4-32k/, 32768],
+    [/^gpt-4o/, 128000],
+    [/^gpt-4\.1/, 1000000],
+    [/^gpt-4-turbo/, 128000],
+    [/^gpt-4/, 8192],
+    [/^gpt-5/, 400000],
+    [/^o[134]/, 200000],
+    [/^claude/, 200000],
+    [/^qwen-(max|vl)/, 32768],
+    [/^qwen/, 131072],
+    [/^llama2|^llama-2/, 4096],
+    [/^llama3\.[1-9]|^llama-3\.[1-9]/, 131072],
+    [/^llama3|^llama-3/, 8192],
+    [/^mistral|^mixtral/, 32768],
+    [/^codellama/, 16384],
+    [/^gemma/, 8192],
+    [/^deepseek/, 65536],
+];
+
+// Ollama 未设置 num_ctx 时的默认上下文长度
+const OLLAMA_DEFAULT_CONTEXT = 4096;
+const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// 平均每个 token 对应的非 CJK 字符数
+const CHARS_PER_TOKEN: Array<[RegExp, number]> = [
+    [/^claude/, 3.5],
+    [/^(llama|mistral|mixtral|codellama|gemma)/, 3.8],
+    [/^(gpt-4o|gpt-4\.1|gpt-5|o[134])/, 4.2],
+];
+
+/**
+ * 估算文本的 token 数：中日韩字符约 1 token/字，其余按模型的平均字符数计算
+ * @param text 文本
+ * @param model 模型名称
+ */
+export function estimateTokens(text: string, model: string = ''): number {
+    if (!text) {
+        return 0;
+    }
+    const name = model.toLowerCase().replace(/^.*\//, '');
+    const cjk = (text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g) || []).length;
+    const others = text.length - cjk;
+    const charsPerToken = CHARS_PER_TOKEN.find(([pattern]) => pattern.test(name))?.[1] || 4;
+    return Math.ceil(cjk + others / charsPerToken);
+}
+
+/**
+ * 获取模型的上下文窗口大小
+ * @param model 模型名称
+ * @param numCtx Ollama 的 num_ctx 设置
+ * @param isOllama 是否为 Ollama 模型
+ */
+export function getModelContextWindow(model: string, numCtx?: number, isOllama: boolean = false): number {
+    if (numCtx) {
+        return numCtx;
+    }
+    // Ollama 实际使用的上下文长度由 num_ctx 决定，而不是模型本身的上限
+    if (isOllama) {
+        return OLLAMA_DEFAULT_CONTEXT;
+    }
+    const name = model.toLowerCase().replace(/^.*\//, '');
+    return MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(name))?.[1] || DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * 计算当前提供商的上下文预算（输入内容可用的 token 数）
+ * 设置中的预算为 0 时，自动取上下文窗口减去输出预留
+ * @param provider 提供商实例
+ */
+export async function getContextBudget(provider: LLMProvider): Promise<ContextBudget> {
+    const { contextBudget, longContentStrategy } = await getSettings();
+    const { model, type, options } = provider.profile;
+    const contextWindow = getModelContextWindow(model, Number(options?.num_ctx) || undefined, type === 'ollama');
+    // 预留 1/4 给系统提示词和输出，最多 4096
+    const autoBudget = contextWindow - Math.min(Math.floor(contextWindow / 4), 4096);
+    const budget = contextBudget > 0 ? Math.min(contextBudget, autoBudget) : autoBudget;
+    return {
+        model,
+        contextWindow,
+        budget,
+        strategy: longContentStrategy,
+    };
+}
+
+/**
+ * 按 token 上限切分文本，优先在段落、行边界切分
+ * @param text 文本
+ * @param maxTokens 每块的 token 上限
+ * @param model 模型名称
+ */
+export function splitIntoChunks(text: string, maxTokens: number, model: string = ''): string[] {
+    const chunks: string[] = [];
+    let current = '';
+
+    const pushPiece = (piece: string) => {
+        const candidate = current ? `${current}\n${piece}` : piece;
+        if (estimateTokens(candidate, model) <= maxTokens) {
+            current = candidate;
+            return;
+        }
+        if (current) {
+            chunks.push(current);
+            current = '';
+        }
+        if (estimateTokens(piece, model) <= maxTokens) {
+            current = piece;
+            return;
+        }
+        // 单行仍超出上限时按字符硬切
+        const ratio = piece.length / estimateTokens(piece, model);
+        const size = Math.max(1, Math.floor(maxTokens * ratio));
+        for (let i = 0; i < piece.length; i += size) {
+            chunks.push(piece.slice(i, i + size));
+        }
+    };
+
+    for (const line of text.split('\n')) {
+        if (line.trim() !== '') {
+            pushPiece(line);
+        }
+    }
+    if (current) {
+        chunks.push(current);
+    }
+    return chunks;
+}
+
+/**
+ * 按上下文预算执行摘要类任务：未超出预算时直接调用；超出时按策略截断或分块 map-reduce
+ * @param provider 提供商实例
+ * @param content 待处理的内容
+ * @param opts.system 系统提示词
+ * @param opts.buildPrompt 根据内容构建最终提示词
+ * @param opts.mapPrompt 分块阶段的提示词
+ * @param opts.onProgress 进度回调
+ */
+export async function runWithBudget(
+    provider: LLMProvider,
+    content: string,
+    opts: {
+        system: string,
+        buildPrompt: (content: string) => string,
+        mapPrompt?: (chunk: string, index: number, total: number) => string,
+        onProgress?: (message: string) => void | Promise<void>
+    }
+): Promise<BudgetedResult> {
+    const { model, budget, strategy } = await getContextBudget(provider);
+    const promptOverhead = estimateTokens(opts.system + opts.buildPrompt(''), model);
+    const available = Math.max(256, budget - promptOverhead);
+    const tokens = estimateTokens(content, model);
+
+    console.log('📏 上下文预算:', { model, tokens, budget, available, strategy });
+
+    if (tokens <= available) {
+        const result = await provider.chat(toMessages(opts.buildPrompt(content), { system: opts.system }));
+        return { result, chunks: 1, rounds: 1, truncated: false };
+    }
+
+    if (strategy === 'truncate') {
+        const [head] = splitIntoChunks(content, available, model);
+        const result = await provider.chat(toMessages(opts.buildPrompt(head), { system: opts.system }));
+        return { result, chunks: 1, rounds: 1, truncated: true };
+    }
+
+    const mapPrompt = opts.mapPrompt || ((chunk: string, index: number, total: number) =>
+        `以下是一篇长文档的第 ${index + 1}/${total} 部分，请提取这部分的要点，保留关键事实、结论和术语：\n\n${chunk}`);
+
+    // map：逐块摘要；reduce：摘要合并后仍超出预算则继续分块摘要
+    let current = content;
+    let firstChunkCount = 0;
+    let rounds = 0;
+    let truncated = false;
+    while (estimateTokens(current, model) > available) {
+        const chunks = splitIntoChunks(current, available, model);
+        if (rounds === 0) {
+            firstChunkCount = chunks.length;
+        }
+        rounds++;
+        const summaries: string[] = [];
+        for (let i = 0; i < chunks.length; i++) {
+            await opts.onProgress?.(`📚 正在处理第 ${rounds} 轮分块 ${i + 1}/${chunks.length}...`);
+            summaries.push(await provider.chat(toMessages(mapPrompt(chunks[i], i, chunks.length), {
+                system: opts.system
+            })));
+        }
+        const next = summaries.join('\n\n');
+        // 摘要没有变短时停止，避免死循环，只保留预算内的部分
+        if (estimateTokens(next, model) >= estimateTokens(current, model)) {
+            current = splitIntoChunks(next, available, model)[0];
+            truncated = true;
+            break;
+        }
+        current = next;
+    }
+
+    await opts.onProgress?.('🧩 正在合并分块摘要...');
+    const result = await provider.chat(toMessages(opts.buildPrompt(current), { system: opts.system }));
+    return { result, chunks: firstChunkCount, rounds: rounds + 1, truncated };
+}
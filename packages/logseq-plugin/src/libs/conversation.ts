@@ -0,0 +1,99 @@
+import '@logseq/libs';
+import { OpenAIMessage, OpenAIMessagesRole } from '@libs/openai';
+
+/**
+ * AI 回复块的标记属性名（写入为 ai-reply:: true）
+ */
+export const AI_REPLY_PROPERTY = 'ai-reply';
+
+/**
+ * 判断块是否为 AI 回复块
+ * @param block Logseq 块
+ */
+export function isAIReplyBlock(block: any): boolean {
+    const properties = block?.properties || {};
+    const value = properties.aiReply ?? properties[AI_REPLY_PROPERTY];
+    return value === true || value === 'true';
+}
+
+/**
+ * 给 AI 回复块写入标记属性，便于后续构建对话线程时识别角色
+ * 不论是否开启对话模式都写入，之后使用 /gpt-thread 时也能区分用户和 AI 的消息
+ * @param uuid 块 ID
+ */
+export async function markAIReplyBlock(uuid: string): Promise<void> {
+    try {
+        await logseq.Editor.upsertBlockProperty(uuid, AI_REPLY_PROPERTY, true);
+    } catch (error) {
+        console.warn('⚠️ 写入 AI 回复标记失败:', error);
+    }
+}
+
+/**
+ * 去除块内容中的属性行和斜杠命令，只保留对话正文
+ * @param content 块内容
+ */
+function cleanBlockContent(content: string): string {
+    return (content || '')
+        .split('\n')
+        .filter((line) => !/^\s*[\w-]+::\s?.*$/.test(line))
+        .join('\n')
+        .replace(/^\/[\w-]+\s*/, '')
+        .trim();
+}
+
+/**
+ * 获取块在父/兄弟链上的前一个块：有前一个兄弟块时取兄弟块，否则取父块
+ * @param block 当前块
+ */
+async function getPreviousInChain(block: any): Promise<any | null> {
+    const sibling = await logseq.Editor.getPreviousSiblingBlock(block.uuid);
+    if (sibling) {
+        return sibling;
+    }
+    // 父块为页面时结束遍历
+    if (!block.parent?.id || block.parent.id === block.page?.id) {
+        return null;
+    }
+    return await logseq.Editor.getBlock(block.parent.id);
+}
+
+/**
+ * 沿着当前块的父/兄弟链向上遍历，构建多轮对话历史（不包含当前块）
+ * 用户块映射为 user，带 ai-reply 标记的块映射为 assistant，相邻同角色块合并为一条消息
+ * @param block_id 当前块 ID
+ * @param maxMessages 最多保留的历史消息条数
+ */
+export async function buildConversationThread(block_id: string, maxMessages: number = 20): Promise<OpenAIMessage[]> {
+    const messages: OpenAIMessage[] = [];
+    const current = await logseq.Editor.getBlock(block_id);
+    if (!current) {
+        return messages;
+    }
+
+    let block = await getPreviousInChain(current);
+    while (block) {
+        const content = cleanBlockContent(block.content);
+        if (content !== '') {
+            const role = isAIReplyBlock(block) ? OpenAIMessagesRole.assistant : OpenAIMessagesRole.user;
+            const first = messages[0];
+            if (first && first.role === role) {
+                first.content = `${content}\n\n${first.content}`;
+            } else {
+                if (messages.length >= maxMessages) {
+                    break;
+                }
+                messages.unshift({ role, content });
+            }
+        }
+        block = await getPreviousInChain(block);
+    }
+
+    // 对话历史应以用户消息开头
+    while (messages.length > 0 && messages[0].role === OpenAIMessagesRole.assistant) {
+        messages.shift();
+    }
+
+    console.log(`🧵 已构建对话线程，共 ${messages.length} 条历史消息`);
+    return messages;
+}
@@ -0,0 +1,65 @@
+/**
+ * 生成任务管理模块
+ * 记录正在进行的 AI 生成请求，支持中途停止（保留已输出的内容）
+ */
+
+/**
+ * 生成任务管理器
+ */
+export class GenerationManager {
+    private static instance: GenerationManager;
+    private controllers = new Map<string, AbortController>();
+
+    static getInstance(): GenerationManager {
+        if (!GenerationManager.instance) {
+            GenerationManager.instance = new GenerationManager();
+        }
+        return GenerationManager.instance;
+    }
+
+    /**
+     * 开始一个生成任务，同一块上已有的任务会被停止
+     * @param blockId 触发生成的块 ID
+     */
+    start(blockId: string): AbortController {
+        this.controllers.get(blockId)?.abort();
+        const controller = new AbortController();
+        this.controllers.set(blockId, controller);
+        return controller;
+    }
+
+    /**
+     * 生成结束后移除任务记录
+     */
+    finish(blockId: string, controller: AbortController) {
+        if (this.controllers.get(blockId) === controller) {
+            this.controllers.delete(blockId);
+        }
+    }
+
+    /**
+     * 停止生成任务
+     * @param blockIds 指定块 ID 时只停止这些块上的任务，否则停止全部
+     * @returns 停止的任务数量
+     */
+    abort(blockIds?: string[]): number {
+        let count = 0;
+        for (const [id, controller] of this.controllers.entries()) {
+            if (!blockIds || blockIds.includes(id)) {
+                controller.abort();
+                this.controllers.delete(id);
+                count++;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * 正在进行的生成任务数量
+     */
+    get activeCount(): number {
+        return this.controllers.size;
+    }
+}
+
+export const generationManager = GenerationManager.getInstance();
@@ -0,0 +1,370 @@
+/**
+ * 图谱通道模块
+ * 插件通过 WebSocket 长连接到桥接服务，桥接服务作为 MCP 服务器对外提供图谱工具和资源，
+ * 收到的搜索、读取、写入请求由插件调用 Logseq API 执行后返回结果
+ */
+
+import '@logseq/libs';
+import { getSettings } from './settings';
+import { blocksToMarkdown } from './prompt-template';
+import { markdownToBlocks } from './markdown-blocks';
+
+type GraphHandler = (params: Record<string, any>) => Promise<any>;
+
+const CHANNEL_PATH = '/api/plugin-channel';
+
+// 重连间隔（指数退避）
+const RECONNECT_MIN_DELAY = 5000;
+const RECONNECT_MAX_DELAY = 60000;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const DEFAULT_QUERY_LIMIT = 50;
+const DEFAULT_PAGE_LIST_LIMIT = 100;
+
+function toJournalDay(date: string): number {
+    const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+        throw new Error(`Invalid journal date: ${date}`);
+    }
+    return Number(`${match[1]}${match[2]}${match[3]}`);
+}
+
+function formatJournalDay(journalDay: number): string {
+    const value = String(journalDay);
+    return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+function clampLimit(value: any, fallback: number): number {
+    const limit = Number(value);
+    return Number.isFinite(limit) && limit > 0 ? Math.min(Math.floor(limit), 500) : fallback;
+}
+
+async function ensureWritable(): Promise<void> {
+    const { graphServerAllowWrites } = await getSettings();
+    if (!graphServerAllowWrites) {
+        throw new Error('Write access is disabled. Enable "Graph MCP Server Allow Writes" in the Logseq AI Assistant settings.');
+    }
+}
+
+/**
+ * 页面转为 Markdown（标题 + 属性 + 块树）
+ */
+async function pageToResult(page: any): Promise<Record<string, any>> {
+    const blocks = await logseq.Editor.getPageBlocksTree(page.name);
+    const title = page.originalName || page['original-name'] || page.name;
+    const properties: Record<string, any> = page.properties || {};
+    const propertyLines = Object.entries(properties)
+        .map(([key, value]) => `${key}:: ${Array.isArray(value) ? value.join(', ') : value}`)
+        .join('\n');
+    return {
+        name: title,
+        uuid: page.uuid,
+        journalDay: page.journalDay ? formatJournalDay(page.journalDay) : undefined,
+        properties,
+        markdown: [`# ${title}`, propertyLines, blocksToMarkdown(blocks || [])].filter(Boolean).join('\n\n')
+    };
+}
+
+async function findJournalPage(date: string): Promise<any | null> {
+    const results: any[] = await logseq.DB.datascriptQuery(`[
+        :find (pull ?p [:block/name])
+        :where
+        [?p :block/journal-day ${toJournalDay(date)}]
+    ]`);
+    const name = results?.[0]?.[0]?.name;
+    return name ? await logseq.Editor.getPage(name) : null;
+}
+
+/**
+ * 桥接服务转发的图谱请求
+ */
+const handlers: Record<string, GraphHandler> = {
+    // 全文搜索块内容（不区分大小写）
+    search_blocks: async ({ query, limit }) => {
+        const text = String(query || '').trim().toLowerCase();
+        if (!text) {
+            throw new Error('query is required');
+        }
+        const results: any[] = await logseq.DB.datascriptQuery(`[
+            :find (pull ?b [:block/uuid :block/content {:block/page [:block/name :block/original-name]}])
+            :where
+            [?b :block/content ?c]
+            [(clojure.string/lower-case ?c) ?lc]
+            [(clojure.string/includes? ?lc ${JSON.stringify(text)})]
+        ]`);
+        return (results || [])
+            .map((result) => result[0])
+            .filter(Boolean)
+            .slice(0, clampLimit(limit, DEFAULT_SEARCH_LIMIT))
+            .map((block) => ({
+                uuid: block.uuid,
+                content: block.content,
+                page: block.page?.['original-name'] || block.page?.name
+            }));
+    },
+
+    // 页面内容，名称为 YYYY-MM-DD 时按日志日期查找
+    get_page: async ({ name }) => {
+        const pageName = String(name || '').trim();
+        if (!pageName) {
+            throw new Error('name is required');
+        }
+        if (/^\d{4}-\d{2}-\d{2}$/.test(pageName)) {
+            const journal = await findJournalPage(pageName);
+            if (journal) {
+                return await pageToResult(journal);
+            }
+        }
+        const page = await logseq.Editor.getPage(pageName);
+        if (!page) {
+            throw new Error(`Page not found: ${pageName}`);
+        }
+        return await pageToResult(page);
+    },
+
+    get_journal: async ({ date }) => {
+        const page = await findJournalPage(String(date || ''));
+        if (!page) {
+            throw new Error(`Journal not found: ${date}`);
+        }
+        return await pageToResult(page);
+    },
+
+    // 最近更新的页面，供资源列表使用
+    list_pages: async ({ limit }) => {
+        const pages = (await logseq.Editor.getAllPages()) || [];
+        return pages
+            .filter((page) => !page['journal?'] || page.journalDay)
+            .sort((a, b) => (b.updatedAt || 0) - (a.updatedAt || 0))
+            .slice(0, clampLimit(limit, DEFAULT_PAGE_LIST_LIMIT))
+            .map((page) => ({
+                name: page.name,
+                originalName: page.originalName,
+                journalDay: page['journal?'] && page.journalDay ? formatJournalDay(page.journalDay) : undefined
+            }));
+    },
+
+    // 追加块：优先追加为父块的最后一个子块，否则追加到页面末尾（页面不存在时创建）
+    append_block: async ({ content, page, parentUuid }) => {
+        await ensureWritable();
+        if (!content || typeof content !== 'string') {
+            throw new Error('content is required');
+        }
+        if (parentUuid) {
+            const parent = await logseq.Editor.getBlock(parentUuid);
+            if (!parent) {
+                throw new Error(`Block not found: ${parentUuid}`);
+            }
+            const block = await logseq.Editor.insertBlock(parentUuid, content, { sibling: false });
+            return { uuid: block?.uuid, parentUuid };
+        }
+        if (!page) {
+            throw new Error('Either page or parentUuid is required');
+        }
+        if (!await logseq.Editor.getPage(page)) {
+            await logseq.Editor.createPage(page, {}, { redirect: false, createFirstBlock: false });
+        }
+        const block = await logseq.Editor.appendBlockInPage(page, content);
+        return { uuid: block?.uuid, page };
+    },
+
+    // 创建页面，content 按 Markdown 拆分为块
+    create_page: async ({ name, content, properties }) => {
+        await ensureWritable();
+        const pageName = String(name || '').trim();
+        if (!pageName) {
+            throw new Error('name is required');
+        }
+        if (await logseq.Editor.getPage(pageName)) {
+            throw new Error(`Page already exists: ${pageName}`);
+        }
+        const page = await logseq.Editor.createPage(pageName, properties || {}, { redirect: false, createFirstBlock: false });
+        if (!page) {
+            throw new Error(`Failed to create page: ${pageName}`);
+        }
+
+        const blocks = content ? markdownToBlocks(String(content)) : [];
+        if (blocks.length > 0) {
+            const [first, ...rest] = blocks;
+            const firstBlock = await logseq.Editor.appendBlockInPage(page.name, first.content, { properties: first.properties });
+            if (firstBlock?.uuid) {
+                if (first.children?.length) {
+                    await logseq.Editor.insertBatchBlock(firstBlock.uuid, first.children, { sibling: false });
+                }
+                if (rest.length > 0) {
+                    await logseq.Editor.insertBatchBlock(firstBlock.uuid, rest, { sibling: true });
+                }
+            }
+        }
+        return { name: page.originalName || pageName, uuid: page.uuid, blocks: blocks.length };
+    },
+
+    // 以 [ 开头时作为 datascript 查询，否则作为简单查询
+    run_query: async ({ query, limit }) => {
+        const text = String(query || '').trim();
+        if (!text) {
+            throw new Error('query is required');
+        }
+        const results: any[] = text.startsWith('[')
+            ? ((await logseq.DB.datascriptQuery(text)) || []).map((result: any) => Array.isArray(result) && result.length === 1 ? result[0] : result)
+            : (await logseq.DB.q(text)) || [];
+        return results
+            .slice(0, clampLimit(limit, DEFAULT_QUERY_LIMIT))
+            .map((result) => {
+                if (result && typeof result === 'object' && !Array.isArray(result)) {
+                    if (result.content !== undefined) {
+                        return { uuid: result.uuid, content: result.content, page: result.page?.originalName || result.page?.name };
+                    }
+                    if (result.name !== undefined) {
+                        return { page: result.originalName || result['original-name'] || result.name };
+                    }
+                }
+                return result;
+            });
+    },
+};
+
+/**
+ * 图谱通道：连接桥接服务并处理转发的图谱请求，断开后自动重连
+ */
+export class GraphChannel {
+    private static instance: GraphChannel;
+    private socket: WebSocket | null = null;
+    private bridgeServiceUrl = '';
+    private authToken = '';
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private reconnectDelay = RECONNECT_MIN_DELAY;
+    private running = false;
+
+    static getInstance(): GraphChannel {
+        if (!GraphChannel.instance) {
+            GraphChannel.instance = new GraphChannel();
+        }
+        return GraphChannel.instance;
+    }
+
+    start(bridgeServiceUrl: string, authToken: string) {
+        if (this.running && this.bridgeServiceUrl === bridgeServiceUrl && this.authToken === authToken) {
+            return;
+        }
+        this.stop();
+        this.running = true;
+        this.bridgeServiceUrl = bridgeServiceUrl;
+        this.authToken = authToken;
+        this.connect();
+    }
+
+    stop() {
+        this.running = false;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (this.socket) {
+            const socket = this.socket;
+            this.socket = null;
+            socket.close();
+            console.log('🔌 图谱通道已关闭');
+        }
+    }
+
+    isConnected(): boolean {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * 重新发送握手信息（写入权限变化时调用）
+     */
+    async sendHello() {
+        if (!this.isConnected()) {
+            return;
+        }
+        const { graphServerAllowWrites } = await getSettings();
+        const graph = await logseq.App.getCurrentGraph();
+        this.socket?.send(JSON.stringify({
+            type: 'hello',
+            graph: graph?.name,
+            allowWrites: graphServerAllowWrites,
+            version: logseq.baseInfo.version
+        }));
+    }
+
+    private connect() {
+        const url = `${this.bridgeServiceUrl.replace(/\/+$/, '').replace(/^http/, 'ws')}${CHANNEL_PATH}`;
+        let socket: WebSocket;
+        try {
+            // 浏览器 WebSocket 无法设置请求头，令牌通过查询参数发送
+            socket = new WebSocket(`${url}?token=${encodeURIComponent(this.authToken)}`);
+        } catch (error) {
+            console.warn('⚠️ 图谱通道连接失败:', error);
+            this.scheduleReconnect();
+            return;
+        }
+        this.socket = socket;
+
+        socket.onopen = () => {
+            this.reconnectDelay = RECONNECT_MIN_DELAY;
+            console.log(`🔗 图谱通道已连接: ${url}`);
+            this.sendHello().catch((error) => console.warn('⚠️ 图谱通道握手失败:', error));
+        };
+        socket.onmessage = (event) => {
+            this.handleMessage(socket, String(event.data));
+        };
+        socket.onclose = () => {
+            if (this.socket !== socket) {
+                return;
+            }
+            this.socket = null;
+            this.scheduleReconnect();
+        };
+        socket.onerror = () => {
+            // 错误之后会触发 onclose，在那里重连
+        };
+    }
+
+    private scheduleReconnect() {
+        if (!this.running || this.reconnectTimer) {
+            return;
+        }
+        const delay = this.reconnectDelay;
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_DELAY);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.running) {
+                this.connect();
+            }
+        }, delay);
+    }
+
+    private async handleMessage(socket: WebSocket, raw: string) {
+        let message: any;
+        try {
+            message = JSON.parse(raw);
+        } catch {
+            return;
+        }
+        if (message?.type !== 'request' || !message.id) {
+            return;
+        }
+
+        const handler = handlers[message.method];
+        let reply: Record<string, any>;
+        try {
+            if (!handler) {
+                throw new Error(`Unknown graph method: ${message.method}`);
+            }
+            const result = await handler(message.params || {});
+            reply = { type: 'response', id: message.id, result };
+            console.log(`📚 图谱请求完成: ${message.method}`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            reply = { type: 'response', id: message.id, error: { message: errorMessage } };
+            console.warn(`⚠️ 图谱请求失败: ${message.method}`, errorMessage);
+        }
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(reply));
+        }
+    }
+}
+
+export const graphChannel = GraphChannel.getInstance();
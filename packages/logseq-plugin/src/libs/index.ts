@@ -1,98 +1,19 @@
 import '@logseq/libs';
-import { OpenAI, toMessages } from '@libs/openai';
+import { toMessages, OpenAIMessagesRole } from '@libs/openai';
+import { ChatMessage } from '@libs/providers';
 import { settingsSchema, getSettings } from './settings';
 import { bridgeServiceRequest, ConnectionManager } from './network';
-
-/**
- * 格式化AI回复内容，处理Logseq不支持的多个列表和标题
- * @param content AI回复的原始内容
- * @returns 格式化后的内容数组，每个元素对应一个Logseq块
- */
-function formatContentForLogseq(content: string): string[] {
-    if (!content || content.trim() === '') {
-        return [content];
-    }
-
-    const lines = content.split('\n');
-    const blocks: string[] = [];
-    let currentBlock = '';
-    let inCodeBlock = false;
-
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        const trimmedLine = line.trim();
-        
-        // 检查代码块
-        if (trimmedLine.startsWith('```')) {
-            inCodeBlock = !inCodeBlock;
-            if (currentBlock === '') {
-                currentBlock = line;
-            } else {
-                currentBlock += '\n' + line;
-            }
-            
-            // 如果代码块结束，结束当前块
-            if (!inCodeBlock) {
-                blocks.push(currentBlock.trim());
-                currentBlock = '';
-            }
-            continue;
-        }
-        
-        // 如果在代码块内，直接添加
-        if (inCodeBlock) {
-            currentBlock += '\n' + line;
-            continue;
-        }
-        
-        // 检查是否是标题（# ## ### 等）
-        const isHeading = /^#{1,6}\s/.test(trimmedLine);
-        // 检查是否是列表项（- * + 或 1. 2. 等）
-        const isListItem = /^[\-\*\+]\s/.test(trimmedLine) || /^\d+\.\s/.test(trimmedLine);
-        
-        // 标题和列表项都需要独立成块
-        if ((isHeading || isListItem) && currentBlock.trim() !== '') {
-            blocks.push(currentBlock.trim());
-            currentBlock = line;
-        }
-        // 如果当前行是标题或列表项，且当前块为空，直接设置为当前块
-        else if ((isHeading || isListItem) && currentBlock.trim() === '') {
-            currentBlock = line;
-        }
-        // 普通文本行
-        else {
-            if (currentBlock === '') {
-                currentBlock = line;
-            } else {
-                // 如果当前块已经是标题或列表项，需要结束当前块
-                const currentBlockTrimmed = currentBlock.trim();
-                const currentIsHeading = /^#{1,6}\s/.test(currentBlockTrimmed);
-                const currentIsListItem = /^[\-\*\+]\s/.test(currentBlockTrimmed) || /^\d+\.\s/.test(currentBlockTrimmed);
-                
-                if (currentIsHeading || currentIsListItem) {
-                    blocks.push(currentBlock.trim());
-                    currentBlock = line;
-                } else {
-                    currentBlock += '\n' + line;
-                }
-            }
-        }
-        
-        // 如果当前行是标题或列表项，立即结束当前块
-        if (isHeading || isListItem) {
-            blocks.push(currentBlock.trim());
-            currentBlock = '';
-        }
-    }
-    
-    // 添加最后一个块
-    if (currentBlock.trim() !== '') {
-        blocks.push(currentBlock.trim());
-    }
-    
-    // 如果没有分割出多个块，返回原内容
-    return blocks.length > 0 ? blocks : [content];
-}
+import { buildConversationThread } from './conversation';
+import { resolveProvider } from './providers';
+import { generationManager } from './generation-manager';
+import { runWithBudget, BudgetedResult } from './context-budget';
+import { semanticIndex } from './semantic-index';
+import { formatCitationContext, linkCitations, insertSourcesBlock, CITATION_INSTRUCTION, CitationSource } from './citations';
+import { promptLibrary } from './prompt-library';
+import { toRenderedMessages, usesVariables } from './prompt-template';
+import { insertMarkdownBlocks } from './markdown-blocks';
+import { callToolWithApproval } from './tool-approval';
+import { taskTracker, TaskDescriptor, TaskPollResult, TrackedTask } from './task-tracker';
 
 /**
  * Recursively aggregate all content on tree nodes.
@@ -118,18 +39,19 @@ async function openaiMessage(
     user_content: string,
     opts?: {
         system_content?: string,
-        assistant_content?: string
+        assistant_content?: string,
+        conversation?: boolean,
+        command?: string,
+        profile?: string,
+        model?: string,
+        temperature?: number,
+        // 模板变量 {{input}} 的值（提示词命令中去掉命令和属性后的块内容）
+        input?: string
     }
 ): Promise<void> {
     try {
-        const { aiProvider, openaiKey, openaiAddress, gptModel, ollamaAddress, ollamaModel, bridgeServiceUrl } = await getSettings();
-        
-        let openai: OpenAI;
-        if (aiProvider === "ollama") {
-            openai = new OpenAI("", ollamaAddress, ollamaModel, true);
-        } else {
-            openai = new OpenAI(openaiKey, openaiAddress, gptModel, false);
-        }
+        const { bridgeServiceUrl, isConversationMode, conversationMaxMessages } = await getSettings();
+        const provider = await resolveProvider({ command: opts?.command, profile: opts?.profile });
         
         // 智能意图分析和任务调度（非流式版本）
         let mcpContext = '';
@@ -189,35 +111,39 @@ async function openaiMessage(
         // 构建增强的用户内容
         const enhancedUserContent = (intentAnalysisInfo + mcpContext) ? `${user_content}${intentAnalysisInfo}${mcpContext}` : user_content;
         
-        const uuid: string|undefined = (await logseq.Editor.insertBlock(block_id, `loading...`))?.uuid;
+        // 对话模式下沿块树构建多轮对话历史
+        const history = (opts?.conversation ?? isConversationMode)
+            ? await buildConversationThread(block_id, conversationMaxMessages)
+            : undefined;
 
-        const result = await openai.chat(toMessages(
-            enhancedUserContent, {
-            system: opts?.system_content,
-            assistant: opts?.assistant_content
-        }), false);
+        const uuid: string|undefined = (await logseq.Editor.insertBlock(block_id, `loading...`))?.uuid;
 
-        // 格式化内容为多个块
-        const formattedBlocks = formatContentForLogseq(result);
-        
-        if (formattedBlocks.length === 1) {
-            // 单个块，直接更新或插入
-            if (uuid) {
-                await logseq.Editor.updateBlock(uuid, formattedBlocks[0]);
-            } else {
-                await logseq.Editor.insertBlock(block_id, formattedBlocks[0]);
-            }
-        } else {
-            // 多个块，需要删除loading块并插入多个新块
+        const controller = generationManager.start(block_id);
+        let result: string;
+        try {
+            // 解析提示词中的模板变量（{{block}}、{{page}}、{{journal:-7d}} 等）
+            result = await provider.chat(await toRenderedMessages(
+                enhancedUserContent, {
+                system: opts?.system_content,
+                assistant: opts?.assistant_content,
+                history,
+                context: { blockId: block_id, input: opts?.input }
+            }), { signal: controller.signal, model: opts?.model, temperature: opts?.temperature });
+        } catch (err: any) {
+            if (!controller.signal.aborted) {
+                throw err;
+            }
+            // 非流式输出没有中间结果，停止后只保留提示
             if (uuid) {
-                await logseq.Editor.removeBlock(uuid);
-            }
-            
-            // 插入多个格式化后的块
-            for (let i = 0; i < formattedBlocks.length; i++) {
-                await logseq.Editor.insertBlock(block_id, formattedBlocks[i]);
+                await logseq.Editor.updateBlock(uuid, '⏹️ 已停止生成');
             }
+            return;
+        } finally {
+            generationManager.finish(block_id, controller);
         }
+
+        // 把回复转换为嵌套的块树
+        await insertMarkdownBlocks(block_id, result, { placeholderUuid: uuid, markReply: true });
         await logseq.Editor.editBlock(block_id);
     } catch (err: any) {
         logseq.UI.showMsg(err.message, 'error');
@@ -231,17 +157,11 @@ async function openaiMessage(
  * @param opts gpt prompt
  */
 /**
- * 调用MCP工具的函数
+ * 调用MCP工具的函数（工具策略为 ask 时先弹出确认框）
  */
 async function callMCPTool(serviceId: string, toolName: string, args: any): Promise<any> {
     try {
-        const { bridgeServiceUrl } = await getSettings();
-        const result = await bridgeServiceRequest(`/api/tools/${serviceId}/${toolName}`, bridgeServiceUrl, {
-            body: JSON.stringify(args),
-            timeout: 30000,
-            retries: 2
-        });
-        return result;
+        return await callToolWithApproval(serviceId, toolName, args || {});
     } catch (error) {
         console.error('Error calling MCP tool:', error);
         throw error;
@@ -249,13 +169,17 @@ async function callMCPTool(serviceId: string, toolName: string, args: any): Prom
 }
 
 /**
- * 分析用户意图并推荐MCP工具
+ * 分析用户意图并推荐MCP工具或专门命令对应的能力
+ * @param attachments 当前块引用的图片和文件，只发送数量用于判断能力是否可用
  */
-async function analyzeUserIntent(userInput: string): Promise<any> {
+async function analyzeUserIntent(userInput: string, attachments?: { images: string[], files: string[] }): Promise<any> {
     try {
         const { bridgeServiceUrl } = await getSettings();
         const result = await bridgeServiceRequest('/api/analyze-intent', bridgeServiceUrl, {
-            body: JSON.stringify({ userInput }),
+            body: JSON.stringify({
+                userInput,
+                attachments: attachments && { images: attachments.images.length, files: attachments.files.length }
+            }),
             timeout: 15000,
             retries: 1
         });
@@ -271,18 +195,19 @@ async function openaiStream(
     user_content: string,
     opts?: {
         system_content?: string,
-        assistant_content?: string
+        assistant_content?: string,
+        conversation?: boolean,
+        command?: string,
+        profile?: string,
+        model?: string,
+        temperature?: number,
+        // 模板变量 {{input}} 的值（提示词命令中去掉命令和属性后的块内容）
+        input?: string
     }
 ): Promise<void> {
     try {
-        const { aiProvider, openaiKey, openaiAddress, gptModel, ollamaAddress, ollamaModel, bridgeServiceUrl } = await getSettings();
-        
-        let openai: OpenAI;
-        if (aiProvider === "ollama") {
-            openai = new OpenAI("", ollamaAddress, ollamaModel, true);
-        } else {
-            openai = new OpenAI(openaiKey, openaiAddress, gptModel, false);
-        }
+        const { bridgeServiceUrl, isConversationMode, conversationMaxMessages } = await getSettings();
+        const provider = await resolveProvider({ command: opts?.command, profile: opts?.profile });
         
         // 智能意图分析和任务调度
         let mcpContext = '';
@@ -358,51 +283,46 @@ async function openaiStream(
         // 构建增强的用户内容
         const enhancedUserContent = (intentAnalysisInfo + mcpContext) ? `${user_content}${intentAnalysisInfo}${mcpContext}` : user_content;
         
-        const uuid: string|undefined = (await logseq.Editor.insertBlock(block_id, `loading...`))?.uuid;
-
-        let result: string = "", text: string = "";
-        const decoder = new TextDecoder("utf-8");
-        const reader = (await openai.chat(toMessages(
-            enhancedUserContent, {
-            system: opts?.system_content,
-            assistant: opts?.assistant_content
-        }))).body?.getReader();
+        // 对话模式下沿块树构建多轮对话历史
+        const history = (opts?.conversation ?? isConversationMode)
+            ? await buildConversationThread(block_id, conversationMaxMessages)
+            : undefined;
 
-        while (undefined !== uuid) {
-            const { done, value }: any = await reader?.read();
-            if( done ) { break; }
+        const uuid: string|undefined = (await logseq.Editor.insertBlock(block_id, `loading...`))?.uuid;
 
+        let result: string = "";
+        if (undefined !== uuid) {
+            const controller = generationManager.start(block_id);
             try {
-                const lines = decoder.decode(value).split("\n");
-                lines.map((line) => line.replace(/^data: /, "").trim())
-                    .filter((line) => line !== "" && line !== "[DONE]")
-                    .map((line) => JSON.parse(line))
-                    .forEach((line) => {
-                        text = line.choices[0].delta?.content as string;
-                        result += text ? text : '';
-                    })
-                // 流式输出时实时更新，不进行格式化
-                await logseq.Editor.updateBlock(uuid, result);
-            } catch(err: any) {
-                // Avoid situations where the presence of 
-                // certain escape characters causes output failure.
-                continue;
+                // 解析提示词中的模板变量（{{block}}、{{page}}、{{journal:-7d}} 等）
+                const messages = await toRenderedMessages(enhancedUserContent, {
+                    system: opts?.system_content,
+                    assistant: opts?.assistant_content,
+                    history,
+                    context: { blockId: block_id, input: opts?.input }
+                });
+                // 各提供商自行解析流格式（SSE / NDJSON），流式输出时实时更新，不进行格式化
+                result = await provider.stream(messages, async (_delta, full) => {
+                    result = full;
+                    await logseq.Editor.updateBlock(uuid, full);
+                }, { signal: controller.signal, model: opts?.model, temperature: opts?.temperature });
+            } catch (err: any) {
+                if (!controller.signal.aborted) {
+                    throw err;
+                }
+                // 用户主动停止，保留已输出的内容
+                console.log('⏹️ 已停止生成，保留已输出内容', { length: result.length });
+                if (result.trim() === '') {
+                    await logseq.Editor.updateBlock(uuid, '⏹️ 已停止生成');
+                }
+            } finally {
+                generationManager.finish(block_id, controller);
             }
         }
         
-        // 流式输出完成后，对最终结果进行格式化处理
+        // 流式输出完成后，把最终结果转换为嵌套的块树
         if (undefined !== uuid && result.trim() !== '') {
-            const formattedBlocks = formatContentForLogseq(result);
-            
-            if (formattedBlocks.length > 1) {
-                // 需要拆分为多个块
-                await logseq.Editor.removeBlock(uuid);
-                
-                // 插入多个格式化后的块
-                for (let i = 0; i < formattedBlocks.length; i++) {
-                    await logseq.Editor.insertBlock(block_id, formattedBlocks[i]);
-                }
-            }
+            await insertMarkdownBlocks(block_id, result, { placeholderUuid: uuid, markReply: true });
         }
         
         await logseq.Editor.editBlock(block_id);
@@ -413,21 +333,15 @@ async function openaiStream(
 
 async function generateAdvancedQuery(content: string, block_id: string) {
     try {
-        const { aiProvider, openaiKey, openaiAddress, gptModel, ollamaAddress, ollamaModel, promptAdvancedQuery } = await getSettings();
-        
-        let openai: OpenAI;
-        if (aiProvider === "ollama") {
-            openai = new OpenAI("", ollamaAddress, ollamaModel, true);
-        } else {
-            openai = new OpenAI(openaiKey, openaiAddress, gptModel, false);
-        }
+        const { promptAdvancedQuery } = await getSettings();
+        const provider = await resolveProvider({ command: 'advanced-query' });
         const uuid: string|undefined = (await logseq.Editor.insertBlock(block_id, `loading...`))?.uuid;
 
         if (undefined != uuid) {
-            const result: string = (await openai.chat(toMessages(
+            const result: string = await provider.chat(toMessages(
                 content + '(output the code text only without additional explanations.)', {
                 system: promptAdvancedQuery
-            }), false));
+            }));
 
             await logseq.Editor.updateBlock(uuid, result.replace(/^```+|```+$/g, ''));
             await logseq.Editor.editBlock(block_id);
@@ -437,14 +351,78 @@ async function generateAdvancedQuery(content: string, block_id: string) {
     }
 }
 
+/**
+ * 生成摘要标题后缀，说明使用了多少个分块
+ * @param budgeted 按预算执行的结果
+ */
+function describeBudgetedResult(budgeted: BudgetedResult): string {
+    if (budgeted.truncated) {
+        return '（内容超出上下文预算，已截断）';
+    }
+    if (budgeted.chunks > 1) {
+        return `（分 ${budgeted.chunks} 块 map-reduce 汇总）`;
+    }
+    return '';
+}
+
+/**
+ * 在结果块上记录使用的分块数量
+ * @param uuid 结果块 ID
+ * @param budgeted 按预算执行的结果
+ */
+async function recordBudgetedResult(uuid: string, budgeted: BudgetedResult): Promise<void> {
+    await logseq.Editor.upsertBlockProperty(uuid, 'ai-chunks', budgeted.chunks);
+    if (budgeted.truncated) {
+        await logseq.Editor.upsertBlockProperty(uuid, 'ai-truncated', true);
+    }
+}
+
+/**
+ * 总结当前块及其所有子块的内容（/gpt-block），超出上下文预算时自动分块 map-reduce
+ * @param block_id 当前块ID
+ */
+async function performBlockSummary(block_id: string): Promise<void> {
+    try {
+        const content = await summary(block_id, true);
+        if (!content.trim()) {
+            logseq.UI.showMsg('当前块没有内容可以总结', 'warning');
+            return;
+        }
+
+        const provider = await resolveProvider({ command: 'gpt-block' });
+        const uuid: string|undefined = (await logseq.Editor.insertBlock(block_id, `loading...`))?.uuid;
+
+        const budgeted = await runWithBudget(provider, content, {
+            system: "You are a helpful assistant that summarizes notes accurately.",
+            buildPrompt: (text) => `${text}\nPlease try to summarize the content of the above text.`,
+            onProgress: async (message) => {
+                if (uuid) {
+                    await logseq.Editor.updateBlock(uuid, message);
+                }
+            }
+        });
+
+        const replyUuids = await insertMarkdownBlocks(block_id, budgeted.result, {
+            placeholderUuid: uuid,
+            suffix: describeBudgetedResult(budgeted),
+            markReply: true
+        });
+        if (replyUuids[0]) {
+            await recordBudgetedResult(replyUuids[0], budgeted);
+        }
+
+        await logseq.Editor.editBlock(block_id);
+    } catch (err: any) {
+        logseq.UI.showMsg(err.message, 'error');
+    }
+}
+
 /**
  * 生成当前页面的摘要
  * @param block_id 当前块ID
  */
 async function generatePageSummary(block_id: string): Promise<void> {
     try {
-        const { aiProvider, openaiKey, openaiAddress, gptModel, ollamaAddress, ollamaModel } = await getSettings();
-        
         // 获取当前页面的所有内容
         const currentBlock = await logseq.Editor.getCurrentBlock();
         if (!currentBlock) {
@@ -484,45 +462,35 @@ async function generatePageSummary(block_id: string): Promise<void> {
             return;
         }
         
-        // 构建摘要提示词
-        const summaryPrompt = `请为以下内容生成一个简洁的摘要，不超过144个字：\n\n${pageContent}`;
-        
-        let openai: OpenAI;
-        if (aiProvider === "ollama") {
-            openai = new OpenAI("", ollamaAddress, ollamaModel, true);
-        } else {
-            openai = new OpenAI(openaiKey, openaiAddress, gptModel, false);
-        }
+        const provider = await resolveProvider({ command: 'gpt-summary' });
         
         const uuid: string|undefined = (await logseq.Editor.insertBlock(block_id, `正在生成页面摘要...`))?.uuid;
         
-        const result = await openai.chat(toMessages(summaryPrompt, {
-            system: "你是一个专业的摘要助手。请生成简洁、准确的摘要，突出主要观点和关键信息。摘要应该在144个字以内。"
-        }), false);
-        
-        // 格式化摘要结果
-        const formattedBlocks = formatContentForLogseq(result);
-        
-        if (formattedBlocks.length === 1) {
-            // 单个块，直接更新
-            if (uuid) {
-                await logseq.Editor.updateBlock(uuid, `📝 **页面摘要**\n\n${formattedBlocks[0]}`);
-            } else {
-                await logseq.Editor.insertBlock(block_id, `📝 **页面摘要**\n\n${formattedBlocks[0]}`);
+        // 按上下文预算生成摘要，超出预算时自动分块 map-reduce
+        const budgeted = await runWithBudget(provider, pageContent, {
+            system: "你是一个专业的摘要助手。请生成简洁、准确的摘要，突出主要观点和关键信息。摘要应该在144个字以内。",
+            buildPrompt: (content) => `请为以下内容生成一个简洁的摘要，不超过144个字：\n\n${content}`,
+            onProgress: async (message) => {
+                if (uuid) {
+                    await logseq.Editor.updateBlock(uuid, message);
+                }
             }
+        });
+        const title = `📝 **页面摘要**${describeBudgetedResult(budgeted)}`;
+        
+        // 摘要标题块，摘要内容按块树插入为其子块
+        let summaryUuid: string|undefined = uuid;
+        if (summaryUuid) {
+            await logseq.Editor.updateBlock(summaryUuid, title);
         } else {
-            // 多个块，需要删除loading块并插入多个新块
-            if (uuid) {
-                await logseq.Editor.removeBlock(uuid);
-            }
-            
-            // 插入标题块
-            await logseq.Editor.insertBlock(block_id, `📝 **页面摘要**`);
-            
-            // 插入多个格式化后的块
-            for (let i = 0; i < formattedBlocks.length; i++) {
-                await logseq.Editor.insertBlock(block_id, formattedBlocks[i]);
-            }
+            summaryUuid = (await logseq.Editor.insertBlock(block_id, title))?.uuid;
+        }
+        if (summaryUuid) {
+            await insertMarkdownBlocks(summaryUuid, budgeted.result);
+        }
+        
+        if (summaryUuid) {
+            await recordBudgetedResult(summaryUuid, budgeted);
         }
         
         await logseq.Editor.editBlock(block_id);
@@ -534,14 +502,14 @@ async function generatePageSummary(block_id: string): Promise<void> {
 /**
  * 获取与当前页面相关的图库内容（基于双链和标签）
  * @param currentPageName 当前页面名称
- * @returns 相关的图库内容
+ * @returns 相关的图库内容及带编号的来源块
  */
-async function getBacklinkGraphContent(currentPageName: string): Promise<string> {
+async function collectGraphContext(currentPageName: string): Promise<{text: string, sources: CitationSource[]}> {
     try {
         // 获取当前页面信息
         const currentPage = await logseq.Editor.getPage(currentPageName);
         if (!currentPage) {
-            return '无法获取当前页面信息。';
+            return { text: '无法获取当前页面信息。', sources: [] };
         }
 
         // 获取当前页面内容以提取标签和引用
@@ -553,7 +521,7 @@ async function getBacklinkGraphContent(currentPageName: string): Promise<string>
         const pageReferences = extractPageReferences(currentPageContent);
         
         // 收集相关内容
-        const relatedContent: Array<{type: string, pageName: string, content: string}> = [];
+        const relatedContent: Array<{type: string, pageName: string, content: string, uuid?: string}> = [];
         
         // 1. 获取引用当前页面的其他页面（反向链接）
         const backlinks = await getBacklinks(currentPageName);
@@ -561,7 +529,8 @@ async function getBacklinkGraphContent(currentPageName: string): Promise<string>
             relatedContent.push({
                 type: '反向链接',
                 pageName: backlink.pageName,
-                content: backlink.content
+                content: backlink.content,
+                uuid: backlink.uuid
             });
         }
         
@@ -572,7 +541,8 @@ async function getBacklinkGraphContent(currentPageName: string): Promise<string>
                 relatedContent.push({
                     type: '引用页面',
                     pageName: ref,
-                    content: refContent
+                    content: refContent.content,
+                    uuid: refContent.uuid
                 });
             }
         }
@@ -585,7 +555,8 @@ async function getBacklinkGraphContent(currentPageName: string): Promise<string>
                     relatedContent.push({
                         type: '相同标签',
                         pageName: taggedPage.pageName,
-                        content: taggedPage.content
+                        content: taggedPage.content,
+                        uuid: taggedPage.uuid
                     });
                 }
             }
@@ -596,17 +567,33 @@ async function getBacklinkGraphContent(currentPageName: string): Promise<string>
         const limitedContent = uniqueContent.slice(0, 8); // 限制最多8个相关页面
         
         if (limitedContent.length === 0) {
-            return `当前页面 "${currentPageName}" 没有找到相关的双链或标签内容。`;
+            return { text: `当前页面 "${currentPageName}" 没有找到相关的双链或标签内容。`, sources: [] };
         }
         
-        return formatRelatedContent(currentPageName, limitedContent, tags, pageReferences);
+        // 按编号记录来源块，供回答引用
+        const sources: CitationSource[] = limitedContent
+            .filter(item => item.uuid)
+            .map(item => ({ uuid: item.uuid as string, page: item.pageName, content: item.content }));
+        
+        return {
+            text: formatRelatedContent(currentPageName, limitedContent, tags, pageReferences, sources),
+            sources
+        };
         
     } catch (error) {
         console.error('获取双链图库内容时出错:', error);
-        return '获取图库内容时发生错误，请稍后重试。';
+        return { text: '获取图库内容时发生错误，请稍后重试。', sources: [] };
     }
 }
 
+/**
+ * 获取基于双链和标签的图库内容（文本形式）
+ * @param currentPageName 当前页面名称
+ */
+async function getBacklinkGraphContent(currentPageName: string): Promise<string> {
+    return (await collectGraphContext(currentPageName)).text;
+}
+
 /**
  * 提取页面内容中的标签
  * @param content 页面内容
@@ -646,7 +633,7 @@ function extractPageReferences(content: string): string[] {
  * @param pageName 页面名称
  * @returns 反向链接数组
  */
-async function getBacklinks(pageName: string): Promise<Array<{pageName: string, content: string}>> {
+async function getBacklinks(pageName: string): Promise<Array<{pageName: string, content: string, uuid: string}>> {
     try {
         // 使用 Datalog 查询获取包含页面引用的块
         const query = `[
@@ -657,7 +644,7 @@ async function getBacklinks(pageName: string): Promise<Array<{pageName: string,
         ]`;
         
         const results = await logseq.DB.datascriptQuery(query);
-        const backlinks: Array<{pageName: string, content: string}> = [];
+        const backlinks: Array<{pageName: string, content: string, uuid: string}> = [];
         
         for (const result of results.slice(0, 5)) { // 限制结果数量
             const block = result[0];
@@ -668,7 +655,8 @@ async function getBacklinks(pageName: string): Promise<Array<{pageName: string,
                     const contextContent = await getBlockContext(block.uuid);
                     backlinks.push({
                         pageName: page.name,
-                        content: contextContent || block.content || ''
+                        content: contextContent || block.content || '',
+                        uuid: block.uuid
                     });
                 }
             }
@@ -686,7 +674,7 @@ async function getBacklinks(pageName: string): Promise<Array<{pageName: string,
  * @param pageName 页面名称
  * @returns 页面内容
  */
-async function getPageContent(pageName: string): Promise<string | null> {
+async function getPageContent(pageName: string): Promise<{content: string, uuid: string} | null> {
     try {
         const pageBlocks = await logseq.Editor.getPageBlocksTree(pageName);
         if (!pageBlocks || pageBlocks.length === 0) {
@@ -694,8 +682,11 @@ async function getPageContent(pageName: string): Promise<string | null> {
         }
         
         const content = extractBlockContent(pageBlocks);
-        // 限制单个页面内容长度
-        return content.length > 800 ? content.substring(0, 800) + '...' : content;
+        // 限制单个页面内容长度，引用时指向页面的第一个块
+        return {
+            content: content.length > 800 ? content.substring(0, 800) + '...' : content,
+            uuid: pageBlocks[0].uuid
+        };
     } catch (error) {
         console.warn(`获取页面 ${pageName} 内容时出错:`, error);
         return null;
@@ -707,7 +698,7 @@ async function getPageContent(pageName: string): Promise<string | null> {
  * @param tag 标签名称
  * @returns 包含该标签的页面数组
  */
-async function getPagesWithTag(tag: string): Promise<Array<{pageName: string, content: string}>> {
+async function getPagesWithTag(tag: string): Promise<Array<{pageName: string, content: string, uuid: string}>> {
     try {
         // 使用 Datalog 查询获取包含标签的块
         const query = `[
@@ -718,7 +709,7 @@ async function getPagesWithTag(tag: string): Promise<Array<{pageName: string, co
         ]`;
         
         const results = await logseq.DB.datascriptQuery(query);
-        const taggedPages: Array<{pageName: string, content: string}> = [];
+        const taggedPages: Array<{pageName: string, content: string, uuid: string}> = [];
         const seenPages = new Set<string>();
         
         for (const result of results.slice(0, 3)) { // 限制每个标签的结果数量
@@ -730,7 +721,8 @@ async function getPagesWithTag(tag: string): Promise<Array<{pageName: string, co
                     const contextContent = await getBlockContext(block.uuid);
                     taggedPages.push({
                         pageName: page.name,
-                        content: contextContent || block.content || ''
+                        content: contextContent || block.content || '',
+                        uuid: block.uuid
                     });
                 }
             }
@@ -785,9 +777,9 @@ async function getBlockContext(blockUuid: string): Promise<string | null> {
  * @param content 相关内容数组
  * @returns 去重后的内容数组
  */
-function deduplicateContent(content: Array<{type: string, pageName: string, content: string}>): Array<{type: string, pageName: string, content: string}> {
+function deduplicateContent(content: Array<{type: string, pageName: string, content: string, uuid?: string}>): Array<{type: string, pageName: string, content: string, uuid?: string}> {
     const seen = new Set<string>();
-    const unique: Array<{type: string, pageName: string, content: string}> = [];
+    const unique: Array<{type: string, pageName: string, content: string, uuid?: string}> = [];
     
     for (const item of content) {
         const key = `${item.type}-${item.pageName}`;
@@ -806,13 +798,15 @@ function deduplicateContent(content: Array<{type: string, pageName: string, cont
  * @param content 相关内容数组
  * @param tags 标签数组
  * @param references 引用数组
+ * @param sources 带编号的来源块，内容会标注对应的 [编号] 供回答引用
  * @returns 格式化后的内容字符串
  */
 function formatRelatedContent(
     currentPageName: string, 
-    content: Array<{type: string, pageName: string, content: string}>,
+    content: Array<{type: string, pageName: string, content: string, uuid?: string}>,
     tags: string[],
-    references: string[]
+    references: string[],
+    sources: CitationSource[] = []
 ): string {
     let result = `# 双链图库搜索结果\n\n`;
     result += `**当前页面**: ${currentPageName}\n`;
@@ -839,7 +833,9 @@ function formatRelatedContent(
             result += `## ${type} (${items.length}个)\n\n`;
             
             for (const item of items) {
-                result += `### [[${item.pageName}]]\n\n`;
+                const index = item.uuid ? sources.findIndex(source => source.uuid === item.uuid) : -1;
+                const label = index >= 0 ? `[${index + 1}] ` : '';
+                result += `### ${label}[[${item.pageName}]]\n\n`;
                 result += item.content + '\n\n---\n\n';
             }
         }
@@ -866,10 +862,10 @@ function extractBlockContent(blocks: any[]): string {
     return content;
 }
 
-async function generateGraphBasedResponse(currentPageName: string, userInput: string, model: string, apiKey: string, baseUrl: string, blockId: string): Promise<void> {
+async function generateGraphBasedResponse(currentPageName: string, userInput: string, blockId: string): Promise<void> {
     try {
-        // 获取基于双链的图库内容
-        const graphContent = await getBacklinkGraphContent(currentPageName);
+        // 获取基于双链的图库内容，每个片段带有来源块编号
+        const { text: graphContent, sources } = await collectGraphContext(currentPageName);
         
         // 构建系统提示词
         const systemPrompt = `你是一个智能助手，专门帮助用户基于他们的知识图库来回答问题。
@@ -884,56 +880,27 @@ ${graphContent}
 1. 优先使用图库中的信息
 2. 如果图库信息不足，可以结合你的知识进行补充
 3. 明确指出哪些信息来自图库，哪些是补充信息
-4. 保持回答的准确性和相关性`;
-
-        // 调用OpenAI API
-        const response = await fetch(`${baseUrl}/v1/chat/completions`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-                model: model,
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userInput }
-                ],
-                temperature: 0.7,
-                max_tokens: 2000
-            })
-        });
-
-        if (!response.ok) {
-            throw new Error(`API请求失败: ${response.status} ${response.statusText}`);
-        }
+4. 保持回答的准确性和相关性
+5. ${CITATION_INSTRUCTION}`;
 
-        const data = await response.json();
-        const content = data.choices[0]?.message?.content || '抱歉，无法生成回答。';
+        const provider = await resolveProvider({ command: 'gpt-graph' });
+        const answer = await provider.chat(toMessages(userInput, { system: systemPrompt }), {
+            temperature: 0.7,
+            maxTokens: 2000
+        }) || '抱歉，无法生成回答。';
         
-        // 格式化内容为多个块
-        const formattedBlocks = formatContentForLogseq(content);
+        // 把回答中的 [n] 转为指向来源块的引用
+        const { text: content, cited } = linkCitations(answer, sources);
         
         // 创建loading块
         const uuid: string|undefined = (await logseq.Editor.insertBlock(blockId, `loading...`))?.uuid;
         
-        if (formattedBlocks.length === 1) {
-            // 单个块，直接更新
-            if (uuid) {
-                await logseq.Editor.updateBlock(uuid, formattedBlocks[0]);
-            } else {
-                await logseq.Editor.insertBlock(blockId, formattedBlocks[0]);
-            }
-        } else {
-            // 多个块，需要删除loading块并插入多个新块
-            if (uuid) {
-                await logseq.Editor.removeBlock(uuid);
-            }
-            
-            // 插入多个格式化后的块
-            for (let i = 0; i < formattedBlocks.length; i++) {
-                await logseq.Editor.insertBlock(blockId, formattedBlocks[i]);
-            }
+        // 把回答转换为嵌套的块树
+        await insertMarkdownBlocks(blockId, content, { placeholderUuid: uuid, markReply: true });
+        
+        // 列出回答引用的来源页面
+        if (sources.length > 0) {
+            await insertSourcesBlock(blockId, sources, cited);
         }
         await logseq.Editor.editBlock(blockId);
         
@@ -1621,8 +1588,15 @@ async function performImageGeneration(blockId: string, prompt: string, existingI
         
         await logseq.Editor.insertBlock(blockId, placeholderContent, { sibling: false });
         
-        // 开始轮询任务状态
-        pollImageTaskStatus(result.taskId, bridgeServiceUrl, { uuid: blockId }, processedPrompt);
+        // 跟踪任务状态，完成后替换占位符
+        await taskTracker.track({
+            taskId: result.taskId,
+            kind: 'image',
+            blockUuid: blockId,
+            bridgeServiceUrl,
+            title: processedPrompt,
+            params: { prompt: processedPrompt }
+        });
         
         logseq.UI.showMsg('🎨 图像生成任务已创建，正在后台处理...', 'success');
         
@@ -1744,8 +1718,15 @@ async function performImageEdit(blockId: string, prompt: string, imagePaths: str
         
         await logseq.Editor.insertBlock(blockId, placeholderContent, { sibling: false });
         
-        // 开始轮询任务状态
-        pollImageTaskStatus(result.taskId, bridgeServiceUrl, { uuid: blockId }, prompt);
+        // 跟踪任务状态，完成后替换占位符
+        await taskTracker.track({
+            taskId: result.taskId,
+            kind: 'image',
+            blockUuid: blockId,
+            bridgeServiceUrl,
+            title: prompt,
+            params: { prompt }
+        });
         
         logseq.UI.showMsg('🎨 图片编辑任务已创建，正在后台处理...', 'success');
         
@@ -1776,34 +1757,22 @@ async function performFileAnalysis(blockId: string, filePaths: string[]): Promis
             return;
         }
         
-        // 获取设置
-        const settings = await getSettings();
-        const { openaiKey, openaiAddress, gptModel } = settings;
-        
-        if (!openaiKey) {
-            await logseq.Editor.updateBlock(blockId, '❌ 请先配置 OpenAI API Key');
-            return;
-        }
+        const provider = await resolveProvider({ command: 'gpt-file' });
         
         // 显示处理中状态
         await logseq.Editor.updateBlock(blockId, '🔄 正在分析文件...');
         
-        // 处理文件
-        const fileContents = [];
+        // 处理文件：图片作为视觉输入，文本文件内容拼接到提示词中
+        const images: string[] = [];
+        const textContents: string[] = [];
         for (const filePath of filePaths) {
             console.log('处理文件:', filePath);
             
             if (isImageFile(filePath)) {
-                // 图片文件使用 base64 编码的 image_url 格式
+                // 图片文件转换为 base64 data URL
                 const fileData = await fileToBase64(filePath);
                 if (fileData) {
-                    fileContents.push({
-                        type: 'image_url',
-                        image_url: {
-                            url: fileData.data,
-                            detail: 'high'
-                        }
-                    });
+                    images.push(fileData.data);
                     console.log('图片文件转换成功:', filePath, 'MIME:', fileData.mimeType);
                 } else {
                     console.error('图片文件转换失败:', filePath);
@@ -1816,10 +1785,7 @@ async function performFileAnalysis(blockId: string, filePaths: string[]): Promis
                     const response = await fetch(`file://${absolutePath}`);
                     const textContent = await response.text();
                     
-                    fileContents.push({
-                        type: 'text',
-                        text: `文件名: ${filePath.split('/').pop()}\n文件内容:\n${textContent}`
-                    });
+                    textContents.push(`文件名: ${filePath.split('/').pop()}\n文件内容:\n${textContent}`);
                     console.log('文本文件读取成功:', filePath, '内容长度:', textContent.length);
                 } catch (error) {
                     console.error('文本文件读取失败:', filePath, error);
@@ -1829,10 +1795,7 @@ async function performFileAnalysis(blockId: string, filePaths: string[]): Promis
                         try {
                             const base64Content = fileData.data.split(',')[1];
                             const textContent = atob(base64Content);
-                            fileContents.push({
-                                type: 'text',
-                                text: `文件名: ${filePath.split('/').pop()}\n文件内容:\n${textContent}`
-                            });
+                            textContents.push(`文件名: ${filePath.split('/').pop()}\n文件内容:\n${textContent}`);
                             console.log('文本文件 base64 解码成功:', filePath);
                         } catch (decodeError) {
                             console.error('文本文件 base64 解码失败:', filePath, decodeError);
@@ -1842,16 +1805,20 @@ async function performFileAnalysis(blockId: string, filePaths: string[]): Promis
             }
         }
         
-        if (fileContents.length === 0) {
+        const fileCount = images.length + textContents.length;
+        if (fileCount === 0) {
             await logseq.Editor.updateBlock(blockId, '❌ 文件处理失败，请检查文件路径是否正确');
             return;
         }
         
+        if (images.length > 0 && !provider.capabilities.vision) {
+            await logseq.Editor.updateBlock(blockId, `❌ 提供商 ${provider.profile.name} 不支持图片输入，请在命令映射中为 gpt-file 指定支持视觉的 Profile`);
+            return;
+        }
+        
         // 构建消息内容
-        const messageContent = [
-            {
-                type: 'text',
-                text: `请分析这${fileContents.length}个文件的内容。请提供详细的分析，包括：
+        const prompt = [
+            `请分析这${fileCount}个文件的内容。请提供详细的分析，包括：
 
 1. 文件类型和格式
 2. 主要内容概述
@@ -1859,104 +1826,34 @@ async function performFileAnalysis(blockId: string, filePaths: string[]): Promis
 4. 结构分析（如适用）
 5. 重要发现或见解
 
-请用中文回答，并保持分析的准确性和完整性。`
-            },
-            ...fileContents
+请用中文回答，并保持分析的准确性和完整性。`,
+            ...textContents
+        ].join('\n\n');
+        const messages: ChatMessage[] = [
+            { role: OpenAIMessagesRole.user, content: prompt, images }
         ];
         
-        // 构建 API 请求
-        const apiUrl = openaiAddress.includes('/chat/completions') 
-            ? openaiAddress 
-            : `${openaiAddress}/chat/completions`;
-        
-        const requestBody = {
-            model: gptModel || 'gpt-4o',
-            messages: [
-                {
-                    role: 'user',
-                    content: messageContent
-                }
-            ],
-            max_tokens: 4000,
-            temperature: 0.1
-        };
-        
-        console.log('=== 文件分析 API 调用详情 ===');
-        console.log('原始 openaiAddress 设置:', openaiAddress);
-        console.log('构建的 API URL:', apiUrl);
-        console.log('使用的模型:', gptModel || 'gpt-4o');
-        console.log('文件数量:', fileContents.length);
-        console.log('请求体:', JSON.stringify(requestBody, null, 2));
-        
-        const response = await fetch(apiUrl, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${openaiKey}`
-            },
-            body: JSON.stringify(requestBody)
+        console.log('文件分析调用信息:', {
+            provider: provider.profile.name,
+            model: provider.profile.model,
+            imageCount: images.length,
+            textCount: textContents.length
         });
         
-        // 获取响应文本
-        const responseText = await response.text();
-        console.log('API 响应状态:', response.status);
-        console.log('API 响应内容类型:', response.headers.get('content-type'));
-        console.log('API 响应内容（前500字符）:', responseText.substring(0, 500));
-        
-        if (!response.ok) {
-            console.error('API 调用失败:', response.status, responseText);
-            
-            // 检查是否返回了 HTML 错误页面
-            if (responseText.includes('<html>') || responseText.includes('<!DOCTYPE')) {
-                await logseq.Editor.updateBlock(blockId, `❌ API 调用失败：服务器返回了错误页面\n\n请检查以下配置：\n1. OpenAI API 地址是否正确\n2. 网络连接是否正常\n3. API Key 是否有效\n\n当前 API 地址: ${apiUrl}`);
-                return;
-            }
-            
-            await logseq.Editor.updateBlock(blockId, `❌ API 调用失败: ${response.status} ${response.statusText}\n\n错误详情: ${responseText.substring(0, 200)}`);
-            return;
-        }
-        
-        // 检查响应是否为 JSON 格式
-        let data;
-        try {
-            data = JSON.parse(responseText);
-        } catch (parseError) {
-            console.error('JSON 解析失败:', parseError);
-            console.error('响应内容:', responseText);
-            
-            // 检查是否返回了 HTML 页面
-            if (responseText.includes('<html>') || responseText.includes('<!DOCTYPE')) {
-                await logseq.Editor.updateBlock(blockId, `❌ 服务器返回了 HTML 页面而非 JSON 数据\n\n这通常表示：\n1. API 地址配置错误\n2. 服务器返回了错误页面\n3. 网络代理或防火墙问题\n\n当前 API 地址: ${apiUrl}\n\n请检查 OpenAI API 地址配置是否正确`);
-                return;
-            }
-            
-            await logseq.Editor.updateBlock(blockId, `❌ 文件分析失败: 服务器返回了无效的 JSON 数据\n\n响应内容: ${responseText.substring(0, 200)}`);
-            return;
-        }
-        console.log('API 响应:', data);
+        const analysisResult = await provider.chat(messages, { maxTokens: 4000, temperature: 0.1 });
         
-        if (!data.choices || data.choices.length === 0 || !data.choices[0].message?.content) {
-            console.error('API 返回空结果:', data);
+        if (!analysisResult) {
             await logseq.Editor.updateBlock(blockId, '❌ API 返回空结果，请重试');
             return;
         }
         
-        const analysisResult = data.choices[0].message.content;
         console.log('文件分析结果:', analysisResult);
         
-        // 格式化结果并插入到块中
-        const formattedContent = formatContentForLogseq(analysisResult);
-        
         // 更新当前块为结果标题
         await logseq.Editor.updateBlock(blockId, `📄 文件分析结果 (${filePaths.length}个文件)`);
         
-        // 插入分析结果
-        for (let i = 0; i < formattedContent.length; i++) {
-            await logseq.Editor.insertBlock(blockId, formattedContent[i], {
-                sibling: false,
-                before: false
-            });
-        }
+        // 把分析结果转换为块树插入到当前块下
+        await insertMarkdownBlocks(blockId, analysisResult);
         
         console.log('文件分析完成');
         
@@ -1969,56 +1866,43 @@ async function performFileAnalysis(blockId: string, filePaths: string[]): Promis
 
 async function performOCR(blockId: string, imagePaths: string[]): Promise<void> {
     try {
-        const { openaiKey, openaiAddress, gptModel } = await getSettings();
-        
-        if (!openaiKey || !openaiAddress) {
-            throw new Error('请先配置 OpenAI API Key 和地址');
-        }
-        
         if (imagePaths.length === 0) {
             throw new Error('未找到图片，请确保当前块包含图片引用');
         }
         
+        const provider = await resolveProvider({ command: 'gpt-ocr' });
+        if (!provider.capabilities.vision) {
+            throw new Error(`提供商 ${provider.profile.name} 不支持图片输入，请在命令映射中为 gpt-ocr 指定支持视觉的 Profile`);
+        }
+        
         // 创建加载提示
         const uuid: string | undefined = (await logseq.Editor.insertBlock(blockId, `正在识别图片文字...`))?.uuid;
         
-        // 处理图片数据
-        const imageContents: Array<{type: string, image_url?: {url: string}, text?: string}> = [];
+        // 处理图片数据：网络图片直接使用 URL，本地图片转换为 base64
+        const images: string[] = [];
         
         for (const imagePath of imagePaths) {
             if (isNetworkImage(imagePath)) {
-                // 网络图片直接使用 URL
-                imageContents.push({
-                    type: "image_url",
-                    image_url: {
-                        url: imagePath
-                    }
-                });
+                images.push(imagePath);
             } else {
-                // 本地图片转换为 base64
                 const base64Data = await imageToBase64(imagePath);
                 if (base64Data) {
-                    imageContents.push({
-                        type: "image_url",
-                        image_url: {
-                            url: base64Data
-                        }
-                    });
+                    images.push(base64Data);
                 } else {
                     console.warn(`无法加载图片: ${imagePath}`);
                 }
             }
         }
         
-        if (imageContents.length === 0) {
+        if (images.length === 0) {
             throw new Error('无法加载任何图片，请检查图片路径是否正确');
         }
         
         // 构建消息内容 - 优化后的提示词
-        const messageContent = [
+        const messages: ChatMessage[] = [
             {
-                type: "text",
-                text: `请仔细识别图片中的所有文字内容，并严格按照以下要求输出：
+                role: OpenAIMessagesRole.user,
+                content: `请仔细识别图片中的所有文字内容，并严格按照以下要求输出：
 
 1. **格式要求**：
    - 使用标准的 Markdown 格式
@@ -2033,90 +1917,25 @@ async function performOCR(blockId: string, imagePaths: string[]): Promise<void>
    - 不要添加任何解释或说明文字
    - 不要使用代码块包裹内容
 
-请开始识别图片内容：`
-            },
-            ...imageContents
+请开始识别图片内容：`,
+                images
+            }
         ];
         
-        // 调用 OpenAI API - 修复 URL 构建逻辑
-        let apiUrl;
-        if (openaiAddress.includes('/v1/chat/completions')) {
-            // 如果地址已经包含完整端点，直接使用
-            apiUrl = openaiAddress;
-        } else {
-            // 否则拼接端点
-            apiUrl = `${openaiAddress.replace(/\/$/, '')}/v1/chat/completions`;
-        }
-        console.log('OCR API 调用信息:', { 
-            originalAddress: openaiAddress,
-            finalApiUrl: apiUrl, 
-            model: gptModel || "gpt-4o", 
-            imageCount: imageContents.length 
-        });
-        
-        const response = await fetch(apiUrl, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${openaiKey}`
-            },
-            body: JSON.stringify({
-                model: gptModel || "gpt-4o",
-                messages: [
-                    {
-                        role: "user",
-                        content: messageContent
-                    }
-                ],
-                max_tokens: 4000
-            })
+        console.log('OCR 调用信息:', { 
+            provider: provider.profile.name,
+            model: provider.profile.model, 
+            imageCount: images.length 
         });
         
-        if (!response.ok) {
-            let errorMessage = `API 调用失败 (${response.status}): ${response.statusText}`;
-            try {
-                const errorData = await response.json();
-                errorMessage = `API 调用失败: ${errorData.error?.message || errorMessage}`;
-            } catch (e) {
-                // 如果返回的不是JSON，可能是HTML错误页面
-                const textResponse = await response.text();
-                if (textResponse.includes('<!doctype') || textResponse.includes('<html')) {
-                    errorMessage = `API 地址配置错误，返回了HTML页面而不是API响应。请检查 OpenAI Address 配置是否正确。当前地址: ${openaiAddress}`;
-                } else {
-                    errorMessage = `API 调用失败: ${textResponse.substring(0, 200)}`;
-                }
-            }
-            throw new Error(errorMessage);
-        }
-        
-        const data = await response.json();
-        const result = data.choices[0]?.message?.content;
+        const result = await provider.chat(messages, { maxTokens: 4000 });
         
         if (!result) {
             throw new Error('API 返回空结果');
         }
         
-        // 格式化内容为多个块
-        const formattedBlocks = formatContentForLogseq(result);
-        
-        if (formattedBlocks.length === 1) {
-            // 单个块，直接更新
-            if (uuid) {
-                await logseq.Editor.updateBlock(uuid, formattedBlocks[0]);
-            } else {
-                await logseq.Editor.insertBlock(blockId, formattedBlocks[0]);
-            }
-        } else {
-            // 多个块，需要删除loading块并插入多个新块
-            if (uuid) {
-                await logseq.Editor.removeBlock(uuid);
-            }
-            
-            // 插入多个格式化的块
-            for (let i = 0; i < formattedBlocks.length; i++) {
-                await logseq.Editor.insertBlock(blockId, formattedBlocks[i]);
-            }
-        }
+        // 把识别结果转换为块树，表格和代码块保持完整
+        await insertMarkdownBlocks(blockId, result, { placeholderUuid: uuid });
         
     } catch (error: any) {
         console.error('OCR 识别失败:', error);
@@ -2326,8 +2145,14 @@ async function performTextToSpeech(blockId: string, text: string): Promise<void>
                             
                             console.log('✅ TTS任务已创建:', taskId);
                             
-                            // 开始轮询任务状态，传递子块ID
-                            pollTTSTaskStatus(taskId, bridgeServiceUrl, { uuid: processingBlockId.uuid });
+                            // 跟踪任务状态，完成后更新子块
+                            await taskTracker.track({
+                                taskId,
+                                kind: 'tts',
+                                blockUuid: processingBlockId.uuid,
+                                bridgeServiceUrl,
+                                title: text.slice(0, 50)
+                            });
                         } else {
                             console.error('❌ 无法创建处理提示块');
                             await logseq.Editor.insertBlock(blockId, `❌ 语音生成失败：无法创建处理提示`, { sibling: false });
@@ -2535,8 +2360,14 @@ async function performQwenTextToSpeech(blockId: string, text: string): Promise<v
             return;
         }
         
-        // 开始轮询任务状态，直接在父块中插入音频链接
-        await pollQwenTTSTaskStatus(taskResult.taskId, bridgeServiceUrl, { uuid: blockId });
+        // 跟踪任务状态，完成后在父块中插入音频链接
+        await taskTracker.track({
+            taskId: taskResult.taskId,
+            kind: 'qwen-tts',
+            blockUuid: blockId,
+            bridgeServiceUrl,
+            title: text.slice(0, 50)
+        });
         
     } catch (error) {
         console.error('❌ Qwen TTS处理错误:', error);
@@ -2630,8 +2461,14 @@ async function performQwenTextToVideo(blockId: string, prompt: string): Promise<
             return;
         }
         
-        // 开始轮询任务状态
-        await pollQwenVideoTaskStatus(taskResult.taskId, bridgeServiceUrl, { uuid: blockId }, 't2v', prompt);
+        // 跟踪任务状态，完成后插入视频链接
+        await taskTracker.track({
+            taskId: taskResult.taskId,
+            kind: 'qwen-t2v',
+            blockUuid: blockId,
+            bridgeServiceUrl,
+            title: prompt
+        });
         
     } catch (error) {
         console.error('❌ Qwen T2V处理错误:', error);
@@ -2750,8 +2587,14 @@ async function performQwenImageToVideo(blockId: string, prompt: string, imagePat
             return;
         }
         
-        // 开始轮询任务状态
-        await pollQwenVideoTaskStatus(taskResult.taskId, bridgeServiceUrl, { uuid: blockId }, 'i2v', prompt);
+        // 跟踪任务状态，完成后插入视频链接
+        await taskTracker.track({
+            taskId: taskResult.taskId,
+            kind: 'qwen-i2v',
+            blockUuid: blockId,
+            bridgeServiceUrl,
+            title: prompt
+        });
         
     } catch (error) {
         console.error('❌ 图生视频处理错误:', error);
@@ -2761,112 +2604,8 @@ async function performQwenImageToVideo(blockId: string, prompt: string, imagePat
 }
 
 /**
- * 轮询视频生成任务状态
- * @param taskId 任务ID
- * @param apiKey API密钥
- * @param blockId 块ID
- * @param prompt 原始提示词
- */
-async function pollVideoTaskStatus(taskId: string, apiKey: string, blockId: string, prompt: string): Promise<void> {
-    const maxAttempts = 60; // 最多轮询60次（约15分钟）
-    const pollInterval = 15000; // 15秒轮询一次
-    
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-        try {
-            console.log(`🔄 第${attempt}次查询任务状态...`);
-            
-            // 查询任务状态
-            const statusUrl = `https://dashscope.aliyuncs.com/api/v1/tasks/${taskId}`;
-            const statusResponse = await fetch(statusUrl, {
-                method: 'GET',
-                headers: {
-                    'Authorization': `Bearer ${apiKey}`,
-                    'Content-Type': 'application/json'
-                }
-            });
-            
-            if (!statusResponse.ok) {
-                throw new Error(`状态查询失败: ${statusResponse.status}`);
-            }
-            
-            const statusData = await statusResponse.json();
-            console.log('📊 完整API响应:', statusData);
-            
-            // 检查响应格式并提取任务状态
-            const taskStatus = statusData.task_status || statusData.output?.task_status;
-            console.log('📊 提取的任务状态:', taskStatus);
-            
-            if (taskStatus === 'SUCCEEDED') {
-                // 任务成功完成
-                const videoUrl = statusData.output?.video_url;
-                if (!videoUrl) {
-                    throw new Error('任务完成但未找到视频URL');
-                }
-                
-                console.log('✅ 视频生成成功');
-                console.log('🎬 视频URL:', videoUrl);
-                
-                // 生成视频文件名
-                const timestamp = Date.now();
-                const cleanPrompt = prompt.replace(/[^\u4e00-\u9fa5a-zA-Z0-9]/g, '').substring(0, 10);
-                const filename = `qwen-video-${cleanPrompt || 't2v'}_${timestamp}.mp4`;
-                
-                // 简化处理：仅提供视频链接，与图片处理方式保持一致
-                const videoMarkdown = `![${filename}](${videoUrl})\n\n📹 **视频链接**: [点击查看](${videoUrl})\n📝 **提示词**: ${prompt}`;
-                const statusMessage = `✅ 视频生成成功\n\n${videoMarkdown}\n\n💡 视频链接有效期24小时，请及时保存`;
-                
-                await logseq.Editor.updateBlock(blockId, statusMessage);
-                return;
-                
-            } else if (taskStatus === 'FAILED') {
-                // 任务失败
-                const errorMessage = statusData.message || '视频生成失败';
-                console.error('❌ 视频生成任务失败:', errorMessage);
-                await logseq.Editor.updateBlock(blockId, `❌ 文生视频生成失败：${errorMessage}`);
-                return;
-                
-            } else if (taskStatus === 'RUNNING' || taskStatus === 'PENDING') {
-                // 任务进行中，继续等待
-                const progress = Math.round((attempt / maxAttempts) * 100);
-                await logseq.Editor.updateBlock(blockId, `🎬 视频生成中... (${progress}%)\n⏳ 第${attempt}次检查，预计还需${Math.ceil((maxAttempts - attempt) * pollInterval / 60000)}分钟`);
-                
-                if (attempt < maxAttempts) {
-                    await new Promise(resolve => setTimeout(resolve, pollInterval));
-                }
-            } else {
-                // 未知状态或响应格式异常
-                console.warn('⚠️ 异常响应或未知状态:', { taskStatus, fullResponse: statusData });
-                
-                if (taskStatus === undefined || taskStatus === null) {
-                    // API响应格式异常，可能是任务不存在
-                    await logseq.Editor.updateBlock(blockId, `⚠️ API响应格式异常\n🆔 任务ID: ${taskId}\n📊 原始响应: ${JSON.stringify(statusData, null, 2)}\n💡 可能的原因:\n  • 任务ID不存在或已过期\n  • API服务异常\n  • 网络连接问题\n🔄 请检查任务ID是否正确`);
-                    return;
-                }
-                
-                if (attempt < maxAttempts) {
-                    await new Promise(resolve => setTimeout(resolve, pollInterval));
-                }
-            }
-            
-        } catch (error) {
-            console.error(`❌ 第${attempt}次状态查询失败:`, error);
-            if (attempt === maxAttempts) {
-                await logseq.Editor.updateBlock(blockId, `❌ 视频生成状态查询失败：${error instanceof Error ? error.message : '未知错误'}`);
-                return;
-            }
-            // 继续下一次尝试
-            await new Promise(resolve => setTimeout(resolve, pollInterval));
-        }
-    }
-    
-    // 超时处理
-    console.warn('⏰ 视频生成任务轮询超时');
-    await logseq.Editor.updateBlock(blockId, `⏰ 视频生成超时，任务ID: ${taskId}\n💡 任务可能仍在进行中，请稍后手动查询任务状态\n🔍 使用命令: /gpt-qwen-query-task ${taskId}\n⏱️ 超时时间: ${Math.round(maxAttempts * pollInterval / 60000)}分钟\n📝 提示: 复杂视频可能需要更长时间生成`);
-}
-
-/**
- * 手动查询视频生成任务状态
- * @param blockId 当前块ID
+ * 手动查询视频生成任务状态
+ * @param blockId 当前块ID
  * @param taskId 任务ID
  */
 async function performQwenQueryVideoTask(blockId: string, taskId: string): Promise<void> {
@@ -2978,590 +2717,338 @@ async function performQwenQueryVideoTask(blockId: string, taskId: string): Promi
     }
 }
 
-// TTS 任务状态轮询函数
-async function pollTTSTaskStatus(
-    taskId: string, 
-    bridgeServiceUrl: string, 
-    blockRef: { uuid: string },
-    maxAttempts: number = 30,
-    intervalMs: number = 2000
-): Promise<void> {
-    let attempts = 0;
-    
-    const poll = async (): Promise<void> => {
-        try {
-            attempts++;
-            console.log(`🔄 轮询TTS任务状态 (${attempts}/${maxAttempts}):`, taskId);
-            
-            const statusUrl = bridgeServiceUrl.replace(/\/$/, '') + `/api/tts/task/${taskId}`;
-            const response = await fetch(statusUrl);
-            
-            if (!response.ok) {
-                throw new Error(`状态查询失败: ${response.status}`);
-            }
-            
-            const result = await response.json();
-            
-            if (result.success && result.task) {
-                const task = result.task;
-                
-                switch (task.status) {
-                    case 'completed':
-                        // 任务完成，替换处理提示为最终的音频链接
-                        const audioMarkdown = `![${task.filename}](${task.filePath})`;
-                        await logseq.Editor.updateBlock(blockRef.uuid, audioMarkdown);
-                        
-                        logseq.UI.showMsg(
-                            `🎵 语音生成完成！\n文件名：${task.filename}`,
-                            'success',
-                            { timeout: 5000 }
-                        );
-                        
-                        console.log('✅ TTS任务完成，文件已保存:', task.filePath);
-                        return;
-                        
-                    case 'failed':
-                        // 任务失败，插入错误信息作为子块
-                        const errorMarkdown = `❌ 语音生成失败：${task.error || '未知错误'}`;
-                        await logseq.Editor.insertBlock(blockRef.uuid, errorMarkdown, { sibling: false });
-                        
-                        logseq.UI.showMsg(
-                            `❌ 语音生成失败：${task.error || '未知错误'}`,
-                            'error',
-                            { timeout: 8000 }
-                        );
-                        
-                        console.error('❌ TTS任务失败:', task.error);
-                        return;
-                        
-                    case 'processing':
-                    case 'pending':
-                        // 任务仍在处理中，继续轮询
-                        if (attempts >= maxAttempts) {
-                            const timeoutMarkdown = `⏰ 语音生成超时，请稍后手动检查任务：${taskId}`;
-                            await logseq.Editor.updateBlock(blockRef.uuid, timeoutMarkdown);
-                            
-                            logseq.UI.showMsg(
-                                `⏰ 语音生成超时，任务ID：${taskId}`,
-                                'warning',
-                                { timeout: 10000 }
-                            );
-                            
-                            console.warn('⏰ TTS任务轮询超时:', taskId);
-                            return;
-                        }
-                        
-                        // 不更新进度提示，保留原始占位符内容
-                        // 进度信息通过控制台日志显示
-                        console.log(`🎵 语音生成中... (${task.status}, ${attempts}/${maxAttempts})`);
-                        
-                        // 继续轮询
-                        setTimeout(poll, intervalMs);
-                        break;
-                        
-                    default:
-                        throw new Error(`未知任务状态: ${task.status}`);
-                }
-            } else {
-                throw new Error('无效的响应格式');
+/**
+ * 桥接服务任务状态响应转换为统一的查询结果
+ */
+function mapBridgeTaskResult(response: any): TaskPollResult {
+    const task = response?.task;
+    if (!response?.success || !task) {
+        throw new Error('无效的响应格式');
+    }
+    switch (task.status) {
+        case 'completed':
+            return { status: 'completed', filePath: task.filePath, data: task };
+        case 'failed':
+            return { status: 'failed', error: task.error || '未知错误', cancelled: task.cancelled, data: task };
+        case 'pending':
+        case 'processing':
+            return { status: 'pending', data: task };
+        default:
+            throw new Error(`未知任务状态: ${task.status}`);
+    }
+}
+
+/**
+ * 图像任务占位符（生成和编辑），只匹配指定任务ID的占位符
+ */
+function imagePlaceholderPatterns(taskId: string): RegExp[] {
+    const id = taskId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return [
+        new RegExp(`🎨\\s*\\*\\*正在生成图片\\.\\.\\.\\*\\*\\s*\\(任务ID:\\s*${id}\\)[\\s\\S]*?!\\[生成中\\.\\.\\.\\]\\(\\)`),
+        new RegExp(`🎨\\s*\\*\\*正在编辑图片\\.\\.\\.\\*\\*\\s*\\(任务ID:\\s*${id}\\)[\\s\\S]*?!\\[编辑中\\.\\.\\.\\]\\(\\)`)
+    ];
+}
+
+/**
+ * 用结果替换图像任务的占位符：先检查父块（兼容旧版本），再检查子块，找不到时插入新的子块
+ */
+async function replaceImagePlaceholder(task: TrackedTask, markdown: string): Promise<void> {
+    const parentBlock = await logseq.Editor.getBlock(task.blockUuid);
+    if (!parentBlock) {
+        console.error('❌ 无法获取父块');
+        return;
+    }
+
+    const patterns = imagePlaceholderPatterns(task.taskId);
+    const findPattern = (content: string) => patterns.find((pattern) => pattern.test(content || ''));
+
+    let placeholderBlock = findPattern(parentBlock.content) ? parentBlock : null;
+    if (!placeholderBlock && parentBlock.children) {
+        for (const childRef of parentBlock.children) {
+            const childBlock = await logseq.Editor.getBlock((childRef as any)[1]);
+            if (childBlock && findPattern(childBlock.content)) {
+                placeholderBlock = childBlock;
+                break;
             }
-        } catch (error) {
-            console.error('❌ 轮询TTS任务状态失败:', error);
-            
-            if (attempts >= maxAttempts) {
-                const errorMarkdown = `❌ 语音生成状态检查失败：${error instanceof Error ? error.message : '未知错误'}`;
-                await logseq.Editor.updateBlock(blockRef.uuid, errorMarkdown);
-                
-                logseq.UI.showMsg(
-                    `❌ 语音生成状态检查失败`,
-                    'error',
-                    { timeout: 8000 }
-                );
-                return;
+        }
+    }
+
+    if (!placeholderBlock) {
+        await logseq.Editor.insertBlock(task.blockUuid, markdown, { sibling: false });
+        return;
+    }
+    const pattern = findPattern(placeholderBlock.content)!;
+    await logseq.Editor.updateBlock(placeholderBlock.uuid, placeholderBlock.content.replace(pattern, markdown));
+}
+
+/**
+ * 按错误类型给出图像生成失败的说明
+ */
+function describeImageError(errorMsg: string): string {
+    if (errorMsg.includes('API key') || errorMsg.includes('authentication') || errorMsg.includes('401') || errorMsg.includes('403')) {
+        return `❌ **图像生成失败：API认证错误**\n🔧 **解决方案：**\n• 检查API密钥是否正确配置\n• 确认API密钥未过期\n• 验证API密钥权限\n\n**错误详情：** ${errorMsg}`;
+    } else if (errorMsg.includes('quota') || errorMsg.includes('limit') || errorMsg.includes('429')) {
+        return `❌ **图像生成失败：配额或限制错误**\n🔧 **解决方案：**\n• 检查API账户余额\n• 确认未超出使用限制\n• 稍后重试\n\n**错误详情：** ${errorMsg}`;
+    } else if (errorMsg.includes('network') || errorMsg.includes('timeout') || errorMsg.includes('connection')) {
+        return `❌ **图像生成失败：网络连接错误**\n🔧 **解决方案：**\n• 检查网络连接\n• 确认API服务地址正确\n• 检查防火墙设置\n\n**错误详情：** ${errorMsg}`;
+    } else if (errorMsg.includes('prompt') || errorMsg.includes('content') || errorMsg.includes('policy')) {
+        return `❌ **图像生成失败：内容策略错误**\n🔧 **解决方案：**\n• 修改提示词内容\n• 避免敏感或违规内容\n• 简化提示词描述\n\n**错误详情：** ${errorMsg}`;
+    }
+    return `❌ **图像生成失败：服务器错误**\n🔧 **可能原因：**\n• 图像生成服务临时不可用\n• 服务器配置问题\n• API服务异常\n\n**错误详情：** ${errorMsg}`;
+}
+
+// 视频任务轮询间隔：前1分钟4秒一次，1-4分钟8秒一次，之后15秒一次
+function qwenVideoPollInterval(elapsedMs: number): number {
+    if (elapsedMs < 60 * 1000) {
+        return 4000;
+    }
+    return elapsedMs < 4 * 60 * 1000 ? 8000 : 15000;
+}
+
+function qwenVideoTaskDescriptor(apiType: 't2v' | 'i2v'): TaskDescriptor {
+    return {
+        kind: `qwen-${apiType}`,
+        label: 'Qwen视频生成',
+        endpoint: (task) => `/api/qwen-${apiType}/task/${task.taskId}`,
+        mapResult: mapBridgeTaskResult,
+        interval: qwenVideoPollInterval,
+        timeoutMs: 30 * 60 * 1000,
+        render: {
+            async completed(task, result) {
+                // 插入最终的视频链接作为子块
+                await logseq.Editor.insertBlock(task.blockUuid, `![${result.data.filename}](${result.filePath})`, { sibling: false });
+                logseq.UI.showMsg(`🎬 Qwen视频生成完成！\n文件名：${result.data.filename}`, 'success', { timeout: 5000 });
+            },
+            async failed(task, result) {
+                const errorMessage = result.error || '视频生成失败';
+                await logseq.Editor.insertBlock(task.blockUuid, `❌ Qwen视频生成失败：${errorMessage}`, { sibling: false });
+                logseq.UI.showMsg(`❌ Qwen视频生成失败：${errorMessage}`, 'error', { timeout: 8000 });
+            },
+            async timeout(task) {
+                await logseq.Editor.insertBlock(task.blockUuid, `⏰ Qwen视频生成超时，任务ID: ${task.taskId}`, { sibling: false });
+                logseq.UI.showMsg('⏰ Qwen视频生成超时', 'warning', { timeout: 8000 });
             }
-            
-            // 出错时也继续重试
-            setTimeout(poll, intervalMs);
         }
     };
-    
-    // 开始轮询
-    setTimeout(poll, intervalMs);
 }
 
-async function pollImageTaskStatus(
-    taskId: string, 
-    bridgeServiceUrl: string, 
-    blockRef: { uuid: string },
-    prompt?: string,
-    maxAttempts: number = 100,
-    intervalMs: number = 3000
-): Promise<void> {
-    let attempts = 0;
-    
-    const pollStatus = async (): Promise<void> => {
-        try {
-            attempts++;
-            console.log(`🔄 轮询图像生成任务状态 (${attempts}/${maxAttempts}):`, taskId);
-            
-            const response = await fetch(`${bridgeServiceUrl}/api/image/task/${taskId}`);
-            
-            if (!response.ok) {
-                let errorDetail = '';
-                if (response.status === 404) {
-                    errorDetail = '任务状态查询端点不存在，可能是服务版本问题';
-                } else if (response.status === 500) {
-                    errorDetail = '服务器内部错误，可能是API配置或服务问题';
-                } else if (response.status >= 400 && response.status < 500) {
-                    errorDetail = '请求错误，可能是任务ID无效或已过期';
-                } else {
-                    errorDetail = '网络或服务连接问题';
-                }
-                throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorDetail}`);
-            }
-            
-            const result = await response.json();
-            console.log('📥 图像生成任务状态响应:', result);
-            
-            // 从嵌套的 task 对象中提取状态和文件路径
-            const taskStatus = result.task?.status || result.status;
-            const taskFilePath = result.task?.filePath || result.filePath;
-            const taskError = result.task?.error || result.error;
-            
-            if (taskStatus === 'completed' && taskFilePath) {
-                // 任务完成，下载图片到本地
-                console.log('✅ 图像生成任务完成，文件路径:', taskFilePath);
-                
+// 桥接服务异步任务的查询和块更新方式
+const TASK_DESCRIPTORS: TaskDescriptor[] = [
+    {
+        kind: 'tts',
+        label: '语音生成',
+        endpoint: (task) => `/api/tts/task/${task.taskId}`,
+        mapResult: mapBridgeTaskResult,
+        interval: 2000,
+        timeoutMs: 5 * 60 * 1000,
+        render: {
+            async completed(task, result) {
+                // 替换处理提示为最终的音频链接
+                await logseq.Editor.updateBlock(task.blockUuid, `![${result.data.filename}](${result.filePath})`);
+                logseq.UI.showMsg(`🎵 语音生成完成！\n文件名：${result.data.filename}`, 'success', { timeout: 5000 });
+            },
+            async failed(task, result) {
+                await logseq.Editor.insertBlock(task.blockUuid, `❌ 语音生成失败：${result.error || '未知错误'}`, { sibling: false });
+                logseq.UI.showMsg(`❌ 语音生成失败：${result.error || '未知错误'}`, 'error', { timeout: 8000 });
+            },
+            async timeout(task) {
+                await logseq.Editor.updateBlock(task.blockUuid, `⏰ 语音生成超时，请稍后手动检查任务：${task.taskId}`);
+                logseq.UI.showMsg(`⏰ 语音生成超时，任务ID：${task.taskId}`, 'warning', { timeout: 10000 });
+            }
+        }
+    },
+    {
+        kind: 'qwen-tts',
+        label: 'Qwen语音生成',
+        endpoint: (task) => `/api/qwen-tts/task/${task.taskId}`,
+        mapResult: mapBridgeTaskResult,
+        interval: 2000,
+        timeoutMs: 5 * 60 * 1000,
+        render: {
+            async completed(task, result) {
+                // 插入最终的音频链接作为子块
+                await logseq.Editor.insertBlock(task.blockUuid, `![${result.data.filename}](${result.filePath})`, { sibling: false });
+                logseq.UI.showMsg(`🎵 Qwen语音生成完成！\n文件名：${result.data.filename}`, 'success', { timeout: 5000 });
+            },
+            async failed(task, result) {
+                await logseq.Editor.insertBlock(task.blockUuid, `❌ Qwen语音生成失败：${result.error || '未知错误'}`, { sibling: false });
+                logseq.UI.showMsg(`❌ Qwen语音生成失败：${result.error || '未知错误'}`, 'error', { timeout: 8000 });
+            },
+            async timeout(task) {
+                await logseq.Editor.insertBlock(task.blockUuid, `⏰ Qwen语音生成超时，请稍后手动检查任务：${task.taskId}`, { sibling: false });
+                logseq.UI.showMsg(`⏰ Qwen语音生成超时，任务ID：${task.taskId}`, 'warning', { timeout: 10000 });
+            }
+        }
+    },
+    qwenVideoTaskDescriptor('t2v'),
+    qwenVideoTaskDescriptor('i2v'),
+    {
+        kind: 'image',
+        label: '图像生成',
+        endpoint: (task) => `/api/image/task/${task.taskId}`,
+        mapResult: mapBridgeTaskResult,
+        interval: 3000,
+        timeoutMs: 5 * 60 * 1000,
+        render: {
+            async completed(task, result) {
+                const promptText = task.params.prompt || '处理的图片';
                 try {
                     // 下载图片到本地 assets 目录
-                    const downloadResult = await downloadAndSaveImage(taskFilePath);
-                    
+                    const downloadResult = result.filePath ? await downloadAndSaveImage(result.filePath) : null;
                     if (!downloadResult) {
                         throw new Error('图片下载失败');
                     }
-                    
                     console.log('✅ 图片已下载到本地:', downloadResult.localPath);
-                    
-                    // 获取父块及其子块
-                    const parentBlock = await logseq.Editor.getBlock(blockRef.uuid);
-                    if (!parentBlock) {
-                        console.error('❌ 无法获取父块');
-                        return;
-                    }
-                    
-                    // 查找包含占位符的子块
-                    const generatePlaceholderRegex = /🎨\s*\*\*正在生成图片\.\.\.\*\*\s*\(任务ID:\s*[^)]+\)[\s\S]*?!\[生成中\.\.\.\]\(\)/;
-                    const editPlaceholderRegex = /🎨\s*\*\*正在编辑图片\.\.\.\*\*\s*\(任务ID:\s*[^)]+\)[\s\S]*?!\[编辑中\.\.\.\]\(\)/;
-                    
-                    let placeholderBlock = null;
-                    
-                    // 检查父块是否包含占位符（兼容旧版本）
-                    if (generatePlaceholderRegex.test(parentBlock.content) || editPlaceholderRegex.test(parentBlock.content)) {
-                        placeholderBlock = parentBlock;
-                    } else if (parentBlock.children) {
-                        // 在子块中查找占位符
-                        for (const childRef of parentBlock.children) {
-                            const childBlock = await logseq.Editor.getBlock(childRef[1]);
-                            if (childBlock && (generatePlaceholderRegex.test(childBlock.content) || editPlaceholderRegex.test(childBlock.content))) {
-                                placeholderBlock = childBlock;
-                                break;
-                            }
-                        }
-                    }
-                    
-                    if (!placeholderBlock) {
-                        // 如果没有找到占位符块，直接在父块下插入新的子块
-                        const promptText = prompt || '处理的图片';
-                        const imageMarkdown = `![${promptText}](${downloadResult.localPath})`;
-                        await logseq.Editor.insertBlock(blockRef.uuid, imageMarkdown, { sibling: false });
-                    } else {
-                        // 更新包含占位符的块
-                        const promptText = prompt || '处理的图片';
-                        const imageMarkdown = `![${promptText}](${downloadResult.localPath})`;
-                        
-                        let updatedContent = placeholderBlock.content;
-                        if (generatePlaceholderRegex.test(updatedContent)) {
-                            updatedContent = updatedContent.replace(generatePlaceholderRegex, imageMarkdown);
-                        } else if (editPlaceholderRegex.test(updatedContent)) {
-                            updatedContent = updatedContent.replace(editPlaceholderRegex, imageMarkdown);
-                        }
-                        
-                        await logseq.Editor.updateBlock(placeholderBlock.uuid, updatedContent);
-                    }
+                    await replaceImagePlaceholder(task, `![${promptText}](${downloadResult.localPath})`);
                     logseq.UI.showMsg('✅ 图像生成完成！', 'success');
-                    
                 } catch (downloadError) {
                     console.error('❌ 图片下载失败:', downloadError);
-                    
                     // 下载失败时，仍然显示原始URL
-                    const parentBlock = await logseq.Editor.getBlock(blockRef.uuid);
-                    if (parentBlock) {
-                        const generatePlaceholderRegex = /🎨\s*\*\*正在生成图片\.\.\.\*\*\s*\(任务ID:\s*[^)]+\)[\s\S]*?!\[生成中\.\.\.\]\(\)/;
-                        const editPlaceholderRegex = /🎨\s*\*\*正在编辑图片\.\.\.\*\*\s*\(任务ID:\s*[^)]+\)[\s\S]*?!\[编辑中\.\.\.\]\(\)/;
-                        
-                        let placeholderBlock = null;
-                        
-                        // 检查父块是否包含占位符（兼容旧版本）
-                        if (generatePlaceholderRegex.test(parentBlock.content) || editPlaceholderRegex.test(parentBlock.content)) {
-                            placeholderBlock = parentBlock;
-                        } else if (parentBlock.children) {
-                            // 在子块中查找占位符
-                            for (const childRef of parentBlock.children) {
-                                const childBlock = await logseq.Editor.getBlock(childRef[1]);
-                                if (childBlock && (generatePlaceholderRegex.test(childBlock.content) || editPlaceholderRegex.test(childBlock.content))) {
-                                    placeholderBlock = childBlock;
-                                    break;
-                                }
-                            }
-                        }
-                        
-                        const promptText = prompt || '处理的图片';
-                        const fallbackMarkdown = `![${promptText}](${taskFilePath})\n\n⚠️ **注意：** 图片下载到本地失败，显示的是远程链接。错误：${downloadError instanceof Error ? downloadError.message : '未知错误'}`;
-                        
-                        if (!placeholderBlock) {
-                            // 如果没有找到占位符块，直接在父块下插入新的子块
-                            await logseq.Editor.insertBlock(blockRef.uuid, fallbackMarkdown, { sibling: false });
-                        } else {
-                            // 更新包含占位符的块
-                            let updatedContent = placeholderBlock.content;
-                            if (generatePlaceholderRegex.test(updatedContent)) {
-                                updatedContent = updatedContent.replace(generatePlaceholderRegex, fallbackMarkdown);
-                            } else if (editPlaceholderRegex.test(updatedContent)) {
-                                updatedContent = updatedContent.replace(editPlaceholderRegex, fallbackMarkdown);
-                            }
-                            
-                            await logseq.Editor.updateBlock(placeholderBlock.uuid, updatedContent);
-                        }
-                    }
-                    
+                    const fallbackMarkdown = `![${promptText}](${result.filePath})\n\n⚠️ **注意：** 图片下载到本地失败，显示的是远程链接。错误：${downloadError instanceof Error ? downloadError.message : '未知错误'}`;
+                    await replaceImagePlaceholder(task, fallbackMarkdown);
                     logseq.UI.showMsg('⚠️ 图像生成完成，但下载到本地失败', 'warning');
                 }
-                
-            } else if (taskStatus === 'failed') {
-                // 任务失败
-                console.error('❌ 图像生成任务失败:', taskError);
-                
-                // 分析错误类型并提供详细信息
-                let detailedError = '';
-                const errorMsg = taskError || '未知错误';
-                
-                if (errorMsg.includes('API key') || errorMsg.includes('authentication') || errorMsg.includes('401') || errorMsg.includes('403')) {
-                    detailedError = `❌ **图像生成失败：API认证错误**\n🔧 **解决方案：**\n• 检查API密钥是否正确配置\n• 确认API密钥未过期\n• 验证API密钥权限\n\n**错误详情：** ${errorMsg}`;
-                } else if (errorMsg.includes('quota') || errorMsg.includes('limit') || errorMsg.includes('429')) {
-                    detailedError = `❌ **图像生成失败：配额或限制错误**\n🔧 **解决方案：**\n• 检查API账户余额\n• 确认未超出使用限制\n• 稍后重试\n\n**错误详情：** ${errorMsg}`;
-                } else if (errorMsg.includes('network') || errorMsg.includes('timeout') || errorMsg.includes('connection')) {
-                    detailedError = `❌ **图像生成失败：网络连接错误**\n🔧 **解决方案：**\n• 检查网络连接\n• 确认API服务地址正确\n• 检查防火墙设置\n\n**错误详情：** ${errorMsg}`;
-                } else if (errorMsg.includes('prompt') || errorMsg.includes('content') || errorMsg.includes('policy')) {
-                    detailedError = `❌ **图像生成失败：内容策略错误**\n🔧 **解决方案：**\n• 修改提示词内容\n• 避免敏感或违规内容\n• 简化提示词描述\n\n**错误详情：** ${errorMsg}`;
-                } else {
-                    detailedError = `❌ **图像生成失败：服务器错误**\n🔧 **可能原因：**\n• 图像生成服务临时不可用\n• 服务器配置问题\n• API服务异常\n\n**错误详情：** ${errorMsg}`;
-                }
-                
-                // 获取当前块内容并更新错误信息
-                const currentBlock = await logseq.Editor.getBlock(blockRef.uuid);
-                if (currentBlock) {
-                    let updatedContent = currentBlock.content;
-                    
-                    // 查找并替换占位符
-                    const placeholderRegex = /🎨\s*\*\*正在生成图片\.\.\.\*\*\s*\(任务ID:\s*[^)]+\)[\s\S]*?!\[生成中\.\.\.\]\(\)/;
-                    if (placeholderRegex.test(updatedContent)) {
-                        updatedContent = updatedContent.replace(placeholderRegex, detailedError);
-                        await logseq.Editor.updateBlock(blockRef.uuid, updatedContent);
-                    }
-                }
-                
+            },
+            async failed(task, result) {
+                const errorMsg = result.error || '未知错误';
+                await replaceImagePlaceholder(task, result.cancelled ? `⏹️ **图像生成已取消** (任务ID: ${task.taskId})` : describeImageError(errorMsg));
                 logseq.UI.showMsg(`❌ 图像生成失败：${errorMsg}`, 'error');
-                
-            } else if (taskStatus === 'processing' || taskStatus === 'pending') {
-                // 任务仍在处理中，继续轮询
-                if (attempts < maxAttempts) {
-                    console.log(`⏳ 图像生成任务仍在处理中，${intervalMs}ms 后重试...`);
-                    setTimeout(pollStatus, intervalMs);
-                } else {
-                    console.error('❌ 图像生成任务轮询超时');
-                    
-                    // 获取当前块内容并更新超时信息
-                    const currentBlock = await logseq.Editor.getBlock(blockRef.uuid);
-                    if (currentBlock) {
-                        let updatedContent = currentBlock.content;
-                        
-                        // 查找并替换占位符
-                        const placeholderRegex = /🎨\s*\*\*正在生成图片\.\.\.\*\*\s*\(任务ID:\s*[^)]+\)[\s\S]*?!\[生成中\.\.\.\]\(\)/;
-                        if (placeholderRegex.test(updatedContent)) {
-                            const timeoutMessage = `❌ **图像生成超时** (任务ID: ${taskId})\n🔧 **可能原因：**\n• 图像生成服务响应缓慢\n• 网络连接不稳定\n• 服务器负载过高\n\n**建议：** 稍后重试或检查服务状态`;
-                            updatedContent = updatedContent.replace(placeholderRegex, timeoutMessage);
-                            await logseq.Editor.updateBlock(blockRef.uuid, updatedContent);
-                        }
-                    }
-                    
-                    logseq.UI.showMsg('❌ 图像生成超时', 'error');
-                }
-            } else {
-                console.error('❌ 图像生成任务状态未知:', taskStatus);
-                logseq.UI.showMsg(`❌ 图像生成任务状态未知：${taskStatus}`, 'error');
-            }
-            
-        } catch (error) {
-            console.error('❌ 轮询图像生成任务状态时发生错误:', error);
-            
-            if (attempts < maxAttempts) {
-                console.log(`⏳ 轮询出错，${intervalMs}ms 后重试...`);
-                setTimeout(pollStatus, intervalMs);
-            } else {
-                console.error('❌ 图像生成任务轮询最终失败');
-                
-                // 获取当前块内容并更新错误信息
-                const currentBlock = await logseq.Editor.getBlock(blockRef.uuid);
-                if (currentBlock) {
-                    let updatedContent = currentBlock.content;
-                    
-                    // 查找并替换占位符
-                    const placeholderRegex = /🎨\s*\*\*正在生成图片\.\.\.\*\*\s*\(任务ID:\s*[^)]+\)[\s\S]*?!\[生成中\.\.\.\]\(\)/;
-                    if (placeholderRegex.test(updatedContent)) {
-                        const errorMessage = `❌ **图像生成失败：网络或服务错误**\n🔧 **诊断步骤：**\n1. 检查桥接服务是否正常运行\n2. 验证网络连接状态\n3. 确认API配置是否正确\n4. 查看服务日志获取详细错误信息\n\n**错误详情：** ${error instanceof Error ? error.message : '连接失败'}`;
-                        updatedContent = updatedContent.replace(placeholderRegex, errorMessage);
-                        await logseq.Editor.updateBlock(blockRef.uuid, updatedContent);
-                    }
-                }
-                
-                logseq.UI.showMsg('❌ 图像生成失败：网络错误或服务不可用', 'error');
+            },
+            async timeout(task) {
+                const timeoutMessage = `❌ **图像生成超时** (任务ID: ${task.taskId})\n🔧 **可能原因：**\n• 图像生成服务响应缓慢\n• 网络连接不稳定\n• 服务器负载过高\n\n**建议：** 稍后重试或检查服务状态`;
+                await replaceImagePlaceholder(task, timeoutMessage);
+                logseq.UI.showMsg('❌ 图像生成超时', 'error');
             }
         }
-    };
-    
-    // 开始轮询
-    pollStatus();
+    }
+];
+
+/**
+ * 注册任务描述并恢复插件重新加载前未完成的任务
+ * @returns 恢复的任务数量
+ */
+async function resumeTrackedTasks(): Promise<number> {
+    for (const descriptor of TASK_DESCRIPTORS) {
+        taskTracker.register(descriptor);
+    }
+    return taskTracker.resume();
 }
 
-async function pollQwenVideoTaskStatus(
-    taskId: string, 
-    bridgeServiceUrl: string, 
-    blockRef: { uuid: string },
-    apiType: 't2v' | 'i2v' = 't2v',
-    prompt?: string,
-    maxAttempts: number = 120,
-    intervalMs: number = 4000
-): Promise<void> {
-    let attempts = 0;
-    
-    const poll = async (): Promise<void> => {
-        try {
-            attempts++;
-            console.log(`🔄 轮询Qwen视频任务状态 (${attempts}/${maxAttempts}):`, taskId);
-            
-            const statusUrl = bridgeServiceUrl.replace(/\/$/, '') + `/api/qwen-${apiType}/task/${taskId}`;
-            const response = await fetch(statusUrl);
-            
-            if (!response.ok) {
-                throw new Error(`状态查询失败: ${response.status}`);
-            }
-            
-            const result = await response.json();
-            
-            if (result.success && result.task) {
-                const task = result.task;
-                
-                switch (task.status) {
-                    case 'completed':
-                        // 任务完成，插入最终的视频链接作为子块
-                        const videoMarkdown = `![${task.filename}](${task.filePath})`;
-                        await logseq.Editor.insertBlock(blockRef.uuid, videoMarkdown, { sibling: false });
-                        
-                        logseq.UI.showMsg(
-                            `🎬 Qwen视频生成完成！\n文件名：${task.filename}`,
-                            'success',
-                            { timeout: 5000 }
-                        );
-                        
-                        console.log('✅ Qwen视频任务完成，文件已保存:', task.filePath);
-                        return;
-                        
-                    case 'failed':
-                        const errorMessage = task.error || '视频生成失败';
-                        const errorMarkdown = `❌ Qwen视频生成失败：${errorMessage}`;
-                        await logseq.Editor.insertBlock(blockRef.uuid, errorMarkdown, { sibling: false });
-                        
-                        logseq.UI.showMsg(
-                            `❌ Qwen视频生成失败：${errorMessage}`,
-                            'error',
-                            { timeout: 8000 }
-                        );
-                        
-                        console.error('❌ Qwen视频任务失败:', errorMessage);
-                        return;
-                        
-                    case 'pending':
-                    case 'processing':
-                        // 任务仍在进行中
-                        if (attempts >= maxAttempts) {
-                            const timeoutMarkdown = `⏰ Qwen视频生成超时，任务ID: ${taskId}`;
-                            await logseq.Editor.insertBlock(blockRef.uuid, timeoutMarkdown, { sibling: false });
-                            
-                            logseq.UI.showMsg(
-                                `⏰ Qwen视频生成超时`,
-                                'warning',
-                                { timeout: 8000 }
-                            );
-                            
-                            console.warn('⏰ Qwen视频任务轮询超时:', taskId);
-                            return;
-                        }
-                        
-                        // 动态调整轮询间隔
-                        const elapsedTime = attempts * intervalMs;
-                        let nextInterval = intervalMs;
-                        if (elapsedTime < 60 * 1000) { // 前1分钟
-                            nextInterval = 4000; // 4秒
-                        } else if (elapsedTime < 4 * 60 * 1000) { // 1-4分钟
-                            nextInterval = 8000; // 8秒
-                        } else { // 4分钟后
-                            nextInterval = 15000; // 15秒
-                        }
-                        
-                        console.log(`🎬 Qwen视频生成中... (${task.status}, ${attempts}/${maxAttempts})`);
-                        
-                        // 继续轮询
-                        setTimeout(poll, nextInterval);
-                        break;
-                        
-                    default:
-                        throw new Error(`未知任务状态: ${task.status}`);
-                }
-            } else {
-                throw new Error('无效的响应格式');
-            }
-        } catch (error) {
-            console.error('❌ 轮询Qwen视频任务状态失败:', error);
-            
-            if (attempts >= maxAttempts) {
-                const errorMarkdown = `❌ Qwen视频生成状态检查失败：${error instanceof Error ? error.message : '未知错误'}`;
-                await logseq.Editor.insertBlock(blockRef.uuid, errorMarkdown, { sibling: false });
-                
-                logseq.UI.showMsg(
-                    `❌ Qwen视频生成状态检查失败`,
-                    'error',
-                    { timeout: 8000 }
-                );
-                return;
+/**
+ * 显示待处理的 AI 任务
+ */
+async function showPendingTasks(): Promise<void> {
+    await taskTracker.showPendingTasks();
+}
+
+/**
+ * 重建语义索引，进度显示在消息提示中
+ */
+async function rebuildSemanticIndex(): Promise<void> {
+    try {
+        logseq.UI.showMsg('📚 正在建立语义索引...', 'info');
+        let lastReported = 0;
+        const count = await semanticIndex.rebuild(async (done, total) => {
+            // 每完成 20% 提示一次进度
+            if (done === total || done - lastReported >= Math.max(1, Math.floor(total / 5))) {
+                lastReported = done;
+                logseq.UI.showMsg(`📚 语义索引 ${done}/${total}`, 'info');
             }
-            
-            // 出错时也继续重试
-            setTimeout(poll, intervalMs);
-        }
-    };
-    
-    // 开始轮询
-    setTimeout(poll, intervalMs);
+        });
+        logseq.UI.showMsg(`✅ 语义索引已更新 ${count} 个块，共 ${semanticIndex.size} 个块`, 'success');
+    } catch (error) {
+        console.error('建立语义索引失败:', error);
+        logseq.UI.showMsg(`❌ 建立语义索引失败: ${error instanceof Error ? error.message : '未知错误'}`, 'error');
+    }
 }
 
-async function pollQwenTTSTaskStatus(
-    taskId: string, 
-    bridgeServiceUrl: string, 
-    blockRef: { uuid: string },
-    maxAttempts: number = 30,
-    intervalMs: number = 2000
-): Promise<void> {
-    let attempts = 0;
-    
-    const poll = async (): Promise<void> => {
-        try {
-            attempts++;
-            console.log(`🔄 轮询Qwen TTS任务状态 (${attempts}/${maxAttempts}):`, taskId);
-            
-            const statusUrl = bridgeServiceUrl.replace(/\/$/, '') + `/api/qwen-tts/task/${taskId}`;
-            const response = await fetch(statusUrl);
-            
-            if (!response.ok) {
-                throw new Error(`状态查询失败: ${response.status}`);
+/**
+ * 基于语义索引检索相关块并回答问题（/gpt-ask），回答中带块引用
+ * @param blockId 当前块ID
+ * @param question 用户问题
+ */
+async function performSemanticAsk(blockId: string, question: string): Promise<void> {
+    try {
+        if (!question.trim()) {
+            await logseq.Editor.insertBlock(blockId, '❌ 请输入问题。\n💡 使用方法: /gpt-ask 你的问题', { sibling: false });
+            return;
+        }
+
+        const { semanticTopK } = await getSettings();
+        const uuid: string|undefined = (await logseq.Editor.insertBlock(blockId, '🔍 正在检索相关笔记...', { sibling: false }))?.uuid;
+
+        if (await semanticIndex.needsRebuild()) {
+            if (uuid) {
+                await logseq.Editor.updateBlock(uuid, '📚 首次使用，正在建立语义索引...');
             }
-            
-            const result = await response.json();
-            
-            if (result.success && result.task) {
-                const task = result.task;
-                
-                switch (task.status) {
-                    case 'completed':
-                        // 任务完成，插入最终的音频链接作为子块
-                        const audioMarkdown = `![${task.filename}](${task.filePath})`;
-                        await logseq.Editor.insertBlock(blockRef.uuid, audioMarkdown, { sibling: false });
-                        
-                        logseq.UI.showMsg(
-                            `🎵 Qwen语音生成完成！\n文件名：${task.filename}`,
-                            'success',
-                            { timeout: 5000 }
-                        );
-                        
-                        console.log('✅ Qwen TTS任务完成，文件已保存:', task.filePath);
-                        return;
-                        
-                    case 'failed':
-                        // 任务失败，插入错误信息作为子块
-                        const errorMarkdown = `❌ Qwen语音生成失败：${task.error || '未知错误'}`;
-                        await logseq.Editor.insertBlock(blockRef.uuid, errorMarkdown, { sibling: false });
-                        
-                        logseq.UI.showMsg(
-                            `❌ Qwen语音生成失败：${task.error || '未知错误'}`,
-                            'error',
-                            { timeout: 8000 }
-                        );
-                        
-                        console.error('❌ Qwen TTS任务失败:', task.error);
-                        return;
-                        
-                    case 'processing':
-                    case 'pending':
-                        // 任务仍在处理中，继续轮询
-                        if (attempts >= maxAttempts) {
-                            const timeoutMarkdown = `⏰ Qwen语音生成超时，请稍后手动检查任务：${taskId}`;
-                            await logseq.Editor.insertBlock(blockRef.uuid, timeoutMarkdown, { sibling: false });
-                            
-                            logseq.UI.showMsg(
-                                `⏰ Qwen语音生成超时，任务ID：${taskId}`,
-                                'warning',
-                                { timeout: 10000 }
-                            );
-                            
-                            console.warn('⏰ Qwen TTS任务轮询超时:', taskId);
-                            return;
-                        }
-                        
-                        // 不更新进度提示，保留原始提示词
-                        // 进度信息通过控制台日志显示
-                        console.log(`🎵 Qwen语音生成中... (${task.status}, ${attempts}/${maxAttempts})`);
-                        
-                        // 继续轮询
-                        setTimeout(poll, intervalMs);
-                        break;
-                        
-                    default:
-                        throw new Error(`未知任务状态: ${task.status}`);
+            await semanticIndex.rebuild(async (done, total) => {
+                if (uuid) {
+                    await logseq.Editor.updateBlock(uuid, `📚 正在建立语义索引 ${done}/${total}...`);
                 }
-            } else {
-                throw new Error('无效的响应格式');
-            }
-        } catch (error) {
-            console.error('❌ 轮询Qwen TTS任务状态失败:', error);
-            
-            if (attempts >= maxAttempts) {
-                const errorMarkdown = `❌ Qwen语音生成状态检查失败：${error instanceof Error ? error.message : '未知错误'}`;
-                await logseq.Editor.insertBlock(blockRef.uuid, errorMarkdown, { sibling: false });
-                
-                logseq.UI.showMsg(
-                    `❌ Qwen语音生成状态检查失败`,
-                    'error',
-                    { timeout: 8000 }
-                );
-                return;
+            });
+        }
+
+        const sources = await semanticIndex.search(question, semanticTopK, [blockId]);
+        if (sources.length === 0) {
+            if (uuid) {
+                await logseq.Editor.updateBlock(uuid, '❌ 没有检索到相关笔记');
             }
-            
-            // 出错时也继续重试
-            setTimeout(poll, intervalMs);
+            return;
         }
-    };
-    
-    // 开始轮询
-    setTimeout(poll, intervalMs);
+        console.log('🔍 语义检索结果:', sources.map((source) => ({ page: source.page, score: source.score.toFixed(3) })));
+
+        if (uuid) {
+            await logseq.Editor.updateBlock(uuid, `🤖 已检索到 ${sources.length} 个相关块，正在生成回答...`);
+        }
+
+        const provider = await resolveProvider({ command: 'gpt-ask' });
+        const answer = await provider.chat(toMessages(
+            `参考资料：\n\n${formatCitationContext(sources)}\n\n问题：${question}`, {
+            system: `你是一个基于用户笔记回答问题的助手。请优先根据提供的参考资料回答，资料不足时明确说明。${CITATION_INSTRUCTION}`
+        }));
+
+        const { text, cited } = linkCitations(answer, sources);
+        await insertMarkdownBlocks(blockId, text, { placeholderUuid: uuid, markReply: true });
+
+        await insertSourcesBlock(blockId, sources, cited);
+    } catch (error) {
+        console.error('语义检索问答失败:', error);
+        await logseq.Editor.insertBlock(blockId, `❌ 语义检索问答失败: ${error instanceof Error ? error.message : '未知错误'}`, { sibling: false });
+    }
+}
+
+/**
+ * 停止正在进行的生成，已输出的内容会保留
+ * @param blockId 当前块 ID，只停止该块及其父块（在回复占位块中停止时）上的生成；省略时停止全部
+ */
+async function stopGeneration(blockId?: string): Promise<void> {
+    if (!blockId) {
+        const count = generationManager.abort();
+        if (count > 0) {
+            logseq.UI.showMsg(`⏹️ 已停止 ${count} 个生成任务，已输出的内容已保留`, 'success');
+        } else {
+            logseq.UI.showMsg('当前没有正在进行的生成任务', 'info');
+        }
+        return;
+    }
+
+    const candidates: string[] = [];
+    let block: any = await logseq.Editor.getBlock(blockId);
+    while (block) {
+        candidates.push(block.uuid);
+        block = block.parent?.id && block.parent.id !== block.page?.id
+            ? await logseq.Editor.getBlock(block.parent.id)
+            : null;
+    }
+
+    const count = candidates.length > 0 ? generationManager.abort(candidates) : 0;
+    if (count > 0) {
+        logseq.UI.showMsg(`⏹️ 已停止 ${count} 个生成任务，已输出的内容已保留`, 'success');
+    } else if (generationManager.activeCount > 0) {
+        logseq.UI.showMsg(`当前块没有正在进行的生成任务（其他块上有 ${generationManager.activeCount} 个），可使用 Stop AI generation 命令停止全部`, 'info');
+    } else {
+        logseq.UI.showMsg('当前没有正在进行的生成任务', 'info');
+    }
 }
 
 /**
@@ -3569,12 +3056,12 @@ async function pollQwenTTSTaskStatus(
  * @param blockId 当前块ID
  * @param content 用户输入内容
  */
-async function performDirectChat(blockId: string, content: string): Promise<void> {
+async function performDirectChat(blockId: string, content: string, opts?: { conversation?: boolean }): Promise<void> {
     try {
         const settings = await getSettings();
         
-        // 提取用户输入（移除命令本身）
-        let userInput = content.replace('/gpt', '').trim();
+        // 提取用户输入（移除 /gpt 或 /gpt-thread 命令本身）
+        let userInput = content.replace(/\/gpt(?:-thread)?(?![\w-])/, '').trim();
         
         // 使用设置中的默认系统提示词
         let systemPrompt = settings.defaultSystemPrompt;
@@ -3593,7 +3080,9 @@ async function performDirectChat(blockId: string, content: string): Promise<void
         
         // 直接调用 openaiStream 进行对话
         await openaiStream(blockId, userInput, {
-            system_content: systemPrompt
+            system_content: systemPrompt,
+            conversation: opts?.conversation,
+            command: opts?.conversation ? 'gpt-thread' : 'gpt'
         });
         
     } catch (error) {
@@ -3602,6 +3091,54 @@ async function performDirectChat(blockId: string, content: string): Promise<void
     }
 }
 
+/**
+ * 执行提示词库中的提示词：当前块内容作为输入，使用提示词定义的系统提示词、模型和温度
+ * @param blockId 当前块 ID
+ * @param name 提示词名称（即斜杠命令名）
+ */
+async function performPromptCommand(blockId: string, name: string): Promise<void> {
+    try {
+        const definition = promptLibrary.get(name);
+        if (!definition) {
+            await logseq.Editor.insertBlock(blockId, `❌ 未找到提示词 "${name}"，请重新加载提示词库`, { sibling: false });
+            return;
+        }
+
+        const block = await logseq.Editor.getBlock(blockId);
+        const input = (block?.content || '')
+            .replace(`/${name}`, '')
+            .split('\n')
+            .filter((line: string) => !/^\s*[\w-]+::\s?.*$/.test(line))
+            .join('\n')
+            .trim();
+
+        // 提示词中的模板变量在发送前解析，没有引用块内容时把内容附加在提示词之后
+        const userContent = usesVariables(definition.prompt, ['input', 'block', 'selection'])
+            ? definition.prompt
+            : [definition.prompt, input].filter(Boolean).join('\n\n');
+
+        const { isStreamingOutput, defaultSystemPrompt } = await getSettings();
+        console.log(`📝 执行提示词 ${name} (${definition.source}${definition.page ? `: ${definition.page}` : ''})`);
+
+        const opts = {
+            system_content: definition.system || defaultSystemPrompt,
+            input,
+            command: name,
+            profile: definition.profile,
+            model: definition.model,
+            temperature: definition.temperature
+        };
+        if (isStreamingOutput) {
+            await openaiStream(blockId, userContent, opts);
+        } else {
+            await openaiMessage(blockId, userContent, opts);
+        }
+    } catch (error) {
+        console.error('执行提示词失败:', error);
+        await logseq.Editor.insertBlock(blockId, `❌ 执行提示词失败: ${error instanceof Error ? error.message : '未知错误'}`, { sibling: false });
+    }
+}
+
 export {
     settingsSchema,
     summary,
@@ -3609,6 +3146,7 @@ export {
     openaiMessage,
     generateAdvancedQuery,
     generatePageSummary,
+    performBlockSummary,
     getBacklinkGraphContent,
     generateGraphBasedResponse,
     detectImages,
@@ -3624,5 +3162,11 @@ export {
     performQwenQueryVideoTask,
     analyzeUserIntent,
     callMCPTool,
-    performDirectChat
+    performDirectChat,
+    stopGeneration,
+    rebuildSemanticIndex,
+    resumeTrackedTasks,
+    showPendingTasks,
+    performSemanticAsk,
+    performPromptCommand
 }
\ No newline at end of file
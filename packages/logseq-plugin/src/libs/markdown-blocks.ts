@@ -0,0 +1,222 @@
+/**
+ * Markdown 转块树模块
+ * 把 AI 返回的 markdown 按标题层级和列表缩进转换为 Logseq 的父子块，代码块、表格和引用保持完整
+ */
+
+import '@logseq/libs';
+import { IBatchBlock } from '@logseq/libs/dist/LSPlugin';
+import { markAIReplyBlock } from './conversation';
+
+type LineKind = 'blank' | 'heading' | 'item' | 'paragraph' | 'fence' | 'table' | 'quote';
+
+// Logseq 有序列表的块属性
+const ORDER_LIST_PROPERTY = 'logseq.order-list-type';
+
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+\S/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const HR_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+// key:: value，:: 后必须是空白或行尾，避免把 std::move(x)、Foo::bar 当作属性
+const PROPERTY_PATTERN = /^\s*([A-Za-z][\w.-]*)::(?:\s+(.*))?$/;
+const TABLE_PATTERN = /^\s*\|/;
+const QUOTE_PATTERN = /^\s*>/;
+
+function indentOf(line: string): number {
+    return (line.match(/^\s*/)?.[0] || '').replace(/\t/g, '    ').length;
+}
+
+function childrenOf(block: IBatchBlock): IBatchBlock[] {
+    if (!block.children) {
+        block.children = [];
+    }
+    return block.children;
+}
+
+/**
+ * 把 markdown 解析为块树
+ * - 标题按层级嵌套，标题下的内容作为其子块
+ * - 列表按缩进嵌套，有序列表写入 logseq.order-list-type:: number，任务列表转为 TODO/DONE
+ * - 代码块、表格、引用各自作为一个完整的块
+ * - key:: value 行作为前一个块的属性
+ * @param markdown markdown 文本
+ */
+export function markdownToBlocks(markdown: string): IBatchBlock[] {
+    const root: IBatchBlock[] = [];
+    const headings: Array<{ level: number, block: IBatchBlock }> = [];
+    let lists: Array<{ indent: number, block: IBatchBlock }> = [];
+    // 在闭包中更新，用类型断言避免被收窄为初始值
+    let last = null as IBatchBlock | null;
+    let lastKind = 'blank' as LineKind;
+    let pendingProperties: Record<string, any> = {};
+
+    const container = (): IBatchBlock[] => headings.length > 0 ? childrenOf(headings[headings.length - 1].block) : root;
+
+    // 非列表内容：缩进大于当前列表项时作为列表项的子块，否则结束列表
+    const parentFor = (indent: number): IBatchBlock[] => {
+        while (lists.length > 0 && indent <= lists[lists.length - 1].indent) {
+            lists.pop();
+        }
+        return lists.length > 0 ? childrenOf(lists[lists.length - 1].block) : container();
+    };
+
+    const push = (parent: IBatchBlock[], block: IBatchBlock, kind: LineKind): IBatchBlock => {
+        if (Object.keys(pendingProperties).length > 0) {
+            block.properties = { ...pendingProperties, ...block.properties };
+            pendingProperties = {};
+        }
+        parent.push(block);
+        last = block;
+        lastKind = kind;
+        return block;
+    };
+
+    const lines = (markdown || '').replace(/\r\n?/g, '\n').split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.trim() === '') {
+            lastKind = 'blank';
+            continue;
+        }
+
+        // 代码块：一直收集到同类型的结束标记
+        const fence = line.match(FENCE_PATTERN);
+        if (fence) {
+            const indent = indentOf(line);
+            const marker = fence[2];
+            const body: string[] = [line.slice(fence[1].length)];
+            while (++i < lines.length) {
+                const current = lines[i];
+                body.push(current.slice(Math.min(indentOf(current), fence[1].length)));
+                const closing = current.trim();
+                if (closing.length >= marker.length && closing === marker[0].repeat(closing.length)) {
+                    break;
+                }
+            }
+            push(parentFor(indent), { content: body.join('\n') }, 'fence');
+            continue;
+        }
+
+        if (HR_PATTERN.test(line)) {
+            lists = [];
+            lastKind = 'blank';
+            continue;
+        }
+
+        const heading = line.match(HEADING_PATTERN);
+        if (heading) {
+            const level = heading[1].length;
+            lists = [];
+            while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+                headings.pop();
+            }
+            const block = push(container(), { content: line.trim() }, 'heading');
+            headings.push({ level, block });
+            continue;
+        }
+
+        // 属性行归属于前一个块，出现在开头时留给下一个块
+        const property = line.match(PROPERTY_PATTERN);
+        if (property) {
+            const key = property[1].toLowerCase();
+            if (last) {
+                last.properties = { ...last.properties, [key]: (property[2] || '').trim() };
+            } else {
+                pendingProperties[key] = (property[2] || '').trim();
+            }
+            continue;
+        }
+
+        if (TABLE_PATTERN.test(line) || QUOTE_PATTERN.test(line)) {
+            const pattern = TABLE_PATTERN.test(line) ? TABLE_PATTERN : QUOTE_PATTERN;
+            const indent = indentOf(line);
+            const body: string[] = [line.trim()];
+            while (i + 1 < lines.length && pattern.test(lines[i + 1])) {
+                body.push(lines[++i].trim());
+            }
+            push(parentFor(indent), { content: body.join('\n') }, pattern === TABLE_PATTERN ? 'table' : 'quote');
+            continue;
+        }
+
+        const item = line.match(LIST_ITEM_PATTERN);
+        if (item) {
+            const indent = indentOf(line);
+            while (lists.length > 0 && lists[lists.length - 1].indent >= indent) {
+                lists.pop();
+            }
+            const parent = lists.length > 0 ? childrenOf(lists[lists.length - 1].block) : container();
+            const block: IBatchBlock = {
+                content: item[3]
+                    .replace(/^\[ \]\s+/, 'TODO ')
+                    .replace(/^\[[xX]\]\s+/, 'DONE '),
+            };
+            if (/^\d/.test(item[2])) {
+                block.properties = { [ORDER_LIST_PROPERTY]: 'number' };
+            }
+            push(parent, block, 'item');
+            lists.push({ indent, block });
+            continue;
+        }
+
+        // 普通段落：紧跟在列表项或段落后的行是续行，否则开始新块
+        if (last && (lastKind === 'item' || lastKind === 'paragraph')) {
+            last.content += `\n${line.trim()}`;
+            continue;
+        }
+        push(parentFor(indentOf(line)), { content: line.trim() }, 'paragraph');
+    }
+
+    return root;
+}
+
+/**
+ * 把 markdown 转为块树并插入到指定块下
+ * @param parentUuid 父块 ID，顶层块依次插入为其子块
+ * @param markdown markdown 文本
+ * @param opts.placeholderUuid 占位块（如 loading...），第一个顶层块会写入占位块
+ * @param opts.suffix 附加在第一个顶层块末尾的文本
+ * @param opts.markReply 是否给顶层块写入 AI 回复标记
+ * @returns 顶层块的 ID
+ */
+export async function insertMarkdownBlocks(
+    parentUuid: string,
+    markdown: string,
+    opts?: { placeholderUuid?: string, suffix?: string, markReply?: boolean }
+): Promise<string[]> {
+    const blocks = markdownToBlocks(markdown);
+    if (blocks.length === 0) {
+        blocks.push({ content: markdown.trim() });
+    }
+    if (opts?.suffix) {
+        blocks[0].content += `\n\n${opts.suffix}`;
+    }
+
+    const uuids: string[] = [];
+    for (let i = 0; i < blocks.length; i++) {
+        const block = blocks[i];
+        let uuid: string | undefined;
+        if (i === 0 && opts?.placeholderUuid) {
+            uuid = opts.placeholderUuid;
+            await logseq.Editor.updateBlock(uuid, block.content);
+            for (const [key, value] of Object.entries(block.properties || {})) {
+                await logseq.Editor.upsertBlockProperty(uuid, key, value);
+            }
+        } else {
+            uuid = (await logseq.Editor.insertBlock(parentUuid, block.content, {
+                sibling: false,
+                properties: block.properties
+            }))?.uuid;
+        }
+        if (!uuid) {
+            continue;
+        }
+        if (block.children?.length) {
+            await logseq.Editor.insertBatchBlock(uuid, block.children, { sibling: false });
+        }
+        if (opts?.markReply) {
+            await markAIReplyBlock(uuid);
+        }
+        uuids.push(uuid);
+    }
+    return uuids;
+}
@@ -0,0 +1,325 @@
+/**
+ * MCP 资源和提示词浏览模块
+ * 列出桥接服务中各服务的资源和提示词：资源内容可插入到当前块下，提示词按声明的参数填写表单后发送给模型
+ */
+
+import '@logseq/libs';
+import { OpenAIMessagesRole } from '@libs/openai';
+import { ChatMessage } from '@libs/providers';
+import { getSettings } from './settings';
+import { bridgeServiceRequest, fetchWithTimeout } from './network';
+import { resolveProvider } from './providers';
+import { generationManager } from './generation-manager';
+import { insertMarkdownBlocks } from './markdown-blocks';
+
+/**
+ * 桥接服务 /api/resources 返回的资源
+ */
+export interface MCPResourceInfo {
+    serviceId: string;
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+/**
+ * 桥接服务 /api/prompts 返回的提示词
+ */
+export interface MCPPromptInfo {
+    serviceId: string;
+    name: string;
+    description?: string;
+    arguments: Array<{ name: string, description?: string, required?: boolean }>;
+}
+
+const BROWSER_UI_KEY = 'mcp-browser';
+const PROMPT_ARG_ID_PREFIX = 'ai-mcp-prompt-arg-';
+
+// 当前对话框对应的块和列表，按钮通过 data-index 引用
+const state: {
+    blockId: string,
+    resources: MCPResourceInfo[],
+    prompts: MCPPromptInfo[],
+    selectedPrompt: MCPPromptInfo | null
+} = { blockId: '', resources: [], prompts: [], selectedPrompt: null };
+
+let modelProvided = false;
+
+function escapeHtml(text: string): string {
+    return String(text || '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function closeBrowserUI(): void {
+    parent.document.getElementById(`${logseq.baseInfo.id}--${BROWSER_UI_KEY}`)?.remove();
+}
+
+function showBrowserUI(title: string, body: string): void {
+    logseq.provideUI({
+        key: BROWSER_UI_KEY,
+        close: 'outside',
+        template: `<div style="padding: 12px; max-height: 420px; overflow: auto; display: flex; flex-direction: column; gap: 8px;">${body}</div>`,
+        style: {
+            left: 'calc(50% - 280px)',
+            top: '15%',
+            width: '560px',
+            backgroundColor: 'var(--ls-secondary-background-color)',
+            color: 'var(--ls-primary-text-color)',
+        },
+        attrs: { title },
+    });
+}
+
+/**
+ * 按服务分组渲染列表项
+ */
+function renderGrouped<T extends { serviceId: string }>(items: T[], renderItem: (item: T, index: number) => string): string {
+    const groups = new Map<string, string[]>();
+    items.forEach((item, index) => {
+        const list = groups.get(item.serviceId) || [];
+        list.push(renderItem(item, index));
+        groups.set(item.serviceId, list);
+    });
+    return Array.from(groups.entries())
+        .map(([serviceId, rows]) => `<div style="font-weight: 600; margin-top: 4px;">${escapeHtml(serviceId)}</div>${rows.join('')}`)
+        .join('');
+}
+
+function renderRow(title: string, detail: string, action: string, index: number, label: string): string {
+    return `
+    <div style="display: flex; align-items: center; gap: 8px; padding: 4px 0; border-bottom: 1px solid var(--ls-border-color);">
+        <div style="flex: 1; min-width: 0;">
+            <div>${title}</div>
+            ${detail ? `<div style="opacity: 0.7; font-size: 12px;">${detail}</div>` : ''}
+        </div>
+        <button class="ui__button" data-on-click="${action}" data-index="${index}">${label}</button>
+    </div>`;
+}
+
+/**
+ * 把资源内容转换为块内容：markdown / 纯文本按块树插入，其他文本放入代码块，二进制内容只记录信息
+ */
+function formatResourceContent(content: any): string {
+    const mimeType: string = content?.mimeType || '';
+    if (typeof content?.text === 'string') {
+        if (!mimeType || mimeType.startsWith('text/markdown') || mimeType.startsWith('text/plain')) {
+            return content.text;
+        }
+        const language = mimeType.split('/').pop()?.replace(/^x-/, '') || '';
+        return `\`\`\`${language}\n${content.text}\n\`\`\``;
+    }
+    if (typeof content?.blob === 'string') {
+        return `📎 二进制内容 \`${content.uri || ''}\`（${mimeType || 'unknown'}，${Math.round(content.blob.length * 3 / 4)} 字节）`;
+    }
+    return `\`\`\`json\n${JSON.stringify(content, null, 2)}\n\`\`\``;
+}
+
+/**
+ * 读取资源并插入到当前块下
+ */
+async function insertResource(resource: MCPResourceInfo, blockId: string): Promise<void> {
+    const { bridgeServiceUrl } = await getSettings();
+    const response = await fetchWithTimeout(
+        `${bridgeServiceUrl}/api/resources/${encodeURIComponent(resource.serviceId)}/${encodeURIComponent(resource.uri)}`,
+        { method: 'GET', timeout: 30000 }
+    );
+    const data = await response.json();
+    if (!response.ok) {
+        throw new Error(data?.error || `读取资源失败 (${response.status})`);
+    }
+
+    const contents: any[] = Array.isArray(data) ? data : (data?.contents || [data]);
+    const header = await logseq.Editor.insertBlock(blockId, `📄 ${resource.name || resource.uri}\nsource:: ${resource.serviceId} ${resource.uri}`, { sibling: false });
+    if (!header?.uuid) {
+        return;
+    }
+    for (const content of contents) {
+        await insertMarkdownBlocks(header.uuid, formatResourceContent(content));
+    }
+    console.log(`📄 已插入 MCP 资源: ${resource.serviceId} ${resource.uri}`);
+}
+
+/**
+ * 把 MCP 提示词消息转换为对话消息，图片转为 data URL，嵌入的资源取其文本
+ */
+function toChatMessages(messages: Array<{ role: string, content: any }>): ChatMessage[] {
+    return messages.map(({ role, content }) => {
+        const chatRole = role === 'assistant' ? OpenAIMessagesRole.assistant : OpenAIMessagesRole.user;
+        if (content?.type === 'image') {
+            return { role: chatRole, content: '', images: [`data:${content.mimeType};base64,${content.data}`] };
+        }
+        if (content?.type === 'resource') {
+            return { role: chatRole, content: content.resource?.text || `[resource] ${content.resource?.uri || ''}` };
+        }
+        return { role: chatRole, content: typeof content === 'string' ? content : content?.text || '' };
+    });
+}
+
+/**
+ * 渲染 MCP 提示词并发送给模型，回复写入当前块的子块
+ */
+async function runPrompt(prompt: MCPPromptInfo, args: Record<string, string>, blockId: string): Promise<void> {
+    const { bridgeServiceUrl } = await getSettings();
+    const rendered = await bridgeServiceRequest(
+        `/api/prompts/${encodeURIComponent(prompt.serviceId)}/${encodeURIComponent(prompt.name)}`,
+        bridgeServiceUrl,
+        { body: JSON.stringify({ arguments: args }), timeout: 30000, retries: 0 }
+    );
+    const messages = toChatMessages(rendered?.messages || []);
+    if (messages.length === 0) {
+        throw new Error(`提示词 ${prompt.name} 没有返回消息`);
+    }
+
+    const provider = await resolveProvider({ command: 'mcp-prompt' });
+    const uuid = (await logseq.Editor.insertBlock(blockId, 'loading...'))?.uuid;
+    const controller = generationManager.start(blockId);
+    let result: string;
+    try {
+        result = await provider.chat(messages, { signal: controller.signal });
+    } catch (err: any) {
+        if (!controller.signal.aborted) {
+            throw err;
+        }
+        if (uuid) {
+            await logseq.Editor.updateBlock(uuid, '⏹️ 已停止生成');
+        }
+        return;
+    } finally {
+        generationManager.finish(blockId, controller);
+    }
+    await insertMarkdownBlocks(blockId, result, { placeholderUuid: uuid, markReply: true });
+}
+
+/**
+ * 显示提示词参数表单
+ */
+function showPromptForm(prompt: MCPPromptInfo): void {
+    state.selectedPrompt = prompt;
+    const fields = prompt.arguments.map((arg, index) => `
+        <label style="display: flex; flex-direction: column; gap: 2px;">
+            <span>${escapeHtml(arg.name)}${arg.required ? ' <span style="color: var(--ls-error-text-color, red);">*</span>' : ''}</span>
+            ${arg.description ? `<span style="opacity: 0.7; font-size: 12px;">${escapeHtml(arg.description)}</span>` : ''}
+            <textarea id="${PROMPT_ARG_ID_PREFIX}${index}" rows="2" style="width: 100%;"></textarea>
+        </label>`).join('');
+    showBrowserUI(`MCP Prompt: ${prompt.name}`, `
+        <div><code>${escapeHtml(prompt.serviceId)}/${escapeHtml(prompt.name)}</code></div>
+        ${prompt.description ? `<div style="opacity: 0.8;">${escapeHtml(prompt.description)}</div>` : ''}
+        ${fields || '<div style="opacity: 0.7;">此提示词没有参数</div>'}
+        <div style="display: flex; justify-content: flex-end;">
+            <button class="ui__button" data-on-click="submitMCPPrompt">运行</button>
+        </div>`);
+}
+
+/**
+ * 注册对话框按钮的事件处理
+ */
+function ensureModel(): void {
+    if (modelProvided) {
+        return;
+    }
+    modelProvided = true;
+    logseq.provideModel({
+        async insertMCPResource(e: any) {
+            const resource = state.resources[Number(e?.dataset?.index)];
+            if (!resource) {
+                return;
+            }
+            closeBrowserUI();
+            try {
+                await insertResource(resource, state.blockId);
+            } catch (error) {
+                console.error('❌ 插入 MCP 资源失败:', error);
+                logseq.UI.showMsg(`插入资源失败: ${error instanceof Error ? error.message : error}`, 'error');
+            }
+        },
+        selectMCPPrompt(e: any) {
+            const prompt = state.prompts[Number(e?.dataset?.index)];
+            if (prompt) {
+                showPromptForm(prompt);
+            }
+        },
+        async submitMCPPrompt() {
+            const prompt = state.selectedPrompt;
+            if (!prompt) {
+                return;
+            }
+            const args: Record<string, string> = {};
+            const missing: string[] = [];
+            prompt.arguments.forEach((arg, index) => {
+                const input = parent.document.getElementById(`${PROMPT_ARG_ID_PREFIX}${index}`) as HTMLTextAreaElement | null;
+                const value = (input?.value || '').trim();
+                if (value) {
+                    args[arg.name] = value;
+                } else if (arg.required) {
+                    missing.push(arg.name);
+                }
+            });
+            if (missing.length > 0) {
+                logseq.UI.showMsg(`请填写必填参数: ${missing.join(', ')}`, 'warning');
+                return;
+            }
+            closeBrowserUI();
+            try {
+                await runPrompt(prompt, args, state.blockId);
+            } catch (error) {
+                console.error('❌ 运行 MCP 提示词失败:', error);
+                logseq.UI.showMsg(`运行提示词失败: ${error instanceof Error ? error.message : error}`, 'error');
+            }
+        },
+    });
+}
+
+/**
+ * 打开资源浏览对话框
+ * @param blockId 资源内容插入到该块下
+ * @param serviceId 只显示指定服务的资源
+ */
+export async function openMCPResourceBrowser(blockId: string, serviceId?: string): Promise<void> {
+    const { bridgeServiceUrl } = await getSettings();
+    const query = serviceId ? `?serviceId=${encodeURIComponent(serviceId)}` : '';
+    const response = await bridgeServiceRequest(`/api/resources${query}`, bridgeServiceUrl, { method: 'GET', timeout: 10000, retries: 1 });
+    const resources: MCPResourceInfo[] = response?.resources || [];
+    if (resources.length === 0) {
+        logseq.UI.showMsg(serviceId ? `服务 ${serviceId} 没有可用的资源` : '已连接的 MCP 服务没有可用的资源', 'warning');
+        return;
+    }
+
+    ensureModel();
+    state.blockId = blockId;
+    state.resources = resources;
+    showBrowserUI('MCP Resources', renderGrouped(resources, (resource, index) => renderRow(
+        escapeHtml(resource.name || resource.uri),
+        escapeHtml([resource.uri, resource.mimeType, resource.description].filter(Boolean).join(' · ')),
+        'insertMCPResource', index, '插入'
+    )));
+}
+
+/**
+ * 打开提示词浏览对话框，选择后填写参数并运行
+ * @param blockId 回复写入该块下
+ * @param serviceId 只显示指定服务的提示词
+ */
+export async function openMCPPromptBrowser(blockId: string, serviceId?: string): Promise<void> {
+    const { bridgeServiceUrl } = await getSettings();
+    const query = serviceId ? `?serviceId=${encodeURIComponent(serviceId)}` : '';
+    const response = await bridgeServiceRequest(`/api/prompts${query}`, bridgeServiceUrl, { method: 'GET', timeout: 10000, retries: 1 });
+    const prompts: MCPPromptInfo[] = response?.prompts || [];
+    if (prompts.length === 0) {
+        logseq.UI.showMsg(serviceId ? `服务 ${serviceId} 没有可用的提示词` : '已连接的 MCP 服务没有可用的提示词', 'warning');
+        return;
+    }
+
+    ensureModel();
+    state.blockId = blockId;
+    state.prompts = prompts;
+    state.selectedPrompt = null;
+    showBrowserUI('MCP Prompts', renderGrouped(prompts, (prompt, index) => renderRow(
+        escapeHtml(prompt.name),
+        escapeHtml([prompt.description, prompt.arguments.length > 0 ? `参数: ${prompt.arguments.map((arg) => arg.name).join(', ')}` : ''].filter(Boolean).join(' · ')),
+        'selectMCPPrompt', index, '选择'
+    )));
+}
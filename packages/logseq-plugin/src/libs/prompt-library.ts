@@ -0,0 +1,214 @@
+/**
+ * 提示词库模块
+ * 合并内置 TOML、插件存储中的用户 TOML 和带 #ai-prompt 标签的页面，后者优先级更高
+ */
+
+import '@logseq/libs';
+import toml from 'toml';
+import bundledPrompts from '@/prompt/library.toml?raw';
+
+export type PromptSource = 'bundled' | 'user' | 'page';
+
+export interface PromptDefinition {
+    name: string;
+    prompt: string;
+    description?: string;
+    system?: string;
+    model?: string;
+    temperature?: number;
+    profile?: string;
+    source: PromptSource;
+    // 定义在页面上时记录页面名，便于跳转和排查
+    page?: string;
+}
+
+/**
+ * 用户提示词文件名（位于插件存储目录）
+ */
+export const USER_PROMPT_FILE = 'prompts.toml';
+
+/**
+ * 默认的提示词页面标签
+ */
+export const DEFAULT_PROMPT_TAG = 'ai-prompt';
+
+/**
+ * 命令名只保留字母、数字、中文和连字符
+ */
+function normalizeCommandName(name: string): string {
+    return String(name || '')
+        .trim()
+        .toLowerCase()
+        .replace(/\s+/g, '-')
+        .replace(/[^\w\u4e00-\u9fa5-]/g, '');
+}
+
+function toNumber(value: any): number | undefined {
+    const number = parseFloat(value);
+    return Number.isNaN(number) ? undefined : number;
+}
+
+/**
+ * 解析 TOML 格式的提示词定义
+ * @param text TOML 文本
+ * @param source 来源
+ */
+export function parsePromptToml(text: string, source: PromptSource): PromptDefinition[] {
+    const parsed: Record<string, any> = toml.parse(text);
+    const prompts: PromptDefinition[] = [];
+    for (const [key, value] of Object.entries(parsed)) {
+        if (!value || typeof value !== 'object' || typeof value.prompt !== 'string') {
+            console.warn(`⚠️ 忽略无效的提示词 "${key}"，需要 prompt 字段`);
+            continue;
+        }
+        const name = normalizeCommandName(value.name || key);
+        if (!name) {
+            continue;
+        }
+        prompts.push({
+            name,
+            prompt: value.prompt.trim(),
+            description: value.description,
+            system: value.system,
+            model: value.model,
+            temperature: toNumber(value.temperature),
+            profile: value.profile,
+            source,
+        });
+    }
+    return prompts;
+}
+
+/**
+ * 把页面的块树拼接为提示词正文，跳过页面属性块和块内的属性行
+ */
+function flattenPromptBlocks(blocks: any[], depth: number = 0): string {
+    const lines: string[] = [];
+    for (const block of blocks) {
+        if (!block['preBlock?']) {
+            const content = (block.content || '')
+                .split('\n')
+                .filter((line: string) => !/^\s*[\w-]+::\s?.*$/.test(line))
+                .join('\n')
+                .trim();
+            if (content) {
+                lines.push(depth > 0 ? `${'  '.repeat(depth - 1)}- ${content}` : content);
+            }
+        }
+        if (block.children?.length) {
+            const children = flattenPromptBlocks(block.children, block['preBlock?'] ? depth : depth + 1);
+            if (children) {
+                lines.push(children);
+            }
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * 提示词库
+ */
+export class PromptLibrary {
+    private static instance: PromptLibrary;
+    private prompts = new Map<string, PromptDefinition>();
+
+    static getInstance(): PromptLibrary {
+        if (!PromptLibrary.instance) {
+            PromptLibrary.instance = new PromptLibrary();
+        }
+        return PromptLibrary.instance;
+    }
+
+    /**
+     * 从插件存储读取用户提示词文件
+     */
+    private async loadUserPrompts(): Promise<PromptDefinition[]> {
+        try {
+            if (!(await logseq.FileStorage.hasItem(USER_PROMPT_FILE))) {
+                return [];
+            }
+            const text = await logseq.FileStorage.getItem(USER_PROMPT_FILE);
+            return text ? parsePromptToml(String(text), 'user') : [];
+        } catch (error) {
+            console.warn(`⚠️ 解析用户提示词文件 ${USER_PROMPT_FILE} 失败:`, error);
+            logseq.UI.showMsg(`用户提示词文件 ${USER_PROMPT_FILE} 格式错误，已忽略`, 'warning');
+            return [];
+        }
+    }
+
+    /**
+     * 读取带指定标签的页面，页面属性提供 model / temperature / system 等参数，页面内容为提示词
+     * @param tag 页面标签
+     */
+    private async loadPagePrompts(tag: string): Promise<PromptDefinition[]> {
+        const prompts: PromptDefinition[] = [];
+        try {
+            const results: any[] = await logseq.DB.datascriptQuery(`[
+                :find (pull ?p [:block/name :block/original-name :block/properties])
+                :where
+                [?t :block/name "${tag.toLowerCase().replace(/"/g, '')}"]
+                [?p :block/tags ?t]
+            ]`);
+            for (const result of results || []) {
+                const page = result[0];
+                if (!page?.name) {
+                    continue;
+                }
+                const properties = page.properties || {};
+                const blocks = await logseq.Editor.getPageBlocksTree(page.name);
+                const prompt = flattenPromptBlocks(blocks || []);
+                if (!prompt) {
+                    console.warn(`⚠️ 提示词页面 "${page['original-name'] || page.name}" 没有内容，已忽略`);
+                    continue;
+                }
+                prompts.push({
+                    name: normalizeCommandName(properties.command || page.name),
+                    prompt,
+                    description: properties.description,
+                    system: properties.system,
+                    model: properties.model,
+                    temperature: toNumber(properties.temperature),
+                    profile: properties.profile,
+                    source: 'page',
+                    page: page['original-name'] || page.name,
+                });
+            }
+        } catch (error) {
+            console.warn('⚠️ 读取提示词页面失败:', error);
+        }
+        return prompts;
+    }
+
+    /**
+     * 重新加载全部提示词：内置 < 用户文件 < 页面，同名时后者覆盖前者
+     * @param tag 提示词页面标签
+     */
+    async load(tag: string = DEFAULT_PROMPT_TAG): Promise<PromptDefinition[]> {
+        const prompts = new Map<string, PromptDefinition>();
+        let bundled: PromptDefinition[] = [];
+        try {
+            bundled = parsePromptToml(bundledPrompts, 'bundled');
+        } catch (error) {
+            console.error('❌ 解析内置提示词失败:', error);
+        }
+        const sources = [bundled, await this.loadUserPrompts(), await this.loadPagePrompts(tag || DEFAULT_PROMPT_TAG)];
+        for (const list of sources) {
+            for (const prompt of list) {
+                prompts.set(prompt.name, prompt);
+            }
+        }
+        this.prompts = prompts;
+        console.log(`📝 已加载 ${prompts.size} 个提示词:`, Array.from(prompts.values()).map((prompt) => `${prompt.name} (${prompt.source})`));
+        return this.list();
+    }
+
+    get(name: string): PromptDefinition | undefined {
+        return this.prompts.get(name);
+    }
+
+    list(): PromptDefinition[] {
+        return Array.from(this.prompts.values());
+    }
+}
+
+export const promptLibrary = PromptLibrary.getInstance();
@@ -0,0 +1,290 @@
+/**
+ * 提示词模板模块
+ * 在发送前把提示词中的 {{变量}} 解析为图谱内容，如 {{block}}、{{page}}、{{journal:-7d}}、{{query:...}}
+ */
+
+import '@logseq/libs';
+import { toMessages, OpenAIMessage } from '@libs/openai';
+
+/**
+ * 模板渲染上下文
+ */
+export interface TemplateContext {
+    // 当前块 ID
+    blockId?: string;
+    // 命令的输入内容（如提示词命令所在块的正文）
+    input?: string;
+}
+
+type VariableResolver = (arg: string, context: TemplateContext) => Promise<string>;
+
+// {{name}} 或 {{name:参数}}，参数可以包含空格和方括号
+const VARIABLE_PATTERN = /\{\{([a-z][\w-]*)(?::((?:(?!\}\})[\s\S])*))?\}\}/g;
+
+// 查询结果最多展开的块数量
+const MAX_QUERY_RESULTS = 50;
+
+/**
+ * 去除属性行，只保留块正文
+ */
+function stripProperties(content: string): string {
+    return (content || '')
+        .split('\n')
+        .filter((line) => !/^\s*[\w-]+::\s?.*$/.test(line))
+        .join('\n')
+        .trim();
+}
+
+/**
+ * 把块树转为缩进的 markdown 列表
+ */
+export function blocksToMarkdown(blocks: any[], depth: number = 0): string {
+    const lines: string[] = [];
+    for (const block of blocks || []) {
+        if (block['preBlock?']) {
+            continue;
+        }
+        const content = stripProperties(block.content);
+        if (content) {
+            const indent = '  '.repeat(depth);
+            lines.push(`${indent}- ${content.replace(/\n/g, `\n${indent}  `)}`);
+        }
+        if (block.children?.length) {
+            const children = blocksToMarkdown(block.children, depth + 1);
+            if (children) {
+                lines.push(children);
+            }
+        }
+    }
+    return lines.join('\n');
+}
+
+function formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function toJournalDay(date: Date): number {
+    return date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+}
+
+/**
+ * 解析相对日期，如 -7d、+1w、-1m、today、yesterday
+ * @param offset 相对日期
+ */
+function parseRelativeDate(offset: string): Date | null {
+    const date = new Date();
+    const value = (offset || '').trim().toLowerCase();
+    if (value === '' || value === 'today') {
+        return date;
+    }
+    if (value === 'yesterday') {
+        date.setDate(date.getDate() - 1);
+        return date;
+    }
+    const match = value.match(/^([+-]?\d+)([dwmy])$/);
+    if (!match) {
+        return null;
+    }
+    const amount = parseInt(match[1], 10);
+    switch (match[2]) {
+        case 'd': date.setDate(date.getDate() + amount); break;
+        case 'w': date.setDate(date.getDate() + amount * 7); break;
+        case 'm': date.setMonth(date.getMonth() + amount); break;
+        case 'y': date.setFullYear(date.getFullYear() + amount); break;
+    }
+    return date;
+}
+
+async function getCurrentBlock(context: TemplateContext): Promise<any | null> {
+    if (context.blockId) {
+        return await logseq.Editor.getBlock(context.blockId, { includeChildren: true });
+    }
+    return await logseq.Editor.getCurrentBlock();
+}
+
+async function getCurrentPage(context: TemplateContext): Promise<any | null> {
+    const block = context.blockId ? await logseq.Editor.getBlock(context.blockId) : null;
+    if (block?.page?.id) {
+        return await logseq.Editor.getPage(block.page.id);
+    }
+    return await logseq.Editor.getCurrentPage();
+}
+
+/**
+ * 内置变量
+ */
+const resolvers: Record<string, VariableResolver> = {
+    // 命令输入，未指定时为当前块正文
+    input: async (arg, context) => undefined !== context.input ? context.input : await resolvers.block(arg, context),
+
+    // 当前块正文（去掉属性和斜杠命令）
+    block: async (_arg, context) => {
+        const block = await getCurrentBlock(context);
+        return stripProperties(block?.content || '').replace(/^\/[\w-]+\s*/, '');
+    },
+
+    // 当前块的子块
+    children: async (_arg, context) => {
+        const block = await getCurrentBlock(context);
+        return blocksToMarkdown(block?.children || []);
+    },
+
+    // 当前页面内容，{{page:页面名}} 指定其他页面
+    page: async (arg, context) => {
+        const page = arg ? await logseq.Editor.getPage(arg.trim()) : await getCurrentPage(context);
+        if (!page) {
+            return '';
+        }
+        const blocks = await logseq.Editor.getPageBlocksTree(page.name);
+        return `# ${page.originalName || page.name}\n\n${blocksToMarkdown(blocks)}`;
+    },
+
+    // 当前页面名称
+    'page-name': async (_arg, context) => {
+        const page = await getCurrentPage(context);
+        return page?.originalName || page?.name || '';
+    },
+
+    // 当前页面属性，{{page-properties:key}} 只取单个属性
+    'page-properties': async (arg, context) => {
+        const page = await getCurrentPage(context);
+        const properties: Record<string, any> = page?.properties || {};
+        const format = (value: any) => Array.isArray(value) ? value.join(', ') : String(value);
+        if (arg) {
+            const value = properties[arg.trim()];
+            return undefined === value ? '' : format(value);
+        }
+        return Object.entries(properties)
+            .map(([key, value]) => `${key}:: ${format(value)}`)
+            .join('\n');
+    },
+
+    // 选中的块（没有选中时为空）
+    selection: async () => {
+        const blocks = await logseq.Editor.getSelectedBlocks();
+        return (blocks || [])
+            .map((block) => stripProperties(block.content))
+            .filter(Boolean)
+            .join('\n\n');
+    },
+
+    // 日期，{{date:-1d}} 支持相对日期
+    date: async (arg) => {
+        const date = parseRelativeDate(arg);
+        return date ? formatDate(date) : '';
+    },
+
+    // 指定日期到今天的日志内容，如 {{journal:-7d}}
+    journal: async (arg) => {
+        const start = parseRelativeDate(arg || 'today');
+        if (!start) {
+            return '';
+        }
+        const today = new Date();
+        const [from, to] = [toJournalDay(start), toJournalDay(today)].sort((a, b) => a - b);
+        const results: any[] = await logseq.DB.datascriptQuery(`[
+            :find (pull ?p [:block/name :block/original-name :block/journal-day])
+            :where
+            [?p :block/journal? true]
+            [?p :block/journal-day ?d]
+            [(>= ?d ${from})]
+            [(<= ?d ${to})]
+        ]`);
+        const pages = (results || [])
+            .map((result) => result[0])
+            .filter(Boolean)
+            .sort((a, b) => a['journal-day'] - b['journal-day']);
+
+        const sections: string[] = [];
+        for (const page of pages) {
+            const blocks = await logseq.Editor.getPageBlocksTree(page.name);
+            const content = blocksToMarkdown(blocks);
+            if (content) {
+                sections.push(`## ${page['original-name'] || page.name}\n\n${content}`);
+            }
+        }
+        return sections.join('\n\n');
+    },
+
+    // 查询结果：以 [ 开头时作为 datascript 查询，否则作为简单查询，如 {{query:(and (task TODO) [[项目]])}}
+    query: async (arg) => {
+        const query = (arg || '').trim();
+        if (!query) {
+            return '';
+        }
+        const results: any[] = query.startsWith('[')
+            ? ((await logseq.DB.datascriptQuery(query)) || []).map((result: any) => Array.isArray(result) ? result[0] : result)
+            : (await logseq.DB.q(query)) || [];
+        return results
+            .slice(0, MAX_QUERY_RESULTS)
+            .map((result) => {
+                if (result && typeof result === 'object') {
+                    return stripProperties(result.content || result['original-name'] || result.originalName || result.name || '');
+                }
+                return String(result);
+            })
+            .filter(Boolean)
+            .map((content) => `- ${content.replace(/\n/g, '\n  ')}`)
+            .join('\n');
+    },
+};
+
+/**
+ * 判断文本中是否引用了指定变量
+ * @param template 模板
+ * @param names 变量名
+ */
+export function usesVariables(template: string, names: string[]): boolean {
+    return Array.from(template.matchAll(VARIABLE_PATTERN)).some((match) => names.includes(match[1]));
+}
+
+/**
+ * 渲染模板，未知变量（如 Logseq 自身的 {{embed ...}} 宏）保持原样
+ * @param template 模板
+ * @param context 渲染上下文
+ */
+export async function renderTemplate(template: string, context: TemplateContext = {}): Promise<string> {
+    if (!template || !template.includes('{{')) {
+        return template;
+    }
+    const matches = Array.from(template.matchAll(VARIABLE_PATTERN)).filter((match) => resolvers[match[1]]);
+    if (matches.length === 0) {
+        return template;
+    }
+
+    // 相同的变量只解析一次
+    const values = new Map<string, string>();
+    for (const [token, name, arg] of matches) {
+        if (values.has(token)) {
+            continue;
+        }
+        try {
+            values.set(token, await resolvers[name](arg || '', context));
+        } catch (error) {
+            console.warn(`⚠️ 模板变量 ${token} 解析失败:`, error);
+            values.set(token, '');
+        }
+    }
+    console.log('🧩 已解析模板变量:', Array.from(values.keys()));
+    return template.replace(VARIABLE_PATTERN, (token) => values.has(token) ? values.get(token) as string : token);
+}
+
+/**
+ * 渲染用户、系统和助手提示词中的模板变量后构建消息列表
+ * @param user 用户提示词
+ * @param opts toMessages 的参数和渲染上下文
+ */
+export async function toRenderedMessages(user: string, opts: {
+    assistant?: string,
+    system?: string,
+    history?: OpenAIMessage[],
+    context?: TemplateContext
+} = {}): Promise<OpenAIMessage[]> {
+    const context = opts.context || {};
+    return toMessages(await renderTemplate(user, context), {
+        assistant: opts.assistant ? await renderTemplate(opts.assistant, context) : undefined,
+        system: opts.system ? await renderTemplate(opts.system, context) : undefined,
+        history: opts.history,
+    });
+}
@@ -0,0 +1,70 @@
+/**
+ * AI 提供商配置解析
+ * 把插件设置中的内置提供商和用户定义的命名 profile 合并，并按命令选择提供商
+ */
+
+import { createProvider, LLMProvider, ProviderProfile } from '@libs/providers';
+import { getSettings } from './settings';
+
+/**
+ * 获取所有可用的提供商 profile（内置 openai / ollama / dashscope + 用户自定义）
+ */
+export async function getProviderProfiles(): Promise<Record<string, ProviderProfile>> {
+    const settings = await getSettings();
+    const profiles: Record<string, ProviderProfile> = {
+        openai: {
+            name: 'openai',
+            type: 'openai',
+            baseUrl: settings.openaiAddress,
+            apiKey: settings.openaiKey,
+            model: settings.gptModel,
+        },
+        ollama: {
+            name: 'ollama',
+            type: 'ollama',
+            baseUrl: settings.ollamaAddress,
+            model: settings.ollamaModel,
+            options: settings.ollamaOptions,
+        },
+    };
+
+    if (settings.dashscopeApiKey) {
+        profiles.dashscope = {
+            name: 'dashscope',
+            type: 'dashscope',
+            apiKey: settings.dashscopeApiKey,
+            model: 'qwen-plus',
+            embeddingModel: 'text-embedding-v3',
+        };
+    }
+
+    for (const [name, profile] of Object.entries(settings.providerProfiles)) {
+        if (!profile || !profile.type || !profile.model) {
+            console.warn(`⚠️ 忽略无效的提供商配置 "${name}"，需要 type 和 model 字段`);
+            continue;
+        }
+        profiles[name] = { ...profile, name };
+    }
+
+    return profiles;
+}
+
+/**
+ * 解析本次调用使用的提供商：显式指定的 profile > 命令映射 > 默认 profile > aiProvider
+ * @param opts.command 命令名（如 gpt-summary），用于查找命令映射
+ * @param opts.profile 显式指定的 profile 名称
+ */
+export async function resolveProvider(opts?: { command?: string, profile?: string }): Promise<LLMProvider> {
+    const settings = await getSettings();
+    const profiles = await getProviderProfiles();
+
+    const commandProfile = opts?.command ? settings.commandProviderProfiles[opts.command] : undefined;
+    const name = opts?.profile || commandProfile || settings.defaultProviderProfile || settings.aiProvider;
+    const profile = profiles[name];
+    if (!profile) {
+        throw new Error(`未找到 AI 提供商配置 "${name}"，可用配置: ${Object.keys(profiles).join(', ')}`);
+    }
+
+    console.log(`🤖 使用 AI 提供商: ${name} (${profile.type}/${profile.model})`);
+    return createProvider(profile);
+}
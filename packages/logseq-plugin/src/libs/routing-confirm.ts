@@ -0,0 +1,241 @@
+/**
+ * 智能路由确认模块
+ * 开启确认模式后，执行路由决策前弹出确认框，用户可以执行、改为普通对话或改用其他命令
+ * 用户的纠正会发送给桥接服务，作为意图分析的少样本示例
+ */
+
+import '@logseq/libs';
+import { getSettings } from './settings';
+import { fetchWithTimeout } from './network';
+import { INTENT_CAPABILITIES, IntentCapability, BlockAttachments, CAPABILITY_COMMANDS, hasRequiredAttachments } from './capabilities';
+
+/**
+ * 展示给用户的路由决策
+ */
+export interface RoutingPreview {
+    userInput: string;
+    strategy: 'mcp_tool' | 'specialized_command' | 'enhanced_chat' | 'traditional_chat';
+    command?: string;
+    capability?: IntentCapability;
+    tool?: string;
+    arguments?: Record<string, any>;
+    confidence?: number;
+    reasoning: string;
+}
+
+/**
+ * 用户的选择：run 按决策执行，chat 作为普通对话执行，override 改用所选能力，cancel 不执行
+ */
+export interface RoutingConfirmation {
+    action: 'run' | 'chat' | 'override' | 'cancel';
+    capability?: IntentCapability;
+}
+
+interface PendingConfirmation {
+    resolve: (confirmation: RoutingConfirmation) => void;
+    timer: ReturnType<typeof setTimeout>;
+    observer: MutationObserver;
+}
+
+const CONFIRM_UI_KEY = 'smart-routing-confirm';
+const CONFIRM_SELECT_ID = 'ai-routing-confirm-capability';
+
+// 超时未处理的确认视为取消
+const CONFIRM_TIMEOUT = 5 * 60 * 1000;
+
+const STRATEGY_LABELS: Record<RoutingPreview['strategy'], string> = {
+    mcp_tool: 'MCP 工具',
+    specialized_command: '专门命令',
+    enhanced_chat: '增强对话',
+    traditional_chat: '普通对话'
+};
+
+let pending: PendingConfirmation | null = null;
+let modelProvided = false;
+// 多个确认按顺序显示
+let confirmQueue: Promise<unknown> = Promise.resolve();
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function getConfirmUI(): HTMLElement | null {
+    return parent.document.getElementById(`${logseq.baseInfo.id}--${CONFIRM_UI_KEY}`);
+}
+
+function settle(confirmation: RoutingConfirmation): void {
+    const current = pending;
+    pending = null;
+    if (current) {
+        clearTimeout(current.timer);
+        current.observer.disconnect();
+    }
+    getConfirmUI()?.remove();
+    current?.resolve(confirmation);
+}
+
+/**
+ * 确认框被关闭按钮或 Esc 关闭时视为取消，避免后续确认一直排队
+ */
+function watchConfirmUI(resolve: PendingConfirmation['resolve']): MutationObserver {
+    let shown = false;
+    const observer = new MutationObserver(() => {
+        if (getConfirmUI()) {
+            shown = true;
+        } else if (shown && pending?.resolve === resolve) {
+            settle({ action: 'cancel' });
+        }
+    });
+    observer.observe(parent.document.body, { childList: true, subtree: true });
+    return observer;
+}
+
+/**
+ * 注册确认框按钮的事件处理
+ */
+function ensureModel(): void {
+    if (modelProvided) {
+        return;
+    }
+    modelProvided = true;
+    logseq.provideModel({
+        runRoutingDecision() {
+            settle({ action: 'run' });
+        },
+        runRoutingAsChat() {
+            settle({ action: 'chat' });
+        },
+        overrideRoutingDecision() {
+            const select = parent.document.getElementById(CONFIRM_SELECT_ID) as HTMLSelectElement | null;
+            const capability = select?.value as IntentCapability | undefined;
+            if (!capability || !INTENT_CAPABILITIES.includes(capability)) {
+                logseq.UI.showMsg('请先选择要使用的命令', 'warning');
+                return;
+            }
+            settle({ action: 'override', capability });
+        },
+        cancelRoutingDecision() {
+            settle({ action: 'cancel' });
+        },
+    });
+}
+
+/**
+ * 显示路由决策，等待用户确认
+ * @param preview 路由决策
+ * @param attachments 当前块的附件，缺少附件的命令不在可选列表中
+ */
+export function requestRoutingConfirmation(preview: RoutingPreview, attachments: BlockAttachments): Promise<RoutingConfirmation> {
+    const task = confirmQueue.then(() => new Promise<RoutingConfirmation>((resolve) => {
+        ensureModel();
+        const timer = setTimeout(() => {
+            if (pending?.resolve === resolve) {
+                console.warn('⚠️ 路由确认超时，已取消');
+                settle({ action: 'cancel' });
+            }
+        }, CONFIRM_TIMEOUT);
+        pending = { resolve, timer, observer: watchConfirmUI(resolve) };
+
+        const options = INTENT_CAPABILITIES
+            .filter(capability => hasRequiredAttachments(capability, attachments))
+            .map(capability => {
+                const selected = capability === preview.capability ? ' selected' : '';
+                return `<option value="${capability}"${selected}>${CAPABILITY_COMMANDS[capability].command}（${capability}）</option>`;
+            })
+            .join('');
+        const args = preview.arguments && Object.keys(preview.arguments).length > 0
+            ? `<pre style="max-height: 160px; overflow: auto; font-size: 12px; margin: 0;">${escapeHtml(JSON.stringify(preview.arguments, null, 2))}</pre>`
+            : '<span style="opacity: 0.6;">（无）</span>';
+
+        logseq.provideUI({
+            key: CONFIRM_UI_KEY,
+            template: `
+            <div style="padding: 12px; display: flex; flex-direction: column; gap: 8px;">
+                <div style="font-weight: 600;">🤖 确认智能路由</div>
+                <div>方式: ${STRATEGY_LABELS[preview.strategy]}${preview.command ? ` <code>${escapeHtml(preview.command)}</code>` : ''}</div>
+                ${preview.tool ? `<div>工具: <code>${escapeHtml(preview.tool)}</code></div>` : ''}
+                ${preview.confidence !== undefined ? `<div>置信度: ${(preview.confidence * 100).toFixed(1)}%</div>` : ''}
+                <div style="opacity: 0.8;">${escapeHtml(preview.reasoning)}</div>
+                <div>参数:</div>
+                ${args}
+                <div style="display: flex; align-items: center; gap: 8px;">
+                    <select id="${CONFIRM_SELECT_ID}" style="flex: 1;">${options}</select>
+                    <button class="ui__button" data-on-click="overrideRoutingDecision">改用所选命令</button>
+                </div>
+                <div style="display: flex; justify-content: flex-end; gap: 8px;">
+                    <button class="ui__button" data-on-click="cancelRoutingDecision">取消</button>
+                    <button class="ui__button" data-on-click="runRoutingAsChat">作为普通对话执行</button>
+                    <button class="ui__button" data-on-click="runRoutingDecision">执行</button>
+                </div>
+            </div>`,
+            style: {
+                left: 'calc(50% - 260px)',
+                top: '20%',
+                width: '520px',
+                backgroundColor: 'var(--ls-secondary-background-color)',
+                color: 'var(--ls-primary-text-color)',
+            },
+            attrs: {
+                title: 'Smart Routing',
+            },
+        });
+    }));
+    confirmQueue = task.catch(() => undefined);
+    return task;
+}
+
+/**
+ * 用户的选择是否与原路由决策不同
+ */
+function isCorrection(preview: RoutingPreview, capability: IntentCapability | null): boolean {
+    if (capability === null) {
+        return preview.strategy !== 'traditional_chat' && preview.strategy !== 'enhanced_chat';
+    }
+    return capability !== preview.capability;
+}
+
+/**
+ * 把用户的纠正发送给桥接服务，选择与原决策相同时不记录，失败时只记录日志
+ * @param preview 原路由决策
+ * @param attachments 当前块的附件
+ * @param capability 改用的能力，null 表示改为普通对话
+ */
+export async function reportRoutingCorrection(
+    preview: RoutingPreview,
+    attachments: BlockAttachments,
+    capability: IntentCapability | null
+): Promise<void> {
+    if (!isCorrection(preview, capability)) {
+        return;
+    }
+    try {
+        const { bridgeServiceUrl } = await getSettings();
+        const response = await fetchWithTimeout(`${bridgeServiceUrl}/api/intent/corrections`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                userInput: preview.userInput,
+                attachments: { images: attachments.images.length, files: attachments.files.length },
+                predicted: {
+                    strategy: preview.strategy,
+                    capability: preview.capability,
+                    command: preview.command,
+                    tool: preview.tool,
+                    confidence: preview.confidence
+                },
+                corrected: { capability }
+            }),
+            timeout: 10000
+        });
+        if (!response.ok) {
+            throw new Error(`Bridge service error (${response.status})`);
+        }
+        console.log('📝 已记录路由纠正:', { from: preview.capability || preview.strategy, to: capability || 'chat' });
+    } catch (error) {
+        console.error('记录路由纠正失败:', error);
+    }
+}
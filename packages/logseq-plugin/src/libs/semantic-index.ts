@@ -0,0 +1,333 @@
+/**
+ * 语义检索索引模块
+ * 对图谱中的块生成向量并保存在插件存储中，块变化时增量更新，支持按相似度检索
+ */
+
+import '@logseq/libs';
+import type { LLMProvider } from '@libs/providers/types';
+import { resolveProvider } from './providers';
+import { getSettings } from './settings';
+import { isAIReplyBlock } from './conversation';
+
+export interface IndexedBlock {
+    uuid: string;
+    page: string;
+    content: string;
+    hash: string;
+    vector: number[];
+}
+
+export interface SearchResult {
+    uuid: string;
+    page: string;
+    content: string;
+    score: number;
+}
+
+interface StoredIndex {
+    version: number;
+    model: string;
+    updatedAt: number;
+    blocks: IndexedBlock[];
+}
+
+const INDEX_FILE = 'semantic-index.json';
+const INDEX_VERSION = 1;
+const BATCH_SIZE = 32;
+const MIN_CONTENT_LENGTH = 8;
+const UPDATE_DEBOUNCE_MS = 5000;
+
+/**
+ * 简单的字符串哈希，用于判断块内容是否变化
+ */
+function hashContent(content: string): string {
+    let hash = 0;
+    for (let i = 0; i < content.length; i++) {
+        hash = ((hash << 5) - hash + content.charCodeAt(i)) | 0;
+    }
+    return hash.toString(36);
+}
+
+/**
+ * 去掉属性行，得到用于生成向量的块文本
+ */
+function normalizeContent(content: string): string {
+    return (content || '')
+        .split('\n')
+        .filter((line) => !/^\s*[\w-]+::\s?.*$/.test(line))
+        .join('\n')
+        .trim();
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    const length = Math.min(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * 语义索引
+ */
+export class SemanticIndex {
+    private static instance: SemanticIndex;
+    private blocks = new Map<string, IndexedBlock>();
+    private model = '';
+    private loaded = false;
+    private pending = new Set<string>();
+    private updateTimer: ReturnType<typeof setTimeout> | null = null;
+    private unwatch: (() => void) | null = null;
+    private building = false;
+
+    static getInstance(): SemanticIndex {
+        if (!SemanticIndex.instance) {
+            SemanticIndex.instance = new SemanticIndex();
+        }
+        return SemanticIndex.instance;
+    }
+
+    /**
+     * 获取生成向量使用的提供商和模型标识
+     */
+    private async getEmbeddingProvider(): Promise<{ provider: LLMProvider, model: string, embeddingModel?: string }> {
+        const { embeddingProfile, embeddingModel } = await getSettings();
+        const provider = await resolveProvider({ command: 'embeddings', profile: embeddingProfile || undefined });
+        if (!provider.capabilities.embeddings) {
+            throw new Error(`提供商 ${provider.profile.name} 不支持向量接口，请在设置中指定 Embedding Profile`);
+        }
+        const model = `${provider.profile.name}:${embeddingModel || provider.profile.embeddingModel || 'default'}`;
+        return { provider, model, embeddingModel: embeddingModel || undefined };
+    }
+
+    /**
+     * 从插件存储加载索引
+     */
+    async load(): Promise<void> {
+        if (this.loaded) {
+            return;
+        }
+        try {
+            const raw = await logseq.FileStorage.getItem(INDEX_FILE);
+            if (raw) {
+                const stored: StoredIndex = typeof raw === 'string' ? JSON.parse(raw) : raw;
+                if (stored.version === INDEX_VERSION) {
+                    this.model = stored.model;
+                    this.blocks = new Map(stored.blocks.map((block) => [block.uuid, block]));
+                }
+            }
+            console.log(`📚 已加载语义索引，共 ${this.blocks.size} 个块 (${this.model || '未建立'})`);
+        } catch (error) {
+            console.warn('⚠️ 加载语义索引失败，将重新建立:', error);
+            this.blocks.clear();
+        }
+        this.loaded = true;
+    }
+
+    private async save(): Promise<void> {
+        const stored: StoredIndex = {
+            version: INDEX_VERSION,
+            model: this.model,
+            updatedAt: Date.now(),
+            blocks: Array.from(this.blocks.values()),
+        };
+        await logseq.FileStorage.setItem(INDEX_FILE, JSON.stringify(stored));
+    }
+
+    get size(): number {
+        return this.blocks.size;
+    }
+
+    /**
+     * 索引为空或向量模型已变化时需要重建
+     */
+    async needsRebuild(): Promise<boolean> {
+        await this.load();
+        const { model } = await this.getEmbeddingProvider();
+        return this.blocks.size === 0 || this.model !== model;
+    }
+
+    /**
+     * 为一组块生成向量并写入索引，内容未变化的块会被跳过
+     */
+    private async embedBlocks(
+        items: Array<{ uuid: string, page: string, content: string }>,
+        onProgress?: (done: number, total: number) => void | Promise<void>
+    ): Promise<number> {
+        const { provider, model, embeddingModel } = await this.getEmbeddingProvider();
+        // 向量模型变化时旧索引不可用
+        if (this.model && this.model !== model) {
+            console.log(`🔄 向量模型已从 ${this.model} 变为 ${model}，清空旧索引`);
+            this.blocks.clear();
+        }
+        this.model = model;
+
+        const changed = items.filter((item) => this.blocks.get(item.uuid)?.hash !== hashContent(item.content));
+        for (let i = 0; i < changed.length; i += BATCH_SIZE) {
+            const batch = changed.slice(i, i + BATCH_SIZE);
+            const vectors = await provider.embeddings(batch.map((item) => item.content), { model: embeddingModel });
+            batch.forEach((item, index) => {
+                if (vectors[index]) {
+                    this.blocks.set(item.uuid, { ...item, hash: hashContent(item.content), vector: vectors[index] });
+                }
+            });
+            await onProgress?.(Math.min(i + BATCH_SIZE, changed.length), changed.length);
+        }
+        return changed.length;
+    }
+
+    /**
+     * 对整个图谱建立（或补全）索引，带 ai-reply 标记的 AI 回复块不加入索引
+     * @param onProgress 进度回调
+     * @returns 本次新生成向量的块数量
+     */
+    async rebuild(onProgress?: (done: number, total: number) => void | Promise<void>): Promise<number> {
+        if (this.building) {
+            throw new Error('语义索引正在建立中，请稍后再试');
+        }
+        this.building = true;
+        try {
+            await this.load();
+            const results: any[] = await logseq.DB.datascriptQuery(`[
+                :find (pull ?b [:block/uuid :block/content :block/properties {:block/page [:block/original-name :block/name]}])
+                :where
+                [?b :block/content ?content]
+                [?b :block/page]
+            ]`);
+
+            const items: Array<{ uuid: string, page: string, content: string }> = [];
+            for (const result of results) {
+                const block = result[0];
+                const content = normalizeContent(block?.content);
+                if (!block?.uuid || content.length < MIN_CONTENT_LENGTH || isAIReplyBlock(block)) {
+                    continue;
+                }
+                items.push({
+                    uuid: block.uuid,
+                    page: block.page?.['original-name'] || block.page?.name || '',
+                    content,
+                });
+            }
+
+            // 移除已经不存在的块
+            const alive = new Set(items.map((item) => item.uuid));
+            for (const uuid of Array.from(this.blocks.keys())) {
+                if (!alive.has(uuid)) {
+                    this.blocks.delete(uuid);
+                }
+            }
+
+            const count = await this.embedBlocks(items, onProgress);
+            await this.save();
+            console.log(`✅ 语义索引建立完成，新增/更新 ${count} 个块，共 ${this.blocks.size} 个块`);
+            return count;
+        } finally {
+            this.building = false;
+        }
+    }
+
+    /**
+     * 增量更新指定的块（块被删除时从索引中移除），带 ai-reply 标记的 AI 回复块不加入索引
+     */
+    async updateBlocks(uuids: string[]): Promise<void> {
+        await this.load();
+        if (this.blocks.size === 0) {
+            // 尚未建立索引时不做增量更新
+            return;
+        }
+        const { model } = await this.getEmbeddingProvider();
+        if (this.model !== model) {
+            // 向量模型已变化，增量更新会清空旧索引，需要用户重建
+            console.log(`⏸️ 向量模型已从 ${this.model} 变为 ${model}，跳过增量更新，请重建语义索引`);
+            return;
+        }
+        const items: Array<{ uuid: string, page: string, content: string }> = [];
+        for (const uuid of uuids) {
+            const block = await logseq.Editor.getBlock(uuid);
+            const content = normalizeContent(block?.content || '');
+            if (!block || content.length < MIN_CONTENT_LENGTH || isAIReplyBlock(block)) {
+                this.blocks.delete(uuid);
+                continue;
+            }
+            const page = block.page?.id ? await logseq.Editor.getPage(block.page.id) : null;
+            items.push({ uuid, page: page?.originalName || page?.name || '', content });
+        }
+        const count = await this.embedBlocks(items);
+        await this.save();
+        if (count > 0) {
+            console.log(`🔄 语义索引增量更新 ${count} 个块`);
+        }
+    }
+
+    /**
+     * 监听数据库变化，防抖后增量更新索引
+     */
+    startWatching(): void {
+        if (this.unwatch) {
+            return;
+        }
+        this.unwatch = logseq.DB.onChanged(({ blocks }) => {
+            for (const block of blocks || []) {
+                if (block?.uuid) {
+                    this.pending.add(block.uuid);
+                }
+            }
+            if (this.pending.size === 0) {
+                return;
+            }
+            if (this.updateTimer) {
+                clearTimeout(this.updateTimer);
+            }
+            this.updateTimer = setTimeout(() => {
+                const uuids = Array.from(this.pending);
+                this.pending.clear();
+                this.updateBlocks(uuids).catch((error) => {
+                    console.warn('⚠️ 语义索引增量更新失败:', error);
+                });
+            }, UPDATE_DEBOUNCE_MS);
+        });
+        console.log('👀 语义索引已开始监听块变化');
+    }
+
+    stopWatching(): void {
+        this.unwatch?.();
+        this.unwatch = null;
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+            this.updateTimer = null;
+        }
+    }
+
+    /**
+     * 按相似度检索最相关的块
+     * @param query 查询文本
+     * @param topK 返回数量
+     * @param excludeUuids 需要排除的块（如提问所在的块）
+     */
+    async search(query: string, topK: number = 5, excludeUuids: string[] = []): Promise<SearchResult[]> {
+        await this.load();
+        const { provider, model, embeddingModel } = await this.getEmbeddingProvider();
+        if (this.model !== model) {
+            throw new Error('语义索引与当前向量模型不一致，请先重建索引');
+        }
+        const [queryVector] = await provider.embeddings([query], { model: embeddingModel });
+        if (!queryVector) {
+            return [];
+        }
+        return Array.from(this.blocks.values())
+            .filter((block) => !excludeUuids.includes(block.uuid))
+            .map((block) => ({
+                uuid: block.uuid,
+                page: block.page,
+                content: block.content,
+                score: cosineSimilarity(queryVector, block.vector),
+            }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+}
+
+export const semanticIndex = SemanticIndex.getInstance();
@@ -2,8 +2,56 @@ import { SettingSchemaDesc } from "@logseq/libs/dist/LSPlugin";
 import { lang } from './language';
 import prompts from '@/prompt/query.toml?raw';
 import toml from 'toml';
+import { Ollama, OllamaOptions } from '@libs/ollama';
+import type { ProviderProfile } from '@libs/providers/types';
+
+/**
+ * 从 Ollama 的 /api/tags 获取本地模型列表，失败时返回空数组
+ * @param address Ollama 服务器地址
+ */
+export const fetchOllamaModels = async(address?: string): Promise<string[]> => {
+    if (!address) {
+        return [];
+    }
+    try {
+        const models = await Promise.race([
+            new Ollama(address, '').listModels(),
+            new Promise<never>((_, reject) => setTimeout(() => reject(new Error('timeout')), 3000))
+        ]);
+        return models.map((model) => model.name);
+    } catch (error) {
+        console.warn('⚠️ 获取 Ollama 模型列表失败:', error);
+        return [];
+    }
+}
+
+/**
+ * 解析 object 类型的设置项，兼容以 JSON 字符串保存的值
+ */
+const parseObjectSetting = (value: any): Record<string, any> => {
+    if (!value) {
+        return {};
+    }
+    if (typeof value === 'string') {
+        try {
+            return JSON.parse(value);
+        } catch {
+            console.warn('⚠️ 设置项不是合法的 JSON:', value);
+            return {};
+        }
+    }
+    return value;
+}
 
 export const settingsSchema = async() => {
+    // 使用已保存的 Ollama 地址获取模型列表，用于填充模型下拉框
+    const ollamaAddress: string = logseq.settings?.["ollamaAddress"] || "http://localhost:11434";
+    const currentOllamaModel: string = logseq.settings?.["ollamaModel"] || "";
+    const ollamaModels = await fetchOllamaModels(ollamaAddress);
+    if (currentOllamaModel && ollamaModels.length > 0 && !ollamaModels.includes(currentOllamaModel)) {
+        ollamaModels.unshift(currentOllamaModel);
+    }
+
     return [
         {
             key: "aiProvider",
@@ -42,13 +90,128 @@ export const settingsSchema = async() => {
             title: "Ollama Server Address",
             description: (await lang()).message('ollamaAddress-description'),
         },
-        {
+        ollamaModels.length > 0 ? {
+            key: "ollamaModel",
+            type: "enum",
+            default: ollamaModels.includes(currentOllamaModel) ? currentOllamaModel : ollamaModels[0],
+            title: "Ollama Model",
+            enumChoices: ollamaModels,
+            description: (await lang()).message('ollamaModel-list-description'),
+        } : {
             key: "ollamaModel",
             type: "string",
             default: "llama2",
             title: "Ollama Model",
             description: (await lang()).message('ollamaModel-description'),
         },
+        {
+            key: "ollamaNumCtx",
+            type: "number",
+            default: 0,
+            title: "Ollama Context Length (num_ctx)",
+            description: (await lang()).message('ollamaNumCtx-description'),
+        },
+        {
+            key: "ollamaTemperature",
+            type: "string",
+            default: "",
+            title: "Ollama Temperature",
+            description: (await lang()).message('ollamaTemperature-description'),
+        },
+        {
+            key: "ollamaKeepAlive",
+            type: "string",
+            default: "5m",
+            title: "Ollama Keep Alive",
+            description: (await lang()).message('ollamaKeepAlive-description'),
+        },
+        {
+            type: "heading",
+            title: "AI Provider Profiles",
+        },
+        {
+            key: "providerProfiles",
+            type: "object",
+            default: {},
+            title: "Provider Profiles",
+            description: (await lang()).message('providerProfiles-description'),
+        },
+        {
+            key: "defaultProviderProfile",
+            type: "string",
+            default: "",
+            title: "Default Provider Profile",
+            description: (await lang()).message('defaultProviderProfile-description'),
+        },
+        {
+            key: "commandProviderProfiles",
+            type: "object",
+            default: {},
+            title: "Command Provider Profiles",
+            description: (await lang()).message('commandProviderProfiles-description'),
+        },
+        {
+            type: "heading",
+            title: "Long Content",
+        },
+        {
+            key: "contextBudget",
+            type: "number",
+            default: 0,
+            title: "Context Budget (tokens)",
+            description: (await lang()).message('contextBudget-description'),
+        },
+        {
+            key: "longContentStrategy",
+            type: "enum",
+            default: "map-reduce",
+            title: "Long Content Strategy",
+            enumChoices: ["map-reduce", "truncate"],
+            description: (await lang()).message('longContentStrategy-description'),
+        },
+        {
+            type: "heading",
+            title: "Semantic Search",
+        },
+        {
+            key: "semanticIndexEnabled",
+            type: "boolean",
+            default: false,
+            title: "Auto-update Semantic Index",
+            description: (await lang()).message('semanticIndexEnabled-description'),
+        },
+        {
+            key: "embeddingProfile",
+            type: "string",
+            default: "",
+            title: "Embedding Profile",
+            description: (await lang()).message('embeddingProfile-description'),
+        },
+        {
+            key: "embeddingModel",
+            type: "string",
+            default: "",
+            title: "Embedding Model",
+            description: (await lang()).message('embeddingModel-description'),
+        },
+        {
+            key: "semanticTopK",
+            type: "number",
+            default: 6,
+            title: "Semantic Search Top K",
+            description: (await lang()).message('semanticTopK-description'),
+        },
+        {
+            type: "heading",
+            title: "Prompt Library",
+        },
+        {
+            key: "promptPageTag",
+            type: "string",
+            default: "ai-prompt",
+            title: "Prompt Page Tag",
+            description: (await lang()).message('promptPageTag-description'),
+        },
         {
             type: "heading",
             title: "Image Generation",
@@ -242,6 +405,41 @@ export const settingsSchema = async() => {
             title: "Bridge Service URL",
             description: "桥接服务的地址，用于异步任务处理",
         },
+        {
+            key: "agentMaxSteps",
+            type: "number",
+            default: 5,
+            title: "Agent Max Tool Steps",
+            description: (await lang()).message('agentMaxSteps-description'),
+        },
+        {
+            key: "confirmRouting",
+            type: "boolean",
+            default: false,
+            title: "Confirm Smart Routing",
+            description: (await lang()).message('confirmRouting-description'),
+        },
+        {
+            key: "graphServerEnabled",
+            type: "boolean",
+            default: false,
+            title: "Graph MCP Server",
+            description: (await lang()).message('graphServerEnabled-description'),
+        },
+        {
+            key: "graphServerAllowWrites",
+            type: "boolean",
+            default: false,
+            title: "Graph MCP Server Allow Writes",
+            description: (await lang()).message('graphServerAllowWrites-description'),
+        },
+        {
+            key: "bridgeAuthToken",
+            type: "string",
+            default: "",
+            title: "Bridge Auth Token",
+            description: (await lang()).message('bridgeAuthToken-description'),
+        },
         {
             type: "heading",
             title: "Beta Features",
@@ -260,13 +458,27 @@ export const settingsSchema = async() => {
             title: "Text Query",
             description: (await lang()).message('isTextQuery-description'),
         },
+        {
+            key: "isConversationMode",
+            type: "boolean",
+            default: false,
+            title: "Conversation Mode",
+            description: (await lang()).message('isConversationMode-description'),
+        },
+        {
+            key: "conversationMaxMessages",
+            type: "number",
+            default: 20,
+            title: "Conversation Max Messages",
+            description: (await lang()).message('conversationMaxMessages-description'),
+        },
         {
             key: "defaultSystemPrompt",
             type: "string",
             default: "You are a helpful AI assistant. Please provide accurate, helpful, and concise responses.",
             title: "Default System Prompt",
             inputAs: "textarea",
-            description: "Default system prompt for /gpt command. You can customize this to change the AI's behavior and personality.",
+            description: "Default system prompt for /gpt command. You can customize this to change the AI's behavior and personality. Supports template variables such as {{page-name}}, {{page-properties}} and {{date}}.",
         }
         // {
         //     key: "generateAdvancedQuery",
@@ -287,6 +499,22 @@ export const getSettings = async() => {
     const gptModel: string = logseq.settings!["GPTModel"];
     const ollamaAddress: string = logseq.settings!["ollamaAddress"];
     const ollamaModel: string = logseq.settings!["ollamaModel"];
+    const ollamaTemperature: number = parseFloat(logseq.settings!["ollamaTemperature"]);
+    const ollamaOptions: OllamaOptions = {
+        num_ctx: Number(logseq.settings!["ollamaNumCtx"]) || undefined,
+        temperature: Number.isNaN(ollamaTemperature) ? undefined : ollamaTemperature,
+        keep_alive: logseq.settings!["ollamaKeepAlive"] || undefined,
+    };
+    const providerProfiles: Record<string, ProviderProfile> = parseObjectSetting(logseq.settings!["providerProfiles"]);
+    const defaultProviderProfile: string = (logseq.settings!["defaultProviderProfile"] || "").trim();
+    const commandProviderProfiles: Record<string, string> = parseObjectSetting(logseq.settings!["commandProviderProfiles"]);
+    const contextBudget: number = Number(logseq.settings!["contextBudget"]) || 0;
+    const longContentStrategy: 'map-reduce' | 'truncate' = logseq.settings!["longContentStrategy"] === "truncate" ? "truncate" : "map-reduce";
+    const semanticIndexEnabled: boolean = logseq.settings!["semanticIndexEnabled"] || false;
+    const embeddingProfile: string = (logseq.settings!["embeddingProfile"] || "").trim();
+    const embeddingModel: string = (logseq.settings!["embeddingModel"] || "").trim();
+    const semanticTopK: number = Number(logseq.settings!["semanticTopK"]) || 6;
+    const promptPageTag: string = (logseq.settings!["promptPageTag"] || "ai-prompt").trim().replace(/^#/, '');
     const imageApiKey: string = logseq.settings!["imageApiKey"];
     const imageApiAddress: string = logseq.settings!["imageApiAddress"];
     const imageModel: string = logseq.settings!["imageModel"];
@@ -310,19 +538,27 @@ export const getSettings = async() => {
     const qwenVideoResolution: string = logseq.settings!["qwenVideoResolution"];
     const qwenVideoPromptExtend: boolean = logseq.settings!["qwenVideoPromptExtend"];
     const bridgeServiceUrl: string = logseq.settings!["bridgeServiceUrl"] || "http://localhost:3000";
+    const agentMaxSteps: number = Number(logseq.settings!["agentMaxSteps"]) || 5;
+    const confirmRouting: boolean = logseq.settings!["confirmRouting"] || false;
+    const graphServerEnabled: boolean = logseq.settings!["graphServerEnabled"] || false;
+    const graphServerAllowWrites: boolean = logseq.settings!["graphServerAllowWrites"] || false;
+    const bridgeAuthToken: string = logseq.settings!["bridgeAuthToken"] || "";
     let promptAdvancedQuery: string = logseq.settings!["generateAdvancedQuery"];
     const isTextQuery: boolean = logseq.settings!["isTextQuery"];
+    const isConversationMode: boolean = logseq.settings!["isConversationMode"] || false;
+    const conversationMaxMessages: number = Number(logseq.settings!["conversationMaxMessages"]) || 20;
     const defaultSystemPrompt: string = logseq.settings!["defaultSystemPrompt"] || "You are a helpful AI assistant. Please provide accurate, helpful, and concise responses.";
 
-    // 根据AI提供商验证必要的配置
-    if (aiProvider === "openai") {
+    // 根据AI提供商验证必要的配置（默认使用自定义 profile 时跳过内置提供商的校验）
+    const activeProvider: string = defaultProviderProfile || aiProvider;
+    if (activeProvider === "openai") {
         if(undefined === openaiKey || '' === openaiKey) {
             throw new Error((await lang()).message('apiKey-error'));
         }
         if(undefined === openaiAddress || '' === openaiAddress) {
             throw new Error((await lang()).message('address-error'));
         }
-    } else if (aiProvider === "ollama") {
+    } else if (activeProvider === "ollama") {
         if(undefined === ollamaAddress || '' === ollamaAddress) {
             throw new Error((await lang()).message('ollamaAddress-error'));
         }
@@ -342,6 +578,17 @@ export const getSettings = async() => {
         gptModel,
         ollamaAddress,
         ollamaModel,
+        ollamaOptions,
+        providerProfiles,
+        defaultProviderProfile,
+        commandProviderProfiles,
+        contextBudget,
+        longContentStrategy,
+        semanticIndexEnabled,
+        embeddingProfile,
+        embeddingModel,
+        semanticTopK,
+        promptPageTag,
         imageApiKey,
         imageApiAddress,
         imageModel,
@@ -365,8 +612,15 @@ export const getSettings = async() => {
         qwenVideoResolution,
         qwenVideoPromptExtend,
         bridgeServiceUrl,
+        agentMaxSteps,
+        confirmRouting,
+        graphServerEnabled,
+        graphServerAllowWrites,
+        bridgeAuthToken,
         promptAdvancedQuery,
         isTextQuery,
+        isConversationMode,
+        conversationMaxMessages,
         defaultSystemPrompt,
         isStreamingOutput: logseq.settings!["isStreamingOutput"] as boolean
     };
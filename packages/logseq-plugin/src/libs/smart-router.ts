@@ -1,6 +1,23 @@
 import * as api from '@/libs';
 import { getSettings } from './settings';
-import { analyzeUserIntent, callMCPTool } from '@/libs';
+import { analyzeUserIntent } from '@/libs';
+import { runAgentLoop } from './agent';
+import {
+    IntentCapability,
+    BlockAttachments,
+    CAPABILITY_COMMANDS,
+    isIntentCapability,
+    hasRequiredAttachments,
+    inferCapability
+} from './capabilities';
+import { RoutingPreview, requestRoutingConfirmation, reportRoutingCorrection } from './routing-confirm';
+
+type RoutingDecision = {
+    strategy: 'mcp_tool' | 'specialized_command' | 'enhanced_chat' | 'traditional_chat';
+    command?: string;
+    capability?: IntentCapability;
+    reasoning: string;
+};
 
 /**
  * 智能任务路由器
@@ -20,7 +37,7 @@ export class SmartRouter {
      * 智能路由处理用户输入
      * @param blockId 当前块ID
      * @param userInput 用户输入内容
-     * @param context 上下文信息
+     * @param context 上下文信息，command 为触发路由的命令名（如 aihey），用于选择命令映射的提供商
      */
     async routeUserInput(
         blockId: string, 
@@ -29,6 +46,7 @@ export class SmartRouter {
             isStreaming?: boolean;
             systemContent?: string;
             assistantContent?: string;
+            command?: string;
         }
     ): Promise<void> {
         try {
@@ -42,31 +60,27 @@ export class SmartRouter {
             
             console.log('🧠 开始智能任务路由分析...', { userInput: userInput.substring(0, 100) + '...' });
             
-            // 检测是否询问工具列表
-            const toolListKeywords = ['支持哪些', '有哪些工具', '工具列表', 'mcp服务', 'mcp工具', '可用工具', '功能列表'];
-            const lowerInput = userInput.toLowerCase();
-            if (toolListKeywords.some(keyword => lowerInput.includes(keyword))) {
-                console.log('🔍 检测到工具列表询问，直接获取实际MCP服务信息');
-                return this.handleToolListInquiry(blockId, userInput, context);
-            }
+            // 当前块引用的图片和文件，作为专门命令的参数
+            const attachments: BlockAttachments = api.detectFiles(userInput);
             
-            // 执行意图分析
-            const intentAnalysis = await analyzeUserIntent(userInput);
+            // 执行意图分析（桥接服务先按意图规则文件匹配，工具列表询问等命令由规则目标给出）
+            const intentAnalysis = await analyzeUserIntent(userInput, attachments);
             
             console.log('🎯 路由分析结果:', {
                 taskType: intentAnalysis.taskType,
                 confidence: intentAnalysis.confidence,
                 needsMCP: intentAnalysis.needsMCP,
+                capability: intentAnalysis.capability,
                 reasoning: intentAnalysis.reasoning
             });
             
-            // 根据任务类型和置信度选择处理方式
-            const routingDecision = this.makeRoutingDecision(intentAnalysis);
+            // 根据能力、任务类型和置信度选择处理方式
+            const routingDecision = this.makeRoutingDecision(intentAnalysis, attachments);
             
             console.log('🚀 路由决策:', routingDecision);
             
             // 执行路由决策
-            await this.executeRoutingDecision(blockId, userInput, intentAnalysis, routingDecision, context);
+            await this.executeRoutingDecision(blockId, userInput, intentAnalysis, routingDecision, attachments, context);
             
         } catch (error) {
             console.error('❌ 智能路由失败:', error);
@@ -79,29 +93,39 @@ export class SmartRouter {
     /**
      * 根据意图分析结果做出路由决策
      */
-    private makeRoutingDecision(intentAnalysis: any): {
-        strategy: 'mcp_tool' | 'specialized_command' | 'enhanced_chat' | 'traditional_chat';
-        command?: string;
-        reasoning: string;
-    } {
-        const { taskType, confidence, needsMCP, recommendedTool } = intentAnalysis;
+    private makeRoutingDecision(intentAnalysis: any, attachments: BlockAttachments): RoutingDecision {
+        const { taskType, confidence, needsMCP, recommendedTool, target } = intentAnalysis;
         
-        // 高置信度且需要MCP工具
-        if (needsMCP && recommendedTool && confidence > 0.8) {
+        // 意图规则指定了命令目标
+        if (target?.type === 'command' && confidence > 0.7) {
+            return {
+                strategy: 'specialized_command',
+                command: `/${target.command}`,
+                reasoning: `意图规则 ${intentAnalysis.ruleId} 命中(${(confidence * 100).toFixed(1)}%)，使用命令: /${target.command}`
+            };
+        }
+        
+        // 高置信度且需要MCP工具，由模型自行选择工具
+        if (needsMCP && confidence > 0.8) {
+            const toolInfo = recommendedTool ? `，推荐: ${recommendedTool.serviceId}/${recommendedTool.toolName}` : '';
             return {
                 strategy: 'mcp_tool',
-                reasoning: `高置信度(${(confidence * 100).toFixed(1)}%)检测到需要MCP工具: ${recommendedTool.serviceId}/${recommendedTool.toolName}`
+                reasoning: `高置信度(${(confidence * 100).toFixed(1)}%)检测到需要MCP工具${toolInfo}`
             };
         }
         
-        // 根据任务类型选择专门的命令
+        // 按意图分析给出的能力选择专门命令，没有时按任务类型和附件推断
         if (confidence > 0.7) {
-            const commandMapping = this.getCommandMapping(taskType);
-            if (commandMapping) {
+            const capability: IntentCapability | null = isIntentCapability(intentAnalysis.capability)
+                ? intentAnalysis.capability
+                : inferCapability(taskType, attachments);
+            if (capability && hasRequiredAttachments(capability, attachments)) {
+                const { command } = CAPABILITY_COMMANDS[capability];
                 return {
                     strategy: 'specialized_command',
-                    command: commandMapping.command,
-                    reasoning: `高置信度(${(confidence * 100).toFixed(1)}%)检测到${taskType}任务，使用专门命令: ${commandMapping.command}`
+                    command,
+                    capability,
+                    reasoning: `高置信度(${(confidence * 100).toFixed(1)}%)检测到${capability}任务，使用专门命令: ${command}`
                 };
             }
         }
@@ -121,22 +145,6 @@ export class SmartRouter {
         };
     }
     
-    /**
-     * 获取任务类型到命令的映射
-     */
-    private getCommandMapping(taskType: string): { command: string; handler: string } | null {
-        const mappings: Record<string, { command: string; handler: string }> = {
-            'image_generation': { command: '/gpt-image', handler: 'performImageGeneration' },
-            'image_edit': { command: '/gpt-imgedit', handler: 'performImageEdit' },
-            'text_to_speech': { command: '/gpt-tts', handler: 'performTextToSpeech' },
-            'ocr': { command: '/gpt-ocr', handler: 'performOCR' },
-            'summary': { command: '/gpt-summary', handler: 'generatePageSummary' },
-            'graph_search': { command: '/gpt-graph', handler: 'generateGraphBasedResponse' }
-        };
-        
-        return mappings[taskType] || null;
-    }
-    
     /**
      * 执行路由决策
      */
@@ -144,13 +152,54 @@ export class SmartRouter {
         blockId: string,
         userInput: string,
         intentAnalysis: any,
-        decision: any,
+        decision: RoutingDecision,
+        attachments: BlockAttachments,
         context?: any
     ): Promise<void> {
-        const { strategy, command, reasoning } = decision;
+        const { strategy, command, capability, reasoning } = decision;
+        const { confirmRouting } = await getSettings();
         
-        // 显示路由决策信息给用户
-        await logseq.UI.showMsg(`🤖 智能路由: ${reasoning}`, 'info');
+        // 确认模式：调用工具或专门命令前由用户确认，纠正记录到桥接服务
+        if (confirmRouting && (strategy === 'mcp_tool' || strategy === 'specialized_command')) {
+            const { recommendedTool } = intentAnalysis;
+            const preview: RoutingPreview = {
+                userInput,
+                strategy,
+                command,
+                capability,
+                tool: recommendedTool ? `${recommendedTool.serviceId}/${recommendedTool.toolName}` : undefined,
+                arguments: strategy === 'mcp_tool' ? recommendedTool?.arguments : intentAnalysis.target?.arguments,
+                confidence: intentAnalysis.confidence,
+                reasoning
+            };
+            const confirmation = await requestRoutingConfirmation(preview, attachments);
+            console.log('🤖 路由确认结果:', confirmation);
+            
+            switch (confirmation.action) {
+                case 'cancel':
+                    logseq.UI.showMsg('已取消智能路由', 'info');
+                    return;
+                    
+                case 'chat':
+                    reportRoutingCorrection(preview, attachments, null);
+                    await this.handleTraditionalChat(blockId, userInput, context);
+                    return;
+                    
+                case 'override': {
+                    const selected = confirmation.capability!;
+                    if (selected === capability) {
+                        break;
+                    }
+                    reportRoutingCorrection(preview, attachments, selected);
+                    // 规则提取的参数属于原来的决策，改用其他命令时从块内容重新提取
+                    await this.handleCapability(blockId, userInput, selected, { ...intentAnalysis, target: undefined }, attachments, context);
+                    return;
+                }
+            }
+        } else {
+            // 显示路由决策信息给用户
+            await logseq.UI.showMsg(`🤖 智能路由: ${reasoning}`, 'info');
+        }
         
         switch (strategy) {
             case 'mcp_tool':
@@ -158,7 +207,11 @@ export class SmartRouter {
                 break;
                 
             case 'specialized_command':
-                await this.handleSpecializedCommand(blockId, userInput, command!, intentAnalysis, context);
+                if (capability) {
+                    await this.handleCapability(blockId, userInput, capability, intentAnalysis, attachments, context);
+                } else {
+                    await this.handleSpecializedCommand(blockId, userInput, command!, intentAnalysis, context);
+                }
                 break;
                 
             case 'enhanced_chat':
@@ -173,7 +226,7 @@ export class SmartRouter {
     }
     
     /**
-     * 处理MCP工具调用
+     * 处理MCP工具调用：把工具交给模型的原生函数调用，由模型选择工具、填写参数并多轮调用
      */
     private async handleMCPTool(
         blockId: string,
@@ -182,22 +235,24 @@ export class SmartRouter {
         context?: any
     ): Promise<void> {
         const { recommendedTool } = intentAnalysis;
-        const { serviceId, toolName, arguments: toolArgs, reasoning } = recommendedTool;
         
         try {
-            console.log('🔧 执行MCP工具路由:', { serviceId, toolName, reasoning });
+            console.log('🔧 执行MCP工具路由（智能体循环）:', { recommendedTool });
             
-            // 调用MCP工具
-            const toolResult = await callMCPTool(serviceId, toolName, toolArgs);
+            // 意图分析推荐的工具只作为提示，参数由模型填写
+            const hint = recommendedTool
+                ? `[提示] 可能用到的工具: ${recommendedTool.serviceId}/${recommendedTool.toolName}`
+                : undefined;
+            const handled = await runAgentLoop(blockId, userInput, {
+                system: context?.systemContent,
+                assistant: context?.assistantContent,
+                hint,
+                command: context?.command
+            });
             
-            if (toolResult.success) {
-                // 工具执行成功，将结果与原始问题一起传递给AI进行后处理
-                const enhancedInput = `${userInput}\n\n[MCP工具执行结果]\n工具: ${serviceId}/${toolName}\n结果: ${JSON.stringify(toolResult.result, null, 2)}`;
-                await this.handleEnhancedChat(blockId, enhancedInput, intentAnalysis, context);
-            } else {
-                // 工具执行失败，降级到增强对话
-                const enhancedInput = `${userInput}\n\n[MCP工具执行失败]\n工具: ${serviceId}/${toolName}\n错误: ${toolResult.error}`;
-                await this.handleEnhancedChat(blockId, enhancedInput, intentAnalysis, context);
+            if (!handled) {
+                // 当前提供商不支持函数调用或没有可用工具，降级到增强对话
+                await this.handleEnhancedChat(blockId, userInput, intentAnalysis, context);
             }
         } catch (error) {
             console.error('❌ MCP工具路由执行失败:', error);
@@ -207,7 +262,7 @@ export class SmartRouter {
     }
     
     /**
-     * 处理专门命令
+     * 处理不属于能力的专门命令（由意图规则的 command 目标给出）
      */
     private async handleSpecializedCommand(
         blockId: string,
@@ -215,29 +270,95 @@ export class SmartRouter {
         command: string,
         intentAnalysis: any,
         context?: any
+    ): Promise<void> {
+        console.log('⚡ 执行专门命令路由:', { command, ruleId: intentAnalysis.ruleId });
+        
+        switch (command) {
+            case '/list-tools':
+                await this.handleToolListInquiry(blockId, userInput, context);
+                break;
+                
+            default:
+                // 未知命令，降级到增强对话
+                await this.handleEnhancedChat(blockId, userInput, intentAnalysis, context);
+                break;
+        }
+    }
+    
+    /**
+     * 按能力调用对应的API函数，参数优先使用意图规则提取的值，其次从块内容和附件中提取
+     */
+    private async handleCapability(
+        blockId: string,
+        userInput: string,
+        capability: IntentCapability,
+        intentAnalysis: any,
+        attachments: BlockAttachments,
+        context?: any
     ): Promise<void> {
         try {
-            console.log('⚡ 执行专门命令路由:', { command, taskType: intentAnalysis.taskType });
+            console.log('⚡ 执行专门命令路由:', { capability, command: CAPABILITY_COMMANDS[capability].command, attachments });
             
-            // 根据命令类型调用相应的API函数
-            switch (command) {
-                case '/gpt-image':
-                    const prompt = this.extractPromptFromInput(userInput, 'image');
-                    await api.performImageGeneration(blockId, prompt, []);
+            const args = intentAnalysis.target?.arguments || {};
+            const prompt = args.prompt || this.extractPromptFromInput(userInput);
+            const { images, files } = attachments;
+            
+            switch (capability) {
+                case 'image_generation':
+                    // 块中有图片时图生图
+                    await api.performImageGeneration(blockId, prompt, images);
+                    break;
+                    
+                case 'image_edit': {
+                    // 文件名含 mask 或遮罩的图片作为遮罩，与 /gpt-imgedit 一致
+                    const isMask = (image: string) => /mask|遮罩/i.test(image);
+                    const sourceImages = images.filter(image => !isMask(image));
+                    if (sourceImages.length === 0) {
+                        throw new Error('未找到源图片');
+                    }
+                    await api.performImageEdit(blockId, prompt, sourceImages, images.find(isMask) || null);
+                    break;
+                }
+                    
+                case 'ocr':
+                    await api.performOCR(blockId, images);
                     break;
                     
-                case '/gpt-tts':
-                    const text = this.extractPromptFromInput(userInput, 'tts');
-                    await api.performTextToSpeech(blockId, text);
+                case 'file_analysis':
+                    await api.performFileAnalysis(blockId, [...files, ...images]);
                     break;
                     
-                case '/gpt-summary':
+                case 'text_to_speech':
+                    await api.performTextToSpeech(blockId, this.extractSpeechText(args.text || userInput));
+                    break;
+                    
+                case 'qwen_tts':
+                    await api.performQwenTextToSpeech(blockId, this.extractSpeechText(args.text || userInput));
+                    break;
+                    
+                case 'text_to_video':
+                    await api.performQwenTextToVideo(blockId, prompt.substring(0, 800));
+                    break;
+                    
+                case 'image_to_video':
+                    await api.performQwenImageToVideo(blockId, prompt.substring(0, 800), images[0]);
+                    break;
+                    
+                case 'graph_search': {
+                    const currentPage = await logseq.Editor.getCurrentPage();
+                    if (!currentPage) {
+                        throw new Error('无法获取当前页面信息');
+                    }
+                    await api.generateGraphBasedResponse(currentPage.name as string, prompt, blockId);
+                    break;
+                }
+                    
+                case 'summary':
                     await api.generatePageSummary(blockId);
                     break;
                     
-                default:
-                    // 未知命令，降级到增强对话
-                    await this.handleEnhancedChat(blockId, userInput, intentAnalysis, context);
+                case 'advanced_query':
+                    await api.generateAdvancedQuery(prompt, blockId);
                     break;
             }
         } catch (error) {
@@ -266,12 +387,14 @@ export class SmartRouter {
         if (context?.isStreaming) {
             await api.openaiStream(blockId, enhancedInput, {
                 system_content: context.systemContent,
-                assistant_content: context.assistantContent
+                assistant_content: context.assistantContent,
+                command: context.command
             });
         } else {
             await api.openaiMessage(blockId, enhancedInput, {
                 system_content: context.systemContent,
-                assistant_content: context.assistantContent
+                assistant_content: context.assistantContent,
+                command: context.command
             });
         }
     }
@@ -289,12 +412,14 @@ export class SmartRouter {
         if (context?.isStreaming) {
             await api.openaiStream(blockId, userInput, {
                 system_content: context.systemContent,
-                assistant_content: context.assistantContent
+                assistant_content: context.assistantContent,
+                command: context.command
             });
         } else {
             await api.openaiMessage(blockId, userInput, {
                 system_content: context.systemContent,
-                assistant_content: context.assistantContent
+                assistant_content: context.assistantContent,
+                command: context.command
             });
         }
     }
@@ -310,13 +435,13 @@ export class SmartRouter {
         try {
             const { bridgeServiceUrl } = await getSettings();
             
-            // 获取服务列表
+            // 获取服务列表（返回 { services }）
             const servicesResponse = await fetch(`${bridgeServiceUrl}/api/services`);
-            const services = await servicesResponse.json();
+            const services: any[] = (await servicesResponse.json())?.services || [];
             
-            // 获取工具列表
+            // 获取工具列表（返回 { tools }）
             const toolsResponse = await fetch(`${bridgeServiceUrl}/api/tools`);
-            const tools = await toolsResponse.json();
+            const tools: any[] = (await toolsResponse.json())?.tools || [];
             
             // 构建回复内容
             let responseContent = '## 当前可用的 MCP 服务和工具\n\n';
@@ -328,7 +453,7 @@ export class SmartRouter {
                     responseContent += `#### ${service.name} (${service.id})\n`;
                     responseContent += `- **描述**: ${service.description || '无描述'}\n`;
                     responseContent += `- **状态**: ${service.status}\n`;
-                    responseContent += `- **工具数量**: ${service.toolCount}\n\n`;
+                    responseContent += `- **工具数量**: ${service.toolsCount}\n\n`;
                 }
                 
                 responseContent += '### 可用工具详情\n\n';
@@ -379,11 +504,12 @@ export class SmartRouter {
     }
     
     /**
-     * 从用户输入中提取提示词
+     * 从用户输入中提取提示词：移除附件引用、触发词和命令词
      */
-    private extractPromptFromInput(userInput: string, type: 'image' | 'tts'): string {
-        // 移除常见的触发词和命令词
+    private extractPromptFromInput(userInput: string): string {
         const cleanInput = userInput
+            .replace(/!?\[.*?\]\([^)]+\)/g, '')
+            .replace(/(?:^|\s)\.\.\/assets\/\S+/g, ' ')
             .replace(/生成图片|生成图像|画一张|画个|生图/gi, '')
             .replace(/语音合成|文字转语音|读出来|朗读/gi, '')
             .replace(/请|帮我|能否|可以/gi, '')
@@ -391,6 +517,23 @@ export class SmartRouter {
             
         return cleanInput || userInput;
     }
+    
+    /**
+     * 提取要转换为语音的文本：移除 Markdown 格式，与 /gpt-tts 一样限制在 4000 字符以内
+     */
+    private extractSpeechText(text: string): string {
+        const cleanText = text
+            .replace(/!\[.*?\]\(.*?\)/g, '')
+            .replace(/\[(.*?)\]\(.*?\)/g, '$1')
+            .replace(/#{1,6}\s*/g, '')
+            .replace(/\*\*(.*?)\*\*/g, '$1')
+            .replace(/\*(.*?)\*/g, '$1')
+            .replace(/`(.*?)`/g, '$1')
+            .replace(/\n+/g, ' ')
+            .trim() || text;
+            
+        return cleanText.length > 4000 ? cleanText.substring(0, 4000) + '...' : cleanText;
+    }
 }
 
 // 导出单例实例
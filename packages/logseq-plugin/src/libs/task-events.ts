@@ -0,0 +1,194 @@
+/**
+ * 任务事件模块
+ * 订阅桥接服务的任务事件流（/api/events），任务状态变化时立即触发对应的状态查询；
+ * 事件流不可用或断开时回退到定时轮询
+ */
+
+// 桥接服务推送的任务摘要
+export interface TaskEventSummary {
+    id: string;
+    status: string;
+    type?: string;
+    filename?: string;
+    filePath?: string;
+    error?: string;
+    cancelled?: boolean;
+    createdAt: number;
+    completedAt?: number;
+}
+
+interface TaskWaiter {
+    run: () => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+const EVENTS_PATH = '/api/events';
+
+// 推送模式下的兜底查询间隔，防止漏掉事件
+const PUSH_FALLBACK_INTERVAL = 60000;
+
+// 没有等待中的任务后关闭事件流的延迟
+const IDLE_CLOSE_DELAY = 60000;
+
+// 记录已结束任务的数量上限
+const MAX_FINISHED_TASKS = 200;
+
+export class TaskEventStream {
+    private static instance: TaskEventStream;
+    private source: EventSource | null = null;
+    private url = '';
+    private connected = false;
+    private waiters = new Map<string, TaskWaiter[]>();
+    private finished = new Set<string>();
+    private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    static getInstance(): TaskEventStream {
+        if (!TaskEventStream.instance) {
+            TaskEventStream.instance = new TaskEventStream();
+        }
+        return TaskEventStream.instance;
+    }
+
+    isConnected(): boolean {
+        return this.connected;
+    }
+
+    /**
+     * 安排下一次任务状态查询
+     * 事件流已连接时等到该任务的事件到达再查询（最长等待兜底间隔），否则按轮询间隔查询
+     * @param bridgeServiceUrl 桥接服务地址
+     * @param taskId 任务ID
+     * @param poll 查询函数
+     * @param intervalMs 回退轮询间隔
+     */
+    scheduleTaskPoll(bridgeServiceUrl: string, taskId: string, poll: () => void, intervalMs: number): void {
+        this.connect(bridgeServiceUrl);
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+
+        if (!this.connected) {
+            setTimeout(poll, intervalMs);
+            // 桥接服务不可用时 EventSource 会一直重连，轮询结束后关闭
+            this.scheduleIdleClose();
+            return;
+        }
+        if (this.finished.has(taskId)) {
+            // 等待前已收到结束事件
+            setTimeout(poll, 0);
+            return;
+        }
+
+        const waiter: TaskWaiter = {
+            run: poll,
+            timer: setTimeout(() => this.release(taskId, waiter), PUSH_FALLBACK_INTERVAL)
+        };
+        this.waiters.set(taskId, [...(this.waiters.get(taskId) || []), waiter]);
+    }
+
+    private connect(bridgeServiceUrl: string) {
+        const url = bridgeServiceUrl.replace(/\/$/, '') + EVENTS_PATH;
+        if (this.source && this.url === url) {
+            return;
+        }
+        this.close();
+        if (typeof EventSource === 'undefined') {
+            return;
+        }
+
+        this.url = url;
+        const source = new EventSource(url);
+        this.source = source;
+
+        source.onopen = () => {
+            this.connected = true;
+            console.log(`📡 任务事件流已连接: ${url}`);
+        };
+
+        source.onerror = () => {
+            if (this.connected) {
+                console.warn('⚠️ 任务事件流已断开，回退到轮询');
+            }
+            this.connected = false;
+            // 等待中的任务立即查询一次，之后按轮询间隔继续
+            this.releaseAll();
+            // 服务端拒绝连接时 EventSource 不再自动重连，下次安排查询时重新创建
+            if (source.readyState === EventSource.CLOSED && this.source === source) {
+                this.source = null;
+            }
+        };
+
+        source.addEventListener('task', (event) => {
+            try {
+                const { task } = JSON.parse((event as MessageEvent).data) as { task: TaskEventSummary };
+                if (task.status === 'completed' || task.status === 'failed') {
+                    this.markFinished(task.id);
+                }
+                this.release(task.id);
+            } catch (error) {
+                console.warn('⚠️ 任务事件解析失败:', error);
+            }
+        });
+    }
+
+    private markFinished(taskId: string) {
+        this.finished.add(taskId);
+        if (this.finished.size > MAX_FINISHED_TASKS) {
+            this.finished.delete(this.finished.values().next().value!);
+        }
+    }
+
+    // 触发任务的等待中查询，only 指定时只触发该等待项
+    private release(taskId: string, only?: TaskWaiter) {
+        const waiters = this.waiters.get(taskId);
+        if (!waiters) {
+            return;
+        }
+        const released = only ? waiters.filter(waiter => waiter === only) : waiters;
+        const remaining = only ? waiters.filter(waiter => waiter !== only) : [];
+        if (remaining.length > 0) {
+            this.waiters.set(taskId, remaining);
+        } else {
+            this.waiters.delete(taskId);
+        }
+        for (const waiter of released) {
+            clearTimeout(waiter.timer);
+            waiter.run();
+        }
+        this.scheduleIdleClose();
+    }
+
+    private releaseAll() {
+        for (const taskId of Array.from(this.waiters.keys())) {
+            this.release(taskId);
+        }
+    }
+
+    private scheduleIdleClose() {
+        if (this.waiters.size > 0 || this.idleTimer) {
+            return;
+        }
+        this.idleTimer = setTimeout(() => {
+            this.idleTimer = null;
+            if (this.waiters.size === 0) {
+                this.close();
+            }
+        }, IDLE_CLOSE_DELAY);
+    }
+
+    /**
+     * 关闭事件流，等待中的任务回退到轮询
+     */
+    close() {
+        if (this.source) {
+            this.source.close();
+            this.source = null;
+            console.log('🔌 任务事件流已关闭');
+        }
+        this.connected = false;
+        this.releaseAll();
+    }
+}
+
+export const taskEventStream = TaskEventStream.getInstance();
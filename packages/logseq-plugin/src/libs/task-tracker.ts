@@ -0,0 +1,347 @@
+/**
+ * 任务跟踪模块
+ * 统一跟踪桥接服务中的异步任务（图像、TTS、视频）：按任务描述查询状态、转换结果并更新对应的块
+ * 跟踪中的任务保存在插件存储中，插件重新加载后继续跟踪
+ */
+
+import '@logseq/libs';
+import { taskEventStream } from './task-events';
+
+// 统一后的任务状态查询结果
+export interface TaskPollResult {
+    status: 'pending' | 'completed' | 'failed';
+    filePath?: string;
+    error?: string;
+    cancelled?: boolean;
+    // 原始任务数据
+    data?: any;
+}
+
+// 跟踪中的任务
+export interface TrackedTask {
+    taskId: string;
+    kind: string;
+    // 任务完成后更新的块
+    blockUuid: string;
+    bridgeServiceUrl: string;
+    // 待处理任务列表中显示的标题（提示词、文本摘要等）
+    title: string;
+    // 渲染结果需要的额外参数
+    params: Record<string, any>;
+    startedAt: number;
+    lastStatus?: string;
+}
+
+/**
+ * 任务描述：查询地址、结果转换和块更新方式
+ */
+export interface TaskDescriptor {
+    kind: string;
+    label: string;
+    // 状态查询路径（相对于桥接服务地址）
+    endpoint: (task: TrackedTask) => string;
+    mapResult: (response: any) => TaskPollResult;
+    render: {
+        completed: (task: TrackedTask, result: TaskPollResult) => Promise<void>;
+        failed: (task: TrackedTask, result: TaskPollResult) => Promise<void>;
+        timeout: (task: TrackedTask) => Promise<void>;
+    };
+    // 轮询间隔，可按已等待时间调整
+    interval: number | ((elapsedMs: number) => number);
+    // 超过该时间仍未结束视为超时
+    timeoutMs: number;
+}
+
+const STORAGE_FILE = 'pending-tasks.json';
+const STORAGE_VERSION = 1;
+
+const PENDING_UI_KEY = 'pending-ai-tasks';
+
+function escapeHtml(text: string): string {
+    return String(text || '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function formatElapsed(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    return minutes > 0 ? `${minutes} 分钟` : `${Math.max(Math.floor(ms / 1000), 0)} 秒`;
+}
+
+export class TaskTracker {
+    private static instance: TaskTracker;
+    private descriptors = new Map<string, TaskDescriptor>();
+    private tasks = new Map<string, TrackedTask>();
+    private scheduled = new Set<string>();
+    private polling = new Set<string>();
+    private loaded = false;
+    private modelProvided = false;
+
+    static getInstance(): TaskTracker {
+        if (!TaskTracker.instance) {
+            TaskTracker.instance = new TaskTracker();
+        }
+        return TaskTracker.instance;
+    }
+
+    register(descriptor: TaskDescriptor) {
+        this.descriptors.set(descriptor.kind, descriptor);
+    }
+
+    /**
+     * 开始跟踪任务
+     * @param task 任务信息，startedAt 默认为当前时间
+     */
+    async track(task: Omit<TrackedTask, 'startedAt' | 'params'> & { startedAt?: number, params?: Record<string, any> }): Promise<void> {
+        if (!this.descriptors.has(task.kind)) {
+            throw new Error(`Unknown task kind: ${task.kind}`);
+        }
+        await this.load();
+        const tracked: TrackedTask = { params: {}, startedAt: Date.now(), ...task };
+        this.tasks.set(tracked.taskId, tracked);
+        await this.save();
+        console.log(`📌 开始跟踪任务: ${tracked.kind} ${tracked.taskId}`);
+        this.schedule(tracked);
+    }
+
+    /**
+     * 从插件存储恢复未结束的任务并继续跟踪（插件启动时调用）
+     * @returns 恢复的任务数量
+     */
+    async resume(): Promise<number> {
+        await this.load();
+        let resumed = 0;
+        for (const task of this.tasks.values()) {
+            if (!this.descriptors.has(task.kind)) {
+                console.warn(`⚠️ 未知任务类型，跳过恢复: ${task.kind} ${task.taskId}`);
+                continue;
+            }
+            this.scheduled.delete(task.taskId);
+            this.poll(task.taskId);
+            resumed++;
+        }
+        if (resumed > 0) {
+            console.log(`📌 已恢复 ${resumed} 个未完成的任务`);
+        }
+        return resumed;
+    }
+
+    list(): TrackedTask[] {
+        return Array.from(this.tasks.values()).sort((a, b) => a.startedAt - b.startedAt);
+    }
+
+    private async load(): Promise<void> {
+        if (this.loaded) {
+            return;
+        }
+        this.loaded = true;
+        try {
+            if (!(await logseq.FileStorage.hasItem(STORAGE_FILE))) {
+                return;
+            }
+            const raw = await logseq.FileStorage.getItem(STORAGE_FILE);
+            const stored = typeof raw === 'string' ? JSON.parse(raw) : raw;
+            if (stored?.version === STORAGE_VERSION && Array.isArray(stored.tasks)) {
+                for (const task of stored.tasks as TrackedTask[]) {
+                    if (!this.tasks.has(task.taskId)) {
+                        this.tasks.set(task.taskId, task);
+                    }
+                }
+            }
+        } catch (error) {
+            console.warn('⚠️ 加载待处理任务失败:', error);
+        }
+    }
+
+    private async save(): Promise<void> {
+        try {
+            await logseq.FileStorage.setItem(STORAGE_FILE, JSON.stringify({
+                version: STORAGE_VERSION,
+                tasks: Array.from(this.tasks.values())
+            }));
+        } catch (error) {
+            console.warn('⚠️ 保存待处理任务失败:', error);
+        }
+    }
+
+    private intervalFor(task: TrackedTask, descriptor: TaskDescriptor): number {
+        const { interval } = descriptor;
+        return typeof interval === 'function' ? interval(Date.now() - task.startedAt) : interval;
+    }
+
+    // 安排下一次查询：事件流可用时等待任务事件，否则按间隔轮询；同一任务只保留一个待执行的查询
+    private schedule(task: TrackedTask, useEvents = true) {
+        const descriptor = this.descriptors.get(task.kind);
+        if (!descriptor || this.scheduled.has(task.taskId)) {
+            return;
+        }
+        this.scheduled.add(task.taskId);
+        const run = () => {
+            this.scheduled.delete(task.taskId);
+            this.poll(task.taskId);
+        };
+        const interval = this.intervalFor(task, descriptor);
+        if (useEvents) {
+            taskEventStream.scheduleTaskPoll(task.bridgeServiceUrl, task.taskId, run, interval);
+        } else {
+            setTimeout(run, interval);
+        }
+    }
+
+    private async poll(taskId: string): Promise<void> {
+        const task = this.tasks.get(taskId);
+        const descriptor = task && this.descriptors.get(task.kind);
+        if (!task || !descriptor || this.polling.has(taskId)) {
+            return;
+        }
+        this.polling.add(taskId);
+        const elapsed = Date.now() - task.startedAt;
+
+        try {
+            const response = await fetch(task.bridgeServiceUrl.replace(/\/$/, '') + descriptor.endpoint(task));
+            if (response.status === 404) {
+                await this.finish(task, () => descriptor.render.failed(task, { status: 'failed', error: '任务不存在或已过期' }));
+                return;
+            }
+            if (!response.ok) {
+                throw new Error(`状态查询失败: ${response.status}`);
+            }
+
+            const result = descriptor.mapResult(await response.json());
+            if (result.status === 'completed') {
+                console.log(`✅ ${descriptor.label}任务完成:`, taskId);
+                await this.finish(task, () => descriptor.render.completed(task, result));
+            } else if (result.status === 'failed') {
+                console.error(`❌ ${descriptor.label}任务失败:`, result.error);
+                await this.finish(task, () => descriptor.render.failed(task, result.cancelled ? { ...result, error: '任务已取消' } : result));
+            } else if (elapsed > descriptor.timeoutMs) {
+                console.warn(`⏰ ${descriptor.label}任务跟踪超时:`, taskId);
+                await this.finish(task, () => descriptor.render.timeout(task));
+            } else {
+                const status = result.data?.status || result.status;
+                if (task.lastStatus !== status) {
+                    task.lastStatus = status;
+                    await this.save();
+                }
+                console.log(`⏳ ${descriptor.label}中... (${status}, 已等待 ${formatElapsed(elapsed)})`);
+                this.schedule(task);
+            }
+        } catch (error) {
+            console.error(`❌ 查询${descriptor.label}任务状态失败:`, error);
+            if (elapsed > descriptor.timeoutMs) {
+                const message = `状态检查失败：${error instanceof Error ? error.message : '未知错误'}`;
+                await this.finish(task, () => descriptor.render.failed(task, { status: 'failed', error: message }));
+            } else {
+                // 出错时按轮询间隔重试
+                this.schedule(task, false);
+            }
+        } finally {
+            this.polling.delete(taskId);
+        }
+    }
+
+    // 停止跟踪并更新块
+    private async finish(task: TrackedTask, render: () => Promise<void>): Promise<void> {
+        this.tasks.delete(task.taskId);
+        await this.save();
+        try {
+            await render();
+        } catch (error) {
+            console.error(`❌ 更新任务结果失败: ${task.taskId}`, error);
+        }
+    }
+
+    /**
+     * 请求桥接服务取消任务，结果通过正常的状态查询更新到块
+     */
+    async cancel(taskId: string): Promise<void> {
+        const task = this.tasks.get(taskId);
+        if (!task) {
+            return;
+        }
+        const response = await fetch(`${task.bridgeServiceUrl.replace(/\/$/, '')}/api/tasks/${encodeURIComponent(taskId)}`, { method: 'DELETE' });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok && response.status !== 409) {
+            throw new Error(data?.error || `取消失败 (${response.status})`);
+        }
+        logseq.UI.showMsg(response.ok ? '⏹️ 任务已取消' : '任务已经结束', response.ok ? 'success' : 'warning');
+    }
+
+    private ensureModel() {
+        if (this.modelProvided) {
+            return;
+        }
+        this.modelProvided = true;
+        logseq.provideModel({
+            async openPendingTaskBlock(e: any) {
+                const uuid = e?.dataset?.uuid;
+                const block = uuid && await logseq.Editor.getBlock(uuid);
+                const page = block && await logseq.Editor.getPage(block.page.id);
+                if (!page) {
+                    logseq.UI.showMsg('找不到任务对应的块', 'warning');
+                    return;
+                }
+                logseq.Editor.scrollToBlockInPage(page.name, uuid);
+            },
+            async cancelPendingTask(e: any) {
+                const taskId = e?.dataset?.taskId;
+                try {
+                    await taskTracker.cancel(taskId);
+                    await taskTracker.showPendingTasks();
+                } catch (error) {
+                    logseq.UI.showMsg(`取消任务失败: ${error instanceof Error ? error.message : error}`, 'error');
+                }
+            },
+        });
+    }
+
+    /**
+     * 显示待处理的 AI 任务：任务类型、标题、状态、已等待时间和完成后更新的块
+     */
+    async showPendingTasks(): Promise<void> {
+        await this.load();
+        this.ensureModel();
+
+        const tasks = this.list();
+        const rows = await Promise.all(tasks.map(async (task) => {
+            const label = this.descriptors.get(task.kind)?.label || task.kind;
+            const block = await logseq.Editor.getBlock(task.blockUuid).catch(() => null);
+            const blockText = block ? (block.content || '').split('\n')[0].slice(0, 60) : '（块已删除）';
+            const detail = [
+                task.taskId,
+                task.lastStatus || 'pending',
+                `已等待 ${formatElapsed(Date.now() - task.startedAt)}`,
+                `块: ${blockText}`
+            ].join(' · ');
+            return `
+            <div style="display: flex; align-items: center; gap: 8px; padding: 4px 0; border-bottom: 1px solid var(--ls-border-color);">
+                <div style="flex: 1; min-width: 0;">
+                    <div>${escapeHtml(label)} · ${escapeHtml(task.title)}</div>
+                    <div style="opacity: 0.7; font-size: 12px;">${escapeHtml(detail)}</div>
+                </div>
+                <button class="ui__button" data-on-click="openPendingTaskBlock" data-uuid="${escapeHtml(task.blockUuid)}">定位</button>
+                <button class="ui__button" data-on-click="cancelPendingTask" data-task-id="${escapeHtml(task.taskId)}">取消</button>
+            </div>`;
+        }));
+
+        logseq.provideUI({
+            key: PENDING_UI_KEY,
+            close: 'outside',
+            template: `<div style="padding: 12px; max-height: 420px; overflow: auto; display: flex; flex-direction: column; gap: 8px;">${
+                rows.length > 0 ? rows.join('') : '<div style="opacity: 0.7;">没有进行中的 AI 任务</div>'
+            }</div>`,
+            style: {
+                left: 'calc(50% - 300px)',
+                top: '15%',
+                width: '600px',
+                backgroundColor: 'var(--ls-secondary-background-color)',
+                color: 'var(--ls-primary-text-color)',
+            },
+            attrs: { title: `Pending AI tasks (${rows.length})` },
+        });
+    }
+}
+
+export const taskTracker = TaskTracker.getInstance();
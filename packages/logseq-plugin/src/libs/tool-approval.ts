@@ -0,0 +1,196 @@
+/**
+ * MCP 工具调用确认模块
+ * 桥接服务按工具策略（allow / ask / deny）决定是否放行，策略为 ask 时弹出确认框，用户可以修改参数后允许或拒绝
+ */
+
+import '@logseq/libs';
+import { getSettings } from './settings';
+import { fetchWithTimeout } from './network';
+
+/**
+ * 工具调用结果，arguments 为实际使用的参数（用户可能修改过）
+ */
+export interface ToolCallOutcome {
+    success: boolean;
+    result?: any;
+    error?: string;
+    decision?: 'allowed' | 'approved' | 'rejected' | 'denied';
+    arguments: Record<string, any>;
+}
+
+interface PendingApproval {
+    original: Record<string, any>;
+    resolve: (approval: { approved: boolean, arguments: Record<string, any> }) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+const APPROVAL_UI_KEY = 'mcp-tool-approval';
+const APPROVAL_ARGS_ID = 'ai-tool-approval-args';
+
+// 超时未处理的确认视为拒绝
+const APPROVAL_TIMEOUT = 5 * 60 * 1000;
+
+let pending: PendingApproval | null = null;
+let modelProvided = false;
+// 多个确认按顺序显示
+let approvalQueue: Promise<unknown> = Promise.resolve();
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function closeApprovalUI(): void {
+    parent.document.getElementById(`${logseq.baseInfo.id}--${APPROVAL_UI_KEY}`)?.remove();
+}
+
+function settle(approved: boolean, args: Record<string, any>): void {
+    const current = pending;
+    pending = null;
+    closeApprovalUI();
+    if (current) {
+        clearTimeout(current.timer);
+    }
+    current?.resolve({ approved, arguments: args });
+}
+
+/**
+ * 注册确认框按钮的事件处理
+ */
+function ensureModel(): void {
+    if (modelProvided) {
+        return;
+    }
+    modelProvided = true;
+    logseq.provideModel({
+        approveMCPToolCall() {
+            if (!pending) {
+                return;
+            }
+            const input = parent.document.getElementById(APPROVAL_ARGS_ID) as HTMLTextAreaElement | null;
+            let args = pending.original;
+            if (input) {
+                try {
+                    const parsed = JSON.parse(input.value || '{}');
+                    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                        throw new Error('参数必须是 JSON 对象');
+                    }
+                    args = parsed;
+                } catch (error) {
+                    logseq.UI.showMsg(`参数格式错误: ${error instanceof Error ? error.message : error}`, 'error');
+                    return;
+                }
+            }
+            settle(true, args);
+        },
+        rejectMCPToolCall() {
+            if (pending) {
+                settle(false, pending.original);
+            }
+        },
+    });
+}
+
+/**
+ * 显示确认框，等待用户允许（可修改参数）或拒绝
+ * @param request 工具和参数
+ */
+export function requestToolApproval(request: {
+    serviceId: string,
+    toolName: string,
+    arguments: Record<string, any>,
+    description?: string
+}): Promise<{ approved: boolean, arguments: Record<string, any> }> {
+    const task = approvalQueue.then(() => new Promise<{ approved: boolean, arguments: Record<string, any> }>((resolve) => {
+        ensureModel();
+        const timer = setTimeout(() => {
+            if (pending?.resolve === resolve) {
+                console.warn(`⚠️ 工具调用确认超时，已拒绝: ${request.serviceId}/${request.toolName}`);
+                settle(false, request.arguments);
+            }
+        }, APPROVAL_TIMEOUT);
+        pending = { original: request.arguments, resolve, timer };
+
+        logseq.provideUI({
+            key: APPROVAL_UI_KEY,
+            template: `
+            <div style="padding: 12px; display: flex; flex-direction: column; gap: 8px;">
+                <div style="font-weight: 600;">🔐 确认调用 MCP 工具</div>
+                <div>工具: <code>${escapeHtml(request.serviceId)}/${escapeHtml(request.toolName)}</code></div>
+                ${request.description ? `<div style="opacity: 0.8;">${escapeHtml(request.description)}</div>` : ''}
+                <div>参数（可修改）:</div>
+                <textarea id="${APPROVAL_ARGS_ID}" spellcheck="false" style="width: 100%; height: 200px; font-family: monospace; font-size: 12px;">${escapeHtml(JSON.stringify(request.arguments, null, 2))}</textarea>
+                <div style="display: flex; justify-content: flex-end; gap: 8px;">
+                    <button class="ui__button" data-on-click="rejectMCPToolCall">拒绝</button>
+                    <button class="ui__button" data-on-click="approveMCPToolCall">允许</button>
+                </div>
+            </div>`,
+            style: {
+                left: 'calc(50% - 260px)',
+                top: '20%',
+                width: '520px',
+                backgroundColor: 'var(--ls-secondary-background-color)',
+                color: 'var(--ls-primary-text-color)',
+            },
+            attrs: {
+                title: 'MCP Tool Approval',
+            },
+        });
+    }));
+    approvalQueue = task.catch(() => undefined);
+    return task;
+}
+
+async function postToolCall(url: string, body: Record<string, any>): Promise<any> {
+    const response = await fetchWithTimeout(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        timeout: 30000
+    });
+    try {
+        return await response.json();
+    } catch {
+        throw new Error(`Bridge service error (${response.status})`);
+    }
+}
+
+/**
+ * 调用 MCP 工具，策略为 ask 时先请求用户确认，拒绝和修改都会记录在桥接服务的工具调用日志中
+ * @param serviceId 服务 ID
+ * @param toolName 工具名
+ * @param args 参数
+ * @param description 工具说明（显示在确认框中）
+ */
+export async function callToolWithApproval(
+    serviceId: string,
+    toolName: string,
+    args: Record<string, any>,
+    description?: string
+): Promise<ToolCallOutcome> {
+    const { bridgeServiceUrl } = await getSettings();
+    const url = `${bridgeServiceUrl}/api/tools/${encodeURIComponent(serviceId)}/${encodeURIComponent(toolName)}`;
+    const original = args || {};
+
+    const response = await postToolCall(url, { arguments: original });
+    if (!response?.requiresApproval) {
+        return { ...response, arguments: original };
+    }
+
+    console.log('🔐 工具调用需要确认:', { serviceId, toolName });
+    const approval = await requestToolApproval({ serviceId, toolName, arguments: original, description });
+    const edited = JSON.stringify(approval.arguments) !== JSON.stringify(original);
+    const finalArgs = approval.approved ? approval.arguments : original;
+    const confirmed = await postToolCall(url, {
+        arguments: finalArgs,
+        approval: {
+            decision: approval.approved ? 'approved' : 'rejected',
+            ...(approval.approved && edited ? { originalArguments: original } : {})
+        }
+    });
+    console.log(`🔐 工具调用${approval.approved ? '已允许' : '已拒绝'}:`, { serviceId, toolName, edited });
+    return { ...confirmed, arguments: finalArgs };
+}
@@ -1,10 +1,13 @@
 import '@logseq/libs';
-import { settingsSchema } from '@/libs';
-import { getSettings } from './libs/settings';
+import { settingsSchema, stopGeneration, rebuildSemanticIndex, resumeTrackedTasks, showPendingTasks } from '@/libs';
+import { getSettings, fetchOllamaModels } from './libs/settings';
 import { ConnectionManager } from './libs/network';
 import { ConfigManager } from './libs/config-manager';
-import { slash } from './slash';
+import { semanticIndex } from './libs/semantic-index';
+import { slash, registerPromptCommands } from './slash';
 import { select } from './select/select';
+import { openMCPResourceBrowser, openMCPPromptBrowser } from './libs/mcp-browser';
+import { graphChannel } from './libs/graph-channel';
 
 async function main () {
     await logseq.useSettingsSchema(await settingsSchema());
@@ -32,6 +35,9 @@ async function main () {
              connectionManager.startHealthCheck(config.bridgeServiceUrl);
              console.log('🔗 桥接服务连接管理器已启动');
              
+             // 同步 Ollama 设置，桥接服务的意图分析默认使用
+             configManager.syncBridgeSettings(config).catch((error) => console.warn('⚠️ 同步 Ollama 设置失败:', error));
+             
              // 检查功能可用性
              const aiChatAvailable = await configManager.isFeatureAvailable('ai-chat');
              const imageGenAvailable = await configManager.isFeatureAvailable('image-generation');
@@ -51,8 +57,152 @@ async function main () {
          logseq.UI.showMsg(`插件初始化失败: ${errorMessage}`, 'error');
      }
     
+    // 刷新 Ollama 模型列表（拉取新模型后重新生成设置项）
+    logseq.App.registerCommandPalette({
+        key: 'refresh-ollama-models',
+        label: 'Refresh Ollama models',
+    }, async () => {
+        const models = await fetchOllamaModels(logseq.settings?.["ollamaAddress"]);
+        await logseq.useSettingsSchema(await settingsSchema());
+        if (models.length > 0) {
+            logseq.UI.showMsg(`✅ 已获取 ${models.length} 个 Ollama 模型`, 'success');
+        } else {
+            logseq.UI.showMsg('无法从 Ollama 服务器获取模型列表，请检查服务器地址', 'warning');
+        }
+    });
+
+    // 停止所有正在进行的 AI 生成（保留已输出内容）
+    logseq.App.registerCommandPalette({
+        key: 'stop-ai-generation',
+        label: 'Stop AI generation',
+    }, async () => {
+        await stopGeneration();
+    });
+
+    // 重建语义索引（/gpt-ask 使用）
+    logseq.App.registerCommandPalette({
+        key: 'rebuild-semantic-index',
+        label: 'Rebuild semantic index',
+    }, async () => {
+        await rebuildSemanticIndex();
+    });
+
+    // 恢复插件重新加载前未完成的 AI 任务（语音、图像、视频）
+    try {
+        await resumeTrackedTasks();
+    } catch (error) {
+        console.warn('⚠️ 恢复未完成的 AI 任务失败:', error);
+    }
+
+    // 查看进行中的 AI 任务及其将要更新的块
+    logseq.App.registerCommandPalette({
+        key: 'show-pending-ai-tasks',
+        label: 'Show pending AI tasks',
+    }, async () => {
+        await showPendingTasks();
+    });
+
+    logseq.onSettingsChanged((settings, oldSettings) => {
+        if (settings?.ollamaAddress !== oldSettings?.ollamaAddress || settings?.ollamaModel !== oldSettings?.ollamaModel) {
+            ConfigManager.getInstance().getConfig(true)
+                .then((config) => ConfigManager.getInstance().syncBridgeSettings(config))
+                .catch((error) => console.warn('⚠️ 同步 Ollama 设置失败:', error));
+        }
+    });
+
+    // 开启后监听块变化，增量更新语义索引
+    try {
+        const { semanticIndexEnabled } = await getSettings();
+        if (semanticIndexEnabled) {
+            semanticIndex.startWatching();
+        }
+    } catch (error) {
+        console.warn('⚠️ 语义索引监听启动失败:', error);
+    }
+    logseq.onSettingsChanged((settings) => {
+        if (settings?.semanticIndexEnabled) {
+            semanticIndex.startWatching();
+        } else {
+            semanticIndex.stopWatching();
+        }
+    });
+
+    // 开启后连接桥接服务的插件通道，由桥接服务把图谱作为 MCP 服务器对外提供
+    try {
+        const { graphServerEnabled, bridgeServiceUrl, bridgeAuthToken } = await getSettings();
+        if (graphServerEnabled) {
+            graphChannel.start(bridgeServiceUrl, bridgeAuthToken);
+        }
+    } catch (error) {
+        console.warn('⚠️ 图谱通道启动失败:', error);
+    }
+    logseq.onSettingsChanged((settings, oldSettings) => {
+        if (settings?.graphServerEnabled) {
+            graphChannel.start(settings.bridgeServiceUrl || 'http://localhost:3000', settings.bridgeAuthToken || '');
+            if (settings.graphServerAllowWrites !== oldSettings?.graphServerAllowWrites) {
+                graphChannel.sendHello().catch((error) => console.warn('⚠️ 图谱通道握手失败:', error));
+            }
+        } else {
+            graphChannel.stop();
+        }
+    });
+
+    // 浏览 MCP 资源和提示词（作用于当前编辑的块）
+    logseq.App.registerCommandPalette({
+        key: 'browse-mcp-resources',
+        label: 'Browse MCP resources',
+    }, async () => {
+        const currentBlock = await logseq.Editor.getCurrentBlock();
+        if (!currentBlock) {
+            logseq.UI.showMsg('请先进入一个块的编辑状态', 'warning');
+            return;
+        }
+        try {
+            await openMCPResourceBrowser(currentBlock.uuid);
+        } catch (error) {
+            logseq.UI.showMsg(`获取 MCP 资源失败: ${error instanceof Error ? error.message : error}`, 'error');
+        }
+    });
+
+    logseq.App.registerCommandPalette({
+        key: 'run-mcp-prompt',
+        label: 'Run MCP prompt',
+    }, async () => {
+        const currentBlock = await logseq.Editor.getCurrentBlock();
+        if (!currentBlock) {
+            logseq.UI.showMsg('请先进入一个块的编辑状态', 'warning');
+            return;
+        }
+        try {
+            await openMCPPromptBrowser(currentBlock.uuid);
+        } catch (error) {
+            logseq.UI.showMsg(`获取 MCP 提示词失败: ${error instanceof Error ? error.message : error}`, 'error');
+        }
+    });
+
     await slash();
     await select();
+
+    // 加载提示词库（内置 TOML、用户 TOML、#ai-prompt 页面），注册为斜杠命令
+    try {
+        await registerPromptCommands();
+    } catch (error) {
+        console.warn('⚠️ 加载提示词库失败:', error);
+    }
+
+    // 重新加载提示词库，新增的提示词会注册为新命令
+    logseq.App.registerCommandPalette({
+        key: 'reload-ai-prompts',
+        label: 'Reload AI prompts',
+    }, async () => {
+        try {
+            const added = await registerPromptCommands();
+            logseq.UI.showMsg(`✅ 提示词库已重新加载${added > 0 ? `，新增 ${added} 个命令` : ''}`, 'success');
+        } catch (error) {
+            console.error('重新加载提示词库失败:', error);
+            logseq.UI.showMsg('重新加载提示词库失败', 'error');
+        }
+    });
 }
 
 // bootstrap
@@ -2,14 +2,72 @@ import * as api from '@/libs';
 import '@logseq/libs';
 import { getSettings } from '@/libs/settings';
 import { smartRouter } from '@/libs/smart-router';
+import { promptLibrary } from '@/libs/prompt-library';
+import { openMCPResourceBrowser, openMCPPromptBrowser } from '@/libs/mcp-browser';
+
+// 已注册的提示词命令（Logseq 不支持注销命令，重新加载时只注册新增的）
+const registeredPrompts = new Set<string>();
+
+// 插件内置的斜杠命令，与之同名的提示词不注册，避免覆盖或重复
+const BUILTIN_COMMANDS = new Set([
+    'gpt-block', 'gpt-think', 'gpt', 'gpt-stop', 'gpt-thread', 'aihey', 'gpt-ask', 'mcp-resource', 'mcp-prompt',
+    'gpt-summary', 'gpt-query', 'gpt-graph', 'gpt-ocr', 'gpt-file', 'gpt-image', 'gpt-imgedit', 'gpt-tts',
+    'gpt-qwen-tts', 'gpt-qwen-t2v', 'gpt-qwen-i2v', 'gpt-qwen-query-task', 'auto_generate_image'
+]);
+
+/**
+ * 加载提示词库，并把每个提示词注册为斜杠命令和命令面板项
+ * 命令执行时按名称查找最新的定义，所以修改已有提示词后重新加载即可生效
+ */
+export async function registerPromptCommands (): Promise<number> {
+    const { promptPageTag } = await getSettings();
+    const prompts = await promptLibrary.load(promptPageTag);
+
+    let added = 0;
+    const rejected: string[] = [];
+    for (const prompt of prompts) {
+        if (BUILTIN_COMMANDS.has(prompt.name)) {
+            rejected.push(prompt.name);
+            continue;
+        }
+        if (registeredPrompts.has(prompt.name)) {
+            continue;
+        }
+        registeredPrompts.add(prompt.name);
+        added++;
+
+        await logseq.Editor.registerSlashCommand(prompt.name,
+            async () => {
+                const { uuid }: any = await logseq.Editor.getCurrentBlock();
+                await api.performPromptCommand(uuid, prompt.name);
+        });
+
+        logseq.App.registerCommandPalette({
+            key: `ai-prompt-${prompt.name}`,
+            label: `AI prompt: ${prompt.name}${prompt.description ? ` - ${prompt.description}` : ''}`,
+        }, async () => {
+            const currentBlock = await logseq.Editor.getCurrentBlock();
+            if (!currentBlock) {
+                logseq.UI.showMsg('请先进入一个块的编辑状态再执行提示词', 'warning');
+                return;
+            }
+            await api.performPromptCommand(currentBlock.uuid, prompt.name);
+        });
+    }
+    if (rejected.length > 0) {
+        console.warn('⚠️ 以下提示词与内置命令同名，未注册:', rejected);
+        logseq.UI.showMsg(`提示词 ${rejected.map((name) => `/${name}`).join('、')} 与内置命令同名，未注册，请改名`, 'warning');
+    }
+    return added;
+}
 
 export async function slash () {
     await logseq.Editor.registerSlashCommand('gpt-block', 
         async () => {
             let { uuid }: any = await logseq.Editor.getCurrentBlock();
-            let content = await api.summary(uuid, true);
-            content += '\nPlease try to summarize the content of the above text.'
-            await api.openaiStream(content, uuid);
+            
+            // 超出上下文预算时自动分块 map-reduce
+            await api.performBlockSummary(uuid);
     });
 
     await logseq.Editor.registerSlashCommand('gpt-think',
@@ -18,7 +76,8 @@ export async function slash () {
             
             // 使用智能路由器处理用户输入
             await smartRouter.routeUserInput(uuid, content, {
-                isStreaming: true
+                isStreaming: true,
+                command: 'gpt-think'
             });
     });
 
@@ -30,6 +89,22 @@ export async function slash () {
             await api.performDirectChat(uuid, content);
     });
 
+    await logseq.Editor.registerSlashCommand('gpt-stop',
+        async() => {
+            const currentBlock = await logseq.Editor.getCurrentBlock();
+            
+            // 停止当前块正在进行的生成，保留已输出内容
+            await api.stopGeneration(currentBlock?.uuid);
+    });
+
+    await logseq.Editor.registerSlashCommand('gpt-thread',
+        async() => {
+            let { content, uuid }: any = await logseq.Editor.getCurrentBlock();
+            
+            // 以父块/兄弟块链作为多轮对话上下文进行对话
+            await api.performDirectChat(uuid, content, { conversation: true });
+    });
+
     await logseq.Editor.registerSlashCommand('aihey', 
         async () => {
             let { uuid, content, parent }: any = await logseq.Editor.getCurrentBlock();
@@ -39,16 +114,60 @@ export async function slash () {
             // 使用智能路由器处理用户输入
             await smartRouter.routeUserInput(uuid, content, {
                 isStreaming: settings.isStreamingOutput,
-                systemContent: system_content
+                systemContent: system_content,
+                command: 'aihey'
             });
     });
 
+    await logseq.Editor.registerSlashCommand('gpt-ask',
+        async() => {
+            let { content, uuid }: any = await logseq.Editor.getCurrentBlock();
+            
+            // 基于语义索引检索全图谱的相关块并回答，带块引用
+            await api.performSemanticAsk(uuid, content.replace('/gpt-ask', '').trim());
+    });
+
+    // 浏览 MCP 资源，选择后把内容插入到当前块下
+    await logseq.Editor.registerSlashCommand('mcp-resource',
+        async () => {
+            const { uuid }: any = await logseq.Editor.getCurrentBlock();
+            try {
+                await openMCPResourceBrowser(uuid);
+            } catch (error) {
+                logseq.UI.showMsg(`获取 MCP 资源失败: ${error instanceof Error ? error.message : error}`, 'error');
+            }
+    });
+
+    // 选择 MCP 提示词，填写参数后发送给模型
+    await logseq.Editor.registerSlashCommand('mcp-prompt',
+        async () => {
+            const { uuid }: any = await logseq.Editor.getCurrentBlock();
+            try {
+                await openMCPPromptBrowser(uuid);
+            } catch (error) {
+                logseq.UI.showMsg(`获取 MCP 提示词失败: ${error instanceof Error ? error.message : error}`, 'error');
+            }
+    });
+
     await logseq.Editor.registerSlashCommand('gpt-summary', 
         async () => {
             let { uuid }: any = await logseq.Editor.getCurrentBlock();
             await api.generatePageSummary(uuid);
     });
 
+    await logseq.Editor.registerSlashCommand('gpt-query', 
+        async () => {
+            let { content, uuid }: any = await logseq.Editor.getCurrentBlock();
+            const description = content.replace('/gpt-query', '').trim();
+            if (!description) {
+                logseq.UI.showMsg('请在 /gpt-query 后面描述要查询的内容。例如：/gpt-query 列出所有未完成的 TODO', 'warning');
+                return;
+            }
+            
+            // 根据描述生成 Logseq 高级查询语句
+            await api.generateAdvancedQuery(description, uuid);
+    });
+
     await logseq.Editor.registerSlashCommand('gpt-graph', 
         async () => {
             const currentBlock = await logseq.Editor.getCurrentBlock();
@@ -73,12 +192,7 @@ export async function slash () {
             
             try {
                  const { uuid }: any = await logseq.Editor.getCurrentBlock();
-                 const settings = await getSettings();
-                 const model = settings.aiProvider === 'openai' ? settings.gptModel : settings.ollamaModel;
-                 const apiKey = settings.openaiKey;
-                 const baseUrl = settings.aiProvider === 'openai' ? settings.openaiAddress : settings.ollamaAddress;
-                 
-                 await api.generateGraphBasedResponse(currentPage.name, userInput, model, apiKey, baseUrl, uuid);
+                 await api.generateGraphBasedResponse(currentPage.name, userInput, uuid);
                  logseq.UI.showMsg('基于图库的回答已生成', 'success');
              } catch (error) {
                  console.error('图库搜索失败:', error);
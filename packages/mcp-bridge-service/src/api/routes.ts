@@ -2,10 +2,21 @@ import express, { Router, Request, Response } from 'express';
 import { MCPClientManager } from '../mcp/client-manager';
 import { ConfigManager } from '../config/manager';
 import { logger } from '../utils/logger';
-import { MCPServiceConfig, ToolCallRequest, ResourceRequest } from '../config/types';
-import { IntentAnalyzer } from '../services/intent-analyzer';
+import { isAuthorizedRequest } from '../utils/auth';
+import { MCPServiceConfig, ToolCallRequest, ResourceRequest, PromptRequest } from '../config/types';
+import { IntentAnalyzer, detectTaskType } from '../services/intent-analyzer';
+import { runIntentEval } from '../eval/intent-eval';
+import { intentRules } from '../services/intent-rules';
+import { analyzeIntentByKeywords, IntentTool } from '../services/intent-fallback';
+import { IntentAttachments } from '../services/capabilities';
+import { intentCorrections, intentCorrectionSchema } from '../services/intent-corrections';
 import { AICapabilitiesService, AICapabilityType } from '../services/ai-capabilities';
 import { loggingService } from '../services/logging-service';
+import { taskStore, StoredTask, TaskRepository } from '../services/task-store';
+import { jobQueue, JobPriority, sleep, withTimeout } from '../services/job-queue';
+import { taskEvents } from '../services/task-events';
+import { pluginChannel } from '../mcp/plugin-channel';
+import { GRAPH_TOOLS } from '../mcp/graph-server';
 import { conditionalLoggingMiddleware, errorLoggingMiddleware } from '../middleware/logging-middleware';
 import fs from 'fs';
 import path from 'path';
@@ -181,7 +192,7 @@ export function createRoutes(clientManager: MCPClientManager, configManager: Con
   const aiCapabilities = new AICapabilitiesService(configManager);
 
   // 图像生成任务存储
-  const imageTasksMap = new Map<string, {
+  const imageTasksMap = taskStore.repository<{
     id: string;
     status: 'pending' | 'processing' | 'completed' | 'failed';
     type: 'text-to-image' | 'image-to-image' | 'image-edit';
@@ -204,6 +215,7 @@ export function createRoutes(clientManager: MCPClientManager, configManager: Con
     filename: string;
     filePath?: string;
     error?: string;
+    cancelled?: boolean;
     createdAt: number;
     completedAt?: number;
     // 增强的任务信息
@@ -235,7 +247,7 @@ export function createRoutes(clientManager: MCPClientManager, configManager: Con
       receivedAt: number;
       processingTime: number;
     };
-  }>();
+  }>('image', { omit: ['config.imageApiKey', 'cloudRequestInfo.requestHeaders'] });
 
   // 应用日志记录中间件
   router.use(conditionalLoggingMiddleware);
@@ -318,6 +330,35 @@ export function createRoutes(clientManager: MCPClientManager, configManager: Con
     }
   });
 
+  // 获取服务进程日志（stdio 服务的 stderr 输出和退出记录）
+  router.get('/services/:serviceId/logs', (req: Request, res: Response) => {
+    try {
+      const { serviceId } = req.params;
+      if (!clientManager.getService(serviceId)) {
+        return res.status(404).json({ success: false, error: 'Service not found' });
+      }
+
+      const { stream, limit, offset } = req.query;
+      const limitNum = limit ? parseInt(limit as string) : 200;
+      const offsetNum = offset ? parseInt(offset as string) : undefined;
+
+      const logs = loggingService.getMCPServiceLogs(serviceId, stream as string, limitNum, offsetNum);
+
+      return res.json({
+        success: true,
+        serviceId,
+        logs,
+        total: loggingService.countMCPServiceLogs(serviceId, stream as string)
+      });
+    } catch (error) {
+      logger.error('Error getting service logs:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
   // 获取所有可用工具
   router.get('/tools', (req: Request, res: Response) => {
     try {
@@ -326,7 +367,8 @@ export function createRoutes(clientManager: MCPClientManager, configManager: Con
         name: tool.name,
         description: tool.description,
         inputSchema: tool.inputSchema,
-        logseqCommand: tool.logseqCommand
+        logseqCommand: tool.logseqCommand,
+        policy: clientManager.getToolPolicy(serviceId, tool.name)
       }));
       
       res.json({ tools });
@@ -340,40 +382,98 @@ export function createRoutes(clientManager: MCPClientManager, configManager: Con
   router.post('/tools/:serviceId/:toolName', async (req: Request, res: Response) => {
     try {
       const { serviceId, toolName } = req.params;
-      const { arguments: toolArgs = {} } = req.body;
+      // approval 为插件确认界面的结果：{ decision: 'approved' | 'rejected', originalArguments? }
+      const { arguments: toolArgs = {}, approval } = req.body;
       
       const request: ToolCallRequest = {
         serviceId,
         toolName,
-        arguments: toolArgs
+        arguments: toolArgs,
+        originalArguments: approval?.originalArguments
       };
       
-      logger.info(`Calling tool ${toolName} on service ${serviceId}`, { arguments: toolArgs });
+      // 按工具策略检查是否允许调用
+      const policy = clientManager.getToolPolicy(serviceId, toolName);
+      if (policy === 'deny') {
+        clientManager.recordToolDecision(request, 'denied');
+        return res.status(403).json({
+          success: false,
+          policy,
+          decision: 'denied',
+          error: `Tool ${serviceId}/${toolName} is denied by policy`
+        });
+      }
+      if (policy === 'ask') {
+        if (approval?.decision === 'rejected') {
+          clientManager.recordToolDecision(request, 'rejected');
+          return res.json({
+            success: false,
+            policy,
+            decision: 'rejected',
+            error: `Tool ${serviceId}/${toolName} was rejected by user`
+          });
+        }
+        if (approval?.decision !== 'approved') {
+          return res.status(409).json({
+            success: false,
+            policy,
+            requiresApproval: true,
+            error: `Tool ${serviceId}/${toolName} requires user approval`
+          });
+        }
+        request.decision = 'approved';
+      } else {
+        request.decision = 'allowed';
+      }
+      
+      logger.info(`Calling tool ${toolName} on service ${serviceId}`, { arguments: toolArgs, decision: request.decision });
       
       const response = await clientManager.callTool(request);
       
       if (response.success) {
-        res.json({
+        return res.json({
           success: true,
           result: response.result,
-          metadata: response.metadata
-        });
-      } else {
-        res.status(400).json({
-          success: false,
-          error: response.error,
+          decision: request.decision,
           metadata: response.metadata
         });
       }
+      return res.status(400).json({
+        success: false,
+        error: response.error,
+        decision: request.decision,
+        metadata: response.metadata
+      });
     } catch (error) {
       logger.error('Error calling tool:', error);
-      res.status(500).json({ 
+      return res.status(500).json({ 
         success: false,
         error: 'Internal server error' 
       });
     }
   });
 
+  // 获取所有可用资源，可用 serviceId 过滤
+  router.get('/resources', (req: Request, res: Response) => {
+    try {
+      const { serviceId } = req.query;
+      const resources = clientManager.getAllResources()
+        .filter(item => !serviceId || item.serviceId === serviceId)
+        .map(({ serviceId, resource }) => ({
+          serviceId,
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType
+        }));
+      
+      res.json({ resources });
+    } catch (error) {
+      logger.error('Error getting resources:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // 读取资源
   router.get('/resources/:serviceId/*', async (req: Request, res: Response) => {
     try {
@@ -408,13 +508,112 @@ export function createRoutes(clientManager: MCPClientManager, configManager: Con
     }
   });
 
+  // 获取所有可用提示词，可用 serviceId 过滤
+  router.get('/prompts', (req: Request, res: Response) => {
+    try {
+      const { serviceId } = req.query;
+      const prompts = clientManager.getAllPrompts()
+        .filter(item => !serviceId || item.serviceId === serviceId)
+        .map(({ serviceId, prompt }) => ({
+          serviceId,
+          name: prompt.name,
+          description: prompt.description,
+          arguments: prompt.arguments || []
+        }));
+      
+      res.json({ prompts });
+    } catch (error) {
+      logger.error('Error getting prompts:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // 渲染提示词
+  router.post('/prompts/:serviceId/:promptName', async (req: Request, res: Response) => {
+    try {
+      const { serviceId, promptName } = req.params;
+      const { arguments: promptArgs = {} } = req.body;
+      
+      const request: PromptRequest = {
+        serviceId,
+        promptName,
+        // MCP 提示词参数只接受字符串
+        arguments: Object.fromEntries(
+          Object.entries(promptArgs as Record<string, any>)
+            .filter(([, value]) => value !== undefined && value !== null && value !== '')
+            .map(([key, value]) => [key, String(value)])
+        )
+      };
+      
+      logger.info(`Getting prompt ${promptName} from service ${serviceId}`, { arguments: request.arguments });
+      
+      const response = await clientManager.getPrompt(request);
+      
+      if (response.success) {
+        return res.json(response);
+      }
+      return res.status(400).json(response);
+    } catch (error) {
+      logger.error('Error getting prompt:', error);
+      return res.status(500).json({ 
+        success: false,
+        error: 'Internal server error' 
+      });
+    }
+  });
+
+  // 图谱 API（插件通道）
+
+  // 插件通道状态
+  router.get('/graph/status', (req: Request, res: Response) => {
+    const { graphServer } = configManager.getConfig();
+    res.json({
+      ...pluginChannel.getStatus(),
+      mcpServer: {
+        enabled: graphServer.enabled,
+        path: graphServer.path,
+        authRequired: !!graphServer.authToken
+      },
+      tools: GRAPH_TOOLS.map(tool => tool.name)
+    });
+  });
+
+  // 转发图谱请求给插件，供 stdio 模式的图谱 MCP 服务器使用
+  router.post('/graph/call', async (req: Request, res: Response) => {
+    const { enabled, authToken } = configManager.getConfig().graphServer;
+    if (!enabled) {
+      return res.status(404).json({ success: false, error: 'Graph MCP server is disabled' });
+    }
+    if (!isAuthorizedRequest(req, authToken)) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const { method, params = {} } = req.body || {};
+    if (!method || typeof method !== 'string') {
+      return res.status(400).json({ success: false, error: 'method is required' });
+    }
+    if (!pluginChannel.isConnected()) {
+      return res.status(503).json({ success: false, error: 'Logseq plugin is not connected to the bridge service' });
+    }
+
+    try {
+      const result = await pluginChannel.request(method, params);
+      return res.json({ success: true, result });
+    } catch (error) {
+      logger.warn(`Graph call ${method} failed:`, { error: error instanceof Error ? error.message : String(error) });
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Graph call failed'
+      });
+    }
+  });
+
   // 配置管理 API
   
   // 获取配置
   router.get('/config', (req: Request, res: Response) => {
     try {
-      const config = configManager.getConfig();
-      res.json(config);
+      res.json(configManager.getRedactedConfig());
     } catch (error) {
       logger.error('Error getting config:', error);
       res.status(500).json({ error: 'Internal server error' });
@@ -436,10 +635,24 @@ export function createRoutes(clientManager: MCPClientManager, configManager: Con
     }
   });
 
+  // 意图分析使用的工具列表（所有已连接服务的工具）
+  const getIntentTools = (): IntentTool[] => clientManager.getAllTools().map(({ serviceId, tool }: { serviceId: string, tool: { name: string, description: string, inputSchema: any } }) => ({
+    serviceId,
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema
+  }));
+
+  // 插件传入的当前块附件数量，缺省或格式不对时视为没有附件
+  const parseAttachments = (value: any): IntentAttachments => ({
+    images: Number.isInteger(value?.images) && value.images > 0 ? value.images : 0,
+    files: Number.isInteger(value?.files) && value.files > 0 ? value.files : 0
+  });
+
   // 智能意图分析端点
   router.post('/analyze-intent', async (req: Request, res: Response) => {
     try {
-      const { userInput, availableTools } = req.body;
+      const { userInput, availableTools, attachments } = req.body;
       
       if (!userInput || typeof userInput !== 'string') {
         res.status(400).json({ 
@@ -450,145 +663,116 @@ export function createRoutes(clientManager: MCPClientManager, configManager: Con
       }
 
       // 获取所有可用的MCP工具
-       const tools = availableTools || clientManager.getAllTools().map(({ serviceId, tool }: { serviceId: string, tool: { name: string, description: string, inputSchema: any } }) => ({
-         serviceId,
-         name: tool.name,
-         description: tool.description,
-         inputSchema: tool.inputSchema
-       }));
-
-       // 模拟意图分析函数
-       const analyzeMockIntent = (input: string, availableTools: any[]) => {
-         const lowerInput = input.toLowerCase();
-         
-         // 记忆相关关键词
-         if (lowerInput.includes('记住') || lowerInput.includes('保存') || lowerInput.includes('记录') || lowerInput.includes('存储')) {
-           const memoryTool = availableTools.find(t => t.serviceId === 'memory');
-           if (memoryTool) {
-             return {
-               needsMCP: true,
-               recommendedTool: {
-                 serviceId: 'memory',
-                 toolName: 'store_memory',
-                 arguments: { content: input.replace(/记住|保存|记录|存储/g, '').trim() },
-                 reasoning: '用户想要保存信息到记忆中'
-               }
-             };
-           }
-         }
-         
-         // 搜索记忆相关关键词
-         if (lowerInput.includes('回忆') || lowerInput.includes('查找') || lowerInput.includes('搜索记忆') || lowerInput.includes('之前说过')) {
-           const memoryTool = availableTools.find(t => t.serviceId === 'memory');
-           if (memoryTool) {
-             return {
-               needsMCP: true,
-               recommendedTool: {
-                 serviceId: 'memory',
-                 toolName: 'search_memory',
-                 arguments: { query: input },
-                 reasoning: '用户想要搜索之前的记忆'
-               }
-             };
-           }
-         }
-         
-         // 时间相关关键词
-         if (lowerInput.includes('时间') || lowerInput.includes('现在几点') || lowerInput.includes('日期') || lowerInput.includes('今天')) {
-           const timeTool = availableTools.find(t => t.serviceId === 'time');
-           if (timeTool) {
-             return {
-               needsMCP: true,
-               recommendedTool: {
-                 serviceId: 'time',
-                 toolName: 'get_current_time',
-                 arguments: {},
-                 reasoning: '用户询问当前时间或日期'
-               }
-             };
-           }
-         }
-         
-         // 文件操作相关关键词
-         if (lowerInput.includes('读取文件') || lowerInput.includes('查看文件') || lowerInput.includes('文件内容')) {
-           const fsTool = availableTools.find(t => t.serviceId === 'filesystem');
-           if (fsTool) {
-             return {
-               needsMCP: true,
-               recommendedTool: {
-                 serviceId: 'filesystem',
-                 toolName: 'read_file',
-                 arguments: { path: '' }, // 需要用户提供具体路径
-                 reasoning: '用户想要读取文件内容'
-               }
-             };
-           }
-         }
-         
-         // 网络请求相关关键词
-         if (lowerInput.includes('获取网页') || lowerInput.includes('访问') || lowerInput.includes('http') || lowerInput.includes('请求')) {
-           const fetchTool = availableTools.find(t => t.serviceId === 'fetch');
-           if (fetchTool) {
-             return {
-               needsMCP: true,
-               recommendedTool: {
-                 serviceId: 'fetch',
-                 toolName: 'fetch_url',
-                 arguments: { url: '' }, // 需要用户提供具体URL
-                 reasoning: '用户想要获取网页内容或进行网络请求'
-               }
-             };
-           }
-         }
-         
-         return {
-           needsMCP: false,
-           reasoning: '用户输入不需要调用特定的MCP工具，可以直接进行对话'
-         };
-       };
-
-      // 构建意图分析的提示词
-      const systemPrompt = `你是一个智能助手，负责分析用户输入并推荐合适的MCP工具。
-
-可用的MCP工具：
-${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description}`).join('\n')}
-
-请分析用户输入，判断是否需要调用MCP工具。如果需要，请返回JSON格式：
-{
-  "needsMCP": true,
-  "recommendedTool": {
-    "serviceId": "服务ID",
-    "toolName": "工具名称",
-    "arguments": {"参数对象"},
-    "reasoning": "选择理由"
-  }
-}
-
-如果不需要MCP工具，返回：
-{
-  "needsMCP": false,
-  "reasoning": "不需要工具的原因"
-}
+      const tools: IntentTool[] = availableTools || getIntentTools();
 
-分析以下用户输入：`;
-
-      const analysisPrompt = `${systemPrompt}\n\n用户输入："${userInput}"`;
-
-      // 使用真实的意图分析引擎
-       const userInputObj = { text: userInput, images: [] };
-       const mockAnalysis = await intentAnalyzer.analyzeIntent(userInputObj, tools);
+      const analysis = await intentAnalyzer.analyzeIntent({ text: userInput, images: [], attachments: parseAttachments(attachments) }, tools);
       
       res.json({
         success: true,
-        analysis: mockAnalysis,
+        analysis,
         availableTools: tools.length
       });
     } catch (error) {
-       logger.error('Error analyzing intent:', error);
-       res.status(500).json({ 
-         success: false, 
-         error: error instanceof Error ? error.message : 'Intent analysis failed' 
-       });
+      logger.error('Error analyzing intent:', error);
+      res.status(500).json({ 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Intent analysis failed' 
+      });
+    }
+  });
+
+  // 获取意图规则及加载状态
+  router.get('/intent/rules', (req: Request, res: Response) => {
+    res.json({ success: true, status: intentRules.getStatus(), rules: intentRules.getRules() });
+  });
+
+  // 重新加载意图规则文件（文件修改后也会自动重新加载）
+  router.post('/intent/rules/reload', (req: Request, res: Response) => {
+    const status = intentRules.reload();
+    res.status(status.error ? 400 : 200).json({ success: !status.error, status, error: status.error });
+  });
+
+  // 用一句话测试意图规则：返回所有命中的规则、因缺少能力跳过的规则和最终的分析结果
+  router.post('/intent/rules/test', (req: Request, res: Response) => {
+    const { text, availableTools } = req.body || {};
+    const attachments = parseAttachments(req.body?.attachments);
+    if (!text || typeof text !== 'string') {
+      res.status(400).json({ success: false, error: 'text is required and must be a string' });
+      return;
+    }
+    const tools: IntentTool[] = Array.isArray(availableTools) ? availableTools : getIntentTools();
+    const { matches, skipped } = intentRules.evaluate(text, tools, attachments);
+    res.json({
+      success: true,
+      matches: matches.map(match => ({
+        ruleId: match.rule.id,
+        priority: match.rule.priority,
+        matchedBy: match.matchedBy,
+        matched: match.matched,
+        captures: match.captures,
+        arguments: match.arguments,
+        target: match.rule.target
+      })),
+      skipped,
+      analysis: analyzeIntentByKeywords(text, tools, detectTaskType({ text, attachments }), attachments)
+    });
+  });
+
+  // 插件确认模式下用户纠正的路由决策，作为意图分析的少样本示例
+  router.get('/intent/corrections', (req: Request, res: Response) => {
+    res.json({ success: true, corrections: intentCorrections.list() });
+  });
+
+  router.post('/intent/corrections', (req: Request, res: Response) => {
+    const { value, error } = intentCorrectionSchema.validate(req.body || {}, { stripUnknown: true });
+    if (error) {
+      res.status(400).json({ success: false, error: error.message });
+      return;
+    }
+    const correction = intentCorrections.add(value);
+    logger.info('Intent correction recorded', {
+      predicted: value.predicted.capability || value.predicted.strategy,
+      corrected: value.corrected.capability || 'chat'
+    });
+    res.json({ success: true, correction });
+  });
+
+  router.delete('/intent/corrections/:id', (req: Request, res: Response) => {
+    if (!intentCorrections.remove(req.params.id)) {
+      res.status(404).json({ success: false, error: 'Correction not found' });
+      return;
+    }
+    res.json({ success: true });
+  });
+
+  router.delete('/intent/corrections', (req: Request, res: Response) => {
+    intentCorrections.clear();
+    res.json({ success: true });
+  });
+
+  // 意图分析离线评估：默认使用桩模型服务和内置语料，可传入 mode、stage、lang 和自定义 corpus
+  router.post('/intent/eval', async (req: Request, res: Response) => {
+    try {
+      const { mode, stage, lang, corpus } = req.body || {};
+      if (mode !== undefined && !['stub', 'live'].includes(mode)) {
+        res.status(400).json({ success: false, error: 'mode must be stub or live' });
+        return;
+      }
+      if (stage !== undefined && !['pipeline', 'keyword'].includes(stage)) {
+        res.status(400).json({ success: false, error: 'stage must be pipeline or keyword' });
+        return;
+      }
+      if (lang !== undefined && !['zh', 'en'].includes(lang)) {
+        res.status(400).json({ success: false, error: 'lang must be zh or en' });
+        return;
+      }
+
+      const report = await runIntentEval(configManager, { mode, stage, lang, corpus });
+      res.json({ success: true, report });
+    } catch (error) {
+      logger.error('Error running intent evaluation:', error);
+      const message = error instanceof Error ? error.message : 'Intent evaluation failed';
+      res.status(message.startsWith('Invalid intent corpus') ? 400 : 500).json({ success: false, error: message });
     }
   });
 
@@ -696,7 +880,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       const exampleConfig = {
         server: {
           port: 3000,
-          host: '0.0.0.0',
+          host: '127.0.0.1',
           logLevel: 'info',
           cors: {
             origin: ['*'],
@@ -737,7 +921,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
   // 文件处理 API
   
   // TTS 任务存储
-  const ttsTasksMap = new Map<string, {
+  const ttsTasksMap = taskStore.repository<{
     id: string;
     status: 'pending' | 'processing' | 'completed' | 'failed';
     text: string;
@@ -753,9 +937,10 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
     filename: string;
     filePath?: string;
     error?: string;
+    cancelled?: boolean;
     createdAt: number;
     completedAt?: number;
-  }>();
+  }>('tts', { omit: ['config.ttsApiKey'] });
 
   // 创建异步 TTS 任务
   router.post('/tts/create-task', async (req: Request, res: Response) => {
@@ -787,15 +972,9 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       
       logger.info(`Created TTS task: ${taskId}`);
       
-      // 立即开始处理任务（异步）
-      processTTSTask(taskId).catch(error => {
-        logger.error(`Error processing TTS task ${taskId}:`, error);
-        const task = ttsTasksMap.get(taskId);
-        if (task) {
-          task.status = 'failed';
-          task.error = error.message;
-        }
-      });
+      // 加入任务队列（异步）
+      enqueueTask(ttsTasksMap, taskId, 'tts', 'tts-api', resolvePriority(req.body.priority, 'high'),
+        signal => processTTSTask(taskId, signal));
       
       return res.json({
         success: true,
@@ -833,6 +1012,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
           filename: task.filename,
           filePath: task.filePath,
           error: task.error,
+          cancelled: task.cancelled,
           createdAt: task.createdAt,
           completedAt: task.completedAt
         }
@@ -847,7 +1027,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
   });
 
   // Qwen TTS 任务存储
-  const qwenTtsTasksMap = new Map<string, {
+  const qwenTtsTasksMap = taskStore.repository<{
     id: string;
     status: 'pending' | 'processing' | 'completed' | 'failed';
     text: string;
@@ -862,12 +1042,13 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
     filename: string;
     filePath?: string;
     error?: string;
+    cancelled?: boolean;
     createdAt: number;
     completedAt?: number;
-  }>();
+  }>('qwen-tts', { omit: ['config.qwenApiKey'] });
 
   // Qwen T2V 任务存储
-  const qwenT2VTasksMap = new Map<string, {
+  const qwenT2VTasksMap = taskStore.repository<{
     id: string;
     status: 'pending' | 'processing' | 'completed' | 'failed';
     prompt: string;
@@ -883,13 +1064,14 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
     videoUrl?: string;
     dashscopeTaskId?: string;
     error?: string;
+    cancelled?: boolean;
     createdAt: number;
     completedAt?: number;
     pollCount?: number;
-  }>();
+  }>('qwen-t2v', { omit: ['config.qwenApiKey'] });
 
   // Qwen I2V 任务存储
-  const qwenI2VTasksMap = new Map<string, {
+  const qwenI2VTasksMap = taskStore.repository<{
     id: string;
     status: 'pending' | 'processing' | 'completed' | 'failed';
     prompt: string;
@@ -906,10 +1088,11 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
     videoUrl?: string;
     dashscopeTaskId?: string;
     error?: string;
+    cancelled?: boolean;
     createdAt: number;
     completedAt?: number;
     pollCount?: number;
-  }>();
+  }>('qwen-i2v', { omit: ['config.qwenApiKey'] });
 
   // 创建异步 Qwen TTS 任务
   router.post('/qwen-tts/create-task', async (req: Request, res: Response) => {
@@ -941,15 +1124,9 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       
       logger.info(`Created Qwen TTS task: ${taskId}`);
       
-      // 立即开始处理任务（异步）
-      processQwenTTSTask(taskId).catch(error => {
-        logger.error(`Error processing Qwen TTS task ${taskId}:`, error);
-        const task = qwenTtsTasksMap.get(taskId);
-        if (task) {
-          task.status = 'failed';
-          task.error = error.message;
-        }
-      });
+      // 加入任务队列（异步）
+      enqueueTask(qwenTtsTasksMap, taskId, 'qwen-tts', 'dashscope', resolvePriority(req.body.priority, 'high'),
+        signal => processQwenTTSTask(taskId, signal));
       
       return res.json({
         success: true,
@@ -987,6 +1164,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
           filename: task.filename,
           filePath: task.filePath,
           error: task.error,
+          cancelled: task.cancelled,
           createdAt: task.createdAt,
           completedAt: task.completedAt
         }
@@ -1031,15 +1209,9 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       
       logger.info(`Created Qwen T2V task: ${taskId}`);
       
-      // 立即开始处理任务（异步）
-      processQwenT2VTask(taskId).catch(error => {
-        logger.error(`Error processing Qwen T2V task ${taskId}:`, error);
-        const task = qwenT2VTasksMap.get(taskId);
-        if (task) {
-          task.status = 'failed';
-          task.error = error.message;
-        }
-      });
+      // 加入任务队列（异步）
+      enqueueTask(qwenT2VTasksMap, taskId, 'qwen-t2v', 'dashscope', resolvePriority(req.body.priority, 'low'),
+        signal => processQwenT2VTask(taskId, signal));
       
       return res.json({
         success: true,
@@ -1078,6 +1250,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
           filePath: task.filePath,
           videoUrl: task.videoUrl,
           error: task.error,
+          cancelled: task.cancelled,
           createdAt: task.createdAt,
           completedAt: task.completedAt
         }
@@ -1123,15 +1296,9 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       
       logger.info(`Created Qwen I2V task: ${taskId}`);
       
-      // 立即开始处理任务（异步）
-      processQwenI2VTask(taskId).catch(error => {
-        logger.error(`Error processing Qwen I2V task ${taskId}:`, error);
-        const task = qwenI2VTasksMap.get(taskId);
-        if (task) {
-          task.status = 'failed';
-          task.error = error.message;
-        }
-      });
+      // 加入任务队列（异步）
+      enqueueTask(qwenI2VTasksMap, taskId, 'qwen-i2v', 'dashscope', resolvePriority(req.body.priority, 'low'),
+        signal => processQwenI2VTask(taskId, signal));
       
       return res.json({
         success: true,
@@ -1170,6 +1337,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
           filePath: task.filePath,
           videoUrl: task.videoUrl,
           error: task.error,
+          cancelled: task.cancelled,
           createdAt: task.createdAt,
           completedAt: task.completedAt
         }
@@ -1184,7 +1352,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
   });
 
   // 异步处理 Qwen TTS 任务的函数
-  async function processQwenTTSTask(taskId: string): Promise<void> {
+  async function processQwenTTSTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = qwenTtsTasksMap.get(taskId);
     if (!task) {
       throw new Error('Task not found');
@@ -1211,7 +1379,8 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
           'Content-Type': 'application/json',
           'X-DashScope-Async': 'enable'
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal
       });
       
       if (!response.ok) {
@@ -1230,7 +1399,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
        }
       
       // 下载音频文件
-      const audioResponse = await fetch(audioUrl);
+      const audioResponse = await fetch(audioUrl, { signal });
       if (!audioResponse.ok) {
         throw new Error(`音频下载失败: ${audioResponse.status}`);
       }
@@ -1253,6 +1422,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       const relativePath = path.join('assets', uniqueFilename);
       
       // 保存文件
+      signal?.throwIfAborted();
       fs.writeFileSync(filePath, Buffer.from(audioBuffer));
       
       // 更新任务状态
@@ -1263,15 +1433,14 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       logger.info(`Qwen TTS task completed: ${taskId}, file saved to: ${filePath}`);
       
     } catch (error) {
-      task.status = 'failed';
-      task.error = error instanceof Error ? error.message : 'Unknown error';
-      logger.error(`Qwen TTS task failed: ${taskId}`, error);
+      // 最终失败状态由任务队列在重试用尽后写入
+      logger.error(`Qwen TTS task attempt failed: ${taskId}`, error);
       throw error;
     }
   }
 
   // 异步处理 Qwen T2V 任务的函数
-  async function processQwenT2VTask(taskId: string): Promise<void> {
+  async function processQwenT2VTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = qwenT2VTasksMap.get(taskId);
     if (!task) {
       throw new Error('Task not found');
@@ -1281,6 +1450,12 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       task.status = 'processing';
       logger.info(`Processing Qwen T2V task: ${taskId}`);
       
+      // 重试或服务重启后已有 DashScope 任务时直接继续轮询，避免重复提交
+      if (task.dashscopeTaskId) {
+        await pollQwenVideoTaskStatus(taskId, 't2v', signal);
+        return;
+      }
+      
       // 从配置管理器获取 API 密钥
       const config = configManager.getConfig();
       const dashscopeApiKey = config.api.dashscopeApiKey;
@@ -1313,7 +1488,8 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
           'Content-Type': 'application/json',
           'X-DashScope-Async': 'enable'
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal
       });
       
       if (!response.ok) {
@@ -1329,21 +1505,20 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
         logger.info(`Qwen T2V task ${taskId} created with DashScope task ID: ${task.dashscopeTaskId}`);
         
         // 开始轮询任务状态
-        await pollQwenVideoTaskStatus(taskId, 't2v');
+        await pollQwenVideoTaskStatus(taskId, 't2v', signal);
       } else {
         throw new Error('响应格式错误：未找到任务ID');
       }
       
     } catch (error) {
-      task.status = 'failed';
-      task.error = error instanceof Error ? error.message : 'Unknown error';
-      logger.error(`Qwen T2V task failed: ${taskId}`, error);
+      // 最终失败状态由任务队列在重试用尽后写入
+      logger.error(`Qwen T2V task attempt failed: ${taskId}`, error);
       throw error;
     }
   }
 
   // 异步处理 Qwen I2V 任务的函数
-  async function processQwenI2VTask(taskId: string): Promise<void> {
+  async function processQwenI2VTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = qwenI2VTasksMap.get(taskId);
     if (!task) {
       throw new Error('Task not found');
@@ -1353,6 +1528,12 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       task.status = 'processing';
       logger.info(`Processing Qwen I2V task: ${taskId}`);
       
+      // 重试或服务重启后已有 DashScope 任务时直接继续轮询，避免重复提交
+      if (task.dashscopeTaskId) {
+        await pollQwenVideoTaskStatus(taskId, 'i2v', signal);
+        return;
+      }
+      
       // 从配置管理器获取 API 密钥
       const config = configManager.getConfig();
       const dashscopeApiKey = config.api.dashscopeApiKey;
@@ -1386,7 +1567,8 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
           'Content-Type': 'application/json',
           'X-DashScope-Async': 'enable'
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal
       });
       
       if (!response.ok) {
@@ -1402,21 +1584,20 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
         logger.info(`Qwen I2V task ${taskId} created with DashScope task ID: ${task.dashscopeTaskId}`);
         
         // 开始轮询任务状态
-        await pollQwenVideoTaskStatus(taskId, 'i2v');
+        await pollQwenVideoTaskStatus(taskId, 'i2v', signal);
       } else {
         throw new Error('响应格式错误：未找到任务ID');
       }
       
     } catch (error) {
-      task.status = 'failed';
-      task.error = error instanceof Error ? error.message : 'Unknown error';
-      logger.error(`Qwen I2V task failed: ${taskId}`, error);
+      // 最终失败状态由任务队列在重试用尽后写入
+      logger.error(`Qwen I2V task attempt failed: ${taskId}`, error);
       throw error;
     }
   }
 
-  // 轮询 Qwen 视频任务状态的函数
-  async function pollQwenVideoTaskStatus(taskId: string, taskType: 't2v' | 'i2v'): Promise<void> {
+  // 轮询 Qwen 视频任务状态的函数，视频完成前一直占用队列中的并发名额
+  async function pollQwenVideoTaskStatus(taskId: string, taskType: 't2v' | 'i2v', signal?: AbortSignal): Promise<void> {
     const taskMap = taskType === 't2v' ? qwenT2VTasksMap : qwenI2VTasksMap;
     const task = taskMap.get(taskId);
     if (!task) {
@@ -1424,105 +1605,85 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
     }
     
     const maxAttempts = 120; // 最大轮询次数（约30分钟）
-    let attempts = 0;
     
-    const poll = async (): Promise<void> => {
-      try {
-        attempts++;
-        task.pollCount = attempts;
-        
-        // 计算轮询间隔：前1分钟4秒一次，4分钟后15秒一次
-        const elapsedTime = Date.now() - task.createdAt;
-        let pollInterval: number;
-        if (elapsedTime < 60 * 1000) { // 前1分钟
-          pollInterval = 4 * 1000; // 4秒
-        } else if (elapsedTime < 4 * 60 * 1000) { // 1-4分钟
-          pollInterval = 8 * 1000; // 8秒
-        } else { // 4分钟后
-          pollInterval = 15 * 1000; // 15秒
-        }
-        
-        logger.info(`Polling Qwen ${taskType.toUpperCase()} task ${taskId}, attempt ${attempts}/${maxAttempts}`);
-        
-        // 查询任务状态
-        const config = configManager.getConfig();
-        const dashscopeApiKey = config.api.dashscopeApiKey;
-        
-        const response = await fetch(`https://dashscope.aliyuncs.com/api/v1/tasks/${task.dashscopeTaskId}`, {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${dashscopeApiKey}`,
-            'Content-Type': 'application/json'
-          }
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Status query failed: ${response.status}`);
+    for (let attempts = 1; ; attempts++) {
+      task.pollCount = attempts;
+      
+      // 计算轮询间隔：前1分钟4秒一次，4分钟后15秒一次
+      const elapsedTime = Date.now() - task.createdAt;
+      let pollInterval: number;
+      if (elapsedTime < 60 * 1000) { // 前1分钟
+        pollInterval = 4 * 1000; // 4秒
+      } else if (elapsedTime < 4 * 60 * 1000) { // 1-4分钟
+        pollInterval = 8 * 1000; // 8秒
+      } else { // 4分钟后
+        pollInterval = 15 * 1000; // 15秒
+      }
+      
+      logger.info(`Polling Qwen ${taskType.toUpperCase()} task ${taskId}, attempt ${attempts}/${maxAttempts}`);
+      
+      // 查询任务状态
+      const config = configManager.getConfig();
+      const dashscopeApiKey = config.api.dashscopeApiKey;
+      
+      const response = await fetch(`https://dashscope.aliyuncs.com/api/v1/tasks/${task.dashscopeTaskId}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${dashscopeApiKey}`,
+          'Content-Type': 'application/json'
+        },
+        signal
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Status query failed: ${response.status}`);
+      }
+      
+      const statusData: any = await response.json();
+      
+      // 添加调试日志
+      logger.info(`DashScope API response for task ${taskId}: ${JSON.stringify(statusData, null, 2)}`);
+      
+      if (!statusData.output) {
+        throw new Error('状态查询响应格式错误');
+      }
+      
+      if (statusData.output.task_status === 'SUCCEEDED') {
+        // 任务成功完成
+        if (!statusData.output.video_url) {
+          logger.error(`Task ${taskId} completed but no video_url found. Response structure: ${JSON.stringify(statusData.output, null, 2)}`);
+          throw new Error('任务完成但未找到视频URL');
         }
+        const videoUrl = statusData.output.video_url;
+        task.videoUrl = videoUrl;
         
-        const statusData: any = await response.json();
-        
-        // 添加调试日志
-        logger.info(`DashScope API response for task ${taskId}: ${JSON.stringify(statusData, null, 2)}`);
-        
-        if (statusData.output) {
-          if (statusData.output.task_status === 'SUCCEEDED') {
-            // 任务成功完成
-            if (statusData.output.video_url) {
-              const videoUrl = statusData.output.video_url;
-              task.videoUrl = videoUrl;
-              
-              // 下载视频文件
-              await downloadVideoFile(taskId, videoUrl, taskType);
-              
-              task.status = 'completed';
-              task.completedAt = Date.now();
-              logger.info(`Qwen ${taskType.toUpperCase()} task completed: ${taskId}`);
-              return;
-            } else {
-              logger.error(`Task ${taskId} completed but no video_url found. Response structure: ${JSON.stringify(statusData.output, null, 2)}`);
-              throw new Error('任务完成但未找到视频URL');
-            }
-          } else if (statusData.output.task_status === 'FAILED') {
-            // 任务失败
-            const errorMsg = statusData.output.message || '视频生成失败';
-            throw new Error(errorMsg);
-          } else if (statusData.output.task_status === 'PENDING' || statusData.output.task_status === 'RUNNING') {
-            // 任务仍在进行中
-            if (attempts >= maxAttempts) {
-              throw new Error('任务超时：视频生成时间过长');
-            }
-            
-            // 继续轮询
-            setTimeout(() => {
-              poll().catch(error => {
-                task.status = 'failed';
-                task.error = error.message;
-                logger.error(`Qwen ${taskType.toUpperCase()} polling failed: ${taskId}`, error);
-              });
-            }, pollInterval);
-            return;
-          } else {
-            throw new Error(`未知任务状态: ${statusData.output.task_status}`);
-          }
-        } else {
-          throw new Error('状态查询响应格式错误');
-        }
+        // 下载视频文件
+        await downloadVideoFile(taskId, videoUrl, taskType, signal);
         
-      } catch (error) {
-        task.status = 'failed';
-        task.error = error instanceof Error ? error.message : 'Unknown error';
-        logger.error(`Qwen ${taskType.toUpperCase()} task polling failed: ${taskId}`, error);
-        throw error;
+        task.status = 'completed';
+        task.completedAt = Date.now();
+        logger.info(`Qwen ${taskType.toUpperCase()} task completed: ${taskId}`);
+        return;
+      } else if (statusData.output.task_status === 'FAILED') {
+        // 任务失败
+        const errorMsg = statusData.output.message || '视频生成失败';
+        throw new Error(errorMsg);
+      } else if (statusData.output.task_status !== 'PENDING' && statusData.output.task_status !== 'RUNNING') {
+        throw new Error(`未知任务状态: ${statusData.output.task_status}`);
       }
-    };
-    
-    // 开始轮询
-    await poll();
+      
+      // 任务仍在进行中
+      if (attempts >= maxAttempts) {
+        throw new Error('任务超时：视频生成时间过长');
+      }
+      
+      // 继续轮询
+      await sleep(pollInterval, signal);
+    }
   }
 
   // 下载视频文件的函数
-  async function downloadVideoFile(taskId: string, videoUrl: string, taskType: 't2v' | 'i2v'): Promise<void> {
+  async function downloadVideoFile(taskId: string, videoUrl: string, taskType: 't2v' | 'i2v', signal?: AbortSignal): Promise<void> {
     const taskMap = taskType === 't2v' ? qwenT2VTasksMap : qwenI2VTasksMap;
     const task = taskMap.get(taskId);
     if (!task) {
@@ -1533,7 +1694,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       logger.info(`Downloading video for ${taskType.toUpperCase()} task: ${taskId}`);
       
       // 下载视频文件
-      const videoResponse = await fetch(videoUrl);
+      const videoResponse = await fetch(videoUrl, { signal });
       if (!videoResponse.ok) {
         throw new Error(`视频下载失败: ${videoResponse.status}`);
       }
@@ -1556,6 +1717,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       const relativePath = path.join('assets', uniqueFilename);
       
       // 保存文件
+      signal?.throwIfAborted();
       fs.writeFileSync(filePath, Buffer.from(videoBuffer));
       
       // 更新任务状态
@@ -1570,7 +1732,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
   }
 
   // 异步处理 TTS 任务的函数
-  async function processTTSTask(taskId: string): Promise<void> {
+  async function processTTSTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = ttsTasksMap.get(taskId);
     if (!task) {
       throw new Error('Task not found');
@@ -1596,7 +1758,8 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
           'Authorization': `Bearer ${task.config.ttsApiKey}`,
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal
       });
       
       if (!response.ok) {
@@ -1623,6 +1786,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       const relativePath = path.join('assets', uniqueFilename);
       
       // 保存文件
+      signal?.throwIfAborted();
       fs.writeFileSync(filePath, Buffer.from(audioBuffer));
       
       // 更新任务状态
@@ -1633,9 +1797,8 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       logger.info(`TTS task completed: ${taskId}, file saved to: ${filePath}`);
       
     } catch (error) {
-      task.status = 'failed';
-      task.error = error instanceof Error ? error.message : 'Unknown error';
-      logger.error(`TTS task failed: ${taskId}`, error);
+      // 最终失败状态由任务队列在重试用尽后写入
+      logger.error(`TTS task attempt failed: ${taskId}`, error);
       throw error;
     }
   }
@@ -1848,6 +2011,164 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
     }
   });
 
+  // 未指定优先级时按任务类型使用默认值：TTS 高、图像普通、视频低
+  function resolvePriority(value: unknown, fallback: JobPriority): JobPriority {
+    return value === 'high' || value === 'normal' || value === 'low' ? value : fallback;
+  }
+
+  /**
+   * 把任务交给统一任务队列执行，并把队列状态同步到任务记录
+   * 重试等待期间任务回到 pending；重试用尽后标记 failed；取消后标记 failed 并带 cancelled 标记
+   */
+  function enqueueTask<T extends StoredTask & { error?: string; dashscopeTaskId?: string }>(
+    taskMap: TaskRepository<T>,
+    taskId: string,
+    kind: string,
+    provider: string,
+    priority: JobPriority,
+    run: (signal: AbortSignal) => Promise<void>,
+    onFailed?: (error: Error) => void
+  ): void {
+    const getTask = (): (StoredTask & { error?: string; dashscopeTaskId?: string }) | undefined => taskMap.get(taskId);
+    jobQueue.enqueue({
+      id: taskId,
+      kind,
+      provider,
+      priority,
+      run,
+      onRetry: () => {
+        const task = getTask();
+        if (task) {
+          task.status = 'pending';
+        }
+      },
+      onFailed: (error) => {
+        const task = getTask();
+        if (task) {
+          task.status = 'failed';
+          task.error = error.message;
+        }
+        onFailed?.(error);
+      },
+      onCancel: () => {
+        const task = getTask();
+        if (!task) {
+          return;
+        }
+        markTaskCancelled(task);
+        // 视频任务已提交到 DashScope 时尽量取消云端任务（只有排队中的云端任务可取消）
+        if (task.dashscopeTaskId) {
+          cancelDashScopeTask(task.dashscopeTaskId);
+        }
+      }
+    });
+  }
+
+  function enqueueImageTask(taskId: string, priority: JobPriority): void {
+    enqueueTask(imageTasksMap, taskId, 'image', 'image-api', priority, signal => processImageTask(taskId, signal), error => {
+      // 找到当前正在处理的步骤并标记为失败
+      const processingStep = imageTasksMap.get(taskId)?.processSteps?.find(step => step.status === 'processing');
+      if (processingStep) {
+        processingStep.status = 'failed';
+        processingStep.endTime = Date.now();
+        processingStep.details = { error: error.message };
+        imageTasksMap.save(taskId);
+      }
+    });
+  }
+
+  function markTaskCancelled(task: StoredTask & { error?: string }): void {
+    task.status = 'failed';
+    task.error = 'Cancelled';
+    task.cancelled = true;
+    task.completedAt = Date.now();
+  }
+
+  function cancelDashScopeTask(dashscopeTaskId: string): void {
+    fetch(`https://dashscope.aliyuncs.com/api/v1/tasks/${dashscopeTaskId}/cancel`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${configManager.getConfig().api.dashscopeApiKey}`
+      }
+    }).then(response => {
+      logger.info(`DashScope task cancel requested: ${dashscopeTaskId}, status ${response.status}`);
+    }).catch(error => {
+      logger.warn(`Failed to cancel DashScope task ${dashscopeTaskId}:`, error);
+    });
+  }
+
+  // 取消任务：排队中的任务直接移除，运行中的任务中止请求
+  router.delete('/tasks/:taskId', (req: Request, res: Response) => {
+    try {
+      const { taskId } = req.params;
+      const repositories: TaskRepository<StoredTask & { error?: string }>[] = [
+        imageTasksMap, ttsTasksMap, qwenTtsTasksMap, qwenT2VTasksMap, qwenI2VTasksMap
+      ];
+      const repository = repositories.find(item => item.has(taskId));
+
+      if (!repository) {
+        if (aiCapabilities.getTask(taskId)) {
+          return aiCapabilities.cancelTask(taskId)
+            ? res.json({ success: true, taskId, status: 'failed', cancelled: true })
+            : res.status(409).json({ success: false, error: 'Task already finished' });
+        }
+        return res.status(404).json({
+          success: false,
+          error: 'Task not found'
+        });
+      }
+
+      const task = repository.get(taskId)!;
+      if (task.status === 'completed' || task.status === 'failed') {
+        return res.status(409).json({
+          success: false,
+          error: 'Task already finished'
+        });
+      }
+
+      // 没有对应队列任务（如重启恢复失败的任务）时直接标记
+      if (!jobQueue.cancel(taskId)) {
+        markTaskCancelled(task);
+      }
+      logger.info(`Task cancelled: ${taskId}`);
+
+      return res.json({
+        success: true,
+        taskId,
+        status: task.status,
+        cancelled: true
+      });
+    } catch (error) {
+      logger.error('Error cancelling task:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // 任务队列状态：各提供商的并发、速率和排队情况
+  router.get('/queue', (req: Request, res: Response) => {
+    try {
+      return res.json({
+        success: true,
+        providers: jobQueue.getStats(),
+        jobs: jobQueue.list()
+      });
+    } catch (error) {
+      logger.error('Error getting queue status:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error'
+      });
+    }
+  });
+
+  // 任务事件流（SSE）：推送所有任务的状态变化，客户端据此更新界面，断开时回退到轮询
+  router.get('/events', (req: Request, res: Response) => {
+    taskEvents.handle(req, res);
+  });
+
   // 获取所有任务状态
   router.get('/tasks', (req: Request, res: Response) => {
     try {
@@ -2393,8 +2714,38 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
         // 初始加载
         loadTasks();
         
-        // 自动刷新（每30秒）
-        setInterval(loadTasks, 30000);
+        // 任务变化通过事件流推送，事件流断开时回退到每30秒刷新
+        let refreshTimer = null;
+        let reloadTimer = null;
+        
+        function startPolling() {
+            if (!refreshTimer) {
+                refreshTimer = setInterval(loadTasks, 30000);
+            }
+        }
+        
+        function stopPolling() {
+            if (refreshTimer) {
+                clearInterval(refreshTimer);
+                refreshTimer = null;
+            }
+        }
+        
+        if (window.EventSource) {
+            const events = new EventSource('/api/events');
+            events.onopen = () => {
+                stopPolling();
+                loadTasks();
+            };
+            events.addEventListener('task', () => {
+                // 合并短时间内的多个事件
+                clearTimeout(reloadTimer);
+                reloadTimer = setTimeout(loadTasks, 500);
+            });
+            events.onerror = startPolling;
+        } else {
+            startPolling();
+        }
     </script>
 </body>
 </html>
@@ -2443,9 +2794,10 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       
       logger.info(`Created direct image generation task: ${taskId}`);
       
-      // 同步处理任务
+      // 经任务队列处理，等待完成后返回
       try {
-        await processImageTask(taskId);
+        enqueueImageTask(taskId, resolvePriority(req.body.priority, 'normal'));
+        await jobQueue.waitFor(taskId);
         const completedTask = imageTasksMap.get(taskId);
         
         if (completedTask?.status === 'completed') {
@@ -2657,28 +3009,9 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       
       logger.info(`Created image generation task: ${taskId}, type: ${type}`);
       
-      // 立即开始处理任务（异步）
-      logger.info(`Starting to process image task: ${taskId}`);
-      processImageTask(taskId).catch(error => {
-        logger.error(`Error processing image task ${taskId}:`, error);
-        logger.error(`Error stack:`, error.stack);
-        const task = imageTasksMap.get(taskId);
-        if (task) {
-          task.status = 'failed';
-          task.error = error.message;
-          
-          // 更新处理步骤状态
-          if (task.processSteps) {
-            // 找到当前正在处理的步骤并标记为失败
-            const processingStep = task.processSteps.find(step => step.status === 'processing');
-            if (processingStep) {
-              processingStep.status = 'failed';
-              processingStep.endTime = Date.now();
-              processingStep.details = { error: error.message };
-            }
-          }
-        }
-      });
+      // 加入任务队列（异步）
+      logger.info(`Queueing image task: ${taskId}`);
+      enqueueImageTask(taskId, resolvePriority(req.body.priority, 'normal'));
       
       return res.json({
         success: true,
@@ -2717,6 +3050,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
           filename: task.filename,
           filePath: task.filePath,
           error: task.error,
+          cancelled: task.cancelled,
           createdAt: task.createdAt,
           completedAt: task.completedAt
         }
@@ -2731,7 +3065,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
   });
 
   // 图像生成任务处理函数
-  async function processImageTask(taskId: string): Promise<void> {
+  async function processImageTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = imageTasksMap.get(taskId);
     if (!task) {
       logger.error(`Image task ${taskId} not found`);
@@ -2762,13 +3096,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       // 如果没有配置API密钥，提示用户配置而不是使用测试图片
       if (!imageApiKey) {
         logger.warn('Image API key not configured');
-        task.status = 'failed';
-        task.error = '图像API密钥未配置。请在配置页面 (http://localhost:3000/config) 设置有效的图像API密钥后重试。\n\n当前配置状态：\n- API地址：' + imageApiAddress + '\n- API密钥：未配置\n\n请确保配置了有效的OpenAI兼容的图像生成API密钥。';
-         logger.info(`Image task ${taskId} failed due to missing API key`);
-         return;
-        
-        logger.info(`Image task ${taskId} completed with test image`);
-        return;
+        throw new Error('图像API密钥未配置。请在配置页面 (http://localhost:3000/config) 设置有效的图像API密钥后重试。\n\n当前配置状态：\n- API地址：' + imageApiAddress + '\n- API密钥：未配置\n\n请确保配置了有效的OpenAI兼容的图像生成API密钥。');
       }
       
       let apiUrl = imageApiAddress;
@@ -2889,7 +3217,8 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
             const response = await fetch(apiEndpoint, {
               method: 'POST',
               headers: requestHeaders,
-              body: JSON.stringify(requestParams)
+              body: JSON.stringify(requestParams),
+              signal
             });
             
             const result = await response.json() as any;
@@ -3251,7 +3580,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
           method: 'POST',
           headers,
           body: JSON.stringify(requestBody),
-          signal: AbortSignal.timeout(requestTimeout) // 使用配置的超时时间
+          signal: withTimeout(requestTimeout, signal) // 使用配置的超时时间，取消任务时同时中止
         });
         
         if (!response.ok) {
@@ -3373,6 +3702,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       }
 
       // 更新任务状态
+      signal?.throwIfAborted();
       task.status = 'completed';
       task.filePath = `http://localhost:3000/images/${task.filename}`;
       task.completedAt = Date.now();
@@ -3380,9 +3710,9 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       logger.info(`Image task ${taskId} completed successfully`);
       
     } catch (error) {
-      logger.error(`Image task ${taskId} failed:`, error);
-      task.status = 'failed';
-      task.error = error instanceof Error ? error.message : 'Unknown error';
+      // 最终失败状态由任务队列在重试用尽后写入
+      logger.error(`Image task ${taskId} attempt failed:`, error);
+      throw error;
     }
   }
 
@@ -3390,6 +3720,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
   router.get('/api-config', (req: Request, res: Response) => {
     try {
       const apiConfig = configManager.getApiConfig();
+      const intentConfig = configManager.getIntentConfig();
       const config = {
         imageApiAddress: apiConfig.imageApiAddress,
         imageApiKey: apiConfig.imageApiKey ? '***' + apiConfig.imageApiKey.slice(-4) : '',
@@ -3409,6 +3740,9 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
         qwenTtsModel: apiConfig.qwenTtsModel,
         qwenTtsVoice: apiConfig.qwenTtsVoice,
         qwenTtsFormat: apiConfig.qwenTtsFormat,
+        ollamaAddress: apiConfig.ollamaAddress,
+        ollamaModel: apiConfig.ollamaModel,
+        intent: { ...intentConfig, apiKey: intentConfig.apiKey ? '***' + intentConfig.apiKey.slice(-4) : '' },
         logLevel: configManager.getConfig().server.logLevel,
         requestTimeout: apiConfig.requestTimeout
       };
@@ -3436,6 +3770,7 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
         'imageEditResponseFormat', 'imageEditSize', 'imageEditCount',
         'ttsApiAddress', 'ttsApiKey', 'ttsModel', 'ttsVoice', 'ttsResponseFormat', 'ttsSpeed',
         'dashscopeApiKey', 'qwenTtsModel', 'qwenTtsVoice', 'qwenTtsFormat',
+        'ollamaAddress', 'ollamaModel', 'intent',
         'logLevel', 'requestTimeout'
       ];
       const updates: any = {};
@@ -3457,6 +3792,16 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
         return;
       }
       
+      if (updates.ollamaAddress && !isValidUrl(updates.ollamaAddress)) {
+        res.status(400).json({ error: 'Invalid Ollama address URL' });
+        return;
+      }
+      
+      if (updates.intent !== undefined && (typeof updates.intent !== 'object' || updates.intent === null)) {
+        res.status(400).json({ error: 'Intent config must be an object' });
+        return;
+      }
+      
       // 验证日志级别
       if (updates.logLevel && !['error', 'warn', 'info', 'debug'].includes(updates.logLevel)) {
         res.status(400).json({ error: 'Invalid log level' });
@@ -3490,6 +3835,18 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
       if (updates.qwenTtsVoice !== undefined) apiUpdates.qwenTtsVoice = updates.qwenTtsVoice;
       if (updates.qwenTtsFormat !== undefined) apiUpdates.qwenTtsFormat = updates.qwenTtsFormat;
       if (updates.requestTimeout !== undefined) apiUpdates.requestTimeout = updates.requestTimeout;
+      if (updates.ollamaAddress !== undefined) apiUpdates.ollamaAddress = updates.ollamaAddress;
+      if (updates.ollamaModel !== undefined) apiUpdates.ollamaModel = updates.ollamaModel;
+      
+      // 意图分析配置单独校验，失败时不保存任何更新
+      if (updates.intent) {
+        try {
+          configManager.updateIntentConfig(updates.intent);
+        } catch (error) {
+          res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid intent configuration' });
+          return;
+        }
+      }
       
       if (Object.keys(apiUpdates).length > 0) {
         configManager.updateApiConfig(apiUpdates);
@@ -3509,6 +3866,9 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
         ttsApiAddress: updates.ttsApiAddress || 'unchanged',
         ttsApiKey: updates.ttsApiKey ? '***' + updates.ttsApiKey.slice(-4) : 'unchanged',
         dashscopeApiKey: updates.dashscopeApiKey ? '***' + updates.dashscopeApiKey.slice(-4) : 'unchanged',
+        ollamaAddress: updates.ollamaAddress || 'unchanged',
+        ollamaModel: updates.ollamaModel || 'unchanged',
+        intentProvider: updates.intent?.provider || 'unchanged',
         logLevel: updates.logLevel || 'unchanged',
         requestTimeout: updates.requestTimeout || 'unchanged'
       });
@@ -3802,6 +4162,22 @@ ${tools.map((tool: any) => `- ${tool.serviceId}/${tool.name}: ${tool.description
     res.sendFile(path.join(__dirname, '../../public/dashboard.html'));
   });
 
+  // 恢复重启前未完成的任务：已提交到 DashScope 的视频任务继续轮询，其他任务无法续做，标记为失败
+  for (const [taskMap, taskType] of [[qwenT2VTasksMap, 't2v'], [qwenI2VTasksMap, 'i2v']] as const) {
+    for (const task of taskMap.unfinished()) {
+      if (!task.dashscopeTaskId) {
+        continue;
+      }
+      logger.info(`Resuming Qwen ${taskType.toUpperCase()} task ${task.id} (DashScope task ${task.dashscopeTaskId})`);
+      enqueueTask(taskMap, task.id, `qwen-${taskType}`, 'dashscope', 'low',
+        signal => taskType === 't2v' ? processQwenT2VTask(task.id, signal) : processQwenI2VTask(task.id, signal));
+    }
+    taskStore.failUnfinished(taskMap, task => !!task.dashscopeTaskId);
+  }
+  taskStore.failUnfinished(imageTasksMap);
+  taskStore.failUnfinished(ttsTasksMap);
+  taskStore.failUnfinished(qwenTtsTasksMap);
+
   // 静态文件服务
   router.use('/temp-images', express.static(path.join(__dirname, '../../temp-images')));
   router.use(express.static(path.join(__dirname, '../../public')));
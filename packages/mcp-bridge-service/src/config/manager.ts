@@ -2,18 +2,22 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as joi from 'joi';
 import { EventEmitter } from 'events';
-import { BridgeConfig, MCPServiceConfig, APIConfig } from './types';
+import { BridgeConfig, MCPServiceConfig, APIConfig, IntentConfig } from './types';
 import { logger } from '../utils/logger';
+import { generateAuthToken, maskSecret } from '../utils/auth';
 
 const serviceConfigSchema = joi.object({
   id: joi.string().required(),
   name: joi.string().required(),
   description: joi.string().optional(),
-  type: joi.string().valid('stdio', 'sse', 'websocket').required(),
+  type: joi.string().valid('stdio', 'sse', 'streamable-http', 'websocket').required(),
   command: joi.string().when('type', { is: 'stdio', then: joi.required() }),
   args: joi.array().items(joi.string()).optional(),
   env: joi.object().pattern(joi.string(), joi.string()).optional(),
+  cwd: joi.string().optional(),
   url: joi.string().when('type', { is: joi.not('stdio'), then: joi.required() }),
+  headers: joi.object().pattern(joi.string(), joi.string()).optional(),
+  toolPolicies: joi.object().pattern(joi.string(), joi.string().valid('allow', 'ask', 'deny')).optional(),
   enabled: joi.boolean().default(true),
   tools: joi.array().items(joi.object({
     name: joi.string().required(),
@@ -34,10 +38,25 @@ const serviceConfigSchema = joi.object({
   })).optional()
 });
 
+const intentConfigSchema = joi.object({
+  provider: joi.string().valid('auto', 'dashscope', 'openai', 'ollama', 'keyword').default('auto'),
+  model: joi.string().allow('').default(''),
+  baseUrl: joi.string().allow('').default(''),
+  apiKey: joi.string().allow('').default(''),
+  temperature: joi.number().min(0).max(2).default(0.1),
+  timeoutMs: joi.number().integer().min(1000).default(10000),
+  keywordFallback: joi.boolean().default(true),
+  rulesPath: joi.string().default('intent-rules.toml'),
+  ruleConfidenceThreshold: joi.number().min(0).max(1).default(0.9),
+  correctionsPath: joi.string().default('data/intent-corrections.json'),
+  maxCorrections: joi.number().integer().min(0).default(200),
+  fewShotExamples: joi.number().integer().min(0).max(20).default(5)
+});
+
 const configSchema = joi.object({
   server: joi.object({
     port: joi.number().port().default(3000),
-    host: joi.string().default('0.0.0.0'),
+    host: joi.string().default('127.0.0.1'),
     logLevel: joi.string().default('info'),
     cors: joi.object({
       origin: joi.array().items(joi.string()).default(['*']),
@@ -54,8 +73,8 @@ const configSchema = joi.object({
     imageEditResponseFormat: joi.string().default('b64_json'),
     imageEditSize: joi.string().default('auto'),
     imageEditCount: joi.string().default('1'),
-    ttsApiAddress: joi.string().default(''),
-    ttsApiKey: joi.string().default(''),
+    ttsApiAddress: joi.string().allow('').default(''),
+    ttsApiKey: joi.string().allow('').default(''),
     ttsModel: joi.string().default('tts-1'),
     ttsVoice: joi.string().default('alloy'),
     ttsResponseFormat: joi.string().default('mp3'),
@@ -69,10 +88,39 @@ const configSchema = joi.object({
     qwenVideoT2VModel: joi.string().default('qwen-vl-max'),
     qwenVideoI2VModel: joi.string().default('qwen-vl-max'),
     qwenVideoResolution: joi.string().default('720p'),
-    qwenVideoPromptExtend: joi.boolean().default(true)
+    qwenVideoPromptExtend: joi.boolean().default(true),
+    ollamaAddress: joi.string().allow('').default(''),
+    ollamaModel: joi.string().allow('').default('')
   }).default(),
   
-  services: joi.array().items(serviceConfigSchema).default([])
+  services: joi.array().items(serviceConfigSchema).default([]),
+
+  graphServer: joi.object({
+    enabled: joi.boolean().default(true),
+    path: joi.string().pattern(/^\//).default('/mcp'),
+    authToken: joi.string().allow('').optional()
+  }).default(),
+
+  tasks: joi.object({
+    storePath: joi.string().default('data/tasks.json'),
+    completedRetentionHours: joi.number().min(0).default(168),
+    failedRetentionHours: joi.number().min(0).default(72),
+    maxTasksPerType: joi.number().integer().min(0).default(500),
+    cleanupIntervalMinutes: joi.number().min(1).default(60)
+  }).default(),
+
+  queue: joi.object({
+    defaultConcurrency: joi.number().integer().min(1).default(2),
+    defaultRatePerMinute: joi.number().integer().min(0).default(0),
+    maxRetries: joi.number().integer().min(0).default(2),
+    retryBaseDelayMs: joi.number().integer().min(0).default(2000),
+    providers: joi.object().pattern(joi.string(), joi.object({
+      concurrency: joi.number().integer().min(1).optional(),
+      ratePerMinute: joi.number().integer().min(0).optional()
+    })).default({})
+  }).default(),
+
+  intent: intentConfigSchema.default()
 });
 
 export class ConfigManager extends EventEmitter {
@@ -85,13 +133,14 @@ export class ConfigManager extends EventEmitter {
     this.configPath = configPath || path.join(process.cwd(), 'config.json');
     this.config = this.getDefaultConfig();
     this.loadConfig();
+    this.ensureGraphServerToken();
   }
 
   private getDefaultConfig(): BridgeConfig {
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        host: '127.0.0.1',
         logLevel: 'info',
         cors: {
           origin: ['*'],
@@ -122,9 +171,43 @@ export class ConfigManager extends EventEmitter {
         qwenVideoT2VModel: 'qwen-vl-max',
         qwenVideoI2VModel: 'qwen-vl-max',
         qwenVideoResolution: '720p',
-        qwenVideoPromptExtend: true
+        qwenVideoPromptExtend: true,
+        ollamaAddress: '',
+        ollamaModel: ''
+      },
+      services: [],
+      graphServer: {
+        enabled: true,
+        path: '/mcp'
+      },
+      tasks: {
+        storePath: 'data/tasks.json',
+        completedRetentionHours: 168,
+        failedRetentionHours: 72,
+        maxTasksPerType: 500,
+        cleanupIntervalMinutes: 60
+      },
+      queue: {
+        defaultConcurrency: 2,
+        defaultRatePerMinute: 0,
+        maxRetries: 2,
+        retryBaseDelayMs: 2000,
+        providers: {}
       },
-      services: []
+      intent: {
+        provider: 'auto',
+        model: '',
+        baseUrl: '',
+        apiKey: '',
+        temperature: 0.1,
+        timeoutMs: 10000,
+        keywordFallback: true,
+        rulesPath: 'intent-rules.toml',
+        ruleConfidenceThreshold: 0.9,
+        correctionsPath: 'data/intent-corrections.json',
+        maxCorrections: 200,
+        fewShotExamples: 5
+      }
     };
   }
 
@@ -149,6 +232,18 @@ export class ConfigManager extends EventEmitter {
     }
   }
 
+  /**
+   * 未配置 graphServer.authToken 时生成并保存，插件通道、/mcp 和 /api/graph/call 都要求该令牌
+   */
+  private ensureGraphServerToken(): void {
+    if (this.config.graphServer.authToken) {
+      return;
+    }
+    this.config.graphServer = { ...this.config.graphServer, authToken: generateAuthToken() };
+    this.saveConfig();
+    logger.info(`Generated graphServer.authToken in ${this.configPath}; set it as the Bridge Auth Token in the Logseq plugin settings`);
+  }
+
   private validateConfig(config: any): BridgeConfig {
     const result = configSchema.validate(config, { allowUnknown: false });
     if (result.error) {
@@ -181,6 +276,24 @@ export class ConfigManager extends EventEmitter {
     return { ...this.config };
   }
 
+  /**
+   * 返回隐藏了密钥和令牌的配置，供 GET /api/config 使用
+   */
+  getRedactedConfig(): BridgeConfig {
+    const { api, intent, graphServer } = this.config;
+    return {
+      ...this.config,
+      api: {
+        ...api,
+        imageApiKey: maskSecret(api.imageApiKey),
+        ttsApiKey: maskSecret(api.ttsApiKey),
+        dashscopeApiKey: maskSecret(api.dashscopeApiKey)
+      },
+      intent: { ...intent, apiKey: maskSecret(intent.apiKey) },
+      graphServer: { ...graphServer, authToken: maskSecret(graphServer.authToken) }
+    };
+  }
+
   getServices(): MCPServiceConfig[] {
     return this.config.services;
   }
@@ -202,6 +315,20 @@ export class ConfigManager extends EventEmitter {
     this.notifyWatchers();
   }
 
+  getIntentConfig(): IntentConfig {
+    return { ...this.config.intent };
+  }
+
+  updateIntentConfig(updates: Partial<IntentConfig>): void {
+    const result = intentConfigSchema.validate({ ...this.config.intent, ...updates });
+    if (result.error) {
+      throw new Error(`Invalid intent configuration: ${result.error.message}`);
+    }
+    this.config.intent = result.value;
+    this.saveConfig();
+    this.notifyWatchers();
+  }
+
   addService(service: MCPServiceConfig): void {
     const existingIndex = this.config.services.findIndex(s => s.id === service.id);
     if (existingIndex >= 0) {
@@ -248,7 +375,11 @@ export class ConfigManager extends EventEmitter {
     };
   }
 
+  /**
+   * 重新读取配置文件并通知监听器
+   */
   reload(): void {
     this.loadConfig();
+    this.notifyWatchers();
   }
 }
\ No newline at end of file
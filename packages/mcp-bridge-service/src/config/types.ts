@@ -25,23 +25,33 @@ export interface MCPPrompt {
   }>;
 }
 
+// 工具调用策略：allow 直接调用，ask 需要用户在插件中确认，deny 禁止调用
+export type ToolPolicy = 'allow' | 'ask' | 'deny';
+
+// 工具调用决策（记录在工具调用日志中）：allowed 按策略自动放行，approved / rejected 为用户确认结果，denied 被策略禁止
+export type ToolCallDecision = 'allowed' | 'approved' | 'rejected' | 'denied';
+
 // MCP 服务配置
 export interface MCPServiceConfig {
   id: string;
   name: string;
   description?: string;
-  type: 'stdio' | 'sse' | 'websocket';
+  type: 'stdio' | 'sse' | 'streamable-http' | 'websocket';
   enabled: boolean;
   
-  // stdio 类型配置
+  // stdio 类型配置，env 的值支持 ${VAR} 引用桥接服务自身的环境变量，cwd 为子进程工作目录
   command?: string;
   args?: string[];
   env?: Record<string, string>;
+  cwd?: string;
   
-  // 网络类型配置 (sse, websocket)
+  // 网络类型配置 (sse, streamable-http, websocket)，headers 会随每个请求发送（如认证信息）
   url?: string;
   headers?: Record<string, string>;
   
+  // 工具调用策略，键为工具名，"*" 为该服务的默认策略；未配置时写入/删除类工具默认为 ask，其余为 allow
+  toolPolicies?: Record<string, ToolPolicy>;
+  
   // 预定义的工具、资源、提示词
   tools?: MCPTool[];
   resources?: MCPResource[];
@@ -74,6 +84,76 @@ export interface APIConfig {
   qwenVideoI2VModel: string;
   qwenVideoResolution: string;
   qwenVideoPromptExtend: boolean;
+  // 插件同步的 Ollama 设置（意图分析使用 ollama 时的默认地址和模型）
+  ollamaAddress: string;
+  ollamaModel: string;
+}
+
+// 意图分析模型提供商：auto 配置了 DashScope 密钥时使用 dashscope，否则使用 ollama；keyword 只使用意图规则
+export type IntentProvider = 'auto' | 'dashscope' | 'openai' | 'ollama' | 'keyword';
+
+// 意图分析配置
+export interface IntentConfig {
+  provider: IntentProvider;
+  // 以下三项留空时使用提供商的默认值：dashscope 使用 api.dashscopeApiKey，ollama 使用插件同步的地址和模型
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+  temperature: number;
+  // 模型请求超时（毫秒），应小于插件等待意图分析的时间
+  timeoutMs: number;
+  // 模型调用失败或输出未通过校验时使用意图规则
+  keywordFallback: boolean;
+  // 意图规则文件（JSON 或 TOML，相对于工作目录），不存在时使用内置规则，修改后自动重新加载
+  rulesPath: string;
+  // 命中规则的置信度达到该值时跳过模型分析
+  ruleConfidenceThreshold: number;
+  // 插件确认路由时用户的纠正记录（JSON 文件，相对于工作目录）
+  correctionsPath: string;
+  // 最多保存的纠正记录数，超出时删除最早的
+  maxCorrections: number;
+  // 每次模型分析加入提示词的纠正示例数，0 表示不使用
+  fewShotExamples: number;
+}
+
+// 图谱 MCP 服务器配置：把 Logseq 图谱作为 MCP 服务器提供给外部客户端
+export interface GraphServerConfig {
+  enabled: boolean;
+  // Streamable HTTP 端点路径
+  path: string;
+  // 配置后要求 Authorization: Bearer <token>
+  authToken?: string;
+}
+
+// 任务存储配置：异步任务持久化和保留策略
+export interface TaskStoreConfig {
+  // JSON 文件路径（相对于工作目录）
+  storePath: string;
+  // 已完成任务保留时长（小时），0 表示不按时间清理
+  completedRetentionHours: number;
+  // 失败任务保留时长（小时），0 表示不按时间清理
+  failedRetentionHours: number;
+  // 每类任务最多保留的已结束任务数，0 表示不限制
+  maxTasksPerType: number;
+  // 清理间隔（分钟）
+  cleanupIntervalMinutes: number;
+}
+
+// 任务队列配置：按提供商限制并发数和速率
+export interface QueueConfig {
+  // 未单独配置的提供商的并发数
+  defaultConcurrency: number;
+  // 未单独配置的提供商每分钟最多启动的任务数，0 表示不限制
+  defaultRatePerMinute: number;
+  // 失败后的最大重试次数
+  maxRetries: number;
+  // 重试的基础退避时间（毫秒），每次翻倍
+  retryBaseDelayMs: number;
+  // 提供商：image-api、tts-api、dashscope
+  providers: Record<string, {
+    concurrency?: number;
+    ratePerMinute?: number;
+  }>;
 }
 
 // 桥接服务配置
@@ -89,6 +169,10 @@ export interface BridgeConfig {
   };
   api: APIConfig;
   services: MCPServiceConfig[];
+  graphServer: GraphServerConfig;
+  tasks: TaskStoreConfig;
+  queue: QueueConfig;
+  intent: IntentConfig;
 }
 
 // MCP 客户端连接状态
@@ -109,6 +193,9 @@ export interface ToolCallRequest {
   serviceId: string;
   toolName: string;
   arguments: Record<string, any>;
+  // 调用决策，用户修改过参数时 originalArguments 为修改前的参数
+  decision?: ToolCallDecision;
+  originalArguments?: Record<string, any>;
 }
 
 // 工具调用响应
@@ -132,4 +219,20 @@ export interface ResourceResponse {
   mimeType?: string;
   error?: string;
   metadata?: Record<string, any>;
+}
+
+// 提示词请求
+export interface PromptRequest {
+  serviceId: string;
+  promptName: string;
+  arguments: Record<string, string>;
+}
+
+// 提示词响应，messages 为 MCP 渲染后的消息（role + content）
+export interface PromptResponse {
+  success: boolean;
+  description?: string;
+  messages?: Array<{ role: string; content: any }>;
+  error?: string;
+  metadata?: Record<string, any>;
 }
\ No newline at end of file
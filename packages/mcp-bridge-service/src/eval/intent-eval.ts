@@ -0,0 +1,372 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as joi from 'joi';
+import { ConfigManager } from '../config/manager';
+import { IntentConfig } from '../config/types';
+import { IntentAnalyzer, IntentAnalysisResult, IntentTaskType } from '../services/intent-analyzer';
+import { IntentTool } from '../services/intent-fallback';
+import defaultCorpus from './intent-corpus.json';
+
+// 评估用例
+export interface IntentEvalCase {
+  id: string;
+  lang: 'zh' | 'en';
+  // 统计准确率的分类，如 memory、time、chat
+  category: string;
+  input: string;
+  images?: string[];
+  expected: {
+    taskType: IntentTaskType;
+    needsMCP: boolean;
+    // serviceId/toolName，needsMCP 为 false 时省略
+    tool?: string;
+  };
+  // 桩模型对该输入的回复（对象按 JSON 返回），省略时桩模型返回 503
+  stub?: string | Record<string, any>;
+}
+
+// 评估语料
+export interface IntentEvalCorpus {
+  description?: string;
+  tools: IntentTool[];
+  cases: IntentEvalCase[];
+}
+
+// stub 使用桩模型服务，live 使用配置中的模型
+export type IntentEvalMode = 'stub' | 'live';
+
+// pipeline 运行完整流水线，keyword 只运行关键词阶段
+export type IntentEvalStage = 'pipeline' | 'keyword';
+
+// 报告实际检查的内容：parse-validation 为桩模型流水线，模型回复是语料预设的，只检查回复解析、校验和降级处理
+export type IntentEvalScope = 'parse-validation' | 'model' | 'keyword';
+
+export interface IntentEvalOptions {
+  mode?: IntentEvalMode;
+  stage?: IntentEvalStage;
+  corpus?: IntentEvalCorpus;
+  // 只评估指定语言的用例
+  lang?: 'zh' | 'en';
+}
+
+// 单个用例的评估结果
+export interface IntentEvalResult {
+  id: string;
+  lang: string;
+  category: string;
+  input: string;
+  expected: IntentEvalCase['expected'];
+  actual: {
+    taskType: IntentTaskType;
+    needsMCP: boolean;
+    tool?: string;
+    source?: string;
+    fallbackReason?: string;
+    error?: string;
+  };
+  correct: boolean;
+}
+
+// 混淆矩阵：行为期望标签，列为实际标签
+export interface ConfusionMatrix {
+  labels: string[];
+  matrix: number[][];
+}
+
+export interface AccuracyStats {
+  total: number;
+  correct: number;
+  accuracy: number;
+}
+
+// 评估报告
+export interface IntentEvalReport {
+  mode: IntentEvalMode;
+  stage: IntentEvalStage;
+  scope: IntentEvalScope;
+  provider?: string;
+  model?: string;
+  total: number;
+  correct: number;
+  accuracy: number;
+  // 各字段单独的准确率
+  fields: {
+    taskType: AccuracyStats;
+    needsMCP: AccuracyStats;
+    tool: AccuracyStats;
+  };
+  byCategory: Record<string, AccuracyStats>;
+  byLang: Record<string, AccuracyStats>;
+  // 结果来源统计（model / keyword）
+  bySource: Record<string, number>;
+  confusion: {
+    tool: ConfusionMatrix;
+    taskType: ConfusionMatrix;
+  };
+  failures: IntentEvalResult[];
+  durationMs: number;
+}
+
+const NO_TOOL = 'none';
+
+const TASK_TYPES: IntentTaskType[] = ['text', 'image', 'audio', 'video', 'multimodal'];
+
+const corpusSchema = joi.object({
+  description: joi.string().optional(),
+  tools: joi.array().items(joi.object({
+    serviceId: joi.string().required(),
+    name: joi.string().required(),
+    description: joi.string().allow('').optional(),
+    inputSchema: joi.any().optional()
+  })).required(),
+  cases: joi.array().items(joi.object({
+    id: joi.string().required(),
+    lang: joi.string().valid('zh', 'en').required(),
+    category: joi.string().required(),
+    input: joi.string().required(),
+    images: joi.array().items(joi.string()).optional(),
+    expected: joi.object({
+      taskType: joi.string().valid(...TASK_TYPES).required(),
+      needsMCP: joi.boolean().required(),
+      tool: joi.string().pattern(/^[^/]+\/.+$/).when('needsMCP', { is: true, then: joi.required(), otherwise: joi.forbidden() })
+    }).required(),
+    stub: joi.alternatives().try(joi.string(), joi.object().unknown(true)).optional()
+  })).min(1).unique('id').unique('input').required()
+});
+
+/**
+ * 校验评估语料，用例 ID 和输入不能重复（桩模型按输入匹配回复）
+ */
+export function validateIntentCorpus(corpus: any): IntentEvalCorpus {
+  const { value, error } = corpusSchema.validate(corpus);
+  if (error) {
+    throw new Error(`Invalid intent corpus: ${error.message}`);
+  }
+  return value;
+}
+
+export function getDefaultIntentCorpus(): IntentEvalCorpus {
+  return validateIntentCorpus(defaultCorpus);
+}
+
+/**
+ * 启动桩模型服务：实现 Ollama /api/chat 和 OpenAI 兼容 /chat/completions，按用户输入返回用例中预设的回复
+ */
+export async function startStubModelServer(cases: IntentEvalCase[]): Promise<{ url: string, close: () => Promise<void> }> {
+  const replies = new Map(cases.map(item => [item.input, item.stub]));
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      let userText = '';
+      try {
+        const messages: Array<{ role: string, content: any }> = JSON.parse(body).messages || [];
+        const content = messages.filter(message => message.role === 'user').pop()?.content;
+        userText = Array.isArray(content) ? content.find((part: any) => part.type === 'text')?.text || '' : content || '';
+      } catch {
+        res.writeHead(400).end();
+        return;
+      }
+
+      const reply = replies.get(userText);
+      if (reply === undefined) {
+        res.writeHead(503, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'No scripted reply' }));
+        return;
+      }
+
+      const content = typeof reply === 'string' ? reply : JSON.stringify(reply);
+      const payload = req.url?.endsWith('/chat/completions')
+        ? { choices: [{ message: { role: 'assistant', content } }] }
+        : { message: { role: 'assistant', content }, done: true };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+function toolLabel(result: Pick<IntentAnalysisResult, 'needsMCP' | 'recommendedTool'>): string | undefined {
+  return result.needsMCP && result.recommendedTool
+    ? `${result.recommendedTool.serviceId}/${result.recommendedTool.toolName}`
+    : undefined;
+}
+
+function accuracy(total: number, correct: number): AccuracyStats {
+  return { total, correct, accuracy: total > 0 ? correct / total : 0 };
+}
+
+function groupAccuracy(results: IntentEvalResult[], key: (result: IntentEvalResult) => string): Record<string, AccuracyStats> {
+  const groups: Record<string, AccuracyStats> = {};
+  for (const result of results) {
+    const group = groups[key(result)] ||= accuracy(0, 0);
+    group.total++;
+    if (result.correct) {
+      group.correct++;
+    }
+  }
+  for (const group of Object.values(groups)) {
+    group.accuracy = group.correct / group.total;
+  }
+  return groups;
+}
+
+function buildConfusion(pairs: Array<[string, string]>, knownLabels: string[] = []): ConfusionMatrix {
+  const labels = Array.from(new Set([...knownLabels, ...pairs.flat()]));
+  const matrix = labels.map(() => labels.map(() => 0));
+  for (const [expected, actual] of pairs) {
+    matrix[labels.indexOf(expected)][labels.indexOf(actual)]++;
+  }
+  return { labels, matrix };
+}
+
+/**
+ * 运行意图分析评估
+ * stub 模式下意图分析指向桩模型服务（Ollama 协议），用例没有预设回复、回复无法解析或推荐了不存在的工具时由关键词阶段降级处理
+ * 桩模型的回复是预设的，此时准确率只反映解析、校验和降级逻辑，不反映提示词或模型的质量
+ */
+export async function runIntentEval(configManager: ConfigManager, options: IntentEvalOptions = {}): Promise<IntentEvalReport> {
+  const mode = options.mode || 'stub';
+  const stage = options.stage || 'pipeline';
+  const corpus = options.corpus ? validateIntentCorpus(options.corpus) : getDefaultIntentCorpus();
+  const cases = options.lang ? corpus.cases.filter(item => item.lang === options.lang) : corpus.cases;
+  const analyzer = new IntentAnalyzer(configManager);
+  const startedAt = Date.now();
+
+  const stub = mode === 'stub' && stage === 'pipeline' ? await startStubModelServer(cases) : undefined;
+  const overrides: Partial<IntentConfig> = stage === 'keyword'
+    ? { provider: 'keyword' }
+    : stub
+      ? { provider: 'ollama', baseUrl: stub.url, model: 'intent-eval-stub', keywordFallback: true }
+      : {};
+  const aiConfig = analyzer.resolveAIConfig({ ...configManager.getIntentConfig(), ...overrides });
+
+  const results: IntentEvalResult[] = [];
+  try {
+    for (const item of cases) {
+      let actual: IntentEvalResult['actual'];
+      try {
+        const analysis = await analyzer.analyzeIntent({ text: item.input, images: item.images }, corpus.tools, overrides);
+        actual = {
+          taskType: analysis.taskType,
+          needsMCP: analysis.needsMCP,
+          tool: toolLabel(analysis),
+          source: analysis.source,
+          fallbackReason: analysis.fallbackReason
+        };
+      } catch (error) {
+        // 关闭了关键词降级时模型失败视为不需要工具
+        actual = { taskType: 'text', needsMCP: false, error: error instanceof Error ? error.message : String(error) };
+      }
+      results.push({
+        id: item.id,
+        lang: item.lang,
+        category: item.category,
+        input: item.input,
+        expected: item.expected,
+        actual,
+        correct: actual.taskType === item.expected.taskType &&
+          actual.needsMCP === item.expected.needsMCP &&
+          actual.tool === item.expected.tool
+      });
+    }
+  } finally {
+    await stub?.close();
+  }
+
+  const count = (match: (result: IntentEvalResult) => boolean) => accuracy(results.length, results.filter(match).length);
+  const bySource: Record<string, number> = {};
+  for (const result of results) {
+    const source = result.actual.source || 'error';
+    bySource[source] = (bySource[source] || 0) + 1;
+  }
+
+  return {
+    mode,
+    stage,
+    scope: stage === 'keyword' ? 'keyword' : stub ? 'parse-validation' : 'model',
+    provider: aiConfig?.provider,
+    model: aiConfig?.model,
+    ...count(result => result.correct),
+    fields: {
+      taskType: count(result => result.actual.taskType === result.expected.taskType),
+      needsMCP: count(result => result.actual.needsMCP === result.expected.needsMCP),
+      tool: count(result => result.actual.tool === result.expected.tool)
+    },
+    byCategory: groupAccuracy(results, result => result.category),
+    byLang: groupAccuracy(results, result => result.lang),
+    bySource,
+    confusion: {
+      tool: buildConfusion(
+        results.map(result => [result.expected.tool || NO_TOOL, result.actual.tool || NO_TOOL]),
+        [NO_TOOL, ...corpus.tools.map(tool => `${tool.serviceId}/${tool.name}`)]
+      ),
+      taskType: buildConfusion(results.map(result => [result.expected.taskType, result.actual.taskType]), TASK_TYPES)
+    },
+    failures: results.filter(result => !result.correct),
+    durationMs: Date.now() - startedAt
+  };
+}
+
+function percent(stats: AccuracyStats): string {
+  return `${(stats.accuracy * 100).toFixed(1)}% (${stats.correct}/${stats.total})`;
+}
+
+function formatConfusion(title: string, confusion: ConfusionMatrix): string[] {
+  // 省略全为 0 的行和列
+  const used = confusion.labels
+    .map((_, index) => index)
+    .filter(index => confusion.matrix[index].some(value => value > 0) || confusion.matrix.some(row => row[index] > 0));
+  const labels = used.map(index => confusion.labels[index]);
+  const width = Math.max(8, ...labels.map(label => label.length));
+  const lines = [`${title}（行：期望，列：实际）`];
+  lines.push(['', ...used.map((_, column) => `[${column}]`)].map((cell, index) => index === 0 ? ''.padEnd(width + 5) : cell.padStart(5)).join(''));
+  used.forEach((rowIndex, row) => {
+    const cells = used.map(columnIndex => String(confusion.matrix[rowIndex][columnIndex] || '.').padStart(5));
+    lines.push(`[${row}] ${labels[row].padEnd(width + 1)}${cells.join('')}`);
+  });
+  return lines;
+}
+
+/**
+ * 把评估报告格式化为文本（CLI 输出）
+ */
+export function formatIntentEvalReport(report: IntentEvalReport): string {
+  const title = report.scope === 'parse-validation' ? '意图分析解析/校验检查' : '意图分析评估';
+  const lines = [
+    `${title}：mode=${report.mode} stage=${report.stage}${report.provider ? ` provider=${report.provider} model=${report.model}` : ''}`,
+    ...(report.scope === 'parse-validation'
+      ? ['桩模式：模型回复为语料预设，只检查回复解析、校验和关键词降级，不评估提示词或模型质量（使用 --mode live 评估模型）']
+      : []),
+    `总体准确率：${percent(report)}，耗时 ${report.durationMs}ms`,
+    `字段准确率：taskType ${percent(report.fields.taskType)}，needsMCP ${percent(report.fields.needsMCP)}，tool ${percent(report.fields.tool)}`,
+    `结果来源：${Object.entries(report.bySource).map(([source, count]) => `${source} ${count}`).join('，')}`,
+    '',
+    '按分类：',
+    ...Object.entries(report.byCategory).map(([category, stats]) => `  ${category.padEnd(12)} ${percent(stats)}`),
+    '按语言：',
+    ...Object.entries(report.byLang).map(([lang, stats]) => `  ${lang.padEnd(12)} ${percent(stats)}`),
+    '',
+    ...formatConfusion('工具混淆矩阵', report.confusion.tool),
+    '',
+    ...formatConfusion('任务类型混淆矩阵', report.confusion.taskType)
+  ];
+
+  if (report.failures.length > 0) {
+    lines.push('', `错误用例（${report.failures.length}）：`);
+    for (const failure of report.failures) {
+      const expected = `${failure.expected.taskType}/${failure.expected.tool || NO_TOOL}`;
+      const actual = `${failure.actual.taskType}/${failure.actual.tool || NO_TOOL}`;
+      const note = failure.actual.error || failure.actual.fallbackReason;
+      lines.push(`  ${failure.id}: 期望 ${expected}，实际 ${actual} [${failure.actual.source || 'error'}]${note ? ` — ${note}` : ''}`);
+    }
+  }
+  return lines.join('\n');
+}
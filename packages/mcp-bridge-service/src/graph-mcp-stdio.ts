@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createGraphServer } from './mcp/graph-server';
+
+/**
+ * 图谱 MCP 服务器 stdio 入口
+ * 供 Claude Desktop 等只支持 stdio 的客户端使用，图谱请求通过 HTTP 转发给正在运行的桥接服务
+ * stdout 用于 MCP 协议通信，日志只能写 stderr
+ *
+ * 用法: node dist/graph-mcp-stdio.js [bridgeUrl]
+ * 环境变量: LOGSEQ_BRIDGE_URL（默认 http://localhost:3000）、LOGSEQ_BRIDGE_TOKEN（对应 graphServer.authToken）
+ */
+async function main() {
+  const bridgeUrl = (process.argv[2] || process.env.LOGSEQ_BRIDGE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  const token = process.env.LOGSEQ_BRIDGE_TOKEN;
+
+  const relay = async (method: string, params: Record<string, any>) => {
+    const response = await fetch(`${bridgeUrl}/api/graph/call`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: JSON.stringify({ method, params })
+    });
+    const data: any = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Bridge service error (${response.status})`);
+    }
+    return data.result;
+  };
+
+  const server = createGraphServer(relay);
+  await server.connect(new StdioServerTransport());
+  console.error(`Logseq graph MCP server (stdio) relaying to ${bridgeUrl}`);
+}
+
+main().catch((error) => {
+  console.error('Failed to start graph MCP server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from './config/manager';
+import { logger } from './utils/logger';
+import { intentRules } from './services/intent-rules';
+import { runIntentEval, formatIntentEvalReport, IntentEvalOptions } from './eval/intent-eval';
+
+/**
+ * 意图分析离线评估入口
+ * 默认使用桩模型服务和内置语料，不需要网络，此时只检查回复解析、校验和降级处理；--mode live 使用 config.json 中配置的模型评估实际准确率
+ *
+ * 用法: node dist/intent-eval-cli.js [--mode stub|live] [--stage pipeline|keyword] [--lang zh|en]
+ *        [--corpus file.json] [--config config.json] [--json] [--min-accuracy 0.8]
+ */
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  // 降级日志会刷屏，评估时只输出错误
+  logger.level = process.env.LOG_LEVEL || 'error';
+
+  const options: IntentEvalOptions = {
+    mode: (args.mode as IntentEvalOptions['mode']) || 'stub',
+    stage: (args.stage as IntentEvalOptions['stage']) || 'pipeline',
+    lang: args.lang as IntentEvalOptions['lang']
+  };
+  if (!['stub', 'live'].includes(options.mode!) || !['pipeline', 'keyword'].includes(options.stage!)) {
+    throw new Error('--mode must be stub or live, --stage must be pipeline or keyword');
+  }
+  if (typeof args.corpus === 'string') {
+    options.corpus = JSON.parse(fs.readFileSync(path.resolve(args.corpus), 'utf8'));
+  }
+
+  const configManager = new ConfigManager(typeof args.config === 'string' ? path.resolve(args.config) : undefined);
+  // 评估配置中的意图规则文件（不存在时为内置规则）
+  intentRules.load(configManager.getIntentConfig().rulesPath);
+  const report = await runIntentEval(configManager, options);
+  console.log(args.json ? JSON.stringify(report, null, 2) : formatIntentEvalReport(report));
+
+  const minAccuracy = typeof args['min-accuracy'] === 'string' ? Number(args['min-accuracy']) : undefined;
+  if (minAccuracy !== undefined && report.accuracy < minAccuracy) {
+    console.error(`Accuracy ${report.accuracy.toFixed(3)} is below --min-accuracy ${minAccuracy}`);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Intent evaluation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,11 +1,27 @@
 import { EventEmitter } from 'events';
 import { spawn, ChildProcess } from 'child_process';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { MCPServiceConfig, MCPClientConnection, ToolCallRequest, ToolCallResponse, ResourceRequest, ResourceResponse } from '../config/types';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { createNetworkTransport, StdioClientTransport } from './transports';
+import { MCPServiceConfig, MCPClientConnection, ToolCallRequest, ToolCallResponse, ResourceRequest, ResourceResponse, PromptRequest, PromptResponse, ToolPolicy, ToolCallDecision } from '../config/types';
 import { logger } from '../utils/logger';
 import { loggingService } from '../services/logging-service';
 
+// 未配置策略时需要确认的工具（名称中含有这些完整单词时视为有副作用）
+const SIDE_EFFECT_TOOL_WORDS = new Set(['write', 'delete', 'remove', 'create', 'move', 'rename', 'edit', 'update', 'exec', 'execute', 'run', 'drop', 'send', 'put']);
+
+/**
+ * 按 _、-、空格、. 和驼峰拆分工具名后逐词匹配，避免 get_output、read_input 这类名称被子串误判
+ */
+function hasSideEffects(toolName: string): boolean {
+  return toolName
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase()
+    .split(/[_\-\s.]+/)
+    .some(word => SIDE_EFFECT_TOOL_WORDS.has(word));
+}
+
 // MCP客户端接口
 interface MCPClient {
   connect(): Promise<void>;
@@ -22,7 +38,7 @@ interface MCPClient {
 class RealMCPClient implements MCPClient {
   private config: MCPServiceConfig;
   private client: Client | null = null;
-  private transport: StdioClientTransport | null = null;
+  private transport: Transport | null = null;
   private process: ChildProcess | null = null;
   private connected = false;
 
@@ -32,16 +48,33 @@ class RealMCPClient implements MCPClient {
 
   async connect(): Promise<void> {
     try {
-      if (!this.config.command) {
-        throw new Error('MCP service command is required');
+      // 创建传输层：stdio 启动子进程，其他类型连接远程服务
+      if (this.config.type === 'stdio') {
+        if (!this.config.command) {
+          throw new Error('MCP service command is required');
+        }
+        const serviceId = this.config.id;
+        this.transport = new StdioClientTransport({
+          command: this.config.command,
+          args: this.config.args || [],
+          env: this.config.env,
+          cwd: this.config.cwd,
+          // 子进程 stderr 写入服务日志，可通过 /api/services/:serviceId/logs 查看
+          onStderr: (line) => {
+            loggingService.logMCPServiceOutput({ serviceId, stream: 'stderr', message: line });
+          },
+          onExit: (code, signal) => {
+            loggingService.logMCPServiceOutput({
+              serviceId,
+              stream: 'system',
+              message: `Process exited with ${signal ? `signal ${signal}` : `code ${code}`}`
+            });
+          }
+        });
+      } else {
+        this.transport = createNetworkTransport(this.config);
       }
 
-      // 创建传输层
-      this.transport = new StdioClientTransport({
-        command: this.config.command,
-        args: this.config.args || []
-      });
-
       // 创建客户端
       this.client = new Client({
         name: 'mcp-bridge-service',
@@ -340,7 +373,9 @@ export class MCPClientManager extends EventEmitter {
         toolName: request.toolName,
         arguments: request.arguments,
         result,
-        duration
+        duration,
+        decision: request.decision,
+        originalArguments: request.originalArguments
       });
       
       return {
@@ -362,7 +397,9 @@ export class MCPClientManager extends EventEmitter {
         toolName: request.toolName,
         arguments: request.arguments,
         error: errorMessage,
-        duration
+        duration,
+        decision: request.decision,
+        originalArguments: request.originalArguments
       });
       
       return {
@@ -429,6 +466,60 @@ export class MCPClientManager extends EventEmitter {
     }
   }
 
+  async getPrompt(request: PromptRequest): Promise<PromptResponse> {
+    const connection = this.connections.get(request.serviceId);
+    const metadata = { serviceId: request.serviceId, promptName: request.promptName };
+    
+    if (!connection) {
+      return {
+        success: false,
+        error: `Service ${request.serviceId} not found`,
+        metadata
+      };
+    }
+
+    if (connection.status !== 'connected') {
+      return {
+        success: false,
+        error: `Service ${request.serviceId} is not connected`,
+        metadata
+      };
+    }
+
+    // 检查必填参数
+    const prompt = connection.prompts.find(item => item.name === request.promptName);
+    const missing = (prompt?.arguments || [])
+      .filter(arg => arg.required && !request.arguments[arg.name])
+      .map(arg => arg.name);
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: `Missing required arguments: ${missing.join(', ')}`,
+        metadata
+      };
+    }
+
+    try {
+      const result = await connection.client.getPrompt(request.promptName, request.arguments);
+      
+      return {
+        success: true,
+        description: result?.description,
+        messages: result?.messages || [],
+        metadata
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to get prompt ${request.promptName} from service ${request.serviceId}:`, error);
+      
+      return {
+        success: false,
+        error: errorMessage,
+        metadata
+      };
+    }
+  }
+
   getServices(): MCPClientConnection[] {
     return Array.from(this.connections.values());
   }
@@ -441,6 +532,57 @@ export class MCPClientManager extends EventEmitter {
     return this.getServices().filter(conn => conn.status === 'connected');
   }
 
+  /**
+   * 获取工具调用策略：工具名配置 > "*" 默认配置 > 按工具名判断（写入/删除类为 ask）
+   */
+  getToolPolicy(serviceId: string, toolName: string): ToolPolicy {
+    const policies = this.connections.get(serviceId)?.config.toolPolicies || {};
+    const policy = policies[toolName] || policies['*'];
+    if (policy) {
+      return policy;
+    }
+    return hasSideEffects(toolName) ? 'ask' : 'allow';
+  }
+
+  /**
+   * 记录未执行的工具调用决策（被策略禁止或被用户拒绝）
+   */
+  recordToolDecision(request: ToolCallRequest, decision: Extract<ToolCallDecision, 'rejected' | 'denied'>): void {
+    loggingService.logMCPToolCall({
+      serviceId: request.serviceId,
+      toolName: request.toolName,
+      arguments: request.arguments,
+      error: decision === 'denied' ? 'Tool call denied by policy' : 'Tool call rejected by user',
+      duration: 0,
+      decision,
+      originalArguments: request.originalArguments
+    });
+  }
+
+  getAllResources(): Array<{ serviceId: string; resource: any }> {
+    const resources: Array<{ serviceId: string; resource: any }> = [];
+    
+    for (const connection of this.getConnectedServices()) {
+      for (const resource of connection.resources) {
+        resources.push({ serviceId: connection.id, resource });
+      }
+    }
+    
+    return resources;
+  }
+
+  getAllPrompts(): Array<{ serviceId: string; prompt: any }> {
+    const prompts: Array<{ serviceId: string; prompt: any }> = [];
+    
+    for (const connection of this.getConnectedServices()) {
+      for (const prompt of connection.prompts) {
+        prompts.push({ serviceId: connection.id, prompt });
+      }
+    }
+    
+    return prompts;
+  }
+
   getAllTools(): Array<{ serviceId: string; tool: any }> {
     const tools: Array<{ serviceId: string; tool: any }> = [];
     
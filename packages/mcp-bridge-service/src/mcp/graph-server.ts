@@ -0,0 +1,184 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * 图谱请求转发函数：桥接服务内通过插件通道转发，stdio 入口通过桥接服务的 HTTP 接口转发
+ */
+export type GraphRelay = (method: string, params: Record<string, any>) => Promise<any>;
+
+// 图谱资源 URI 前缀
+const PAGE_URI_PREFIX = 'logseq://page/';
+const JOURNAL_URI_PREFIX = 'logseq://journal/';
+
+// 资源列表中返回的最大页面数
+const RESOURCE_LIST_LIMIT = 100;
+
+/**
+ * 对外提供的图谱工具
+ */
+export const GRAPH_TOOLS = [
+  {
+    name: 'search_blocks',
+    description: 'Full-text search over block content in the Logseq graph. Returns matching blocks with their page and uuid.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Text to search for' },
+        limit: { type: 'number', description: 'Maximum number of blocks to return (default 20)' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'get_page',
+    description: 'Get a Logseq page (or journal page) as markdown, including its properties and nested blocks.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Page name, or a journal date in YYYY-MM-DD format' }
+      },
+      required: ['name']
+    }
+  },
+  {
+    name: 'append_block',
+    description: 'Append a block to the end of a page, or as the last child of an existing block. Requires write access to be enabled in the plugin.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'Block content (Logseq markdown)' },
+        page: { type: 'string', description: 'Target page name; created if it does not exist' },
+        parentUuid: { type: 'string', description: 'UUID of the parent block; takes precedence over page' }
+      },
+      required: ['content']
+    }
+  },
+  {
+    name: 'create_page',
+    description: 'Create a new Logseq page with optional properties and initial markdown content. Requires write access to be enabled in the plugin.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Page name' },
+        content: { type: 'string', description: 'Initial markdown content; list items become nested blocks' },
+        properties: { type: 'object', description: 'Page properties', additionalProperties: true }
+      },
+      required: ['name']
+    }
+  },
+  {
+    name: 'run_query',
+    description: 'Run a Logseq query. Accepts either a datascript query (starting with "[:find") or a simple query such as (and [[tag]] (task TODO)).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Datascript or simple query' },
+        limit: { type: 'number', description: 'Maximum number of results to return (default 50)' }
+      },
+      required: ['query']
+    }
+  }
+];
+
+const GRAPH_TOOL_NAMES = new Set(GRAPH_TOOLS.map(tool => tool.name));
+
+/**
+ * 解析资源 URI
+ * @param uri logseq://page/{name} 或 logseq://journal/{YYYY-MM-DD}
+ */
+export function parseGraphResourceUri(uri: string): { method: 'get_page' | 'get_journal', params: Record<string, string> } {
+  if (uri.startsWith(PAGE_URI_PREFIX)) {
+    return { method: 'get_page', params: { name: decodeURIComponent(uri.slice(PAGE_URI_PREFIX.length)) } };
+  }
+  if (uri.startsWith(JOURNAL_URI_PREFIX)) {
+    const date = decodeURIComponent(uri.slice(JOURNAL_URI_PREFIX.length));
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error(`Invalid journal date: ${date}`);
+    }
+    return { method: 'get_journal', params: { date } };
+  }
+  throw new Error(`Unsupported resource URI: ${uri}`);
+}
+
+/**
+ * 创建把 Logseq 图谱暴露为工具和资源的 MCP 服务器，实际读写由 relay 转发给插件执行
+ * @param relay 图谱请求转发函数
+ */
+export function createGraphServer(relay: GraphRelay): Server {
+  const server = new Server(
+    { name: 'logseq-graph', version: process.env.npm_package_version || '1.0.0' },
+    { capabilities: { tools: {}, resources: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: GRAPH_TOOLS }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    if (!GRAPH_TOOL_NAMES.has(name)) {
+      return { content: [{ type: 'text', text: `Unknown tool: ${name}` }], isError: true };
+    }
+    try {
+      const result = await relay(name, args);
+      const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+      return { content: [{ type: 'text', text }] };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+        isError: true
+      };
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const pages: Array<{ name: string, originalName?: string, journalDay?: string }> =
+      await relay('list_pages', { limit: RESOURCE_LIST_LIMIT });
+    return {
+      resources: (pages || []).map(page => page.journalDay
+        ? {
+            uri: `${JOURNAL_URI_PREFIX}${page.journalDay}`,
+            name: page.originalName || page.name,
+            description: `Journal ${page.journalDay}`,
+            mimeType: 'text/markdown'
+          }
+        : {
+            uri: `${PAGE_URI_PREFIX}${encodeURIComponent(page.name)}`,
+            name: page.originalName || page.name,
+            mimeType: 'text/markdown'
+          })
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: `${PAGE_URI_PREFIX}{name}`,
+        name: 'Logseq page',
+        description: 'A page in the Logseq graph as markdown',
+        mimeType: 'text/markdown'
+      },
+      {
+        uriTemplate: `${JOURNAL_URI_PREFIX}{date}`,
+        name: 'Logseq journal',
+        description: 'A journal page by date (YYYY-MM-DD) as markdown',
+        mimeType: 'text/markdown'
+      }
+    ]
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const { method, params } = parseGraphResourceUri(uri);
+    const page = await relay(method, params);
+    return {
+      contents: [{ uri, mimeType: 'text/markdown', text: page?.markdown ?? '' }]
+    };
+  });
+
+  return server;
+}
@@ -0,0 +1,214 @@
+import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger';
+import { isAuthorizedRequest } from '../utils/auth';
+
+// 等待中的 POST 请求：收齐所有请求 ID 的响应后一次性返回
+interface PendingPost {
+  ids: Set<string | number>;
+  responses: JSONRPCMessage[];
+  batch: boolean;
+  res: Response;
+}
+
+// 会话
+interface HTTPSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+}
+
+// 空闲会话过期时间
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+function jsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/**
+ * Streamable HTTP 服务端传输（单个会话）
+ * SDK 0.5.0 只提供 stdio 和 SSE 服务端传输，这里实现 POST 请求 + JSON 响应模式，不提供 GET 事件流
+ */
+export class StreamableHTTPServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  private pending: PendingPost[] = [];
+  private closed = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  async start(): Promise<void> {
+    // 无需建立连接，消息随 POST 请求到达
+  }
+
+  /**
+   * 处理一次 POST：请求类消息等待服务器响应后返回 JSON，只有通知和响应时返回 202
+   * @param body 已解析的请求体
+   * @param res Express 响应
+   */
+  handlePost(body: unknown, res: Response): void {
+    if (this.closed) {
+      jsonRpcError(res, 404, ErrorCode.InvalidRequest, 'Session not found');
+      return;
+    }
+    const batch = Array.isArray(body);
+    const messages: JSONRPCMessage[] = [];
+    try {
+      for (const item of batch ? body as unknown[] : [body]) {
+        messages.push(JSONRPCMessageSchema.parse(item));
+      }
+    } catch (error) {
+      jsonRpcError(res, 400, ErrorCode.ParseError, `Invalid JSON-RPC message: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    const ids = new Set<string | number>();
+    for (const message of messages) {
+      if ('method' in message && 'id' in message) {
+        ids.add(message.id);
+      }
+    }
+    if (ids.size === 0) {
+      res.status(202).end();
+    } else {
+      const post: PendingPost = { ids, responses: [], batch, res };
+      this.pending.push(post);
+      res.on('close', () => {
+        this.pending = this.pending.filter(item => item !== post);
+      });
+    }
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Not connected');
+    }
+    // 没有 GET 事件流，服务器主动发送的通知和请求无法送达
+    if (!('id' in message) || 'method' in message) {
+      logger.debug('Dropping server-initiated MCP message without an open stream', { method: (message as any).method });
+      return;
+    }
+
+    const post = this.pending.find(item => item.ids.has(message.id));
+    if (!post) {
+      logger.warn('No pending HTTP request for MCP response', { id: message.id });
+      return;
+    }
+    post.responses.push(message);
+    post.ids.delete(message.id);
+    if (post.ids.size > 0) {
+      return;
+    }
+
+    this.pending = this.pending.filter(item => item !== post);
+    post.res
+      .status(200)
+      .setHeader('Mcp-Session-Id', this.sessionId)
+      .json(post.batch ? post.responses : post.responses[0]);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const post of this.pending) {
+      if (!post.res.headersSent) {
+        jsonRpcError(post.res, 503, ErrorCode.ConnectionClosed, 'Session closed');
+      }
+    }
+    this.pending = [];
+    this.onclose?.();
+  }
+}
+
+/**
+ * 创建 Streamable HTTP 端点：每个会话一个 MCP 服务器实例，initialize 请求创建会话，DELETE 结束会话
+ * @param createServer 为新会话创建 MCP 服务器
+ * @param options.authToken 返回当前令牌，配置后要求 Authorization: Bearer <token>，每次请求时读取以便配置变更立即生效
+ */
+export function createStreamableHTTPRouter(
+  createServer: () => Server,
+  options: { authToken?: () => string | undefined } = {}
+): Router {
+  const router = Router();
+  const sessions = new Map<string, HTTPSession>();
+
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions.entries()) {
+      if (now - session.lastActive > SESSION_IDLE_TIMEOUT) {
+        logger.info(`Closing idle MCP HTTP session ${id}`);
+        void session.server.close();
+      }
+    }
+  }, 60 * 1000);
+  cleanup.unref();
+
+  router.use((req: Request, res: Response, next) => {
+    const authToken = options.authToken?.();
+    if (authToken && !isAuthorizedRequest(req, authToken)) {
+      return jsonRpcError(res, 401, ErrorCode.InvalidRequest, 'Unauthorized');
+    }
+    return next();
+  });
+
+  router.post('/', async (req: Request, res: Response) => {
+    const sessionId = req.get('Mcp-Session-Id');
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        return jsonRpcError(res, 404, ErrorCode.InvalidRequest, 'Session not found');
+      }
+      session.lastActive = Date.now();
+      return session.transport.handlePost(req.body, res);
+    }
+
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+    if (!messages.some((message: any) => message?.method === 'initialize')) {
+      return jsonRpcError(res, 400, ErrorCode.InvalidRequest, 'Missing Mcp-Session-Id header');
+    }
+
+    const transport = new StreamableHTTPServerTransport();
+    const server = createServer();
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      logger.error('Failed to start MCP HTTP session:', error);
+      return jsonRpcError(res, 500, ErrorCode.InternalError, 'Failed to start session');
+    }
+    // connect 会接管 transport.onclose，会话清理挂在 server 上
+    server.onclose = () => {
+      sessions.delete(transport.sessionId);
+      logger.info(`MCP HTTP session closed: ${transport.sessionId}`);
+    };
+    sessions.set(transport.sessionId, { server, transport, lastActive: Date.now() });
+    logger.info(`MCP HTTP session started: ${transport.sessionId}`);
+    return transport.handlePost(req.body, res);
+  });
+
+  router.get('/', (req: Request, res: Response) => {
+    res.setHeader('Allow', 'POST, DELETE');
+    jsonRpcError(res, 405, ErrorCode.InvalidRequest, 'Server-initiated streams are not supported');
+  });
+
+  router.delete('/', async (req: Request, res: Response) => {
+    const sessionId = req.get('Mcp-Session-Id');
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      return jsonRpcError(res, 404, ErrorCode.InvalidRequest, 'Session not found');
+    }
+    await session.server.close();
+    return res.status(204).end();
+  });
+
+  return router;
+}
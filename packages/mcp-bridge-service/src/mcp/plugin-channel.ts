@@ -0,0 +1,243 @@
+import http from 'http';
+import { randomUUID } from 'crypto';
+import WebSocket, { WebSocketServer } from 'ws';
+import { logger } from '../utils/logger';
+import { isAuthorizedRequest } from '../utils/auth';
+
+// 插件连接后发送的握手信息
+export interface PluginHello {
+  graph?: string;
+  allowWrites?: boolean;
+  version?: string;
+}
+
+// 插件通道状态
+export interface PluginChannelStatus {
+  connected: boolean;
+  connectedAt?: string;
+  graph?: string;
+  allowWrites: boolean;
+  pendingRequests: number;
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// 插件通道路径
+export const PLUGIN_CHANNEL_PATH = '/api/plugin-channel';
+
+// 允许连接插件通道的来源：Logseq 桌面版、移动版、本机网页版，以及不带 Origin 的非浏览器客户端
+const ALLOWED_ORIGINS = [
+  /^null$/,
+  /^file:\/\//,
+  /^app:\/\/logseq\.com$/,
+  /^lsp:\/\/logseq\.io$/,
+  /^capacitor:\/\/localhost$/,
+  /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/
+];
+
+// 心跳间隔
+const HEARTBEAT_INTERVAL = 30000;
+
+// 默认请求超时
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+/**
+ * 插件通道：正在运行的 Logseq 插件通过 WebSocket 长连接到桥接服务，
+ * 桥接服务把图谱请求（搜索、读取、写入）转发给插件执行
+ * 同一时间只保留一个插件连接，通过验证的新连接会替换旧连接
+ */
+export class PluginChannel {
+  private static instance: PluginChannel;
+  private wss?: WebSocketServer;
+  private socket?: WebSocket;
+  private hello: PluginHello = {};
+  private connectedAt?: Date;
+  private pending = new Map<string, PendingRequest>();
+  private heartbeat?: NodeJS.Timeout;
+
+  static getInstance(): PluginChannel {
+    if (!PluginChannel.instance) {
+      PluginChannel.instance = new PluginChannel();
+    }
+    return PluginChannel.instance;
+  }
+
+  /**
+   * 在 HTTP 服务器上挂载 WebSocket 通道，握手请求必须来自允许的来源并携带令牌（token 查询参数或 Authorization 请求头）
+   * 未通过验证的握手在升级前拒绝，不会替换已有连接
+   * @param server HTTP 服务器
+   * @param getAuthToken 返回当前的 graphServer.authToken
+   */
+  attach(server: http.Server, getAuthToken: () => string | undefined): void {
+    if (this.wss) {
+      return;
+    }
+    this.wss = new WebSocketServer({ noServer: true });
+    server.on('upgrade', (req, socket, head) => {
+      const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+      if (pathname !== PLUGIN_CHANNEL_PATH) {
+        return;
+      }
+      const origin = req.headers.origin;
+      if (origin && !ALLOWED_ORIGINS.some(pattern => pattern.test(origin))) {
+        logger.warn('Rejected plugin channel connection from disallowed origin', { origin });
+        socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+        return;
+      }
+      if (!isAuthorizedRequest(req, getAuthToken(), true)) {
+        logger.warn('Rejected unauthenticated plugin channel connection', { remoteAddress: req.socket.remoteAddress });
+        socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+        return;
+      }
+      this.wss!.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws));
+    });
+
+    this.heartbeat = setInterval(() => {
+      if (!this.socket) {
+        return;
+      }
+      if ((this.socket as any).isAlive === false) {
+        logger.warn('Plugin channel heartbeat timed out, terminating connection');
+        this.socket.terminate();
+        return;
+      }
+      (this.socket as any).isAlive = false;
+      this.socket.ping();
+    }, HEARTBEAT_INTERVAL);
+
+    logger.info(`Plugin channel listening on ${PLUGIN_CHANNEL_PATH}`);
+  }
+
+  private handleConnection(ws: WebSocket): void {
+    if (this.socket) {
+      logger.info('Replacing existing plugin channel connection');
+      this.socket.close(4000, 'Replaced by a new connection');
+    }
+    this.socket = ws;
+    this.hello = {};
+    this.connectedAt = new Date();
+    (ws as any).isAlive = true;
+
+    ws.on('pong', () => {
+      (ws as any).isAlive = true;
+    });
+    ws.on('message', (data) => this.handleMessage(data.toString()));
+    ws.on('close', () => {
+      if (this.socket !== ws) {
+        return;
+      }
+      this.socket = undefined;
+      this.connectedAt = undefined;
+      this.rejectAll(new Error('Logseq plugin disconnected'));
+      logger.info('Plugin channel disconnected');
+    });
+    ws.on('error', (error) => {
+      logger.error('Plugin channel error:', error);
+    });
+
+    logger.info('Plugin channel connected');
+  }
+
+  private handleMessage(raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      logger.warn('Ignoring invalid plugin channel message');
+      return;
+    }
+
+    if (message?.type === 'hello') {
+      this.hello = {
+        graph: message.graph,
+        allowWrites: message.allowWrites === true,
+        version: message.version
+      };
+      logger.info('Plugin channel hello', { graph: this.hello.graph, allowWrites: this.hello.allowWrites });
+      return;
+    }
+
+    if (message?.type === 'response' && typeof message.id === 'string') {
+      const request = this.pending.get(message.id);
+      if (!request) {
+        return;
+      }
+      this.pending.delete(message.id);
+      clearTimeout(request.timer);
+      if (message.error) {
+        request.reject(new Error(message.error.message || String(message.error)));
+      } else {
+        request.resolve(message.result);
+      }
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const [id, request] of this.pending.entries()) {
+      clearTimeout(request.timer);
+      request.reject(error);
+      this.pending.delete(id);
+    }
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  getStatus(): PluginChannelStatus {
+    return {
+      connected: this.isConnected(),
+      connectedAt: this.connectedAt?.toISOString(),
+      graph: this.hello.graph,
+      allowWrites: this.hello.allowWrites === true,
+      pendingRequests: this.pending.size
+    };
+  }
+
+  /**
+   * 向插件发送请求并等待结果
+   * @param method 方法名
+   * @param params 参数
+   * @param timeout 超时时间（毫秒）
+   */
+  request(method: string, params: Record<string, any> = {}, timeout: number = DEFAULT_REQUEST_TIMEOUT): Promise<any> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Logseq plugin is not connected to the bridge service'));
+    }
+
+    const id = randomUUID();
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Logseq plugin did not respond to ${method} within ${timeout}ms`));
+      }, timeout);
+      this.pending.set(id, { resolve, reject, timer });
+      socket.send(JSON.stringify({ type: 'request', id, method, params }), (error) => {
+        if (error) {
+          clearTimeout(timer);
+          this.pending.delete(id);
+          reject(error);
+        }
+      });
+    });
+  }
+
+  close(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+    this.rejectAll(new Error('Plugin channel closed'));
+    this.socket?.close();
+    this.socket = undefined;
+    this.wss?.close();
+    this.wss = undefined;
+  }
+}
+
+export const pluginChannel = PluginChannel.getInstance();
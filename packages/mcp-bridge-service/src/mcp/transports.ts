@@ -0,0 +1,566 @@
+import path from 'path';
+import WebSocket from 'ws';
+import { spawn, ChildProcess } from 'child_process';
+import { getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ReadBuffer, serializeMessage } from '@modelcontextprotocol/sdk/shared/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MCPServiceConfig } from '../config/types';
+import { logger } from '../utils/logger';
+
+// SSE 事件
+interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+// 读取 text/event-stream 响应，按空行分发事件
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SSEEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+  let eventName = '';
+  let dataLines: string[] = [];
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      if (dataLines.length > 0) {
+        onEvent({ event: eventName || 'message', data: dataLines.join('\n') });
+      }
+      eventName = '';
+      dataLines = [];
+      return;
+    }
+    // 以冒号开头的是注释（心跳）
+    if (line.startsWith(':')) {
+      return;
+    }
+    const colon = line.indexOf(':');
+    const field = colon >= 0 ? line.slice(0, colon) : line;
+    const value = colon >= 0 ? line.slice(colon + 1).replace(/^ /, '') : '';
+    if (field === 'event') {
+      eventName = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let index: number;
+      while ((index = buffer.indexOf('\n')) >= 0) {
+        processLine(buffer.slice(0, index).replace(/\r$/, ''));
+        buffer = buffer.slice(index + 1);
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer !== '') {
+      processLine(buffer.replace(/\r$/, ''));
+    }
+    processLine('');
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// 解析 JSON-RPC 消息，无效消息交给 onerror
+function parseMessages(
+  payload: unknown,
+  onmessage?: (message: JSONRPCMessage) => void,
+  onerror?: (error: Error) => void
+): void {
+  const items = Array.isArray(payload) ? payload : [payload];
+  for (const item of items) {
+    try {
+      onmessage?.(JSONRPCMessageSchema.parse(item));
+    } catch (error) {
+      onerror?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * 展开字符串中的 ${VAR}，变量取自桥接服务自身的环境，未定义的变量替换为空字符串
+ * @param value 配置值
+ * @param source 变量来源
+ */
+export function expandEnvVariables(value: string, source: NodeJS.ProcessEnv = process.env): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => {
+    const resolved = source[name];
+    if (resolved === undefined) {
+      logger.warn(`Environment variable ${name} is not defined, using empty string`);
+      return '';
+    }
+    return resolved;
+  });
+}
+
+/**
+ * 构建子进程环境：SDK 默认继承的安全变量 + 配置的 env（支持 ${VAR} 展开）
+ * @param env 服务配置的环境变量
+ */
+export function buildStdioEnvironment(env: Record<string, string> = {}): Record<string, string> {
+  const merged: Record<string, string> = getDefaultEnvironment();
+  for (const [key, value] of Object.entries(env)) {
+    merged[key] = expandEnvVariables(value);
+  }
+  return merged;
+}
+
+// stdio 传输参数
+export interface StdioTransportOptions {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  // 子进程 stderr 的每一行
+  onStderr?: (line: string) => void;
+  // 子进程退出
+  onExit?: (code: number | null, signal: NodeJS.Signals | null) => void;
+}
+
+/**
+ * stdio 传输：启动子进程并通过 stdin/stdout 通信
+ * SDK 自带的实现不支持工作目录，stderr 也只能继承或忽略，这里捕获 stderr 并按行回调
+ */
+export class StdioClientTransport implements Transport {
+  private options: StdioTransportOptions;
+  private process?: ChildProcess;
+  private abortController = new AbortController();
+  private readBuffer = new ReadBuffer();
+  private stderrBuffer = '';
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(options: StdioTransportOptions) {
+    this.options = options;
+  }
+
+  start(): Promise<void> {
+    if (this.process) {
+      throw new Error('StdioClientTransport already started');
+    }
+    return new Promise((resolve, reject) => {
+      const cwd = this.options.cwd ? path.resolve(expandEnvVariables(this.options.cwd)) : undefined;
+      const child = spawn(this.options.command, this.options.args || [], {
+        cwd,
+        env: buildStdioEnvironment(this.options.env),
+        stdio: ['pipe', 'pipe', 'pipe'],
+        shell: false,
+        signal: this.abortController.signal
+      });
+      this.process = child;
+
+      child.on('error', (error) => {
+        // close() 中止子进程时触发，属于正常关闭
+        if (error.name === 'AbortError') {
+          this.onclose?.();
+          return;
+        }
+        reject(error);
+        this.onerror?.(error);
+      });
+      child.on('spawn', () => {
+        resolve();
+      });
+      child.on('close', (code, signal) => {
+        this.flushStderr();
+        this.process = undefined;
+        this.options.onExit?.(code, signal);
+        this.onclose?.();
+      });
+
+      child.stdin?.on('error', (error) => {
+        this.onerror?.(error);
+      });
+      child.stdout?.on('data', (chunk: Buffer) => {
+        this.readBuffer.append(chunk);
+        this.processReadBuffer();
+      });
+      child.stdout?.on('error', (error) => {
+        this.onerror?.(error);
+      });
+      child.stderr?.setEncoding('utf8');
+      child.stderr?.on('data', (chunk: string) => {
+        this.stderrBuffer += chunk;
+        let index: number;
+        while ((index = this.stderrBuffer.indexOf('\n')) >= 0) {
+          this.emitStderr(this.stderrBuffer.slice(0, index));
+          this.stderrBuffer = this.stderrBuffer.slice(index + 1);
+        }
+      });
+    });
+  }
+
+  private emitStderr(line: string): void {
+    const text = line.replace(/\r$/, '');
+    if (text.trim() !== '') {
+      this.options.onStderr?.(text);
+    }
+  }
+
+  private flushStderr(): void {
+    if (this.stderrBuffer !== '') {
+      this.emitStderr(this.stderrBuffer);
+      this.stderrBuffer = '';
+    }
+  }
+
+  private processReadBuffer(): void {
+    while (true) {
+      try {
+        const message = this.readBuffer.readMessage();
+        if (message === null) {
+          break;
+        }
+        this.onmessage?.(message);
+      } catch (error) {
+        this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const stdin = this.process?.stdin;
+    if (!stdin) {
+      throw new Error('Not connected');
+    }
+    await new Promise<void>((resolve) => {
+      if (stdin.write(serializeMessage(message))) {
+        resolve();
+      } else {
+        stdin.once('drain', resolve);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    this.abortController.abort();
+    this.process = undefined;
+    this.readBuffer.clear();
+  }
+}
+
+/**
+ * HTTP+SSE 传输（MCP 2024-11-05）：GET 建立事件流并从 endpoint 事件获取消息地址，消息通过 POST 发送
+ * SDK 自带的实现依赖浏览器 EventSource 且不支持自定义请求头，这里基于 fetch 实现
+ */
+export class SSEClientTransport implements Transport {
+  private url: URL;
+  private headers: Record<string, string>;
+  private endpoint?: URL;
+  private abortController?: AbortController;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(url: URL, headers: Record<string, string> = {}) {
+    this.url = url;
+    this.headers = headers;
+  }
+
+  async start(): Promise<void> {
+    if (this.abortController) {
+      throw new Error('SSEClientTransport already started');
+    }
+    this.abortController = new AbortController();
+
+    const response = await fetch(this.url, {
+      method: 'GET',
+      headers: { ...this.headers, Accept: 'text/event-stream' },
+      signal: this.abortController.signal
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`SSE connection failed (${response.status}): ${await response.text().catch(() => '')}`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      let resolved = false;
+      readEventStream(response.body as ReadableStream<Uint8Array>, (event) => {
+        if (event.event === 'endpoint') {
+          try {
+            this.endpoint = new URL(event.data, this.url);
+            if (this.endpoint.origin !== this.url.origin) {
+              throw new Error(`Endpoint origin does not match connection origin: ${this.endpoint.origin}`);
+            }
+            resolved = true;
+            resolve();
+          } catch (error) {
+            reject(error);
+            void this.close();
+          }
+          return;
+        }
+        if (event.event === 'message') {
+          try {
+            parseMessages(JSON.parse(event.data), this.onmessage, this.onerror);
+          } catch (error) {
+            this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+          }
+        }
+      }).then(() => {
+        if (!resolved) {
+          reject(new Error('SSE stream closed before endpoint event'));
+        }
+        this.onclose?.();
+      }).catch((error) => {
+        if (!resolved) {
+          reject(error);
+        }
+        if (!isAbortError(error)) {
+          this.onerror?.(error);
+        }
+        this.onclose?.();
+      });
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new Error('Not connected');
+    }
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: this.abortController?.signal
+    });
+    if (!response.ok) {
+      throw new Error(`Error POSTing to endpoint (${response.status}): ${await response.text().catch(() => '')}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.abortController?.abort();
+  }
+}
+
+/**
+ * Streamable HTTP 传输（MCP 2025-03-26）：每条消息 POST 到同一地址，响应为 JSON 或 SSE 流，
+ * 通过 Mcp-Session-Id 维持会话，初始化后尝试 GET 打开服务端推送流
+ */
+export class StreamableHTTPClientTransport implements Transport {
+  private url: URL;
+  private headers: Record<string, string>;
+  private sessionId?: string;
+  private abortController?: AbortController;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(url: URL, headers: Record<string, string> = {}) {
+    this.url = url;
+    this.headers = headers;
+  }
+
+  private buildHeaders(extra: Record<string, string>): Record<string, string> {
+    return {
+      ...this.headers,
+      ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+      ...extra
+    };
+  }
+
+  // 在后台读取 SSE 响应中的消息
+  private consumeStream(response: Response): void {
+    if (!response.body) {
+      return;
+    }
+    readEventStream(response.body as ReadableStream<Uint8Array>, (event) => {
+      if (event.event !== 'message') {
+        return;
+      }
+      try {
+        parseMessages(JSON.parse(event.data), this.onmessage, this.onerror);
+      } catch (error) {
+        this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    }).catch((error) => {
+      if (!isAbortError(error)) {
+        this.onerror?.(error);
+      }
+    });
+  }
+
+  // 打开 GET 流接收服务端主动发送的消息，服务端不支持时（405）忽略
+  private async openServerStream(): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'GET',
+        headers: this.buildHeaders({ Accept: 'text/event-stream' }),
+        signal: this.abortController?.signal
+      });
+      if (response.status === 405) {
+        return;
+      }
+      if (!response.ok) {
+        logger.debug(`Streamable HTTP server stream unavailable (${response.status}): ${this.url.href}`);
+        return;
+      }
+      this.consumeStream(response);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        logger.debug(`Failed to open Streamable HTTP server stream: ${this.url.href}`, error);
+      }
+    }
+  }
+
+  async start(): Promise<void> {
+    if (this.abortController) {
+      throw new Error('StreamableHTTPClientTransport already started');
+    }
+    this.abortController = new AbortController();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: this.buildHeaders({
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream'
+      }),
+      body: JSON.stringify(message),
+      signal: this.abortController?.signal
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      throw new Error(`Streamable HTTP error (${response.status}): ${await response.text().catch(() => '')}`);
+    }
+
+    // 初始化完成后打开服务端推送流
+    if ('method' in message && message.method === 'notifications/initialized') {
+      void this.openServerStream();
+    }
+
+    // 通知和响应被接受时返回 202，没有内容
+    if (response.status === 202) {
+      return;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      this.consumeStream(response);
+    } else if (contentType.includes('application/json')) {
+      parseMessages(await response.json(), this.onmessage, this.onerror);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.abortController?.abort();
+    // 通知服务端结束会话
+    if (this.sessionId) {
+      try {
+        await fetch(this.url, { method: 'DELETE', headers: this.buildHeaders({}) });
+      } catch (error) {
+        logger.debug(`Failed to terminate Streamable HTTP session: ${this.url.href}`, error);
+      }
+      this.sessionId = undefined;
+    }
+    this.onclose?.();
+  }
+}
+
+/**
+ * WebSocket 传输：使用 mcp 子协议，握手时携带配置的请求头
+ */
+export class WebSocketClientTransport implements Transport {
+  private url: URL;
+  private headers: Record<string, string>;
+  private socket?: WebSocket;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(url: URL, headers: Record<string, string> = {}) {
+    this.url = url;
+    this.headers = headers;
+  }
+
+  start(): Promise<void> {
+    if (this.socket) {
+      throw new Error('WebSocketClientTransport already started');
+    }
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url, 'mcp', { headers: this.headers });
+      this.socket = socket;
+      let opened = false;
+
+      socket.on('open', () => {
+        opened = true;
+        resolve();
+      });
+      socket.on('error', (error) => {
+        if (!opened) {
+          reject(error);
+        }
+        this.onerror?.(error);
+      });
+      socket.on('close', () => {
+        this.onclose?.();
+      });
+      socket.on('message', (data) => {
+        try {
+          parseMessages(JSON.parse(data.toString()), this.onmessage, this.onerror);
+        } catch (error) {
+          this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      throw new Error('Not connected');
+    }
+    await new Promise<void>((resolve, reject) => {
+      socket.send(JSON.stringify(message), (error) => error ? reject(error) : resolve());
+    });
+  }
+
+  async close(): Promise<void> {
+    this.socket?.close();
+  }
+}
+
+/**
+ * 根据服务类型创建网络传输层（sse / streamable-http / websocket）
+ */
+export function createNetworkTransport(config: MCPServiceConfig): Transport {
+  if (!config.url) {
+    throw new Error(`MCP service url is required for ${config.type} transport`);
+  }
+  const url = new URL(config.url);
+  const headers = config.headers || {};
+
+  switch (config.type) {
+    case 'sse':
+      return new SSEClientTransport(url, headers);
+    case 'streamable-http':
+      return new StreamableHTTPClientTransport(url, headers);
+    case 'websocket':
+      return new WebSocketClientTransport(url, headers);
+    default:
+      throw new Error(`Unsupported network transport type: ${config.type}`);
+  }
+}
@@ -163,6 +163,7 @@ export function errorLoggingMiddleware(error: Error, req: Request, res: Response
 // 跳过日志记录的路径
 const skipLoggingPaths = [
   '/health',
+  '/events',
   '/favicon.ico',
   '/robots.txt'
 ];
@@ -3,6 +3,14 @@ import cors from 'cors';
 import path from 'path';
 import { createRoutes } from './api/routes';
 import { MCPClientManager } from './mcp/client-manager';
+import { pluginChannel } from './mcp/plugin-channel';
+import { createGraphServer } from './mcp/graph-server';
+import { createStreamableHTTPRouter } from './mcp/http-server-transport';
+import { taskStore } from './services/task-store';
+import { jobQueue } from './services/job-queue';
+import { taskEvents } from './services/task-events';
+import { intentRules } from './services/intent-rules';
+import { intentCorrections } from './services/intent-corrections';
 import { ConfigManager } from './config/manager';
 import { logger } from './utils/logger';
 import { BridgeConfig } from './config/types';
@@ -19,6 +27,20 @@ export class BridgeServer {
     this.configManager = new ConfigManager(configPath);
     this.clientManager = new MCPClientManager();
     this.config = this.configManager.getConfig();
+
+    // 加载持久化的任务，必须在创建路由（任务仓库）之前
+    taskStore.init(this.config.tasks);
+    jobQueue.configure(this.config.queue);
+    taskEvents.start();
+    intentRules.start(this.config.intent.rulesPath);
+    intentCorrections.configure(this.config.intent.correctionsPath, this.config.intent.maxCorrections);
+    // 配置变更只在这一个监听器里生效，避免重复执行
+    this.configManager.watch(config => {
+      this.config = config;
+      jobQueue.configure(config.queue);
+      intentRules.start(config.intent.rulesPath);
+      intentCorrections.configure(config.intent.correctionsPath, config.intent.maxCorrections);
+    });
     
     this.setupMiddleware();
     this.setupRoutes();
@@ -74,6 +96,15 @@ export class BridgeServer {
     // API路由
     this.app.use('/api', createRoutes(this.clientManager, this.configManager));
 
+    // 图谱 MCP 服务器（Streamable HTTP），图谱请求经插件通道转发给 Logseq 插件
+    const { graphServer } = this.config;
+    if (graphServer.enabled) {
+      this.app.use(graphServer.path, createStreamableHTTPRouter(
+        () => createGraphServer((method, params) => pluginChannel.request(method, params)),
+        { authToken: () => this.configManager.getConfig().graphServer.authToken }
+      ));
+    }
+
     // 根路径 - 重定向到配置界面
     this.app.get('/', (req, res) => {
       res.redirect('/ui');
@@ -90,6 +121,8 @@ export class BridgeServer {
           services: '/api/services',
           tools: '/api/tools',
           config: '/api/config',
+          graph: '/api/graph/status',
+          mcp: this.config.graphServer.enabled ? this.config.graphServer.path : undefined,
           ui: '/ui'
         },
         documentation: 'https://github.com/your-repo/logseq-mcp-bridge'
@@ -158,25 +191,25 @@ export class BridgeServer {
       });
 
       // 启动HTTP服务器
-      const port = this.config.server.port;
-      this.server = this.app.listen(port, () => {
-        logger.info(`Bridge service started on port ${port}`);
+      const { port, host } = this.config.server;
+      this.server = this.app.listen(port, host, () => {
+        logger.info(`Bridge service started on ${host}:${port}`);
         logger.info(`Configuration UI: http://localhost:${port}/ui`);
         logger.info(`Health check: http://localhost:${port}/api/health`);
         logger.info(`API info: http://localhost:${port}/info`);
+        if (this.config.graphServer.enabled) {
+          logger.info(`Graph MCP server: http://localhost:${port}${this.config.graphServer.path}`);
+        }
       });
 
+      // 插件通道（WebSocket），Logseq 插件连接后才能提供图谱服务
+      pluginChannel.attach(this.server, () => this.configManager.getConfig().graphServer.authToken);
+
       // 异步初始化MCP服务连接（不阻塞HTTP服务器启动）
       this.initializeMCPServices().catch(error => {
         logger.error('Failed to initialize MCP services:', error);
       });
 
-      // 监听配置变更
-      this.configManager.on('configChanged', async (newConfig) => {
-        logger.info('Configuration changed, reloading services...');
-        await this.reloadServices(newConfig);
-      });
-
     } catch (error) {
       logger.error('Failed to start bridge service:', error);
       throw error;
@@ -201,30 +234,20 @@ export class BridgeServer {
     await this.clientManager.connectAll();
   }
 
-  private async reloadServices(newConfig: BridgeConfig): Promise<void> {
-    try {
-      // 断开所有现有连接
-      await this.clientManager.disconnectAll();
-      
-      // 清除所有服务
-      this.clientManager.clear();
-      
-      // 重新初始化服务
-      this.config = newConfig;
-      await this.initializeMCPServices();
-      
-      logger.info('Services reloaded successfully');
-    } catch (error) {
-      logger.error('Failed to reload services:', error);
-    }
-  }
-
   public async shutdown(): Promise<void> {
     logger.info('Shutting down bridge service...');
 
     try {
       // 断开所有MCP连接
       await this.clientManager.disconnectAll();
+
+      // 关闭插件通道
+      pluginChannel.close();
+
+      // 结束任务事件流、写入任务存储并停止监听意图规则文件
+      taskEvents.close();
+      taskStore.close();
+      intentRules.stop();
       
       // 关闭HTTP服务器
       if (this.server) {
@@ -1,6 +1,8 @@
 import { ConfigManager } from '../config/manager';
 import { logger } from '../utils/logger';
 import { loggingService } from './logging-service';
+import { taskStore } from './task-store';
+import { jobQueue, JobPriority, sleep } from './job-queue';
 import fs from 'fs';
 import path from 'path';
 import https from 'https';
@@ -21,6 +23,8 @@ export interface BaseTask {
   updatedAt: number;
   error?: string;
   result?: any;
+  // 被用户取消（状态同时为 failed）
+  cancelled?: boolean;
 }
 
 // 文生图任务
@@ -91,11 +95,13 @@ export type AITask = TextToImageTask | ImageToImageTask | EditImageTask | TextTo
 
 // AI能力服务
 export class AICapabilitiesService {
-  private tasks = new Map<string, AITask>();
+  private tasks = taskStore.repository<AITask>('ai-capabilities');
   private configManager: ConfigManager;
 
   constructor(configManager: ConfigManager) {
     this.configManager = configManager;
+    // 这些任务都在桥接服务内同步调用接口，重启后无法继续
+    taskStore.failUnfinished(this.tasks);
   }
 
   // 生成任务ID
@@ -127,11 +133,8 @@ export class AICapabilitiesService {
     this.tasks.set(taskId, task);
     logger.info(`Created text-to-image task: ${taskId}`);
 
-    // 异步处理任务
-    this.processTextToImageTask(taskId).catch(error => {
-      logger.error(`Error processing text-to-image task ${taskId}:`, error);
-      this.updateTaskStatus(taskId, 'failed', error.message);
-    });
+    // 加入任务队列（异步）
+    this.enqueue(taskId, 'image-api', 'normal', signal => this.processTextToImageTask(taskId, signal));
 
     return taskId;
   }
@@ -157,11 +160,8 @@ export class AICapabilitiesService {
     this.tasks.set(taskId, task);
     logger.info(`Created image-to-image task: ${taskId}`);
 
-    // 异步处理任务
-    this.processImageToImageTask(taskId).catch(error => {
-      logger.error(`Error processing image-to-image task ${taskId}:`, error);
-      this.updateTaskStatus(taskId, 'failed', error.message);
-    });
+    // 加入任务队列（异步）
+    this.enqueue(taskId, 'image-api', 'normal', signal => this.processImageToImageTask(taskId, signal));
 
     return taskId;
   }
@@ -187,11 +187,8 @@ export class AICapabilitiesService {
     this.tasks.set(taskId, task);
     logger.info(`Created edit-image task: ${taskId}`);
 
-    // 异步处理任务
-    this.processEditImageTask(taskId).catch(error => {
-      logger.error(`Error processing edit-image task ${taskId}:`, error);
-      this.updateTaskStatus(taskId, 'failed', error.message);
-    });
+    // 加入任务队列（异步）
+    this.enqueue(taskId, 'image-api', 'normal', signal => this.processEditImageTask(taskId, signal));
 
     return taskId;
   }
@@ -218,11 +215,8 @@ export class AICapabilitiesService {
     this.tasks.set(taskId, task);
     logger.info(`Created text-to-speech task: ${taskId}`);
 
-    // 异步处理任务
-    this.processTextToSpeechTask(taskId).catch(error => {
-      logger.error(`Error processing text-to-speech task ${taskId}:`, error);
-      this.updateTaskStatus(taskId, 'failed', error.message);
-    });
+    // 加入任务队列（异步）
+    this.enqueue(taskId, this.configManager.getApiConfig().dashscopeApiKey ? 'dashscope' : 'tts-api', 'high', signal => this.processTextToSpeechTask(taskId, signal));
 
     return taskId;
   }
@@ -249,11 +243,8 @@ export class AICapabilitiesService {
     this.tasks.set(taskId, task);
     logger.info(`Created text-to-video task: ${taskId}`);
 
-    // 异步处理任务
-    this.processTextToVideoTask(taskId).catch(error => {
-      logger.error(`Error processing text-to-video task ${taskId}:`, error);
-      this.updateTaskStatus(taskId, 'failed', error.message);
-    });
+    // 加入任务队列（异步）
+    this.enqueue(taskId, 'dashscope', 'low', signal => this.processTextToVideoTask(taskId, signal));
 
     return taskId;
   }
@@ -280,11 +271,8 @@ export class AICapabilitiesService {
     this.tasks.set(taskId, task);
     logger.info(`Created image-to-video task: ${taskId}`);
 
-    // 异步处理任务
-    this.processImageToVideoTask(taskId).catch(error => {
-      logger.error(`Error processing image-to-video task ${taskId}:`, error);
-      this.updateTaskStatus(taskId, 'failed', error.message);
-    });
+    // 加入任务队列（异步）
+    this.enqueue(taskId, 'dashscope', 'low', signal => this.processImageToVideoTask(taskId, signal));
 
     return taskId;
   }
@@ -294,6 +282,21 @@ export class AICapabilitiesService {
     return this.tasks.get(taskId);
   }
 
+  /**
+   * 取消任务
+   * @returns 任务不存在或已结束时返回 false
+   */
+  cancelTask(taskId: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status === 'completed' || task.status === 'failed') {
+      return false;
+    }
+    jobQueue.cancel(taskId);
+    this.updateTaskStatus(taskId, 'failed', 'Cancelled');
+    task.cancelled = true;
+    return true;
+  }
+
   // 获取所有任务
   getAllTasks(): AITask[] {
     return Array.from(this.tasks.values());
@@ -304,10 +307,24 @@ export class AICapabilitiesService {
     return Array.from(this.tasks.values()).filter(task => task.type === type);
   }
 
+  // 加入统一任务队列，重试等待期间回到 pending，重试用尽后标记失败
+  private enqueue(taskId: string, provider: string, priority: JobPriority, run: (signal: AbortSignal) => Promise<void>): void {
+    jobQueue.enqueue({
+      id: taskId,
+      kind: this.tasks.get(taskId)?.type || 'ai-capability',
+      provider,
+      priority,
+      run,
+      onRetry: () => this.updateTaskStatus(taskId, 'pending'),
+      onFailed: error => this.updateTaskStatus(taskId, 'failed', error.message)
+    });
+  }
+
   // 更新任务状态
   private updateTaskStatus(taskId: string, status: TaskStatus, error?: string, result?: any): void {
     const task = this.tasks.get(taskId);
-    if (task) {
+    // 已取消的任务不再更新，避免仍在进行的请求覆盖取消状态
+    if (task && !task.cancelled) {
       const oldStatus = task.status;
       task.status = status;
       task.updatedAt = Date.now();
@@ -328,7 +345,7 @@ export class AICapabilitiesService {
   }
 
   // 处理文生图任务
-  private async processTextToImageTask(taskId: string): Promise<void> {
+  private async processTextToImageTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = this.tasks.get(taskId) as TextToImageTask;
     if (!task) return;
 
@@ -349,7 +366,8 @@ export class AICapabilitiesService {
           quality: task.quality || 'standard',
           response_format: 'b64_json',
           n: 1
-        })
+        }),
+        signal
       });
 
       if (!response.ok) {
@@ -373,12 +391,12 @@ export class AICapabilitiesService {
       });
     } catch (error) {
       logger.error(`Text-to-image task failed: ${taskId}`, error);
-      this.updateTaskStatus(taskId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
     }
   }
 
   // 处理图生图任务
-  private async processImageToImageTask(taskId: string): Promise<void> {
+  private async processImageToImageTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = this.tasks.get(taskId) as ImageToImageTask;
     if (!task) return;
 
@@ -390,19 +408,19 @@ export class AICapabilitiesService {
       logger.info(`Processing image-to-image task: ${taskId}`);
       
       // 模拟处理时间
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await sleep(2000, signal);
       
       this.updateTaskStatus(taskId, 'completed', undefined, {
         message: 'Image-to-image processing completed (placeholder)'
       });
     } catch (error) {
       logger.error(`Image-to-image task failed: ${taskId}`, error);
-      this.updateTaskStatus(taskId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
     }
   }
 
   // 处理编辑图像任务
-  private async processEditImageTask(taskId: string): Promise<void> {
+  private async processEditImageTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = this.tasks.get(taskId) as EditImageTask;
     if (!task) return;
 
@@ -437,7 +455,8 @@ export class AICapabilitiesService {
         headers: {
           'Authorization': `Bearer ${apiConfig.imageApiKey}`
         },
-        body: formData
+        body: formData,
+        signal
       });
 
       if (!response.ok) {
@@ -461,12 +480,12 @@ export class AICapabilitiesService {
       });
     } catch (error) {
       logger.error(`Edit-image task failed: ${taskId}`, error);
-      this.updateTaskStatus(taskId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
     }
   }
 
   // 处理TTS任务
-  private async processTextToSpeechTask(taskId: string): Promise<void> {
+  private async processTextToSpeechTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = this.tasks.get(taskId) as TextToSpeechTask;
     if (!task) return;
 
@@ -477,7 +496,7 @@ export class AICapabilitiesService {
       
       // 检查是否使用阿里云TTS
       if (apiConfig.dashscopeApiKey) {
-        await this.processQwenTTSTask(taskId);
+        await this.processQwenTTSTask(taskId, signal);
         return;
       }
       
@@ -494,7 +513,8 @@ export class AICapabilitiesService {
           voice: task.voice || apiConfig.ttsVoice || 'alloy',
           response_format: task.format || apiConfig.ttsResponseFormat || 'mp3',
           speed: task.speed || parseFloat(apiConfig.ttsSpeed) || 1.0
-        })
+        }),
+        signal
       });
 
       if (!response.ok) {
@@ -516,12 +536,12 @@ export class AICapabilitiesService {
       });
     } catch (error) {
       logger.error(`TTS task failed: ${taskId}`, error);
-      this.updateTaskStatus(taskId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
     }
   }
 
   // 处理阿里云TTS任务
-  private async processQwenTTSTask(taskId: string): Promise<void> {
+  private async processQwenTTSTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = this.tasks.get(taskId) as TextToSpeechTask;
     if (!task) return;
 
@@ -543,7 +563,8 @@ export class AICapabilitiesService {
             voice: task.voice || apiConfig.qwenTtsVoice || 'longwan',
             format: task.format || apiConfig.qwenTtsFormat || 'mp3'
           }
-        })
+        }),
+        signal
       });
 
       if (!response.ok) {
@@ -554,7 +575,7 @@ export class AICapabilitiesService {
       
       if (data.output?.audio_url) {
         // 下载音频文件
-        const audioResponse = await fetch(data.output.audio_url);
+        const audioResponse = await fetch(data.output.audio_url, { signal });
         const audioBuffer = await audioResponse.arrayBuffer();
         
         // 保存音频文件
@@ -574,12 +595,12 @@ export class AICapabilitiesService {
       }
     } catch (error) {
       logger.error(`Qwen TTS task failed: ${taskId}`, error);
-      this.updateTaskStatus(taskId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
     }
   }
 
   // 处理文生视频任务（占位符实现）
-  private async processTextToVideoTask(taskId: string): Promise<void> {
+  private async processTextToVideoTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = this.tasks.get(taskId) as TextToVideoTask;
     if (!task) return;
 
@@ -590,17 +611,17 @@ export class AICapabilitiesService {
       logger.warn('Text-to-video functionality is not yet implemented');
       
       // 模拟处理时间
-      await new Promise(resolve => setTimeout(resolve, 5000));
+      await sleep(5000, signal);
       
-      this.updateTaskStatus(taskId, 'failed', 'Text-to-video functionality is not yet implemented');
+      throw new Error('Text-to-video functionality is not yet implemented');
     } catch (error) {
       logger.error(`Text-to-video task failed: ${taskId}`, error);
-      this.updateTaskStatus(taskId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
     }
   }
 
   // 处理图生视频任务（占位符实现）
-  private async processImageToVideoTask(taskId: string): Promise<void> {
+  private async processImageToVideoTask(taskId: string, signal?: AbortSignal): Promise<void> {
     const task = this.tasks.get(taskId) as ImageToVideoTask;
     if (!task) return;
 
@@ -611,12 +632,12 @@ export class AICapabilitiesService {
       logger.warn('Image-to-video functionality is not yet implemented');
       
       // 模拟处理时间
-      await new Promise(resolve => setTimeout(resolve, 5000));
+      await sleep(5000, signal);
       
-      this.updateTaskStatus(taskId, 'failed', 'Image-to-video functionality is not yet implemented');
+      throw new Error('Image-to-video functionality is not yet implemented');
     } catch (error) {
       logger.error(`Image-to-video task failed: ${taskId}`, error);
-      this.updateTaskStatus(taskId, 'failed', error instanceof Error ? error.message : 'Unknown error');
+      throw error;
     }
   }
 
@@ -0,0 +1,64 @@
+import type { IntentTaskType } from './intent-analyzer';
+
+/**
+ * 插件专门命令对应的能力，意图分析结果、意图规则目标和插件路由共用
+ * 插件端的同名定义在 logseq-plugin/src/libs/capabilities.ts，修改时需同步
+ */
+export const INTENT_CAPABILITIES = [
+  'image_generation',
+  'image_edit',
+  'ocr',
+  'file_analysis',
+  'text_to_speech',
+  'qwen_tts',
+  'text_to_video',
+  'image_to_video',
+  'graph_search',
+  'summary',
+  'advanced_query'
+] as const;
+
+export type IntentCapability = typeof INTENT_CAPABILITIES[number];
+
+// 当前块中的附件数量（插件从块内容中的图片和文件引用统计）
+export interface IntentAttachments {
+  images: number;
+  files: number;
+}
+
+export interface CapabilityInfo {
+  // 插件中对应的斜杠命令
+  command: string;
+  taskType: IntentTaskType;
+  description: string;
+  // image 需要图片附件，attachment 需要图片或文件附件
+  requires?: 'image' | 'attachment';
+}
+
+export const CAPABILITIES: Record<IntentCapability, CapabilityInfo> = {
+  image_generation: { command: 'gpt-image', taskType: 'image', description: '文生图，块中有图片时图生图' },
+  image_edit: { command: 'gpt-imgedit', taskType: 'image', description: '按描述编辑块中的图片（文件名含 mask 的图片作为遮罩）', requires: 'image' },
+  ocr: { command: 'gpt-ocr', taskType: 'image', description: '识别块中图片里的文字', requires: 'image' },
+  file_analysis: { command: 'gpt-file', taskType: 'multimodal', description: '分析块中引用的文档、表格或图片', requires: 'attachment' },
+  text_to_speech: { command: 'gpt-tts', taskType: 'audio', description: '把文本转换为语音' },
+  qwen_tts: { command: 'gpt-qwen-tts', taskType: 'audio', description: '使用通义千问 Qwen-TTS 把文本转换为语音' },
+  text_to_video: { command: 'gpt-qwen-t2v', taskType: 'video', description: '根据描述生成视频' },
+  image_to_video: { command: 'gpt-qwen-i2v', taskType: 'video', description: '让块中的图片动起来生成视频', requires: 'image' },
+  graph_search: { command: 'gpt-graph', taskType: 'text', description: '基于当前页面的双链和标签搜索笔记并回答' },
+  summary: { command: 'gpt-summary', taskType: 'text', description: '总结当前页面' },
+  advanced_query: { command: 'gpt-query', taskType: 'text', description: '生成 Logseq 高级查询语句' }
+};
+
+/**
+ * 返回能力缺少的附件类型，满足时返回 null
+ */
+export function missingAttachment(capability: IntentCapability, attachments: IntentAttachments): 'image' | 'attachment' | null {
+  const requires = CAPABILITIES[capability].requires;
+  if (requires === 'image' && attachments.images === 0) {
+    return 'image';
+  }
+  if (requires === 'attachment' && attachments.images + attachments.files === 0) {
+    return 'attachment';
+  }
+  return null;
+}
@@ -1,11 +1,19 @@
+import * as joi from 'joi';
 import { logger } from '../utils/logger';
 import { ConfigManager } from '../config/manager';
+import { IntentConfig } from '../config/types';
+import { analyzeIntentByKeywords, IntentTool } from './intent-fallback';
+import { IntentRuleTarget } from './intent-rules';
+import { INTENT_CAPABILITIES, CAPABILITIES, IntentCapability, IntentAttachments, missingAttachment } from './capabilities';
+import { intentCorrections, IntentCorrection } from './intent-corrections';
+
+export type IntentTaskType = 'text' | 'image' | 'audio' | 'video' | 'multimodal';
 
 // 意图分析结果接口
 export interface IntentAnalysisResult {
   needsMCP: boolean;
   confidence: number;
-  taskType: 'text' | 'image' | 'audio' | 'video' | 'multimodal';
+  taskType: IntentTaskType;
   recommendedTool?: {
     serviceId: string;
     toolName: string;
@@ -14,6 +22,17 @@ export interface IntentAnalysisResult {
   };
   reasoning: string;
   suggestedWorkflow?: string[];
+  // 适合处理该请求的插件能力，插件按能力路由到专门命令
+  capability?: IntentCapability;
+  // 结果来源：model 为模型分析，keyword 为意图规则
+  source: 'model' | 'keyword';
+  // 命中的意图规则及其处理方式（MCP 工具、插件命令或对话）
+  ruleId?: string;
+  target?: IntentRuleTarget;
+  provider?: string;
+  model?: string;
+  // 使用关键词规则的原因（模型调用失败、输出未通过校验等）
+  fallbackReason?: string;
 }
 
 // 用户输入接口
@@ -23,106 +42,241 @@ export interface UserInput {
   audio?: string; // base64 或 URL
   video?: string; // base64 或 URL
   context?: any; // 上下文信息
+  attachments?: IntentAttachments; // 当前块引用的图片和文件数量
 }
 
-// AI服务配置接口
-interface AIServiceConfig {
-  provider: 'comfly' | 'dashscope' | 'ollama';
+// 解析后的模型服务配置
+export interface AIServiceConfig {
+  provider: 'dashscope' | 'openai' | 'ollama';
   apiKey?: string;
-  baseUrl?: string;
+  baseUrl: string;
   model: string;
+  temperature: number;
+  timeoutMs: number;
+}
+
+const DASHSCOPE_COMPATIBLE_URL = 'https://dashscope.aliyuncs.com/compatible-mode/v1';
+const DEFAULT_DASHSCOPE_MODEL = 'qwen-max';
+const DEFAULT_OPENAI_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+const DEFAULT_OLLAMA_MODEL = 'llama3.2';
+
+// 模型 JSON 输出的结构
+const intentResponseSchema = joi.object({
+  needsMCP: joi.boolean().required(),
+  confidence: joi.number().min(0).max(1).required(),
+  taskType: joi.string().valid('text', 'image', 'audio', 'video', 'multimodal').optional(),
+  recommendedTool: joi.when('needsMCP', {
+    is: true,
+    then: joi.object({
+      serviceId: joi.string().required(),
+      toolName: joi.string().required(),
+      arguments: joi.object().unknown(true).default({}),
+      reasoning: joi.string().allow('').default('')
+    }).required(),
+    otherwise: joi.any().strip()
+  }),
+  capability: joi.string().valid(...INTENT_CAPABILITIES).allow(null).optional(),
+  reasoning: joi.string().required(),
+  suggestedWorkflow: joi.array().items(joi.string()).optional()
+}).unknown(true);
+
+/**
+ * 按输入包含的模态判断任务类型
+ */
+export function detectTaskType(userInput: UserInput): IntentTaskType {
+  const hasText = !!userInput.text;
+  const hasImages = !!(userInput.images && userInput.images.length > 0) || !!userInput.attachments?.images;
+  const hasAudio = !!userInput.audio;
+  const hasVideo = !!userInput.video;
+
+  const modalityCount = [hasText, hasImages, hasAudio, hasVideo].filter(Boolean).length;
+
+  if (modalityCount > 1) {
+    return 'multimodal';
+  }
+
+  if (hasImages) return 'image';
+  if (hasAudio) return 'audio';
+  if (hasVideo) return 'video';
+  return 'text';
 }
 
+/**
+ * 解析并校验模型的 JSON 输出，推荐的工具必须在可用工具中，选择的能力所需的附件必须存在
+ * @throws 输出不是 JSON、不符合结构、推荐了不存在的工具或能力缺少附件
+ */
+export function parseIntentResponse(
+  content: string,
+  taskType: IntentTaskType,
+  availableTools: IntentTool[],
+  attachments: IntentAttachments = { images: 0, files: 0 }
+): Omit<IntentAnalysisResult, 'source'> {
+  let parsed: any;
+  try {
+    // 部分模型会在 JSON 外包裹代码块
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    parsed = JSON.parse(jsonMatch ? jsonMatch[0] : content);
+  } catch {
+    throw new Error('Model output is not valid JSON');
+  }
+
+  const { value, error } = intentResponseSchema.validate(parsed, { stripUnknown: true });
+  if (error) {
+    throw new Error(`Model output failed schema validation: ${error.message}`);
+  }
+
+  const tool = value.recommendedTool;
+  if (tool && !availableTools.some(item => item.serviceId === tool.serviceId && item.name === tool.toolName)) {
+    throw new Error(`Model recommended unknown tool: ${tool.serviceId}/${tool.toolName}`);
+  }
+
+  const capability: IntentCapability | undefined = value.capability || undefined;
+  if (capability && missingAttachment(capability, attachments)) {
+    throw new Error(`Model chose capability ${capability} without the required ${missingAttachment(capability, attachments)}`);
+  }
+
+  return {
+    needsMCP: value.needsMCP,
+    confidence: value.confidence,
+    // 纯文本输入的任务类型以模型判断为准（选择了能力时取能力的任务类型）
+    taskType: taskType === 'text' ? (capability ? CAPABILITIES[capability].taskType : value.taskType || taskType) : taskType,
+    recommendedTool: tool,
+    capability,
+    reasoning: value.reasoning,
+    suggestedWorkflow: value.suggestedWorkflow
+  };
+}
+
+/**
+ * 意图分析流水线：高置信度意图规则 → 模型分析（JSON 输出并校验）→ 意图规则降级
+ * 模型、地址和提供商每次分析时从配置读取，插件同步的 Ollama 设置立即生效
+ */
 export class IntentAnalyzer {
   private configManager: ConfigManager;
-  private aiConfig: AIServiceConfig;
 
   constructor(configManager: ConfigManager) {
     this.configManager = configManager;
-    this.aiConfig = this.loadAIConfig();
   }
 
-  private loadAIConfig(): AIServiceConfig {
-    const config = this.configManager.getConfig();
-    
-    // 使用阿里百炼
-    if (config.api.dashscopeApiKey) {
-      return {
-        provider: 'dashscope',
-        apiKey: config.api.dashscopeApiKey,
-        baseUrl: 'https://dashscope.aliyuncs.com/api/v1',
-        model: 'qwen-max'
-      };
+  /**
+   * 解析当前使用的模型服务配置，provider 为 keyword 时返回 null
+   */
+  resolveAIConfig(intent: IntentConfig = this.configManager.getIntentConfig()): AIServiceConfig | null {
+    const api = this.configManager.getApiConfig();
+    const provider = intent.provider === 'auto'
+      ? (intent.apiKey || api.dashscopeApiKey ? 'dashscope' : 'ollama')
+      : intent.provider;
+    const common = { temperature: intent.temperature, timeoutMs: intent.timeoutMs };
+
+    switch (provider) {
+      case 'keyword':
+        return null;
+      case 'dashscope':
+        return {
+          provider,
+          apiKey: intent.apiKey || api.dashscopeApiKey,
+          baseUrl: intent.baseUrl || DASHSCOPE_COMPATIBLE_URL,
+          model: intent.model || DEFAULT_DASHSCOPE_MODEL,
+          ...common
+        };
+      case 'openai':
+        return {
+          provider,
+          apiKey: intent.apiKey,
+          baseUrl: intent.baseUrl || DEFAULT_OPENAI_URL,
+          model: intent.model || DEFAULT_OPENAI_MODEL,
+          ...common
+        };
+      case 'ollama':
+        return {
+          provider,
+          baseUrl: intent.baseUrl || api.ollamaAddress || DEFAULT_OLLAMA_URL,
+          model: intent.model || api.ollamaModel || DEFAULT_OLLAMA_MODEL,
+          ...common
+        };
     }
-    
-    // 默认使用本地 Ollama
-    return {
-      provider: 'ollama',
-      baseUrl: 'http://localhost:11434',
-      model: 'llama3.2'
-    };
   }
 
-  async analyzeIntent(userInput: UserInput, availableTools: any[]): Promise<IntentAnalysisResult> {
+  /**
+   * 分析用户意图
+   * @param overrides 覆盖本次分析使用的意图配置（评估时指向桩模型服务或只运行关键词阶段）
+   */
+  async analyzeIntent(
+    userInput: UserInput,
+    availableTools: IntentTool[],
+    overrides?: Partial<IntentConfig>
+  ): Promise<IntentAnalysisResult> {
+    const intent = { ...this.configManager.getIntentConfig(), ...overrides };
+    const taskType = detectTaskType(userInput);
+    const aiConfig = this.resolveAIConfig(intent);
+    const ruleAnalysis = analyzeIntentByKeywords(userInput.text || '', availableTools, taskType, userInput.attachments);
+
+    // 高置信度规则（如询问工具列表）不经过模型
+    if (!aiConfig || (ruleAnalysis.ruleId && ruleAnalysis.confidence >= intent.ruleConfidenceThreshold)) {
+      return ruleAnalysis;
+    }
+
     try {
-      // 检测任务类型
-      const taskType = this.detectTaskType(userInput);
-      
-      // 构建分析提示词
-      const prompt = this.buildAnalysisPrompt(userInput, availableTools, taskType);
-      
-      // 调用AI服务进行分析
-      const aiResponse = await this.callAIService(prompt, userInput);
-      
-      // 解析AI响应
-      const analysis = this.parseAIResponse(aiResponse, taskType);
-      
+      const examples = intentCorrections.examples(userInput.text || '', intent.fewShotExamples);
+      const prompt = this.buildAnalysisPrompt(availableTools, taskType, userInput.attachments, examples);
+      const content = await this.callModel(aiConfig, prompt, userInput);
+      const analysis: IntentAnalysisResult = {
+        ...parseIntentResponse(content, taskType, availableTools, userInput.attachments),
+        source: 'model',
+        provider: aiConfig.provider,
+        model: aiConfig.model
+      };
+
       logger.info('Intent analysis completed', {
+        provider: aiConfig.provider,
+        model: aiConfig.model,
         taskType,
         needsMCP: analysis.needsMCP,
+        capability: analysis.capability,
         confidence: analysis.confidence
       });
-      
+
       return analysis;
     } catch (error) {
-      logger.error('Intent analysis failed:', error);
-      
-      // 返回降级分析结果
-      return this.fallbackAnalysis(userInput, availableTools);
-    }
-  }
-
-  private detectTaskType(userInput: UserInput): 'text' | 'image' | 'audio' | 'video' | 'multimodal' {
-    const hasText = !!userInput.text;
-    const hasImages = !!(userInput.images && userInput.images.length > 0);
-    const hasAudio = !!userInput.audio;
-    const hasVideo = !!userInput.video;
-    
-    const modalityCount = [hasText, hasImages, hasAudio, hasVideo].filter(Boolean).length;
-    
-    if (modalityCount > 1) {
-      return 'multimodal';
+      const reason = error instanceof Error ? error.message : String(error);
+      if (!intent.keywordFallback) {
+        logger.error('Intent analysis failed:', { provider: aiConfig.provider, model: aiConfig.model, error: reason });
+        throw error;
+      }
+      logger.warn('Intent analysis failed, using keyword fallback', { provider: aiConfig.provider, model: aiConfig.model, error: reason });
+      return { ...ruleAnalysis, fallbackReason: reason };
     }
-    
-    if (hasImages) return 'image';
-    if (hasAudio) return 'audio';
-    if (hasVideo) return 'video';
-    return 'text';
   }
 
-  private buildAnalysisPrompt(userInput: UserInput, availableTools: any[], taskType: string): string {
-    const toolsDescription = availableTools.map(tool => 
-      `- ${tool.serviceId}/${tool.name}: ${tool.description}`
+  private buildAnalysisPrompt(
+    availableTools: IntentTool[],
+    taskType: IntentTaskType,
+    attachments: IntentAttachments = { images: 0, files: 0 },
+    examples: IntentCorrection[] = []
+  ): string {
+    const toolsDescription = availableTools.map(tool =>
+      `- ${tool.serviceId}/${tool.name}: ${tool.description || ''}`
     ).join('\n');
+    // 缺少附件的能力不列出，避免模型选择后校验失败
+    const capabilitiesDescription = INTENT_CAPABILITIES
+      .filter(capability => !missingAttachment(capability, attachments))
+      .map(capability => `- ${capability}: ${CAPABILITIES[capability].description}`)
+      .join('\n');
 
     const basePrompt = `你是一个智能意图分析助手，负责分析用户输入并推荐合适的MCP工具。
 
 可用的MCP工具：
-${toolsDescription}
+${toolsDescription || '（无）'}
+
+插件能力（不需要MCP工具、由插件专门命令处理的请求）：
+${capabilitiesDescription}
 
 任务类型：${taskType}
+当前块附件：图片 ${attachments.images} 张，文件 ${attachments.files} 个
 
-请分析用户输入，判断是否需要调用MCP工具。返回JSON格式：
+请分析用户输入，判断是否需要调用MCP工具或使用插件能力。只能推荐上面列出的工具和能力，只返回一个JSON对象，不要输出其他内容：
 {
   "needsMCP": boolean,
   "confidence": number (0-1),
@@ -133,9 +287,11 @@ ${toolsDescription}
     "arguments": {参数对象},
     "reasoning": "选择理由"
   },
+  "capability": "能力标识",
   "reasoning": "分析理由",
   "suggestedWorkflow": ["步骤1", "步骤2"]
-}`;
+}
+不需要工具时 needsMCP 为 false，省略 recommendedTool；不属于任何插件能力时 capability 为 null。${this.buildCorrectionExamples(examples)}`;
 
     // 根据任务类型添加特定指导
     switch (taskType) {
@@ -168,215 +324,97 @@ ${toolsDescription}
     }
   }
 
-  private async callAIService(prompt: string, userInput: UserInput): Promise<string> {
-    switch (this.aiConfig.provider) {
-      case 'comfly':
-        return this.callComflyAPI(prompt, userInput);
-      case 'dashscope':
-        return this.callDashscopeAPI(prompt, userInput);
-      case 'ollama':
-        return this.callOllamaAPI(prompt, userInput);
-      default:
-        throw new Error(`Unsupported AI provider: ${this.aiConfig.provider}`);
-    }
-  }
-
-  private async callComflyAPI(prompt: string, userInput: UserInput): Promise<string> {
-    const messages = [
-      { role: 'system', content: prompt },
-      { role: 'user', content: userInput.text || '用户提供了多媒体内容' }
-    ];
-
-    // 如果有图像，构建多模态消息
-    if (userInput.images && userInput.images.length > 0) {
-      const content = [
-        { type: 'text', text: userInput.text || '请分析这些图像' },
-        ...userInput.images.map(img => ({
-          type: 'image_url',
-          image_url: { url: img }
-        }))
-      ];
-      messages[1] = { role: 'user', content: JSON.stringify(content) };
+  // 用户纠正过的路由作为少样本示例
+  private buildCorrectionExamples(examples: IntentCorrection[]): string {
+    if (examples.length === 0) {
+      return '';
     }
-
-    const response = await fetch(`${this.aiConfig.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.aiConfig.apiKey}`
-      },
-      body: JSON.stringify({
-        model: this.aiConfig.model,
-        messages,
-        temperature: 0.1,
-        max_tokens: 1000
-      })
+    const lines = examples.map(example => {
+      const expected = { needsMCP: false, confidence: 0.9, capability: example.corrected.capability, reasoning: '与用户纠正过的示例相似' };
+      return `输入：${example.userInput}（图片 ${example.attachments.images} 张，文件 ${example.attachments.files} 个）\n输出：${JSON.stringify(expected)}`;
     });
+    return `\n\n用户纠正过的分析示例，遇到相似输入时按示例处理：\n${lines.join('\n')}`;
+  }
 
-    if (!response.ok) {
-      throw new Error(`Comfly API error: ${response.statusText}`);
-    }
-
-    const data = await response.json() as any;
-    return data.choices[0].message.content;
+  private async callModel(aiConfig: AIServiceConfig, prompt: string, userInput: UserInput): Promise<string> {
+    return aiConfig.provider === 'ollama'
+      ? this.callOllamaAPI(aiConfig, prompt, userInput)
+      : this.callChatCompletionsAPI(aiConfig, prompt, userInput);
   }
 
-  private async callDashscopeAPI(prompt: string, userInput: UserInput): Promise<string> {
-    // 使用阿里百炼API
-    const response = await fetch(`${this.aiConfig.baseUrl}/services/aigc/text-generation/generation`, {
+  // OpenAI 兼容接口（OpenAI、DashScope 兼容模式等），使用 JSON 模式输出
+  private async callChatCompletionsAPI(aiConfig: AIServiceConfig, prompt: string, userInput: UserInput): Promise<string> {
+    const text = userInput.text || '用户提供了多媒体内容';
+    const userContent = userInput.images && userInput.images.length > 0
+      ? [
+        { type: 'text', text },
+        ...userInput.images.map(img => ({ type: 'image_url', image_url: { url: img } }))
+      ]
+      : text;
+
+    const response = await fetch(`${aiConfig.baseUrl.replace(/\/$/, '')}/chat/completions`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.aiConfig.apiKey}`
+        ...(aiConfig.apiKey ? { 'Authorization': `Bearer ${aiConfig.apiKey}` } : {})
       },
       body: JSON.stringify({
-        model: this.aiConfig.model,
-        input: {
-          prompt: `${prompt}\n\n用户输入：${userInput.text || '多媒体内容'}`
-        },
-        parameters: {
-          temperature: 0.1,
-          max_tokens: 1000
-        }
-      })
+        model: aiConfig.model,
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: userContent }
+        ],
+        temperature: aiConfig.temperature,
+        max_tokens: 1000,
+        response_format: { type: 'json_object' }
+      }),
+      signal: AbortSignal.timeout(aiConfig.timeoutMs)
     });
 
     if (!response.ok) {
-      throw new Error(`Dashscope API error: ${response.statusText}`);
+      throw new Error(`${aiConfig.provider} API error: ${response.status} ${response.statusText}`);
     }
 
     const data = await response.json() as any;
-    return data.output.text;
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error(`${aiConfig.provider} API returned no message content`);
+    }
+    return content;
   }
 
-  private async callOllamaAPI(prompt: string, userInput: UserInput): Promise<string> {
-    // 使用本地Ollama API
-    const response = await fetch(`${this.aiConfig.baseUrl}/api/generate`, {
+  // 本地 Ollama，使用 format: json 约束输出
+  private async callOllamaAPI(aiConfig: AIServiceConfig, prompt: string, userInput: UserInput): Promise<string> {
+    const response = await fetch(`${aiConfig.baseUrl.replace(/\/$/, '')}/api/chat`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({
-        model: this.aiConfig.model,
-        prompt: `${prompt}\n\n用户输入：${userInput.text || '多媒体内容'}`,
+        model: aiConfig.model,
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: userInput.text || '多媒体内容' }
+        ],
+        format: 'json',
         stream: false,
         options: {
-          temperature: 0.1,
+          temperature: aiConfig.temperature,
           num_predict: 1000
         }
-      })
+      }),
+      signal: AbortSignal.timeout(aiConfig.timeoutMs)
     });
 
     if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.statusText}`);
+      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
     }
 
     const data = await response.json() as any;
-    return data.response;
-  }
-
-  private parseAIResponse(aiResponse: string, taskType: string): IntentAnalysisResult {
-    try {
-      // 尝试解析JSON响应
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          needsMCP: parsed.needsMCP || false,
-          confidence: parsed.confidence || 0.5,
-          taskType: taskType as any,
-          recommendedTool: parsed.recommendedTool,
-          reasoning: parsed.reasoning || 'AI分析结果',
-          suggestedWorkflow: parsed.suggestedWorkflow
-        };
-      }
-    } catch (error) {
-      logger.warn('Failed to parse AI response as JSON:', error);
+    const content = data.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Ollama API returned no message content');
     }
-
-    // 如果解析失败，使用文本分析
-    return this.parseTextResponse(aiResponse, taskType);
+    return content;
   }
-
-  private parseTextResponse(aiResponse: string, taskType: string): IntentAnalysisResult {
-    const lowerResponse = aiResponse.toLowerCase();
-    
-    // 检测是否需要MCP工具
-    const needsMCP = lowerResponse.includes('需要') || 
-                     lowerResponse.includes('推荐') || 
-                     lowerResponse.includes('使用工具');
-    
-    return {
-      needsMCP,
-      confidence: needsMCP ? 0.7 : 0.3,
-      taskType: taskType as any,
-      reasoning: aiResponse,
-      suggestedWorkflow: needsMCP ? ['分析用户需求', '选择合适工具', '执行任务'] : ['直接对话回复']
-    };
-  }
-
-  private fallbackAnalysis(userInput: UserInput, availableTools: any[]): IntentAnalysisResult {
-    const text = userInput.text?.toLowerCase() || '';
-    
-    // 检测是否询问工具列表
-    const toolListKeywords = ['支持哪些', '有哪些工具', '工具列表', 'mcp服务', 'mcp工具', '可用工具', '功能列表'];
-    if (toolListKeywords.some(keyword => text.includes(keyword))) {
-      return {
-        needsMCP: false,
-        confidence: 0.9,
-        taskType: this.detectTaskType(userInput),
-        reasoning: '用户询问可用工具列表，应返回实际连接的MCP服务和工具信息',
-        suggestedWorkflow: ['获取当前连接的MCP服务列表', '展示每个服务的可用工具', '提供工具使用示例']
-      };
-    }
-    
-    // 简单的关键词匹配 - 只匹配实际存在的工具
-    const patterns = [
-      { keywords: ['记住', '保存', '记录'], serviceId: 'memory', toolName: 'store_memory' },
-      { keywords: ['回忆', '查找', '搜索记忆'], serviceId: 'memory', toolName: 'search_memory' },
-      { keywords: ['读取文件', '查看文件'], serviceId: 'filesystem', toolName: 'read_file' },
-      { keywords: ['写入文件', '保存文件'], serviceId: 'filesystem', toolName: 'write_file' },
-      { keywords: ['删除文件'], serviceId: 'filesystem', toolName: 'delete_file' },
-      { keywords: ['列出文件', '文件列表'], serviceId: 'filesystem', toolName: 'list_files' },
-      { keywords: ['查找文件'], serviceId: 'filesystem', toolName: 'find_files' }
-    ];
-
-    for (const pattern of patterns) {
-      if (pattern.keywords.some(keyword => text.includes(keyword))) {
-        const tool = availableTools.find(t => t.serviceId === pattern.serviceId && t.name === pattern.toolName);
-        if (tool) {
-          return {
-            needsMCP: true,
-            confidence: 0.6,
-            taskType: this.detectTaskType(userInput),
-            recommendedTool: {
-              serviceId: pattern.serviceId,
-              toolName: pattern.toolName,
-              arguments: {},
-              reasoning: `关键词匹配：${pattern.keywords.join(', ')}`
-            },
-            reasoning: '基于关键词匹配的降级分析'
-          };
-        }
-      }
-    }
-
-    return {
-      needsMCP: false,
-      confidence: 0.5,
-      taskType: this.detectTaskType(userInput),
-      reasoning: '未检测到需要特定工具的意图，建议直接对话'
-    };
-  }
-
-  // 更新AI配置
-  updateAIConfig(newConfig: Partial<AIServiceConfig>): void {
-    this.aiConfig = { ...this.aiConfig, ...newConfig };
-    logger.info('AI configuration updated', { provider: this.aiConfig.provider });
-  }
-
-  // 获取当前AI配置
-  getAIConfig(): AIServiceConfig {
-    return { ...this.aiConfig };
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import * as joi from 'joi';
+import { logger } from '../utils/logger';
+import { INTENT_CAPABILITIES, IntentCapability, IntentAttachments } from './capabilities';
+
+// 路由决策摘要：插件执行前展示给用户的内容
+export interface RoutingDecisionSummary {
+  strategy: 'mcp_tool' | 'specialized_command' | 'enhanced_chat' | 'traditional_chat';
+  capability?: IntentCapability;
+  command?: string;
+  // serviceId/toolName
+  tool?: string;
+  confidence?: number;
+}
+
+// 用户在确认路由时做出的纠正：改为普通对话（capability 为 null）或改用另一个能力
+export interface IntentCorrection {
+  id: string;
+  userInput: string;
+  attachments: IntentAttachments;
+  predicted: RoutingDecisionSummary;
+  corrected: {
+    capability: IntentCapability | null;
+  };
+  createdAt: number;
+}
+
+export type IntentCorrectionInput = Omit<IntentCorrection, 'id' | 'createdAt'>;
+
+export const intentCorrectionSchema = joi.object({
+  userInput: joi.string().trim().min(1).max(4000).required(),
+  attachments: joi.object({
+    images: joi.number().integer().min(0).default(0),
+    files: joi.number().integer().min(0).default(0)
+  }).default({ images: 0, files: 0 }),
+  predicted: joi.object({
+    strategy: joi.string().valid('mcp_tool', 'specialized_command', 'enhanced_chat', 'traditional_chat').required(),
+    capability: joi.string().valid(...INTENT_CAPABILITIES).optional(),
+    command: joi.string().optional(),
+    tool: joi.string().optional(),
+    confidence: joi.number().min(0).max(1).optional()
+  }).required(),
+  corrected: joi.object({
+    capability: joi.string().valid(...INTENT_CAPABILITIES).allow(null).required()
+  }).required()
+});
+
+// 中文按相邻两字、其他语言按单词切分，用于挑选与当前输入相近的示例
+function tokenize(text: string): Set<string> {
+  const tokens = new Set<string>();
+  const lower = text.toLowerCase();
+  for (const word of lower.match(/[a-z0-9]+/g) || []) {
+    tokens.add(word);
+  }
+  for (const segment of lower.match(/[一-鿿]+/g) || []) {
+    for (let i = 0; i < segment.length - 1; i++) {
+      tokens.add(segment.slice(i, i + 2));
+    }
+    if (segment.length === 1) {
+      tokens.add(segment);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 路由纠正记录：插件确认模式下用户的纠正保存在 JSON 文件中，作为少样本示例加入意图分析提示词
+ */
+export class IntentCorrectionStore {
+  private static instance: IntentCorrectionStore;
+  private corrections: IntentCorrection[] = [];
+  private filePath?: string;
+  private maxCorrections = 200;
+
+  static getInstance(): IntentCorrectionStore {
+    if (!IntentCorrectionStore.instance) {
+      IntentCorrectionStore.instance = new IntentCorrectionStore();
+    }
+    return IntentCorrectionStore.instance;
+  }
+
+  /**
+   * 设置存储文件和数量上限，文件变化时重新加载（服务启动和配置变更时调用）
+   */
+  configure(correctionsPath: string, maxCorrections: number): void {
+    const resolved = path.resolve(correctionsPath);
+    this.maxCorrections = maxCorrections;
+    if (this.filePath !== resolved) {
+      this.filePath = resolved;
+      this.corrections = this.load(resolved);
+      logger.info(`Loaded ${this.corrections.length} intent corrections`, { correctionsPath });
+    }
+    this.trim();
+  }
+
+  list(): IntentCorrection[] {
+    return [...this.corrections];
+  }
+
+  add(input: IntentCorrectionInput): IntentCorrection {
+    const correction: IntentCorrection = { ...input, id: randomUUID(), createdAt: Date.now() };
+    // 同一输入只保留最新的纠正
+    this.corrections = this.corrections.filter(item => item.userInput !== correction.userInput);
+    this.corrections.push(correction);
+    this.trim();
+    this.save();
+    return correction;
+  }
+
+  remove(id: string): boolean {
+    const count = this.corrections.length;
+    this.corrections = this.corrections.filter(item => item.id !== id);
+    if (this.corrections.length === count) {
+      return false;
+    }
+    this.save();
+    return true;
+  }
+
+  clear(): void {
+    this.corrections = [];
+    this.save();
+  }
+
+  /**
+   * 挑选与输入相近的纠正作为少样本示例，相似度相同时较新的优先，没有共同词的不使用
+   */
+  examples(text: string, limit: number): IntentCorrection[] {
+    if (limit <= 0 || this.corrections.length === 0) {
+      return [];
+    }
+    const tokens = tokenize(text);
+    return this.corrections
+      .map((correction, index) => {
+        const other = tokenize(correction.userInput);
+        let shared = 0;
+        other.forEach(token => { if (tokens.has(token)) shared++; });
+        return { correction, index, score: shared / Math.max(1, Math.min(tokens.size, other.size)) };
+      })
+      .filter(item => item.score > 0)
+      .sort((a, b) => b.score - a.score || b.index - a.index)
+      .slice(0, limit)
+      .map(item => item.correction);
+  }
+
+  private trim(): void {
+    if (this.maxCorrections > 0 && this.corrections.length > this.maxCorrections) {
+      this.corrections = this.corrections.slice(-this.maxCorrections);
+    }
+  }
+
+  private load(filePath: string): IntentCorrection[] {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      return Array.isArray(parsed?.corrections) ? parsed.corrections : [];
+    } catch (error) {
+      logger.error(`Failed to load intent corrections from ${filePath}`, error);
+      return [];
+    }
+  }
+
+  // 先写临时文件再重命名，与任务存储一致
+  private save(): void {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify({ version: 1, corrections: this.corrections }, null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      logger.error('Failed to save intent corrections', error);
+    }
+  }
+}
+
+export const intentCorrections = IntentCorrectionStore.getInstance();
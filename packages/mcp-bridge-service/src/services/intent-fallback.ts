@@ -0,0 +1,62 @@
+import type { IntentAnalysisResult, IntentTaskType } from './intent-analyzer';
+import { intentRules, IntentRuleEngine } from './intent-rules';
+import { CAPABILITIES, IntentAttachments } from './capabilities';
+
+// 可用工具（与 /api/analyze-intent 的 availableTools 一致）
+export interface IntentTool {
+  serviceId: string;
+  name: string;
+  description?: string;
+  inputSchema?: any;
+}
+
+/**
+ * 规则意图分析：高置信度规则跳过模型直接返回，模型不可用、调用失败或输出未通过校验时作为降级阶段
+ * 只推荐 availableTools 中实际存在的工具，规则见 intent-rules.ts
+ */
+export function analyzeIntentByKeywords(
+  text: string,
+  availableTools: IntentTool[],
+  taskType: IntentTaskType,
+  attachments?: IntentAttachments,
+  engine: IntentRuleEngine = intentRules
+): IntentAnalysisResult {
+  const match = engine.match(text, availableTools, attachments);
+  if (!match) {
+    return {
+      needsMCP: false,
+      confidence: 0.5,
+      taskType,
+      reasoning: '未命中意图规则，建议直接对话',
+      source: 'keyword'
+    };
+  }
+
+  const { rule } = match;
+  const capability = rule.target.capability;
+  const ruleTaskType = rule.taskType || (capability ? CAPABILITIES[capability].taskType : undefined);
+  const reasoning = `规则 ${rule.id} 命中：${match.matched}`;
+  const result: IntentAnalysisResult = {
+    needsMCP: false,
+    confidence: rule.confidence,
+    // 带附件时保留按模态判断的任务类型
+    taskType: taskType === 'text' && ruleTaskType ? ruleTaskType : taskType,
+    reasoning: rule.description ? `${rule.description}（${reasoning}）` : reasoning,
+    source: 'keyword',
+    ruleId: rule.id,
+    capability,
+    target: { ...rule.target, arguments: match.arguments }
+  };
+
+  if (rule.target.type === 'tool' && match.tool) {
+    result.needsMCP = true;
+    result.recommendedTool = {
+      serviceId: match.tool.serviceId,
+      toolName: match.tool.name,
+      arguments: match.arguments,
+      reasoning
+    };
+    result.target = { type: 'tool', serviceId: match.tool.serviceId, toolName: match.tool.name, arguments: match.arguments };
+  }
+  return result;
+}
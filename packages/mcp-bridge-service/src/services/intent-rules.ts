@@ -0,0 +1,511 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as joi from 'joi';
+import toml from 'toml';
+import { logger } from '../utils/logger';
+import type { IntentTaskType } from './intent-analyzer';
+import type { IntentTool } from './intent-fallback';
+import { INTENT_CAPABILITIES, IntentCapability, IntentAttachments, missingAttachment } from './capabilities';
+
+// 规则命中后的处理方式：调用 MCP 工具、使用插件能力、执行插件命令或直接对话
+export interface IntentRuleTarget {
+  type: 'tool' | 'capability' | 'command' | 'chat';
+  // tool：优先匹配 serviceId 下的工具，其次任意服务的同名工具
+  serviceId?: string;
+  toolName?: string;
+  // capability：插件专门命令对应的能力，见 capabilities.ts
+  capability?: IntentCapability;
+  // command：不属于能力的插件命令名（不带斜杠），如 list-tools
+  command?: string;
+  // 参数模板，字符串中的 ${name} 替换为捕获组，${a|b} 取第一个非空值，${input} 为完整输入
+  arguments?: Record<string, any>;
+}
+
+// 意图规则
+export interface IntentRule {
+  id: string;
+  description?: string;
+  // 优先级高的规则先匹配，相同时按文件中的顺序
+  priority: number;
+  // 任意语言的关键词，不区分大小写；纯 ASCII 关键词按整词匹配
+  keywords: string[];
+  // 正则表达式（不区分大小写），命名捕获组或编号捕获组用于参数模板
+  patterns: string[];
+  // 需要的能力：服务 ID、工具名或 serviceId/toolName，全部可用时规则才生效
+  // target 为 tool 时隐含需要该工具，为 capability 时隐含需要该能力的附件
+  requires: string[];
+  // 省略时使用 capability 的任务类型
+  taskType?: IntentTaskType;
+  // 命中后的置信度，达到 intent.ruleConfidenceThreshold 时跳过模型分析
+  confidence: number;
+  enabled: boolean;
+  target: IntentRuleTarget;
+}
+
+// 规则匹配结果
+export interface IntentRuleMatch {
+  rule: IntentRule;
+  matchedBy: 'keyword' | 'pattern';
+  // 命中的关键词或正则匹配到的文本
+  matched: string;
+  captures: Record<string, string>;
+  arguments: Record<string, any>;
+  // target 为 tool 时解析到的可用工具
+  tool?: IntentTool;
+}
+
+// 规则评估结果（测试路由使用）
+export interface IntentRuleEvaluation {
+  matches: IntentRuleMatch[];
+  // 命中但缺少所需能力的规则
+  skipped: Array<{ ruleId: string, missing: string[] }>;
+}
+
+// 规则加载状态
+export interface IntentRuleStatus {
+  path?: string;
+  // file 为规则文件，default 为内置规则（文件不存在时）
+  source: 'file' | 'default';
+  ruleCount: number;
+  loadedAt?: number;
+  // 最近一次加载失败的原因，失败时继续使用之前的规则
+  error?: string;
+}
+
+interface CompiledRule {
+  rule: IntentRule;
+  keywords: Array<{ keyword: string, test: (text: string) => boolean }>;
+  patterns: RegExp[];
+}
+
+const TASK_TYPES: IntentTaskType[] = ['text', 'image', 'audio', 'video', 'multimodal'];
+const NO_ATTACHMENTS: IntentAttachments = { images: 0, files: 0 };
+
+const ruleSchema = joi.object({
+  id: joi.string().required(),
+  description: joi.string().allow('').optional(),
+  priority: joi.number().default(0),
+  keywords: joi.array().items(joi.string().min(1)).default([]),
+  patterns: joi.array().items(joi.string().min(1)).default([]),
+  requires: joi.array().items(joi.string()).default([]),
+  taskType: joi.string().valid(...TASK_TYPES).optional(),
+  confidence: joi.number().min(0).max(1).default(0.6),
+  enabled: joi.boolean().default(true),
+  target: joi.object({
+    type: joi.string().valid('tool', 'capability', 'command', 'chat').required(),
+    serviceId: joi.string().optional(),
+    toolName: joi.string().when('type', { is: 'tool', then: joi.required(), otherwise: joi.forbidden() }),
+    capability: joi.string().valid(...INTENT_CAPABILITIES).when('type', { is: 'capability', then: joi.required(), otherwise: joi.forbidden() }),
+    command: joi.string().pattern(/^[\w-]+$/).when('type', { is: 'command', then: joi.required(), otherwise: joi.forbidden() }),
+    arguments: joi.object().unknown(true).optional()
+  }).required()
+}).or('keywords', 'patterns');
+
+const rulesFileSchema = joi.object({
+  rules: joi.array().items(ruleSchema).unique('id').required()
+}).unknown(true);
+
+/**
+ * 内置规则，规则文件不存在时使用
+ */
+export const DEFAULT_INTENT_RULES: IntentRule[] = validateRules([
+  {
+    id: 'tool-list',
+    description: '询问可用的 MCP 服务和工具',
+    priority: 100,
+    keywords: ['支持哪些', '有哪些工具', '工具列表', 'mcp服务', 'mcp工具', '可用工具', '功能列表',
+      'which tools', 'what tools', 'list tools', 'list your tools', 'available tools', 'mcp tools', 'mcp services'],
+    confidence: 0.95,
+    target: { type: 'command', command: 'list-tools' }
+  },
+  {
+    id: 'file-write',
+    priority: 60,
+    keywords: ['写入文件', '保存文件', '保存到文件', 'write to file', 'write to the file', 'save to file', 'save it to file'],
+    patterns: ['(?:写入|保存到?)文件\\s*(?<path>[\\w./\\\\-]+\\.\\w+)', '(?:write|save)(?: it| this)? to(?: the)? file\\s+(?<path>[\\w./\\\\-]+)'],
+    target: { type: 'tool', serviceId: 'filesystem', toolName: 'write_file', arguments: { path: '${path}' } }
+  },
+  {
+    id: 'file-delete',
+    priority: 60,
+    keywords: ['删除文件', 'delete file', 'delete the file', 'remove file', 'remove the file'],
+    target: { type: 'tool', serviceId: 'filesystem', toolName: 'delete_file' }
+  },
+  {
+    id: 'file-read',
+    priority: 60,
+    keywords: ['读取文件', '查看文件', '文件内容', 'read file', 'read the file', 'open the file', 'show the file', 'contents of the file'],
+    patterns: ['(?:读取|查看|打开)文件\\s*(?<path>[\\w./\\\\-]+\\.\\w+)', '(?:read|open|show)(?: me)?(?: the)? file\\s+(?<path>[\\w./\\\\-]+)'],
+    target: { type: 'tool', serviceId: 'filesystem', toolName: 'read_file', arguments: { path: '${path}' } }
+  },
+  {
+    id: 'file-list',
+    priority: 60,
+    keywords: ['列出文件', '文件列表', '有哪些文件', 'list files', 'list the files', 'list all files', 'show files in'],
+    target: { type: 'tool', serviceId: 'filesystem', toolName: 'list_files' }
+  },
+  {
+    id: 'file-find',
+    priority: 60,
+    keywords: ['查找文件', '搜索文件', 'find file', 'find files', 'search for files'],
+    target: { type: 'tool', serviceId: 'filesystem', toolName: 'find_files' }
+  },
+  {
+    id: 'memory-search',
+    priority: 50,
+    keywords: ['回忆', '搜索记忆', '之前说过', '我说过', '查找记忆', 'recall', 'what did i tell you', 'what did i say', 'did i mention', 'do you remember', 'search my memory', 'search memory'],
+    target: { type: 'tool', serviceId: 'memory', toolName: 'search_memory', arguments: { query: '${input}' } }
+  },
+  {
+    id: 'memory-store',
+    priority: 40,
+    // 记录、保存单独出现时多为普通用语（如“查看之前的记录”），只在句首作为指令时匹配
+    keywords: ['记住', '存储', 'remember', 'save a note', 'make a note', 'note that', 'keep in mind'],
+    patterns: [
+      '^(?:请|帮我)?(?:记住|记下来?|记录(?:一下|下来)?|保存(?:一下|下来)|存储)[:：,，\\s]*(?<content>.+)$',
+      '^(?:please\\s+)?(?:remember|note|keep in mind)(?:\\s+that)?[:,]?\\s+(?<content>.+)$',
+      '(?:save|make) a note[:,]?\\s*(?<content>.+)$'
+    ],
+    target: { type: 'tool', serviceId: 'memory', toolName: 'store_memory', arguments: { content: '${content|input}' } }
+  },
+  {
+    id: 'time',
+    priority: 30,
+    keywords: ['现在几点', '几点了', '当前时间', '现在时间', '今天的日期', '当前日期', 'what time', 'current time', "today's date", 'what day is it', 'what is the date'],
+    patterns: ['今天(?:是)?(?:几号|几月几[号日]|星期几|周几|什么日期|哪一?天)'],
+    target: { type: 'tool', serviceId: 'time', toolName: 'get_current_time' }
+  },
+  {
+    id: 'web-fetch',
+    priority: 20,
+    keywords: ['获取网页', '抓取网页', '打开网页', 'fetch the page', 'web page', 'webpage'],
+    patterns: ['(?<url>https?://[^\\s"\'<>]+)'],
+    target: { type: 'tool', serviceId: 'fetch', toolName: 'fetch_url', arguments: { url: '${url}' } }
+  },
+  {
+    id: 'image-edit',
+    priority: 15,
+    keywords: ['编辑图片', '修改图片', '修图', '背景改成', '背景换成', '去掉背景', 'edit the image', 'edit this image', 'edit the picture', 'change the background', 'remove the background'],
+    target: { type: 'capability', capability: 'image_edit' }
+  },
+  {
+    id: 'ocr',
+    priority: 15,
+    keywords: ['识别文字', '提取文字', '图片中的文字', '图片里的文字', '文字识别', 'ocr', 'extract the text', 'extract text', 'read the text', 'text in the image', 'text in this image'],
+    confidence: 0.8,
+    target: { type: 'capability', capability: 'ocr' }
+  },
+  {
+    id: 'file-analysis',
+    priority: 15,
+    keywords: ['分析文件', '分析文档', '分析附件', 'analyze the file', 'analyze this file', 'analyze the document', 'analyze this document', 'summarize the attached', 'summarize this document'],
+    patterns: ['(?:分析|总结|解读)(?:一下)?(?:这个|这份|这些|附件中?的)?(?:文件|文档|附件|表格|pdf)'],
+    target: { type: 'capability', capability: 'file_analysis' }
+  },
+  {
+    id: 'image-to-video',
+    priority: 15,
+    keywords: ['动起来', '图生视频', '把图片做成视频', '图片生成视频', 'animate', 'image to video', 'turn this image into a video', 'turn the image into a video'],
+    confidence: 0.75,
+    target: { type: 'capability', capability: 'image_to_video' }
+  },
+  {
+    id: 'qwen-tts',
+    priority: 12,
+    keywords: ['通义语音', '通义朗读', 'qwen语音', 'qwen-tts', 'qwen tts'],
+    patterns: ['^(?:请|帮我)?(?:用)?(?:通义|qwen)[- ]?(?:tts|语音|朗读)[:：]?\\s*(?<text>.+)$'],
+    confidence: 0.8,
+    target: { type: 'capability', capability: 'qwen_tts', arguments: { text: '${text|input}' } }
+  },
+  {
+    id: 'image-generation',
+    priority: 10,
+    // draw 单独出现时多为其他含义（如 draw a conclusion），只匹配明确的画图句式
+    keywords: ['生成图片', '生成图像', '生图', '画一', '画个', 'generate an image', 'generate a picture', 'create an image'],
+    patterns: [
+      '^(?:请|帮我)?(?:画一[张幅个只]?|画个|生成(?:一[张幅])?(?:图片|图像)[:：]?)\\s*(?<prompt>.+)$',
+      '^(?:please\\s+)?(?:draw|generate|create|make)\\s+(?:me\\s+)?(?:an?\\s+)?(?:\\w+\\s+)?(?:image|picture|illustration|drawing)\\s+of\\s+(?<prompt>.+)$',
+      '^(?:please\\s+)?(?:can you\\s+)?draw\\s+me\\s+(?:an?\\s+)?(?<prompt>.+)$'
+    ],
+    confidence: 0.75,
+    target: { type: 'capability', capability: 'image_generation', arguments: { prompt: '${prompt|input}' } }
+  },
+  {
+    id: 'text-to-speech',
+    priority: 10,
+    keywords: ['语音合成', '文字转语音', '转成语音', '朗读', '读出来', 'text to speech', 'read aloud', 'read it aloud', 'read this aloud', 'as speech'],
+    patterns: [
+      '^(?:请|帮我)?(?:朗读|语音合成)[:：]?\\s*(?<text>.+)$',
+      '^(?:请|帮我)?把\\s*(?<text>.+?)(?:转成语音|读出来)$',
+      '^(?:please\\s+)?read(?: this| it)? aloud[:,]?\\s+(?<text>.+)$'
+    ],
+    confidence: 0.75,
+    target: { type: 'capability', capability: 'text_to_speech', arguments: { text: '${text|input}' } }
+  },
+  {
+    id: 'text-to-video',
+    priority: 10,
+    keywords: ['生成视频', 'generate a video', 'make a video', 'make a short video', 'create a video'],
+    patterns: ['^(?:请|帮我)?生成一段(?<prompt>.+?)的视频$'],
+    confidence: 0.75,
+    target: { type: 'capability', capability: 'text_to_video', arguments: { prompt: '${prompt|input}' } }
+  },
+  {
+    id: 'summary',
+    priority: 10,
+    keywords: ['总结这个页面', '总结本页', '总结当前页面', '页面摘要', '页面总结', 'summarize this page', 'summarize the page', 'page summary'],
+    confidence: 0.8,
+    target: { type: 'capability', capability: 'summary' }
+  },
+  {
+    id: 'advanced-query',
+    priority: 10,
+    keywords: ['高级查询', '查询语句', 'logseq查询', 'advanced query', 'logseq query', 'datalog query', 'write a query'],
+    confidence: 0.75,
+    target: { type: 'capability', capability: 'advanced_query' }
+  },
+  {
+    id: 'graph-search',
+    priority: 5,
+    keywords: ['根据我的笔记', '在我的笔记', '我的笔记里', '相关笔记', '双链', 'based on my notes', 'in my notes', 'from my notes', 'my graph', 'linked pages'],
+    confidence: 0.7,
+    target: { type: 'capability', capability: 'graph_search' }
+  }
+]);
+
+function validateRules(rules: any[]): IntentRule[] {
+  const { value, error } = rulesFileSchema.validate({ rules });
+  if (error) {
+    throw new Error(`Invalid intent rules: ${error.message}`);
+  }
+  return value.rules;
+}
+
+/**
+ * 解析规则文件内容：JSON 为 { "rules": [...] } 或规则数组，TOML 为 [[rules]] 数组
+ */
+export function parseIntentRules(content: string, format: 'json' | 'toml'): IntentRule[] {
+  let parsed: any;
+  try {
+    parsed = format === 'toml' ? toml.parse(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse intent rules (${format}): ${error instanceof Error ? error.message : error}`);
+  }
+  const rules = validateRules(Array.isArray(parsed) ? parsed : parsed?.rules);
+  // 提前编译，正则写错时整个文件加载失败
+  rules.forEach(compileRule);
+  return rules;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compileRule(rule: IntentRule): CompiledRule {
+  const keywords = rule.keywords.map(keyword => {
+    const lower = keyword.toLowerCase();
+    if (/^[\x20-\x7e]+$/.test(keyword)) {
+      const regex = new RegExp(`(?<![a-z0-9])${escapeRegExp(lower)}(?![a-z0-9])`, 'i');
+      return { keyword, test: (text: string) => regex.test(text) };
+    }
+    return { keyword, test: (text: string) => text.toLowerCase().includes(lower) };
+  });
+  const patterns = rule.patterns.map(pattern => {
+    try {
+      return new RegExp(pattern, 'iu');
+    } catch (error) {
+      throw new Error(`Invalid pattern in intent rule "${rule.id}": ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  return { rule, keywords, patterns };
+}
+
+// 替换参数模板中的 ${name} 和 ${a|b}
+function renderArguments(template: Record<string, any> | undefined, captures: Record<string, string>): Record<string, any> {
+  const render = (value: any): any => {
+    if (typeof value === 'string') {
+      return value.replace(/\$\{([^}]+)\}/g, (_, names: string) =>
+        names.split('|').map(name => captures[name.trim()]).find(item => item) || ''
+      ).trim();
+    }
+    if (Array.isArray(value)) {
+      return value.map(render);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, render(item)]));
+    }
+    return value;
+  };
+  return render(template || {});
+}
+
+function resolveTool(target: IntentRuleTarget, tools: IntentTool[]): IntentTool | undefined {
+  return tools.find(tool => tool.serviceId === target.serviceId && tool.name === target.toolName) ||
+    tools.find(tool => tool.name === target.toolName);
+}
+
+function missingCapabilities(rule: IntentRule, tools: IntentTool[], attachments: IntentAttachments): string[] {
+  const capabilities = new Set<string>();
+  for (const tool of tools) {
+    capabilities.add(tool.serviceId);
+    capabilities.add(tool.name);
+    capabilities.add(`${tool.serviceId}/${tool.name}`);
+  }
+  const missing = rule.requires.filter(capability => !capabilities.has(capability));
+  if (rule.target.type === 'tool' && !resolveTool(rule.target, tools)) {
+    missing.push(rule.target.serviceId ? `${rule.target.serviceId}/${rule.target.toolName}` : rule.target.toolName!);
+  }
+  if (rule.target.type === 'capability') {
+    const attachment = missingAttachment(rule.target.capability!, attachments);
+    if (attachment) {
+      missing.push(attachment === 'image' ? 'attachment:image' : 'attachment');
+    }
+  }
+  return missing;
+}
+
+/**
+ * 意图规则引擎：从 JSON/TOML 规则文件加载多语言规则，文件修改后自动重新加载
+ */
+export class IntentRuleEngine {
+  private static instance: IntentRuleEngine;
+  private compiled: CompiledRule[] = DEFAULT_INTENT_RULES.map(compileRule);
+  private status: IntentRuleStatus = { source: 'default', ruleCount: DEFAULT_INTENT_RULES.length };
+  private watchedPath?: string;
+
+  static getInstance(): IntentRuleEngine {
+    if (!IntentRuleEngine.instance) {
+      IntentRuleEngine.instance = new IntentRuleEngine();
+    }
+    return IntentRuleEngine.instance;
+  }
+
+  /**
+   * 加载规则文件并监听修改（服务启动和 rulesPath 变更时调用）
+   */
+  start(rulesPath: string): void {
+    const resolved = path.resolve(rulesPath);
+    if (this.watchedPath === resolved) {
+      return;
+    }
+    this.stop();
+    this.load(resolved);
+    this.watchedPath = resolved;
+    // watchFile 基于轮询，编辑器替换文件或文件稍后创建时也能触发
+    fs.watchFile(resolved, { interval: 1000, persistent: false }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        logger.info(`Intent rules file changed, reloading: ${resolved}`);
+        this.load(resolved);
+      }
+    });
+  }
+
+  stop(): void {
+    if (this.watchedPath) {
+      fs.unwatchFile(this.watchedPath);
+      this.watchedPath = undefined;
+    }
+  }
+
+  /**
+   * 加载规则文件，文件不存在时使用内置规则，解析或校验失败时保留之前的规则
+   */
+  load(rulesPath: string): IntentRuleStatus {
+    const resolved = path.resolve(rulesPath);
+    if (!fs.existsSync(resolved)) {
+      this.compiled = DEFAULT_INTENT_RULES.map(compileRule);
+      this.status = { path: resolved, source: 'default', ruleCount: DEFAULT_INTENT_RULES.length, loadedAt: Date.now() };
+      return this.getStatus();
+    }
+
+    try {
+      const format = path.extname(resolved).toLowerCase() === '.toml' ? 'toml' : 'json';
+      const rules = parseIntentRules(fs.readFileSync(resolved, 'utf8'), format);
+      this.compiled = rules.map(compileRule);
+      this.status = { path: resolved, source: 'file', ruleCount: rules.length, loadedAt: Date.now() };
+      logger.info(`Loaded ${rules.length} intent rules from ${resolved}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.status = { ...this.status, path: resolved, error: message };
+      logger.error(`Failed to load intent rules, keeping previous rules: ${message}`);
+    }
+    return this.getStatus();
+  }
+
+  /**
+   * 重新加载当前规则文件
+   */
+  reload(): IntentRuleStatus {
+    return this.status.path ? this.load(this.status.path) : this.getStatus();
+  }
+
+  getStatus(): IntentRuleStatus {
+    return { ...this.status };
+  }
+
+  getRules(): IntentRule[] {
+    return this.compiled.map(item => item.rule);
+  }
+
+  /**
+   * 按优先级评估所有规则，返回可用的命中规则和缺少能力的命中规则
+   */
+  evaluate(text: string, tools: IntentTool[], attachments: IntentAttachments = NO_ATTACHMENTS): IntentRuleEvaluation {
+    const evaluation: IntentRuleEvaluation = { matches: [], skipped: [] };
+    const ordered = this.compiled
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => item.rule.enabled)
+      .sort((a, b) => b.item.rule.priority - a.item.rule.priority || a.index - b.index);
+
+    for (const { item } of ordered) {
+      const hit = this.matchRule(item, text);
+      if (!hit) {
+        continue;
+      }
+      const missing = missingCapabilities(item.rule, tools, attachments);
+      if (missing.length > 0) {
+        evaluation.skipped.push({ ruleId: item.rule.id, missing });
+        continue;
+      }
+      evaluation.matches.push({
+        rule: item.rule,
+        ...hit,
+        arguments: renderArguments(item.rule.target.arguments, { ...hit.captures, input: text.trim() }),
+        tool: item.rule.target.type === 'tool' ? resolveTool(item.rule.target, tools) : undefined
+      });
+    }
+    return evaluation;
+  }
+
+  /**
+   * 返回优先级最高的可用命中规则
+   */
+  match(text: string, tools: IntentTool[], attachments: IntentAttachments = NO_ATTACHMENTS): IntentRuleMatch | null {
+    return this.evaluate(text, tools, attachments).matches[0] || null;
+  }
+
+  // 正则优先（可以提取参数），其次关键词
+  private matchRule(item: CompiledRule, text: string): Pick<IntentRuleMatch, 'matchedBy' | 'matched' | 'captures'> | null {
+    for (const pattern of item.patterns) {
+      const result = pattern.exec(text);
+      if (result) {
+        const captures: Record<string, string> = {};
+        result.slice(1).forEach((value, index) => {
+          if (value !== undefined) {
+            captures[String(index + 1)] = value;
+          }
+        });
+        for (const [name, value] of Object.entries(result.groups || {})) {
+          if (value !== undefined) {
+            captures[name] = value;
+          }
+        }
+        return { matchedBy: 'pattern', matched: result[0], captures };
+      }
+    }
+    const keyword = item.keywords.find(candidate => candidate.test(text));
+    return keyword ? { matchedBy: 'keyword', matched: keyword.keyword, captures: {} } : null;
+  }
+}
+
+export const intentRules = IntentRuleEngine.getInstance();
@@ -0,0 +1,397 @@
+import { QueueConfig } from '../config/types';
+import { logger } from '../utils/logger';
+
+// 任务优先级
+export type JobPriority = 'high' | 'normal' | 'low';
+
+// 队列中任务的状态
+export type JobState = 'queued' | 'running' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+
+// 入队参数
+export interface JobOptions {
+  // 与任务仓库中的任务 ID 一致
+  id: string;
+  // 任务类型，如 tts、image、qwen-t2v
+  kind: string;
+  // 限流分组，同一提供商共享并发数和速率限制
+  provider: string;
+  priority?: JobPriority;
+  // 覆盖配置中的最大重试次数
+  maxRetries?: number;
+  // 执行任务，取消时 signal 会被中止
+  run: (signal: AbortSignal, attempt: number) => Promise<void>;
+  // 判断错误是否值得重试，默认只重试网络错误、429 和 5xx
+  isRetryable?: (error: Error) => boolean;
+  onRetry?: (error: Error, attempt: number, delay: number) => void;
+  // 重试用尽后的最终失败
+  onFailed?: (error: Error) => void;
+  onCancel?: () => void;
+}
+
+// 任务信息
+export interface JobInfo {
+  id: string;
+  kind: string;
+  provider: string;
+  priority: JobPriority;
+  state: JobState;
+  attempts: number;
+  enqueuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  nextRetryAt?: number;
+  error?: string;
+}
+
+// 提供商统计
+export interface ProviderStats {
+  provider: string;
+  concurrency: number;
+  ratePerMinute: number;
+  running: number;
+  queued: number;
+  startedLastMinute: number;
+}
+
+interface Job extends JobInfo {
+  options: JobOptions;
+  sequence: number;
+  controller?: AbortController;
+  retryTimer?: NodeJS.Timeout;
+  waiters: Array<(info: JobInfo) => void>;
+}
+
+const PRIORITY_ORDER: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+const DEFAULT_QUEUE_CONFIG: QueueConfig = {
+  defaultConcurrency: 2,
+  defaultRatePerMinute: 0,
+  maxRetries: 2,
+  retryBaseDelayMs: 2000,
+  providers: {}
+};
+
+// 重试间隔上限
+const MAX_RETRY_DELAY = 60 * 1000;
+
+// 保留的已结束任务信息数量
+const MAX_FINISHED_JOBS = 200;
+
+const RATE_WINDOW = 60 * 1000;
+
+// 错误信息中紧跟在前缀后的 HTTP 状态码，如 "API error: 503 ..."、"调用失败 (429): ..."
+const RETRYABLE_STATUS_PATTERN = /(?:error|failed|失败)(?::\s*|\s*\()(?:429|5\d\d)\b/i;
+
+const NETWORK_ERROR_PATTERN = /timeout|timed out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|fetch failed|socket hang up/i;
+
+/**
+ * 默认的可重试判断：网络错误、超时、429 和 5xx
+ * 状态码取错误的 status 字段，或错误信息前缀后的状态码，正文中的其他数字（如尺寸 512）不算
+ */
+export function isTransientError(error: Error): boolean {
+  const status = (error as Error & { status?: unknown }).status;
+  if (typeof status === 'number') {
+    return status === 429 || (status >= 500 && status < 600);
+  }
+  return RETRYABLE_STATUS_PATTERN.test(error.message) || NETWORK_ERROR_PATTERN.test(error.message);
+}
+
+/**
+ * 可被 await 中止的等待
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Job cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Job cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 合并取消信号和超时（Node 18 没有 AbortSignal.any）
+ */
+export function withTimeout(ms: number, signal?: AbortSignal): AbortSignal {
+  if (!signal) {
+    return AbortSignal.timeout(ms);
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`Request timed out after ${ms}ms`)), ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    controller.abort(signal.reason);
+  };
+  if (signal.aborted) {
+    onAbort();
+  } else {
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * 统一任务队列：按提供商限制并发数和每分钟启动次数，按优先级调度，失败后指数退避重试，支持取消
+ */
+export class JobQueue {
+  private static instance: JobQueue;
+  private config: QueueConfig = DEFAULT_QUEUE_CONFIG;
+  private jobs = new Map<string, Job>();
+  private queued: Job[] = [];
+  private running = new Map<string, number>();
+  private starts = new Map<string, number[]>();
+  private sequence = 0;
+  private pumpTimer?: NodeJS.Timeout;
+
+  static getInstance(): JobQueue {
+    if (!JobQueue.instance) {
+      JobQueue.instance = new JobQueue();
+    }
+    return JobQueue.instance;
+  }
+
+  /**
+   * 更新队列配置（启动和配置变更时调用）
+   */
+  configure(config: QueueConfig): void {
+    this.config = { ...DEFAULT_QUEUE_CONFIG, ...config };
+    this.pump();
+  }
+
+  private limitsFor(provider: string): { concurrency: number, ratePerMinute: number } {
+    const limits = this.config.providers?.[provider] || {};
+    return {
+      concurrency: limits.concurrency ?? this.config.defaultConcurrency,
+      ratePerMinute: limits.ratePerMinute ?? this.config.defaultRatePerMinute
+    };
+  }
+
+  private recentStarts(provider: string): number[] {
+    const now = Date.now();
+    const starts = (this.starts.get(provider) || []).filter(time => now - time < RATE_WINDOW);
+    this.starts.set(provider, starts);
+    return starts;
+  }
+
+  /**
+   * 加入队列，同一 ID 的任务未结束时不会重复入队
+   */
+  enqueue(options: JobOptions): JobInfo {
+    const existing = this.jobs.get(options.id);
+    if (existing && !this.isFinished(existing)) {
+      return this.toInfo(existing);
+    }
+
+    const job: Job = {
+      id: options.id,
+      kind: options.kind,
+      provider: options.provider,
+      priority: options.priority || 'normal',
+      state: 'queued',
+      attempts: 0,
+      enqueuedAt: Date.now(),
+      options,
+      sequence: this.sequence++,
+      waiters: []
+    };
+    this.jobs.set(job.id, job);
+    this.insert(job);
+    logger.info(`Job queued: ${job.id}`, { kind: job.kind, provider: job.provider, priority: job.priority });
+    this.pump();
+    return this.toInfo(job);
+  }
+
+  // 按优先级和入队顺序插入
+  private insert(job: Job): void {
+    const index = this.queued.findIndex(item =>
+      PRIORITY_ORDER[item.priority] > PRIORITY_ORDER[job.priority] ||
+      (item.priority === job.priority && item.sequence > job.sequence)
+    );
+    if (index < 0) {
+      this.queued.push(job);
+    } else {
+      this.queued.splice(index, 0, job);
+    }
+  }
+
+  // 启动所有满足限制的任务，受速率限制时在窗口释放后再次调度
+  private pump(): void {
+    if (this.pumpTimer) {
+      clearTimeout(this.pumpTimer);
+      this.pumpTimer = undefined;
+    }
+    let nextWake = Infinity;
+
+    for (const job of [...this.queued]) {
+      const { concurrency, ratePerMinute } = this.limitsFor(job.provider);
+      if ((this.running.get(job.provider) || 0) >= concurrency) {
+        continue;
+      }
+      if (ratePerMinute > 0) {
+        const starts = this.recentStarts(job.provider);
+        if (starts.length >= ratePerMinute) {
+          nextWake = Math.min(nextWake, starts[0] + RATE_WINDOW - Date.now());
+          continue;
+        }
+      }
+      this.queued.splice(this.queued.indexOf(job), 1);
+      void this.start(job);
+    }
+
+    if (nextWake !== Infinity) {
+      this.pumpTimer = setTimeout(() => this.pump(), Math.max(nextWake, 100));
+    }
+  }
+
+  private async start(job: Job): Promise<void> {
+    job.state = 'running';
+    job.attempts++;
+    job.startedAt = Date.now();
+    job.nextRetryAt = undefined;
+    job.controller = new AbortController();
+    this.running.set(job.provider, (this.running.get(job.provider) || 0) + 1);
+    this.recentStarts(job.provider).push(Date.now());
+
+    try {
+      await job.options.run(job.controller.signal, job.attempts);
+      if (job.state === 'running') {
+        this.finish(job, 'completed');
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      if (job.state !== 'running') {
+        // 已取消
+        return;
+      }
+      const maxRetries = job.options.maxRetries ?? this.config.maxRetries;
+      const retryable = (job.options.isRetryable || isTransientError)(error);
+      if (retryable && job.attempts <= maxRetries) {
+        this.scheduleRetry(job, error);
+      } else {
+        job.error = error.message;
+        this.finish(job, 'failed');
+        logger.error(`Job failed: ${job.id} after ${job.attempts} attempt(s)`, { error: error.message });
+        job.options.onFailed?.(error);
+      }
+    } finally {
+      job.controller = undefined;
+      this.running.set(job.provider, Math.max((this.running.get(job.provider) || 1) - 1, 0));
+      this.pump();
+    }
+  }
+
+  private scheduleRetry(job: Job, error: Error): void {
+    const delay = Math.min(this.config.retryBaseDelayMs * 2 ** (job.attempts - 1), MAX_RETRY_DELAY);
+    job.state = 'retrying';
+    job.error = error.message;
+    job.nextRetryAt = Date.now() + delay;
+    logger.warn(`Job ${job.id} failed (attempt ${job.attempts}), retrying in ${delay}ms`, { error: error.message });
+    job.options.onRetry?.(error, job.attempts, delay);
+    job.retryTimer = setTimeout(() => {
+      job.retryTimer = undefined;
+      if (job.state === 'retrying') {
+        job.state = 'queued';
+        this.insert(job);
+        this.pump();
+      }
+    }, delay);
+  }
+
+  private isFinished(job: Job): boolean {
+    return job.state === 'completed' || job.state === 'failed' || job.state === 'cancelled';
+  }
+
+  private finish(job: Job, state: 'completed' | 'failed' | 'cancelled'): void {
+    job.state = state;
+    job.finishedAt = Date.now();
+    const info = this.toInfo(job);
+    for (const resolve of job.waiters.splice(0)) {
+      resolve(info);
+    }
+    this.pruneFinished();
+  }
+
+  private pruneFinished(): void {
+    const finished = Array.from(this.jobs.values()).filter(job => this.isFinished(job));
+    for (const job of finished.slice(0, Math.max(finished.length - MAX_FINISHED_JOBS, 0))) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  /**
+   * 取消任务：排队中的直接移除，运行中的中止 signal
+   * @returns 任务不存在或已结束时返回 false
+   */
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || this.isFinished(job)) {
+      return false;
+    }
+    if (job.retryTimer) {
+      clearTimeout(job.retryTimer);
+      job.retryTimer = undefined;
+    }
+    const index = this.queued.indexOf(job);
+    if (index >= 0) {
+      this.queued.splice(index, 1);
+    }
+    job.controller?.abort();
+    this.finish(job, 'cancelled');
+    logger.info(`Job cancelled: ${id}`);
+    job.options.onCancel?.();
+    this.pump();
+    return true;
+  }
+
+  /**
+   * 等待任务结束（完成、失败或取消）
+   */
+  waitFor(id: string): Promise<JobInfo | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return Promise.resolve(undefined);
+    }
+    if (this.isFinished(job)) {
+      return Promise.resolve(this.toInfo(job));
+    }
+    return new Promise(resolve => job.waiters.push(resolve));
+  }
+
+  get(id: string): JobInfo | undefined {
+    const job = this.jobs.get(id);
+    return job ? this.toInfo(job) : undefined;
+  }
+
+  list(): JobInfo[] {
+    return Array.from(this.jobs.values()).map(job => this.toInfo(job));
+  }
+
+  getStats(): ProviderStats[] {
+    const providers = new Set<string>([
+      ...Object.keys(this.config.providers || {}),
+      ...Array.from(this.jobs.values()).map(job => job.provider)
+    ]);
+    return Array.from(providers).map(provider => ({
+      provider,
+      ...this.limitsFor(provider),
+      running: this.running.get(provider) || 0,
+      queued: this.queued.filter(job => job.provider === provider).length,
+      startedLastMinute: this.recentStarts(provider).length
+    }));
+  }
+
+  private toInfo(job: Job): JobInfo {
+    const { options, sequence, controller, retryTimer, waiters, ...info } = job;
+    return { ...info };
+  }
+}
+
+export const jobQueue = JobQueue.getInstance();
@@ -1,4 +1,5 @@
 import { logger } from '../utils/logger';
+import { ToolCallDecision } from '../config/types';
 import fs from 'fs';
 import path from 'path';
 
@@ -39,12 +40,24 @@ export interface MCPToolCallLog {
   result?: any;
   error?: string;
   duration: number;
+  decision?: ToolCallDecision;
+  originalArguments?: any;
+}
+
+// MCP服务进程输出日志（stdio 服务的 stderr 和进程生命周期事件）
+export interface MCPServiceLog {
+  id: string;
+  timestamp: string;
+  serviceId: string;
+  stream: 'stderr' | 'system';
+  message: string;
 }
 
 export class LoggingService {
   private apiCallLogs: APICallLog[] = [];
   private taskStatusLogs: TaskStatusLog[] = [];
   private mcpToolCallLogs: MCPToolCallLog[] = [];
+  private mcpServiceLogs: MCPServiceLog[] = [];
   private maxLogEntries = 1000; // 最大日志条目数
   private logDirectory: string;
 
@@ -139,12 +152,32 @@ export class LoggingService {
       serviceId: logEntry.serviceId,
       toolName: logEntry.toolName,
       duration: logEntry.duration,
+      decision: logEntry.decision,
       success: !logEntry.error
     });
 
     return logEntry.id;
   }
 
+  // 记录MCP服务进程输出
+  logMCPServiceOutput(data: Omit<MCPServiceLog, 'id' | 'timestamp'>): string {
+    const logEntry: MCPServiceLog = {
+      id: this.generateId(),
+      timestamp: new Date().toISOString(),
+      ...data
+    };
+
+    this.mcpServiceLogs.push(logEntry);
+    this.mcpServiceLogs = this.trimLogs(this.mcpServiceLogs);
+
+    // 记录到文件
+    this.writeLogToFile('mcp-services', logEntry);
+
+    logger.debug(`[${logEntry.serviceId}] ${logEntry.stream}: ${logEntry.message}`);
+
+    return logEntry.id;
+  }
+
   // 写入日志到文件
   private writeLogToFile(type: string, logEntry: any): void {
     try {
@@ -203,6 +236,32 @@ export class LoggingService {
     return logs;
   }
 
+  // 获取MCP服务进程输出日志
+  getMCPServiceLogs(serviceId?: string, stream?: string, limit?: number, offset?: number): MCPServiceLog[] {
+    let logs = [...this.mcpServiceLogs].reverse();
+
+    if (serviceId) {
+      logs = logs.filter(log => log.serviceId === serviceId);
+    }
+
+    if (stream) {
+      logs = logs.filter(log => log.stream === stream);
+    }
+
+    if (limit !== undefined) {
+      const start = offset || 0;
+      return logs.slice(start, start + limit);
+    }
+    return logs;
+  }
+
+  // 统计MCP服务进程输出日志数量（不分页）
+  countMCPServiceLogs(serviceId?: string, stream?: string): number {
+    return this.mcpServiceLogs.filter(log =>
+      (!serviceId || log.serviceId === serviceId) && (!stream || log.stream === stream)
+    ).length;
+  }
+
   // 获取统计信息
   getStatistics(): {
     totalAPICalls: number;
@@ -231,6 +290,7 @@ export class LoggingService {
     this.apiCallLogs = this.apiCallLogs.filter(log => log.timestamp > cutoffDate);
     this.taskStatusLogs = this.taskStatusLogs.filter(log => log.timestamp > cutoffDate);
     this.mcpToolCallLogs = this.mcpToolCallLogs.filter(log => log.timestamp > cutoffDate);
+    this.mcpServiceLogs = this.mcpServiceLogs.filter(log => log.timestamp > cutoffDate);
     
     logger.info('Old logs cleared', {
       cutoffDate,
@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+import { taskStore, StoredTask } from './task-store';
+import { logger } from '../utils/logger';
+
+// 推送给客户端的任务摘要（不含配置、结果数据等大字段）
+export interface TaskSummary {
+  id: string;
+  status: string;
+  type?: string;
+  filename?: string;
+  filePath?: string;
+  error?: string;
+  cancelled?: boolean;
+  pollCount?: number;
+  createdAt: number;
+  updatedAt?: number;
+  completedAt?: number;
+}
+
+// 任务事件
+export interface TaskEvent {
+  id: number;
+  repository: string;
+  task: TaskSummary;
+}
+
+const SUMMARY_FIELDS: Array<keyof TaskSummary> = [
+  'id', 'status', 'type', 'filename', 'filePath', 'error', 'cancelled', 'pollCount', 'createdAt', 'updatedAt', 'completedAt'
+];
+
+// 心跳间隔，防止代理断开空闲连接
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+// 客户端断线重连间隔
+const RECONNECT_DELAY = 3000;
+
+// 断线重连时可补发的事件数量
+const REPLAY_BUFFER_SIZE = 200;
+
+// 记录最近推送内容的任务数量上限，用于跳过没有变化的更新
+const MAX_TRACKED_TASKS = 1000;
+
+function summarize(task: StoredTask): TaskSummary {
+  const summary: Record<string, unknown> = {};
+  for (const field of SUMMARY_FIELDS) {
+    const value = (task as any)[field];
+    if (value !== undefined) {
+      summary[field] = value;
+    }
+  }
+  return summary as unknown as TaskSummary;
+}
+
+/**
+ * 任务事件流：通过 SSE（GET /api/events）推送任务状态变化，代替客户端轮询
+ * 客户端断线重连时带上 Last-Event-ID，补发错过的事件
+ * 事件 ID 为 <启动 ID>-<序号>，序号在服务重启后从头开始，启动 ID 不同时补发全部缓存的事件
+ */
+export class TaskEvents {
+  private static instance: TaskEvents;
+  private clients = new Set<Response>();
+  private buffer: TaskEvent[] = [];
+  private sequence = 0;
+  private readonly bootId = randomBytes(4).toString('hex');
+  private lastSent = new Map<string, string>();
+  private unsubscribe?: () => void;
+  private heartbeat?: NodeJS.Timeout;
+
+  static getInstance(): TaskEvents {
+    if (!TaskEvents.instance) {
+      TaskEvents.instance = new TaskEvents();
+    }
+    return TaskEvents.instance;
+  }
+
+  /**
+   * 订阅任务存储的变化并开始心跳
+   */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+    this.unsubscribe = taskStore.subscribe((repository, task) => this.publish(repository, task));
+    this.heartbeat = setInterval(() => {
+      for (const res of this.clients) {
+        res.write(': ping\n\n');
+      }
+    }, HEARTBEAT_INTERVAL);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * 推送任务变化，摘要与上次推送相同时跳过
+   */
+  publish(repository: string, task: StoredTask): void {
+    const summary = summarize(task);
+    const key = `${repository}:${task.id}`;
+    const serialized = JSON.stringify(summary);
+    if (this.lastSent.get(key) === serialized) {
+      return;
+    }
+    this.lastSent.delete(key);
+    this.lastSent.set(key, serialized);
+    if (this.lastSent.size > MAX_TRACKED_TASKS) {
+      this.lastSent.delete(this.lastSent.keys().next().value!);
+    }
+
+    const event: TaskEvent = { id: ++this.sequence, repository, task: summary };
+    this.buffer.push(event);
+    if (this.buffer.length > REPLAY_BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+    for (const res of this.clients) {
+      this.write(res, event);
+    }
+  }
+
+  private write(res: Response, event: TaskEvent): void {
+    res.write(`id: ${this.bootId}-${event.id}\nevent: task\ndata: ${JSON.stringify({ repository: event.repository, task: event.task })}\n\n`);
+  }
+
+  /**
+   * 处理 GET /api/events：保持连接并持续推送事件
+   */
+  handle(req: Request, res: Response): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+    // 补发断线期间错过的事件，上次连接的是重启前的服务时补发全部
+    const lastEventId = req.get('Last-Event-ID') ?? req.query.lastEventId;
+    if (typeof lastEventId === 'string' && lastEventId !== '') {
+      const [bootId, sequence] = lastEventId.split('-');
+      const after = bootId === this.bootId && Number.isFinite(Number(sequence)) ? Number(sequence) : 0;
+      for (const event of this.buffer) {
+        if (event.id > after) {
+          this.write(res, event);
+        }
+      }
+    }
+
+    this.clients.add(res);
+    logger.info(`Task event stream opened (${this.clients.size} clients)`);
+    req.on('close', () => {
+      this.clients.delete(res);
+      logger.info(`Task event stream closed (${this.clients.size} clients)`);
+    });
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * 结束所有事件流（服务关闭时调用，否则 HTTP 服务器会等待长连接）
+   */
+  close(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    for (const res of this.clients) {
+      res.end();
+    }
+    this.clients.clear();
+  }
+}
+
+export const taskEvents = TaskEvents.getInstance();
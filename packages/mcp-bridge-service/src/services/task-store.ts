@@ -0,0 +1,436 @@
+import fs from 'fs';
+import path from 'path';
+import { TaskStoreConfig } from '../config/types';
+import { logger } from '../utils/logger';
+
+// 可持久化的任务：至少包含 ID、状态和创建时间
+export interface StoredTask {
+  id: string;
+  status: string;
+  createdAt: number;
+  updatedAt?: number;
+  completedAt?: number;
+  // 被用户取消（状态同时为 failed）
+  cancelled?: boolean;
+}
+
+/**
+ * 任务仓库：与 Map 兼容的接口，修改会自动写入存储
+ * 直接修改任务的顶层字段会触发保存；修改嵌套字段（如数组 push）后调用 save(id)
+ */
+export interface TaskRepository<T extends StoredTask> {
+  readonly name: string;
+  readonly size: number;
+  get(id: string): T | undefined;
+  has(id: string): boolean;
+  set(id: string, task: T): this;
+  delete(id: string): boolean;
+  keys(): IterableIterator<string>;
+  values(): IterableIterator<T>;
+  entries(): IterableIterator<[string, T]>;
+  save(id: string): void;
+  // 未完成（pending / processing）的任务
+  unfinished(): T[];
+}
+
+// 仓库选项
+export interface TaskRepositoryOptions {
+  // 不写入磁盘的字段，支持点号路径，如 config.ttsApiKey
+  omit?: string[];
+}
+
+// 任务变化监听器：同一轮事件循环内的多次修改合并为一次通知
+export type TaskChangeListener = (repository: string, task: StoredTask) => void;
+
+/**
+ * 存储后端：整体读写所有仓库的任务
+ */
+export interface TaskStorageBackend {
+  load(): Record<string, StoredTask[]>;
+  save(data: Record<string, StoredTask[]>): void;
+}
+
+/**
+ * JSON 文件后端：先写临时文件再重命名，避免写入中断损坏文件
+ */
+export class JsonFileTaskBackend implements TaskStorageBackend {
+  constructor(private filePath: string) {}
+
+  load(): Record<string, StoredTask[]> {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      return parsed && typeof parsed.repositories === 'object' ? parsed.repositories : {};
+    } catch (error) {
+      // 文件损坏时保留备份，从空存储开始
+      const backup = `${this.filePath}.corrupt-${Date.now()}`;
+      fs.renameSync(this.filePath, backup);
+      logger.error(`Task store file is corrupt, moved to ${backup}`, error);
+      return {};
+    }
+  }
+
+  save(data: Record<string, StoredTask[]>): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ version: 1, savedAt: new Date().toISOString(), repositories: data }));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+// 未完成的任务状态
+const UNFINISHED_STATUSES = new Set(['pending', 'processing']);
+
+// 写入防抖间隔
+const SAVE_DEBOUNCE = 1000;
+
+// 超过此长度的 data: URL（base64 图片等）不写入磁盘
+const MAX_PERSISTED_DATA_URL_LENGTH = 1024;
+
+function isUnfinished(task: StoredTask): boolean {
+  return UNFINISHED_STATUSES.has(task.status);
+}
+
+function finishedAt(task: StoredTask): number {
+  return task.completedAt || task.updatedAt || task.createdAt || 0;
+}
+
+function omitPath(target: any, keys: string[]): void {
+  if (!target || typeof target !== 'object') {
+    return;
+  }
+  const [head, ...rest] = keys;
+  if (rest.length === 0) {
+    delete target[head];
+  } else {
+    omitPath(target[head], rest);
+  }
+}
+
+class Repository<T extends StoredTask> implements TaskRepository<T> {
+  private tasks = new Map<string, T>();
+  private proxies = new WeakSet<object>();
+
+  constructor(
+    readonly name: string,
+    private options: TaskRepositoryOptions,
+    private onChange: (id?: string) => void
+  ) {}
+
+  get size(): number {
+    return this.tasks.size;
+  }
+
+  // 包装任务对象，顶层字段赋值时触发保存和变化通知
+  private track(task: T): T {
+    if (this.proxies.has(task)) {
+      return task;
+    }
+    const proxy = new Proxy(task, {
+      set: (target, property, value) => {
+        (target as any)[property] = value;
+        this.onChange(target.id);
+        return true;
+      },
+      deleteProperty: (target, property) => {
+        delete (target as any)[property];
+        this.onChange(target.id);
+        return true;
+      }
+    });
+    this.proxies.add(proxy);
+    return proxy;
+  }
+
+  restore(tasks: T[]): void {
+    for (const task of tasks) {
+      if (task && typeof task.id === 'string') {
+        this.tasks.set(task.id, this.track(task));
+      }
+    }
+  }
+
+  get(id: string): T | undefined {
+    return this.tasks.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.tasks.has(id);
+  }
+
+  set(id: string, task: T): this {
+    this.tasks.set(id, this.track(task));
+    this.onChange(id);
+    return this;
+  }
+
+  delete(id: string): boolean {
+    const deleted = this.tasks.delete(id);
+    if (deleted) {
+      this.onChange();
+    }
+    return deleted;
+  }
+
+  keys(): IterableIterator<string> {
+    return this.tasks.keys();
+  }
+
+  values(): IterableIterator<T> {
+    return this.tasks.values();
+  }
+
+  entries(): IterableIterator<[string, T]> {
+    return this.tasks.entries();
+  }
+
+  save(id: string): void {
+    if (this.tasks.has(id)) {
+      this.onChange(id);
+    }
+  }
+
+  unfinished(): T[] {
+    return Array.from(this.tasks.values()).filter(isUnfinished);
+  }
+
+  // 按保留策略清理已结束的任务，返回清理数量
+  prune(retentionMs: { completed: number, failed: number }, maxTasks: number): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [id, task] of this.tasks.entries()) {
+      if (isUnfinished(task)) {
+        continue;
+      }
+      const retention = task.status === 'failed' ? retentionMs.failed : retentionMs.completed;
+      if (retention > 0 && now - finishedAt(task) > retention) {
+        this.tasks.delete(id);
+        removed++;
+      }
+    }
+
+    // 超出数量上限时从最早结束的任务开始删除
+    if (maxTasks > 0 && this.tasks.size > maxTasks) {
+      const finished = Array.from(this.tasks.values())
+        .filter(task => !isUnfinished(task))
+        .sort((a, b) => finishedAt(a) - finishedAt(b));
+      for (const task of finished.slice(0, this.tasks.size - maxTasks)) {
+        this.tasks.delete(task.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  serialize(): StoredTask[] {
+    const omitted = (this.options.omit || []).map(item => item.split('.'));
+    return Array.from(this.tasks.values()).map(task => {
+      const copy = JSON.parse(JSON.stringify(task, (_key, value) =>
+        typeof value === 'string' && value.startsWith('data:') && value.length > MAX_PERSISTED_DATA_URL_LENGTH
+          ? '[data url omitted]'
+          : value
+      ));
+      for (const keys of omitted) {
+        omitPath(copy, keys);
+      }
+      return copy;
+    });
+  }
+}
+
+/**
+ * 任务存储：管理所有任务仓库，启动时从磁盘恢复，修改后防抖写入，并按保留策略定期清理
+ * 未初始化时仓库只保存在内存中
+ */
+export class TaskStore {
+  private static instance: TaskStore;
+  private backend?: TaskStorageBackend;
+  private config?: TaskStoreConfig;
+  private loaded: Record<string, StoredTask[]> = {};
+  private repositories = new Map<string, Repository<any>>();
+  private saveTimer?: NodeJS.Timeout;
+  private cleanupTimer?: NodeJS.Timeout;
+  private listeners = new Set<TaskChangeListener>();
+  private changed = new Map<string, { repository: string, id: string }>();
+  private notifyScheduled = false;
+
+  static getInstance(): TaskStore {
+    if (!TaskStore.instance) {
+      TaskStore.instance = new TaskStore();
+    }
+    return TaskStore.instance;
+  }
+
+  /**
+   * 初始化存储并加载已保存的任务，需要在创建仓库之前调用
+   * @param config 任务存储配置
+   * @param backend 存储后端，默认为 JSON 文件
+   */
+  init(config: TaskStoreConfig, backend?: TaskStorageBackend): void {
+    this.config = config;
+    this.backend = backend || new JsonFileTaskBackend(path.resolve(config.storePath));
+    this.loaded = this.backend.load();
+
+    const count = Object.values(this.loaded).reduce((sum, tasks) => sum + (tasks?.length || 0), 0);
+    logger.info(`Task store loaded ${count} tasks`, { storePath: config.storePath });
+
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+    }
+    this.cleanupTimer = setInterval(() => this.cleanup(), config.cleanupIntervalMinutes * 60 * 1000);
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * 获取（或创建）指定名称的任务仓库，已保存的任务会被恢复
+   * @param name 仓库名称
+   * @param options 仓库选项
+   */
+  repository<T extends StoredTask>(name: string, options: TaskRepositoryOptions = {}): TaskRepository<T> {
+    const existing = this.repositories.get(name);
+    if (existing) {
+      return existing;
+    }
+    const repository = new Repository<T>(name, options, (id) => {
+      this.scheduleSave();
+      if (id) {
+        this.scheduleNotify(name, id);
+      }
+    });
+    repository.restore((this.loaded[name] || []) as T[]);
+    delete this.loaded[name];
+    this.repositories.set(name, repository);
+    return repository;
+  }
+
+  /**
+   * 订阅任务变化
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: TaskChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private scheduleNotify(repository: string, id: string): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+    this.changed.set(`${repository}:${id}`, { repository, id });
+    if (this.notifyScheduled) {
+      return;
+    }
+    this.notifyScheduled = true;
+    setImmediate(() => {
+      this.notifyScheduled = false;
+      const changed = Array.from(this.changed.values());
+      this.changed.clear();
+      for (const { repository, id } of changed) {
+        const task = this.repositories.get(repository)?.get(id);
+        if (!task) {
+          continue;
+        }
+        for (const listener of this.listeners) {
+          try {
+            listener(repository, task);
+          } catch (error) {
+            logger.error('Task change listener failed:', error);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * 把仓库中未完成的任务标记为失败（无法在重启后继续的任务）
+   * @param repository 任务仓库
+   * @param filter 返回 true 的任务会被跳过
+   */
+  failUnfinished<T extends StoredTask & { error?: string }>(repository: TaskRepository<T>, filter?: (task: T) => boolean): number {
+    let count = 0;
+    for (const task of repository.unfinished()) {
+      if (filter?.(task)) {
+        continue;
+      }
+      task.status = 'failed';
+      task.error = 'Interrupted by bridge service restart';
+      if ('updatedAt' in task) {
+        task.updatedAt = Date.now();
+      }
+      count++;
+    }
+    if (count > 0) {
+      logger.warn(`Marked ${count} interrupted ${repository.name} tasks as failed`);
+    }
+    return count;
+  }
+
+  /**
+   * 按保留策略清理已结束的任务
+   */
+  cleanup(): number {
+    if (!this.config) {
+      return 0;
+    }
+    const hour = 60 * 60 * 1000;
+    const retention = {
+      completed: this.config.completedRetentionHours * hour,
+      failed: this.config.failedRetentionHours * hour
+    };
+    let removed = 0;
+    for (const repository of this.repositories.values()) {
+      removed += repository.prune(retention, this.config.maxTasksPerType);
+    }
+    if (removed > 0) {
+      logger.info(`Task store cleanup removed ${removed} tasks`);
+      this.scheduleSave();
+    }
+    return removed;
+  }
+
+  private scheduleSave(): void {
+    if (!this.backend || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.flush();
+    }, SAVE_DEBOUNCE);
+  }
+
+  /**
+   * 立即写入所有任务（尚未创建仓库的已加载任务会原样保留）
+   */
+  flush(): void {
+    if (!this.backend) {
+      return;
+    }
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    const data: Record<string, StoredTask[]> = { ...this.loaded };
+    for (const [name, repository] of this.repositories.entries()) {
+      data[name] = repository.serialize();
+    }
+    try {
+      this.backend.save(data);
+    } catch (error) {
+      logger.error('Failed to save task store:', error);
+    }
+  }
+
+  close(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+    this.flush();
+  }
+}
+
+export const taskStore = TaskStore.getInstance();
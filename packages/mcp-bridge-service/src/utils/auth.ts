@@ -0,0 +1,50 @@
+import http from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * 生成图谱服务访问令牌
+ */
+export function generateAuthToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+/**
+ * 比较令牌，长度不同或未配置令牌时视为不匹配
+ */
+export function tokensMatch(provided: string | undefined, expected: string | undefined): boolean {
+  if (!provided || !expected) {
+    return false;
+  }
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * 从 Authorization: Bearer <token> 请求头中取出令牌
+ */
+export function bearerToken(header: string | undefined): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(header || '');
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * 检查请求是否携带了正确的令牌：Authorization 请求头，或 token 查询参数（浏览器 WebSocket 无法设置请求头）
+ */
+export function isAuthorizedRequest(req: http.IncomingMessage, expected: string | undefined, allowQuery = false): boolean {
+  if (tokensMatch(bearerToken(req.headers.authorization), expected)) {
+    return true;
+  }
+  if (!allowQuery) {
+    return false;
+  }
+  const token = new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+  return tokensMatch(token || undefined, expected);
+}
+
+/**
+ * 隐藏密钥，只保留末尾 4 位，与配置界面的掩码格式一致
+ */
+export function maskSecret(value: string | undefined): string {
+  return value ? '***' + value.slice(-4) : '';
+}